@@ -14,6 +14,7 @@ import Progress from './pages/Progress';
 import EditCard from './pages/EditCard';
 import Settings from './pages/Settings';
 import DeckDetails from './pages/DeckDetails';
+import LeechRepair from './pages/LeechRepair';
 import { UserProvider } from './contexts/UserContext';
 import { StudyProvider } from './contexts/StudyContext';
 import { ThemeProvider } from './contexts/ThemeContext';
@@ -36,7 +37,10 @@ function App() {
                   <Route path="/import" element={<ImportFlow />} />
                   <Route path="/dashboard" element={<Dashboard />} />
                   <Route path="/study/:deckId" element={<StudySession />} />
+                  <Route path="/study/filtered/:filteredDeckId" element={<StudySession />} />
                   <Route path="/deck/:deckId" element={<DeckDetails />} />
+                  <Route path="/deck/:deckId/leeches" element={<LeechRepair />} />
+                  <Route path="/leeches" element={<LeechRepair />} />
                   <Route path="/session-results" element={<SessionResults />} />
                   <Route path="/create" element={<CreateCards />} />
                   <Route path="/progress" element={<Progress />} />
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, X } from 'lucide-react';
+import { ApkgExporter } from '../lib/ankiExporter';
+
+/**
+ * ApkgExportDialog
+ * ----------------------------------------------
+ * Modal exporting a deck and its subdecks as an Anki .apkg file, with or
+ * without scheduling and review history.
+ */
+interface ApkgExportDialogProps {
+  deckId: string;
+  deckName: string;
+  onClose: () => void;
+}
+
+const ApkgExportDialog: React.FC<ApkgExportDialogProps> = ({ deckId, deckName, onClose }) => {
+  const [includeScheduling, setIncludeScheduling] = useState(true);
+  const [includeHistory, setIncludeHistory] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const withHistory = includeScheduling && includeHistory;
+      const data = await ApkgExporter.load(deckId, withHistory);
+      const bytes = await ApkgExporter.build(data, { includeScheduling, includeHistory: withHistory });
+
+      const url = URL.createObjectURL(new Blob([bytes], { type: 'application/octet-stream' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${deckName.replace(/[\\/:*?"<>|]/g, '_') || 'deck'}.apkg`;
+      link.click();
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (err) {
+      console.error('Failed to export deck:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export deck.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const checkboxClass = 'flex items-center space-x-2 text-sm text-neutral-700 dark:text-neutral-300';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        transition={{ duration: 0.3 }}
+        className="bg-white dark:bg-neutral-800 rounded-2xl p-6 max-w-lg w-full space-y-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-neutral-800 dark:text-neutral-200 flex items-center space-x-2">
+            <Download className="w-5 h-5 text-primary-500" />
+            <span>Export "{deckName}" for Anki</span>
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">
+          Saves this deck, its subdecks and their images as an .apkg file you can open in Anki.
+        </p>
+
+        <div className="space-y-2">
+          <label className={checkboxClass}>
+            <input type="checkbox" checked={includeScheduling} onChange={(e) => setIncludeScheduling(e.target.checked)} />
+            <span>Include scheduling (intervals, ease and due dates)</span>
+          </label>
+          <label className={`${checkboxClass} ${includeScheduling ? '' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={includeScheduling && includeHistory}
+              disabled={!includeScheduling}
+              onChange={(e) => setIncludeHistory(e.target.checked)}
+            />
+            <span>Include review history</span>
+          </label>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors disabled:bg-neutral-400"
+          >
+            {exporting ? 'Exporting...' : 'Export .apkg'}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ApkgExportDialog;
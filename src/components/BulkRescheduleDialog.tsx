@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { CalendarClock, X } from 'lucide-react';
+import { useStudy } from '../contexts/StudyContext';
+import { BulkRescheduleAction, BulkRescheduleOptions, parseDayRange } from '../types/SRSTypes';
+
+/**
+ * BulkRescheduleDialog
+ * ----------------------------------------------
+ * Modal applying one scheduling change to a selection of cards: forget,
+ * set due date, reposition new cards or shift due dates.
+ */
+interface BulkRescheduleDialogProps {
+  cardIds: string[];
+  onClose: () => void;
+  onDone: (changed: number) => void;
+}
+
+const ACTIONS: { value: BulkRescheduleAction; label: string; description: string }[] = [
+  { value: 'forget', label: 'Forget', description: 'Reset to new cards at the end of the new-card queue.' },
+  { value: 'set_due', label: 'Set due date', description: 'Make cards due on a day, or a random day in a range.' },
+  { value: 'reposition', label: 'Reposition', description: 'Change the order new cards are introduced in. Cards already studied are skipped.' },
+  { value: 'shift', label: 'Shift due dates', description: 'Move due dates earlier or later. New cards are skipped.' }
+];
+
+const BulkRescheduleDialog: React.FC<BulkRescheduleDialogProps> = ({ cardIds, onClose, onDone }) => {
+  const { bulkReschedule } = useStudy();
+
+  const [action, setAction] = useState<BulkRescheduleAction>('forget');
+  const [resetCounts, setResetCounts] = useState(false);
+  const [dueInput, setDueInput] = useState('1');
+  const [matchInterval, setMatchInterval] = useState(false);
+  const [start, setStart] = useState(1);
+  const [step, setStep] = useState(1);
+  const [randomize, setRandomize] = useState(false);
+  const [shiftExisting, setShiftExisting] = useState(true);
+  const [days, setDays] = useState(1);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    const options: BulkRescheduleOptions = {};
+    if (action === 'forget') {
+      options.resetCounts = resetCounts;
+    } else if (action === 'set_due') {
+      const range = parseDayRange(dueInput);
+      if (!range) {
+        setError('Enter days from today, like "0", "3" or "3-7".');
+        return;
+      }
+      [options.minDays, options.maxDays] = range;
+      options.setInterval = matchInterval;
+    } else if (action === 'reposition') {
+      Object.assign(options, { start, step, randomize, shiftExisting });
+    } else {
+      options.days = days;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      onDone(await bulkReschedule(cardIds, action, options));
+    } catch (err) {
+      console.error('Failed to reschedule cards:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reschedule cards.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full p-2 border border-neutral-200 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-100 rounded-lg';
+  const labelClass = 'block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-1';
+  const checkboxClass = 'flex items-center space-x-2 text-sm text-neutral-700 dark:text-neutral-300';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        transition={{ duration: 0.3 }}
+        className="bg-white dark:bg-neutral-800 rounded-2xl p-6 max-w-lg w-full space-y-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-neutral-800 dark:text-neutral-200 flex items-center space-x-2">
+            <CalendarClock className="w-5 h-5 text-primary-500" />
+            <span>Reschedule {cardIds.length} {cardIds.length === 1 ? 'card' : 'cards'}</span>
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {ACTIONS.map(option => (
+            <label key={option.value} className="flex items-start space-x-2 text-sm text-neutral-700 dark:text-neutral-300">
+              <input type="radio" name="bulk-action" checked={action === option.value} onChange={() => setAction(option.value)} className="mt-1" />
+              <span>
+                {option.label}
+                <span className="block text-xs text-neutral-500 dark:text-neutral-400">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {action === 'forget' && (
+          <label className={checkboxClass}>
+            <input type="checkbox" checked={resetCounts} onChange={(e) => setResetCounts(e.target.checked)} />
+            <span>Also reset review and lapse counts</span>
+          </label>
+        )}
+
+        {action === 'set_due' && (
+          <div className="space-y-3">
+            <div>
+              <label className={labelClass}>Due in (days, e.g. 0 = today, 3-7 = a random day in that range)</label>
+              <input value={dueInput} onChange={(e) => setDueInput(e.target.value)} className={inputClass} />
+            </div>
+            <label className={checkboxClass}>
+              <input type="checkbox" checked={matchInterval} onChange={(e) => setMatchInterval(e.target.checked)} />
+              <span>Change review cards' interval to match</span>
+            </label>
+          </div>
+        )}
+
+        {action === 'reposition' && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Start position</label>
+                <input type="number" min={1} value={start} onChange={(e) => setStart(Math.max(1, parseInt(e.target.value) || 1))} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Step</label>
+                <input type="number" min={1} value={step} onChange={(e) => setStep(Math.max(1, parseInt(e.target.value) || 1))} className={inputClass} />
+              </div>
+            </div>
+            <label className={checkboxClass}>
+              <input type="checkbox" checked={randomize} onChange={(e) => setRandomize(e.target.checked)} />
+              <span>Randomize order</span>
+            </label>
+            <label className={checkboxClass}>
+              <input type="checkbox" checked={shiftExisting} onChange={(e) => setShiftExisting(e.target.checked)} />
+              <span>Shift existing new cards back to make room</span>
+            </label>
+          </div>
+        )}
+
+        {action === 'shift' && (
+          <div>
+            <label className={labelClass}>Days (negative = earlier)</label>
+            <input type="number" value={days} onChange={(e) => setDays(parseInt(e.target.value) || 0)} className={inputClass} />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleApply}
+            disabled={saving || cardIds.length === 0}
+            className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors disabled:bg-neutral-400"
+          >
+            {saving ? 'Applying...' : 'Apply'}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default BulkRescheduleDialog;
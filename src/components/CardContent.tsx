@@ -1,4 +1,5 @@
 import React from 'react';
+import { useResolvedMedia } from '../hooks/useResolvedMedia';
 
 interface CardContentProps {
   content: string;
@@ -6,10 +7,11 @@ interface CardContentProps {
 }
 
 const CardContent: React.FC<CardContentProps> = ({ content, className }) => {
+  const html = useResolvedMedia(content);
   return (
     <div
       className={className}
-      dangerouslySetInnerHTML={{ __html: content }}
+      dangerouslySetInnerHTML={{ __html: html }}
     />
   );
 };
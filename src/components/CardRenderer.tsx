@@ -1,22 +1,26 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Play, Pause, Volume2, VolumeX, Eye, EyeOff, HelpCircle } from 'lucide-react';
 import { Card, ClozeCard, ImageOcclusionCard, TypeInCard, AudioCard, MultipleChoiceCard } from '../types/CardTypes';
 import { supabase } from '../lib/supabaseClient';
+import { AnswerGrade, AnswerGrader, AnswerVerdict } from '../lib/answerGrading';
+import { useResolvedMedia } from '../hooks/useResolvedMedia';
 
 interface CardRendererProps {
   card: Card;
   showAnswer: boolean;
   onShowAnswer: () => void;
   onAnswer?: (userAnswer?: string) => void;
+  onGrade?: (grade: AnswerGrade) => void; // Type-in cards: called with the grade when the answer is checked
   className?: string;
 }
 
 const CardRenderer: React.FC<CardRendererProps> = ({
-  card,
+  card: rawCard,
   showAnswer,
   onShowAnswer,
   onAnswer,
+  onGrade,
   className = ''
 }) => {
   const [userInput, setUserInput] = useState('');
@@ -26,6 +30,15 @@ const CardRenderer: React.FC<CardRendererProps> = ({
   const [hiddenOcclusions, setHiddenOcclusions] = useState<string[]>([]);
   const audioRef = useRef<HTMLAudioElement>(null);
 
+  // Imported media is stored as media:// references; show it through signed URLs
+  const rawHtml = rawCard as Card & { front?: string; back?: string };
+  const front = useResolvedMedia(rawHtml.front ?? '');
+  const back = useResolvedMedia(rawHtml.back ?? '');
+  const card = useMemo(
+    () => ('front' in rawCard ? { ...rawCard, front, back } : rawCard) as Card,
+    [rawCard, front, back]
+  );
+
   // Reset currentCloze when card changes
   useEffect(() => {
     setCurrentCloze(0);
@@ -457,21 +470,29 @@ const CardRenderer: React.FC<CardRendererProps> = ({
       }
     }
     
+    const gradeAnswer = () => AnswerGrader.grade(
+      userInput,
+      typeCard.answer || '',
+      typeCard.acceptableAnswers,
+      typeCard.caseSensitive
+    );
+
     const checkAnswer = () => {
       if (onAnswer) {
         onAnswer(userInput);
       }
+      onGrade?.(gradeAnswer());
       onShowAnswer();
     };
 
-    const isCorrect = showAnswer && typeCard.answer && (
-      userInput.toLowerCase().trim() === typeCard.answer.toLowerCase().trim() ||
-      typeCard.acceptableAnswers?.some(answer => 
-        typeCard.caseSensitive 
-          ? userInput.trim() === answer.trim()
-          : userInput.toLowerCase().trim() === answer.toLowerCase().trim()
-      )
-    );
+    const grade = showAnswer && typeCard.answer ? gradeAnswer() : null;
+    const isCorrect = grade !== null && grade.verdict !== 'wrong';
+    const verdictText: Record<AnswerVerdict, string> = {
+      exact: '✓ Correct!',
+      equivalent: '✓ Correct (ignoring accents, punctuation or word order)',
+      typo: '≈ Almost - check the spelling',
+      wrong: '✗ Incorrect'
+    };
 
     return (
       <div className="text-center">
@@ -518,17 +539,39 @@ const CardRenderer: React.FC<CardRendererProps> = ({
             className="space-y-4"
           >
             <div className={`p-4 rounded-xl ${
-              isCorrect 
+              grade?.verdict === 'typo'
+                ? 'bg-warning-50 dark:bg-warning-900/20 border border-warning-200 dark:border-warning-800'
+                : isCorrect 
                 ? 'bg-success-50 dark:bg-success-900/20 border border-success-200 dark:border-success-800'
                 : 'bg-error-50 dark:bg-error-900/20 border border-error-200 dark:border-error-800'
             }`}>
               <div className={`text-lg font-semibold ${
-                isCorrect ? 'text-success-700 dark:text-success-300' : 'text-error-700 dark:text-error-300'
+                grade?.verdict === 'typo'
+                  ? 'text-warning-700 dark:text-warning-300'
+                  : isCorrect ? 'text-success-700 dark:text-success-300' : 'text-error-700 dark:text-error-300'
               }`}>
-                {isCorrect ? '✓ Correct!' : '✗ Incorrect'}
+                {verdictText[grade?.verdict ?? 'wrong']}
               </div>
+              {grade && grade.verdict !== 'exact' && userInput.trim() && (
+                <div className="font-mono text-lg mt-2" title="Your answer against the expected one">
+                  {grade.diff.map((segment, index) => (
+                    <span
+                      key={index}
+                      className={
+                        segment.kind === 'extra'
+                          ? 'bg-error-100 dark:bg-error-900/40 text-error-700 dark:text-error-300 line-through'
+                          : segment.kind === 'missing'
+                          ? 'bg-warning-100 dark:bg-warning-900/40 text-warning-800 dark:text-warning-300 underline'
+                          : 'text-success-700 dark:text-success-300'
+                      }
+                    >
+                      {segment.text}
+                    </span>
+                  ))}
+                </div>
+              )}
               <div className="text-neutral-700 dark:text-neutral-300 mt-2">
-                <strong>Correct answer:</strong> {typeCard.answer}
+                <strong>Correct answer:</strong> {grade?.expected ?? typeCard.answer}
               </div>
               {typeCard.acceptableAnswers && typeCard.acceptableAnswers.length > 0 && (
                 <div className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
@@ -1,7 +1,19 @@
 import React, { useEffect, useState } from 'react';
 import { useStudy } from '../contexts/StudyContext';
-import { DeckConfig, DEFAULT_DECK_CONFIG } from '../types/SRSTypes';
+import { Link } from 'react-router-dom';
+import {
+  DeckConfig,
+  DEFAULT_DECK_CONFIG,
+  LeechAction,
+  NewCardOrder,
+  NewReviewMix,
+  OptionGroup,
+  ReviewSortOrder,
+  SchedulerType
+} from '../types/SRSTypes';
 import { DragDropContext, Droppable, Draggable } from 'react-beautiful-dnd';
+import { FSRSOptimizer, OptimizationResult } from '../lib/fsrsOptimizer';
+import RetentionSimulatorPanel from './RetentionSimulatorPanel';
 
 /**
  * DeckConfigPanel
@@ -19,15 +31,21 @@ interface DeckConfigPanelProps {
 }
 
 const DeckConfigPanel: React.FC<DeckConfigPanelProps> = ({ deckId, onConfigUpdate }) => {
-  const { getDeckConfig, updateDeckConfig } = useStudy();
+  const { getDeckConfig, updateDeckConfig, getOptionGroups, createOptionGroup, renameOptionGroup, assignOptionGroup } = useStudy();
 
   const [config, setConfig] = useState<DeckConfig>({
     ...DEFAULT_DECK_CONFIG,
     deckId,
   });
+  // As last loaded or saved, for the simulator to compare the edits against
+  const [savedConfig, setSavedConfig] = useState<DeckConfig>(config);
+  const [groups, setGroups] = useState<OptionGroup[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState<boolean>(false);
+  const [optimizing, setOptimizing] = useState<boolean>(false);
+  const [optimization, setOptimization] = useState<OptimizationResult | null>(null);
+  const [optimizeError, setOptimizeError] = useState<string | null>(null);
 
   // Preset configurations
   const PRESETS: { name: string; description: string; config: Partial<DeckConfig>; }[] = [
@@ -80,8 +98,10 @@ const DeckConfigPanel: React.FC<DeckConfigPanelProps> = ({ deckId, onConfigUpdat
     const fetchConfig = async () => {
       setLoading(true);
       try {
-        const cfg = await getDeckConfig(deckId);
+        const [cfg, optionGroups] = await Promise.all([getDeckConfig(deckId), getOptionGroups()]);
         setConfig(cfg);
+        setSavedConfig(cfg);
+        setGroups(optionGroups);
         setError(null);
       } catch (err) {
         console.error('Failed to load deck configuration', err);
@@ -92,7 +112,42 @@ const DeckConfigPanel: React.FC<DeckConfigPanelProps> = ({ deckId, onConfigUpdat
     };
 
     if (deckId) fetchConfig();
-  }, [deckId, getDeckConfig]);
+  }, [deckId, getDeckConfig, getOptionGroups]);
+
+  /**
+   * Option groups: switch the deck to another group, or start a new one from
+   * the settings shown now
+   */
+  const changeGroup = async (action: () => Promise<DeckConfig | void>) => {
+    try {
+      const cfg = await action();
+      if (cfg) {
+        setConfig(cfg);
+        setSavedConfig(cfg);
+      }
+      setGroups(await getOptionGroups());
+    } catch (err) {
+      console.error('Failed to update option group', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const handleNewGroup = () => {
+    const name = prompt('Name for the new option group', `${config.name} copy`)?.trim();
+    if (name) changeGroup(() => createOptionGroup(deckId, name, config));
+  };
+
+  const handleRenameGroup = () => {
+    const name = prompt('Rename option group', config.name)?.trim();
+    if (!name || name === config.name) return;
+    changeGroup(async () => {
+      await renameOptionGroup(config.id, name);
+      setConfig(prev => ({ ...prev, name }));
+      setSavedConfig(prev => ({ ...prev, name }));
+    });
+  };
+
+  const groupDeckCount = groups.find(group => group.id === config.id)?.deckIds.length ?? 1;
 
   /**
    * Generic handler for numeric inputs
@@ -139,6 +194,29 @@ const DeckConfigPanel: React.FC<DeckConfigPanelProps> = ({ deckId, onConfigUpdat
     setConfig(prev => ({ ...prev, ...presetConfig }));
   };
 
+  /**
+   * Fits FSRS weights to this deck's review history (runs in the browser).
+   */
+  const handleOptimize = async () => {
+    setOptimizing(true);
+    setOptimizeError(null);
+    try {
+      const history = await FSRSOptimizer.loadReviewHistory(deckId);
+      setOptimization(await FSRSOptimizer.optimizeInBackground(history, config.fsrsWeights));
+    } catch (err) {
+      console.error('Failed to optimize FSRS parameters', err);
+      setOptimizeError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setOptimizing(false);
+    }
+  };
+
+  const applyOptimization = () => {
+    if (!optimization) return;
+    setConfig(prev => FSRSOptimizer.applyToConfig(prev, optimization));
+    setOptimization(null);
+  };
+
   /**
    * Saves updated configuration to Supabase.
    */
@@ -146,6 +224,7 @@ const DeckConfigPanel: React.FC<DeckConfigPanelProps> = ({ deckId, onConfigUpdat
     setSaving(true);
     try {
       await updateDeckConfig(deckId, config);
+      setSavedConfig(config);
       onConfigUpdate?.(config);
     } catch (err) {
       console.error('Failed to save deck configuration', err);
@@ -187,6 +266,36 @@ const DeckConfigPanel: React.FC<DeckConfigPanelProps> = ({ deckId, onConfigUpdat
 
   return (
     <div className="space-y-6">
+      {/* Option Group */}
+      <section className="bg-white shadow rounded p-4 space-y-2">
+        <label className="block text-sm font-medium mb-1">Option Group</label>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={config.id}
+            onChange={(e) => changeGroup(() => assignOptionGroup(deckId, e.target.value))}
+            className="flex-1 px-3 py-2 border rounded"
+          >
+            {!groups.some(group => group.id === config.id) && <option value={config.id}>{config.name}</option>}
+            {groups.map(group => (
+              <option key={group.id} value={group.id}>
+                {group.name} ({group.deckIds.length} {group.deckIds.length === 1 ? 'deck' : 'decks'})
+              </option>
+            ))}
+          </select>
+          <button type="button" onClick={handleNewGroup} className="px-3 py-2 text-sm border rounded hover:bg-gray-50">
+            New
+          </button>
+          <button type="button" onClick={handleRenameGroup} disabled={!config.id} className="px-3 py-2 text-sm border rounded hover:bg-gray-50 disabled:opacity-50">
+            Rename
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          {groupDeckCount > 1
+            ? `Shared by ${groupDeckCount} decks. Saving changes the settings of all of them.`
+            : 'Only this deck uses these settings. Pick another group to share its settings.'}
+        </p>
+      </section>
+
       {/* Learning Steps Editor – to be replaced with drag-and-drop list */}
       <section className="bg-white shadow rounded p-4">
         <h2 className="font-semibold mb-2 flex justify-between items-center">
@@ -308,6 +417,129 @@ const DeckConfigPanel: React.FC<DeckConfigPanelProps> = ({ deckId, onConfigUpdat
             className="w-full px-3 py-2 border rounded"
           />
         </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Backlog Reviews Per Day</label>
+          <input
+            type="number"
+            min={1}
+            value={config.backlogDailyIntake}
+            onChange={handleNumberChange('backlogDailyIntake')}
+            className="w-full px-3 py-2 border rounded"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            With more overdue reviews than this, the most at-risk cards come first and the rest wait for later days.
+          </p>
+        </div>
+        <div className="md:col-span-2">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              checked={config.loadBalancing}
+              onChange={(e) => setConfig(prev => ({ ...prev, loadBalancing: e.target.checked }))}
+            />
+            Spread out due dates (interval fuzz + load balancing)
+          </label>
+          <p className="text-xs text-gray-500 mt-1">
+            Nudges each review interval by a few percent towards the least busy day, so cards learned together don't all come due at once.
+          </p>
+        </div>
+      </section>
+
+      {/* Display Order */}
+      <section className="bg-white shadow rounded p-4 grid gap-4 md:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium mb-1">New Card Order</label>
+          <select
+            value={config.newCardOrder}
+            onChange={(e) => setConfig(prev => ({ ...prev, newCardOrder: e.target.value as NewCardOrder }))}
+            className="w-full px-3 py-2 border rounded"
+          >
+            <option value="deck">Deck order</option>
+            <option value="created">Oldest first</option>
+            <option value="tag">Grouped by tag</option>
+            <option value="random">Random</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Review Order</label>
+          <select
+            value={config.reviewSortOrder}
+            onChange={(e) => setConfig(prev => ({ ...prev, reviewSortOrder: e.target.value as ReviewSortOrder }))}
+            className="w-full px-3 py-2 border rounded"
+          >
+            <option value="due">Due date</option>
+            <option value="overdueness">Most overdue (relative to interval)</option>
+            <option value="ease">Hardest first (lowest ease)</option>
+            <option value="random">Random</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">New Cards vs Reviews</label>
+          <select
+            value={config.newReviewMix}
+            onChange={(e) => setConfig(prev => ({ ...prev, newReviewMix: e.target.value as NewReviewMix }))}
+            className="w-full px-3 py-2 border rounded"
+          >
+            <option value="reviews_first">After reviews</option>
+            <option value="mix">Mixed with reviews</option>
+            <option value="new_first">Before reviews</option>
+          </select>
+        </div>
+        <p className="text-xs text-gray-500 md:col-span-3">
+          Learning cards always come first. Deck order takes a parent deck's subdecks one after another; random orders stay the same for the whole day.
+        </p>
+      </section>
+
+      {/* Sibling Burying */}
+      <section className="bg-white shadow rounded p-4 space-y-2">
+        <h2 className="font-semibold">Bury Siblings</h2>
+        <p className="text-xs text-gray-500">
+          Cards made from the same note (cloze deletions, reversed cards, occlusion masks) can give each other away.
+          Once one is reviewed, the others wait until tomorrow.
+        </p>
+        {([
+          ['buryNewSiblings', 'Bury new siblings'],
+          ['buryReviewSiblings', 'Bury review siblings'],
+          ['buryLearningSiblings', 'Bury learning siblings'],
+        ] as const).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              checked={config[key]}
+              onChange={(e) => setConfig(prev => ({ ...prev, [key]: e.target.checked }))}
+            />
+            {label}
+          </label>
+        ))}
+      </section>
+
+      {/* Leech Handling */}
+      <section className="bg-white shadow rounded p-4 grid gap-4 md:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium mb-1">Leech Threshold (lapses)</label>
+          <input
+            type="number"
+            min={1}
+            value={config.lapseThreshold}
+            onChange={handleNumberChange('lapseThreshold')}
+            className="w-full px-3 py-2 border rounded"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Leech Action</label>
+          <select
+            value={config.leechAction}
+            onChange={(e) => setConfig(prev => ({ ...prev, leechAction: e.target.value as LeechAction }))}
+            className="w-full px-3 py-2 border rounded"
+          >
+            <option value="suspend">Tag and suspend</option>
+            <option value="tag">Tag only</option>
+          </select>
+        </div>
+        <p className="text-xs text-gray-500 md:col-span-2">
+          Cards that keep lapsing are tagged <code>leech</code>. Suspended leeches stay out of reviews until you fix them
+          on the <Link to={`/deck/${deckId}/leeches`} className="text-blue-600 underline">leech repair</Link> screen.
+        </p>
       </section>
 
       {/* Ease Factor Controls */}
@@ -350,6 +582,84 @@ const DeckConfigPanel: React.FC<DeckConfigPanelProps> = ({ deckId, onConfigUpdat
         </div>
       </section>
 
+      {/* Scheduler Selection */}
+      <section className="bg-white shadow rounded p-4 grid gap-4 md:grid-cols-2">
+        <div>
+          <label className="block text-sm font-medium mb-1">Scheduler</label>
+          <select
+            value={config.scheduler}
+            onChange={(e) => setConfig(prev => ({ ...prev, scheduler: e.target.value as SchedulerType }))}
+            className="w-full px-3 py-2 border rounded"
+          >
+            <option value="sm2">SM-2 (ease-based)</option>
+            <option value="fsrs">FSRS (memory model)</option>
+          </select>
+        </div>
+        {config.scheduler === 'fsrs' && (
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Desired Retention: <span className="font-semibold">{Math.round(config.desiredRetention * 100)}%</span>
+            </label>
+            <input
+              type="range"
+              min={0.7}
+              max={0.99}
+              step={0.01}
+              value={config.desiredRetention}
+              onChange={(e) => setConfig(prev => ({ ...prev, desiredRetention: Number(e.target.value) }))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+            <p className="text-xs text-gray-500 mt-1">Higher retention means more reviews per day.</p>
+          </div>
+        )}
+        {config.scheduler === 'fsrs' && (
+          <div className="md:col-span-2 space-y-2">
+            <button
+              type="button"
+              onClick={handleOptimize}
+              disabled={optimizing}
+              className="text-sm text-indigo-600 hover:underline disabled:opacity-50"
+            >
+              {optimizing ? 'Optimizing…' : 'Optimize parameters from my review history'}
+            </button>
+            {optimizeError && <p className="text-xs text-red-600">{optimizeError}</p>}
+            {optimization && (
+              <div className="text-sm border rounded p-3 space-y-1">
+                <p>Fitted on {optimization.reviewCount} reviews across {optimization.cardCount} cards.</p>
+                <p>
+                  Log-loss: {optimization.before.logLoss.toFixed(4)} → <span className="font-semibold">{optimization.after.logLoss.toFixed(4)}</span>
+                </p>
+                <p>
+                  RMSE: {optimization.before.rmse.toFixed(4)} → <span className="font-semibold">{optimization.after.rmse.toFixed(4)}</span>
+                </p>
+                <div className="flex gap-2 pt-1">
+                  <button
+                    type="button"
+                    onClick={applyOptimization}
+                    className="bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1 rounded text-xs"
+                  >
+                    Apply fitted parameters
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setOptimization(null)}
+                    className="px-3 py-1 border rounded text-xs hover:bg-gray-50"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+
+      {/* Simulator */}
+      <section className="bg-white shadow rounded p-4">
+        <h2 className="font-semibold mb-2">Simulate a Year</h2>
+        <RetentionSimulatorPanel deckId={deckId} saved={savedConfig} draft={config} />
+      </section>
+
       {/* Action Buttons */}
       <div className="flex justify-end gap-2">
         <button
@@ -8,19 +8,7 @@ import {
   Check
 } from 'lucide-react';
 import { useStudy } from '../contexts/StudyContext';
-
-interface Deck {
-  id: string;
-  name: string;
-  description: string;
-  cardCount: number;
-  dueCount: number;
-  newCount: number;
-  color: string;
-  emoji: string;
-  created: string;
-  lastStudied: string | null;
-}
+import { DeckTree } from '../lib/deckTree';
 
 interface DeckPickerProps {
   selectedDeckId: string | null;
@@ -44,11 +32,15 @@ const DeckPicker: React.FC<DeckPickerProps> = ({
   const [newDeckName, setNewDeckName] = useState('');
   const [isCreating, setIsCreating] = useState(false);
 
-  const selectedDeck = decks.find(deck => deck.id === selectedDeckId);
+  // Subdecks sit below their parent; counts include every subdeck
+  const deckRows = DeckTree.flatten(decks);
+  const selectedRow = deckRows.find(row => row.deck.id === selectedDeckId);
+  const selectedDeck = selectedRow?.deck;
   
-  const filteredDecks = decks.filter(deck =>
-    deck.name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  // Searching matches the full "Parent::Child" name and lists matches flat
+  const filteredRows = searchTerm
+    ? deckRows.filter(row => row.path.toLowerCase().includes(searchTerm.toLowerCase()))
+    : deckRows;
 
   const handleCreateNewDeck = async () => {
     if (!newDeckName.trim() || isCreating) return;
@@ -87,9 +79,9 @@ const DeckPicker: React.FC<DeckPickerProps> = ({
                 <span className="text-sm">{selectedDeck.emoji}</span>
               </div>
               <div className="text-left">
-                <p className="font-medium">{selectedDeck.name}</p>
+                <p className="font-medium">{selectedRow?.path}</p>
                 <p className="text-sm text-neutral-500 dark:text-neutral-400">
-                  {selectedDeck.cardCount} cards
+                  {selectedRow?.cardCount} cards
                 </p>
               </div>
             </>
@@ -132,12 +124,13 @@ const DeckPicker: React.FC<DeckPickerProps> = ({
 
             {/* Deck List */}
             <div className="max-h-48 overflow-y-auto">
-              {filteredDecks.length > 0 ? (
-                filteredDecks.map((deck) => (
+              {filteredRows.length > 0 ? (
+                filteredRows.map(({ deck, depth, path, cardCount, dueCount }) => (
                   <button
                     key={deck.id}
                     onClick={() => handleDeckSelect(deck.id)}
                     className="w-full p-3 hover:bg-neutral-50 dark:hover:bg-neutral-700 transition-colors flex items-center justify-between group"
+                    style={searchTerm ? undefined : { paddingLeft: `${0.75 + depth * 1.25}rem` }}
                   >
                     <div className="flex items-center space-x-3">
                       <div className={`w-8 h-8 ${deck.color} rounded-lg flex items-center justify-center`}>
@@ -145,10 +138,10 @@ const DeckPicker: React.FC<DeckPickerProps> = ({
                       </div>
                       <div className="text-left">
                         <p className="font-medium text-neutral-900 dark:text-neutral-100">
-                          {deck.name}
+                          {searchTerm ? path : deck.name}
                         </p>
                         <p className="text-sm text-neutral-500 dark:text-neutral-400">
-                          {deck.cardCount} cards • {deck.dueCount} due
+                          {cardCount} cards • {dueCount} due
                         </p>
                       </div>
                     </div>
@@ -180,7 +173,7 @@ const DeckPicker: React.FC<DeckPickerProps> = ({
                     type="text"
                     value={newDeckName}
                     onChange={(e) => setNewDeckName(e.target.value)}
-                    placeholder="Enter deck name..."
+                    placeholder="Deck name (Parent::Child for a subdeck)..."
                     className="w-full p-2 border border-neutral-200 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 text-sm"
                     onKeyDown={(e) => {
                       if (e.key === 'Enter') {
@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Filter, Trash2, X } from 'lucide-react';
+import { useStudy } from '../contexts/StudyContext';
+import {
+  CardState,
+  FilteredDeck,
+  FilteredDeckOrder,
+  FilteredDeckQuery,
+  FILTERED_DECK_ORDERS,
+  RATING_MAPPINGS
+} from '../types/SRSTypes';
+
+/**
+ * FilteredDeckEditor
+ * ----------------------------------------------
+ * Modal for creating or editing a filtered deck: a saved search over the
+ * user's cards that can be studied like a regular deck.
+ */
+interface FilteredDeckEditorProps {
+  filteredDeck?: FilteredDeck;
+  onClose: () => void;
+}
+
+const CARD_STATES: { value: CardState; label: string }[] = [
+  { value: CardState.NEW, label: 'New' },
+  { value: CardState.LEARNING, label: 'Learning' },
+  { value: CardState.REVIEW, label: 'Review' },
+  { value: CardState.RELEARNING, label: 'Relearning' }
+];
+
+const toggle = <T,>(list: T[] | undefined, value: T): T[] =>
+  list?.includes(value) ? list.filter(item => item !== value) : [...(list ?? []), value];
+
+const parseOptionalNumber = (value: string): number | undefined =>
+  value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value);
+
+const FilteredDeckEditor: React.FC<FilteredDeckEditorProps> = ({ filteredDeck, onClose }) => {
+  const { decks, saveFilteredDeck, deleteFilteredDeck } = useStudy();
+
+  const [name, setName] = useState(filteredDeck?.name ?? '');
+  const [query, setQuery] = useState<FilteredDeckQuery>(filteredDeck?.query ?? {});
+  const [tagsInput, setTagsInput] = useState((filteredDeck?.query.tags ?? []).join(', '));
+  const [order, setOrder] = useState<FilteredDeckOrder>(filteredDeck?.order ?? 'due');
+  const [cardLimit, setCardLimit] = useState(filteredDeck?.cardLimit ?? 100);
+  const [reschedule, setReschedule] = useState(filteredDeck?.reschedule ?? true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Give the filtered deck a name.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const tags = tagsInput.split(',').map(tag => tag.trim()).filter(Boolean);
+      await saveFilteredDeck({
+        id: filteredDeck?.id,
+        name: name.trim(),
+        query: { ...query, tags },
+        order,
+        cardLimit,
+        reschedule
+      });
+      onClose();
+    } catch (err) {
+      console.error('Failed to save filtered deck:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save filtered deck.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!filteredDeck) return;
+    try {
+      await deleteFilteredDeck(filteredDeck.id);
+      onClose();
+    } catch (err) {
+      console.error('Failed to delete filtered deck:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete filtered deck.');
+    }
+  };
+
+  const inputClass = 'w-full p-2 border border-neutral-200 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-100 rounded-lg';
+  const labelClass = 'block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-1';
+  const chipClass = (selected: boolean) => `px-3 py-1 rounded-full text-sm border transition-colors ${
+    selected
+      ? 'bg-primary-500 border-primary-500 text-white'
+      : 'border-neutral-300 dark:border-neutral-600 text-neutral-700 dark:text-neutral-300 hover:border-primary-300'
+  }`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        transition={{ duration: 0.3 }}
+        className="bg-white dark:bg-neutral-800 rounded-2xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto space-y-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-neutral-800 dark:text-neutral-200 flex items-center space-x-2">
+            <Filter className="w-5 h-5 text-primary-500" />
+            <span>{filteredDeck ? 'Edit Filtered Deck' : 'New Filtered Deck'}</span>
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div>
+          <label className={labelClass}>Name</label>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Struggling verbs" className={inputClass} />
+        </div>
+
+        <div>
+          <label className={labelClass}>Decks (none selected = all decks)</label>
+          <div className="flex flex-wrap gap-2">
+            {decks.map(deck => (
+              <button
+                key={deck.id}
+                type="button"
+                onClick={() => setQuery(q => ({ ...q, deckIds: toggle(q.deckIds, deck.id) }))}
+                className={chipClass(!!query.deckIds?.includes(deck.id))}
+              >
+                {deck.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Tags (comma separated, any of)</label>
+          <input value={tagsInput} onChange={(e) => setTagsInput(e.target.value)} placeholder="verbs, irregular" className={inputClass} />
+        </div>
+
+        <div>
+          <label className={labelClass}>Card states (none selected = all)</label>
+          <div className="flex flex-wrap gap-2">
+            {CARD_STATES.map(state => (
+              <button
+                key={state.value}
+                type="button"
+                onClick={() => setQuery(q => ({ ...q, cardStates: toggle(q.cardStates, state.value) }))}
+                className={chipClass(!!query.cardStates?.includes(state.value))}
+              >
+                {state.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Last rated (none selected = any)</label>
+          <div className="flex flex-wrap gap-2">
+            {RATING_MAPPINGS.map(rating => (
+              <button
+                key={rating.value}
+                type="button"
+                onClick={() => setQuery(q => ({ ...q, lastRatings: toggle(q.lastRatings, rating.value) }))}
+                className={chipClass(!!query.lastRatings?.includes(rating.value))}
+              >
+                {rating.emoji} {rating.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div>
+            <label className={labelClass}>Min lapses</label>
+            <input
+              type="number"
+              min={0}
+              value={query.minLapses ?? ''}
+              onChange={(e) => setQuery(q => ({ ...q, minLapses: parseOptionalNumber(e.target.value) }))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Max ease</label>
+            <input
+              type="number"
+              min={1.3}
+              step={0.05}
+              value={query.maxEase ?? ''}
+              onChange={(e) => setQuery(q => ({ ...q, maxEase: parseOptionalNumber(e.target.value) }))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Min days overdue</label>
+            <input
+              type="number"
+              min={0}
+              value={query.minDaysOverdue ?? ''}
+              onChange={(e) => setQuery(q => ({ ...q, minDaysOverdue: parseOptionalNumber(e.target.value) }))}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Order</label>
+            <select value={order} onChange={(e) => setOrder(e.target.value as FilteredDeckOrder)} className={inputClass}>
+              {FILTERED_DECK_ORDERS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Card limit</label>
+            <input
+              type="number"
+              min={1}
+              max={9999}
+              value={cardLimit}
+              onChange={(e) => setCardLimit(Math.min(9999, Math.max(1, parseInt(e.target.value) || 1)))}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <label className="flex items-start space-x-2 text-sm text-neutral-700 dark:text-neutral-300">
+          <input type="checkbox" checked={reschedule} onChange={(e) => setReschedule(e.target.checked)} className="mt-1" />
+          <span>
+            Reschedule cards based on my answers
+            <span className="block text-xs text-neutral-500 dark:text-neutral-400">
+              Turn off to preview only: ratings are not recorded and due dates stay as they are.
+            </span>
+          </span>
+        </label>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex items-center justify-between">
+          {filteredDeck ? (
+            <button
+              onClick={handleDelete}
+              className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg flex items-center space-x-1"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Delete</span>
+            </button>
+          ) : <span />}
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors disabled:bg-neutral-400"
+          >
+            {saving ? 'Saving...' : 'Save Filtered Deck'}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default FilteredDeckEditor;
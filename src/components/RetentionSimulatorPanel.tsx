@@ -0,0 +1,212 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { DeckConfig, EnhancedCard } from '../types/SRSTypes';
+import {
+  RecallModel,
+  RetentionSimulator,
+  SimulationCandidate,
+  SimulationResult
+} from '../lib/retentionSimulator';
+
+/**
+ * RetentionSimulatorPanel
+ * ----------------------------------------------
+ * Runs the deck's cards through a year of simulated study under the saved
+ * settings, the settings being edited and any snapshots the user added, and
+ * charts workload and retention side by side.
+ */
+interface RetentionSimulatorPanelProps {
+  deckId: string;
+  saved: DeckConfig;
+  draft: DeckConfig;
+}
+
+const COLORS = ['#6366F1', '#F59E0B', '#10B981', '#EF4444', '#8B5CF6', '#0EA5E9'];
+
+const RetentionSimulatorPanel: React.FC<RetentionSimulatorPanelProps> = ({ deckId, saved, draft }) => {
+  const [snapshots, setSnapshots] = useState<SimulationCandidate[]>([]);
+  const [deckData, setDeckData] = useState<{ cards: EnhancedCard[]; model: RecallModel } | null>(null);
+  const [results, setResults] = useState<SimulationResult[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Candidate numbers are never reused, so labels stay unique as chart columns and keys
+  const nextCandidate = useRef(1);
+
+  const draftChanged = JSON.stringify(draft) !== JSON.stringify(saved);
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const data = deckData ?? await RetentionSimulator.load(deckId, saved);
+      setDeckData(data);
+
+      const candidates: SimulationCandidate[] = [
+        { label: 'Saved settings', config: saved },
+        ...(draftChanged ? [{ label: 'Your changes', config: draft }] : []),
+        ...snapshots
+      ];
+      setResults(await RetentionSimulator.simulateInBackground(data.cards, candidates, data.model));
+    } catch (err) {
+      console.error('Failed to run retention simulation', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const addSnapshot = () => {
+    const label = `Candidate ${nextCandidate.current++}`;
+    setSnapshots(prev => [...prev, { label, config: draft }]);
+  };
+
+  // One row per day with a column per candidate
+  const chartData = useMemo(() => {
+    if (results.length === 0) return [];
+    return results[0].days.map((_, index) => {
+      const row: Record<string, number> = { day: index + 1 };
+      results.forEach(result => {
+        const day = result.days[index];
+        row[`${result.label} workload`] = Math.round(day.reviews + day.newCards);
+        row[`${result.label} retention`] = Math.round(day.retention * 1000) / 10;
+      });
+      return row;
+    });
+  }, [results]);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Simulates this deck's cards for {RetentionSimulator.DEFAULT_DAYS} days under each set of settings before you save.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={running}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-2 rounded text-sm disabled:opacity-50"
+        >
+          {running ? 'Simulating…' : 'Run simulation'}
+        </button>
+        <button
+          type="button"
+          onClick={addSnapshot}
+          className="px-3 py-2 border rounded text-sm hover:bg-gray-50"
+        >
+          Add current settings as a candidate
+        </button>
+      </div>
+
+      {snapshots.length > 0 && (
+        <ul className="text-sm space-y-1">
+          {snapshots.map((snapshot, index) => (
+            <li key={snapshot.label} className="flex items-center gap-2">
+              <span>{snapshot.label}: {snapshot.config.scheduler === 'fsrs'
+                ? `FSRS, ${Math.round(snapshot.config.desiredRetention * 100)}% target`
+                : `SM-2, ${snapshot.config.newCardsPerDay} new/day`}</span>
+              <button
+                type="button"
+                onClick={() => setSnapshots(prev => prev.filter((_, i) => i !== index))}
+                className="text-xs text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {results.length > 0 && (
+        <>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1">Settings</th>
+                <th className="py-1">Reviews</th>
+                <th className="py-1">Study time</th>
+                <th className="py-1">Avg. retention</th>
+                <th className="py-1">After a year</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((result, index) => (
+                <tr key={result.label} className="border-t">
+                  <td className="py-1 font-medium" style={{ color: COLORS[index % COLORS.length] }}>{result.label}</td>
+                  <td className="py-1">{result.totalReviews.toLocaleString()}</td>
+                  <td className="py-1">{(result.totalMinutes / 60).toFixed(1)} h</td>
+                  <td className="py-1">{Math.round(result.averageRetention * 100)}%</td>
+                  <td className="py-1">{Math.round(result.finalRetention * 100)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <h3 className="text-sm font-medium mb-1">Cards per day</h3>
+            <ResponsiveContainer width="100%" height={220}>
+              <LineChart data={chartData}>
+                <XAxis dataKey="day" interval={29} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                {results.map((result, index) => (
+                  <Line
+                    key={result.label}
+                    type="monotone"
+                    dataKey={`${result.label} workload`}
+                    name={result.label}
+                    stroke={COLORS[index % COLORS.length]}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium mb-1">Expected retention (%)</h3>
+            <ResponsiveContainer width="100%" height={220}>
+              <LineChart data={chartData}>
+                <XAxis dataKey="day" interval={29} />
+                <YAxis domain={[50, 100]} />
+                <Tooltip />
+                <Legend />
+                {results.map((result, index) => (
+                  <Line
+                    key={result.label}
+                    type="monotone"
+                    dataKey={`${result.label} retention`}
+                    name={result.label}
+                    stroke={COLORS[index % COLORS.length]}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {deckData && (
+            <p className="text-xs text-gray-500">
+              {deckData.cards.length} cards. {deckData.model.fitted
+                ? `Memory model fitted to ${deckData.model.reviewCount} reviews`
+                : 'Too little review history to fit a memory model; using FSRS defaults'}, {deckData.model.secondsPerReview}s per answer.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RetentionSimulatorPanel;
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Brain, 
@@ -31,6 +31,10 @@ const StudyModeSelector: React.FC<StudyModeSelectorProps> = ({
   onClose,
   deckStats
 }) => {
+  // Study ahead: how far to look, and whether answers reschedule the cards
+  const [aheadDays, setAheadDays] = useState(7);
+  const [rescheduleAhead, setRescheduleAhead] = useState(false);
+
   const studyModes: StudyMode[] = [
     {
       id: 'normal',
@@ -78,12 +82,14 @@ const StudyModeSelector: React.FC<StudyModeSelectorProps> = ({
     {
       id: 'cram-mode',
       name: 'Cram Session',
-      description: 'Review all cards regardless of schedule',
+      description: 'Flip through the whole deck without changing any schedules',
       icon: '🔥',
       filter: (cards) => cards,
       settings: {
         reviewType: 'all',
-        timeLimit: 45
+        timeLimit: 45,
+        aheadDays: null,
+        preview: true
       }
     },
     {
@@ -109,7 +115,7 @@ const StudyModeSelector: React.FC<StudyModeSelectorProps> = ({
       case 'new-cards':
         return `${deckStats.newCards} cards`;
       case 'cram-mode':
-        return `${deckStats.totalCards} cards`;
+        return 'Whole deck';
       case 'leech-therapy':
         return `${deckStats.leechCards} cards`;
       default:
@@ -258,25 +264,49 @@ const StudyModeSelector: React.FC<StudyModeSelectorProps> = ({
               </div>
             </button>
 
-            <button
-              onClick={() => onSelectMode({
-                id: 'study-ahead',
-                name: 'Study Ahead',
-                description: 'Study tomorrow\'s cards early',
-                icon: '⏰',
-                filter: (cards) => cards.filter(card => new Date(card.nextDue) <= new Date(Date.now() + 24 * 60 * 60 * 1000)),
-                settings: { reviewType: 'all' }
-              })}
-              className="p-4 bg-gradient-to-r from-primary-50 to-success-50 dark:from-primary-900/20 dark:to-success-900/20 rounded-xl border border-primary-200 dark:border-primary-700 hover:border-primary-300 dark:hover:border-primary-600 transition-all duration-200"
-            >
+            <div className="p-4 bg-gradient-to-r from-primary-50 to-success-50 dark:from-primary-900/20 dark:to-success-900/20 rounded-xl border border-primary-200 dark:border-primary-700 space-y-3">
               <div className="flex items-center space-x-3">
                 <Calendar className="w-6 h-6 text-primary-600 dark:text-primary-400" />
                 <div className="text-left">
                   <p className="font-medium text-neutral-800 dark:text-neutral-200">Study Ahead</p>
-                  <p className="text-sm text-neutral-600 dark:text-neutral-400">Get ahead of schedule</p>
+                  <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                    {rescheduleAhead ? 'Intervals adjusted for reviewing early' : 'Preview only - schedules unchanged'}
+                  </p>
                 </div>
               </div>
-            </button>
+
+              <div className="flex items-center space-x-2 text-sm text-neutral-700 dark:text-neutral-300">
+                <span>Cards due in the next</span>
+                <select
+                  value={aheadDays}
+                  onChange={(e) => setAheadDays(parseInt(e.target.value))}
+                  className="p-1 border border-neutral-200 dark:border-neutral-600 bg-white dark:bg-neutral-800 rounded-lg"
+                >
+                  {[1, 3, 7, 14, 30].map(days => (
+                    <option key={days} value={days}>{days} {days === 1 ? 'day' : 'days'}</option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm text-neutral-700 dark:text-neutral-300">
+                <input type="checkbox" checked={rescheduleAhead} onChange={(e) => setRescheduleAhead(e.target.checked)} />
+                <span>Reschedule cards I answer</span>
+              </label>
+
+              <button
+                onClick={() => onSelectMode({
+                  id: 'study-ahead',
+                  name: 'Study Ahead',
+                  description: `Cards due in the next ${aheadDays} days`,
+                  icon: '⏰',
+                  filter: (cards) => cards,
+                  settings: { reviewType: 'all', aheadDays, preview: !rescheduleAhead }
+                })}
+                className="w-full px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors text-sm font-medium"
+              >
+                Start
+              </button>
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Plane, X } from 'lucide-react';
+import { useStudy } from '../contexts/StudyContext';
+import { Vacation } from '../types/SRSTypes';
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const VacationPlanner: React.FC = () => {
+  const { getVacations, planVacation, cancelVacation } = useStudy();
+  const [vacations, setVacations] = useState<Vacation[]>([]);
+  const [startsOn, setStartsOn] = useState(() => toDateInput(new Date()));
+  const [endsOn, setEndsOn] = useState(() => toDateInput(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)));
+  const [catchUpDays, setCatchUpDays] = useState(7);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    getVacations()
+      .then(setVacations)
+      .catch(error => console.error('Error loading vacations:', error));
+  }, [getVacations, refreshKey]);
+
+  const handlePlan = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const vacation = await planVacation(startsOn, endsOn, catchUpDays);
+      setMessage(`Vacation planned: ${vacation.pulledForward} reviews pulled forward, ${vacation.postponed} moved past the break.`);
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('Failed to plan vacation:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to plan vacation.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async (vacationId: number) => {
+    try {
+      await cancelVacation(vacationId);
+      setMessage('Vacation cancelled. Postponed reviews are back on their original dates.');
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('Failed to cancel vacation:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to cancel vacation.');
+    }
+  };
+
+  const upcoming = vacations.filter(v => v.status === 'planned');
+  const inputClass = 'w-full p-2 border border-neutral-200 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-100 rounded-lg';
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-neutral-800 dark:text-neutral-200 mb-2 flex items-center space-x-2">
+        <Plane className="w-5 h-5 text-primary-500" />
+        <span>Vacation Mode</span>
+      </h3>
+      <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-4">
+        Going away? Reviews that can safely be done early are pulled forward, nothing comes due while you're away,
+        and the backlog is spread over your catch-up days when you return. Vacation days don't break your streak.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
+        <label className="text-sm text-neutral-700 dark:text-neutral-300">
+          First day away
+          <input type="date" value={startsOn} min={toDateInput(new Date())} onChange={(e) => setStartsOn(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-sm text-neutral-700 dark:text-neutral-300">
+          Last day away
+          <input type="date" value={endsOn} min={startsOn} onChange={(e) => setEndsOn(e.target.value)} className={inputClass} />
+        </label>
+        <label className="text-sm text-neutral-700 dark:text-neutral-300">
+          Catch-up days
+          <input
+            type="number"
+            min={1}
+            max={60}
+            value={catchUpDays}
+            onChange={(e) => setCatchUpDays(Math.min(60, Math.max(1, parseInt(e.target.value) || 1)))}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <button
+        onClick={handlePlan}
+        disabled={isSaving || endsOn < startsOn}
+        className="px-4 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors disabled:bg-neutral-400"
+      >
+        {isSaving ? 'Planning...' : 'Plan Vacation'}
+      </button>
+
+      {message && (
+        <p className="text-sm text-neutral-600 dark:text-neutral-400 mt-3">{message}</p>
+      )}
+
+      {upcoming.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {upcoming.map(vacation => (
+            <li
+              key={vacation.id}
+              className="flex items-center justify-between p-3 bg-primary-50 dark:bg-primary-900/20 rounded-lg text-sm"
+            >
+              <span className="text-neutral-800 dark:text-neutral-200">
+                {vacation.startsOn} → {vacation.endsOn} · catch up over {vacation.catchUpDays} days
+              </span>
+              <button
+                onClick={() => handleCancel(vacation.id)}
+                className="p-1 text-neutral-500 hover:text-red-600 transition-colors"
+                title="Cancel vacation"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default VacationPlanner;
@@ -0,0 +1,111 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { WorkloadForecaster, WorkloadForecast } from '../lib/workloadForecast';
+import { useUser } from '../contexts/UserContext';
+
+interface WorkloadForecastChartProps {
+  decks: { id: string; name: string }[];
+  days?: number;
+}
+
+const ALL_DECKS = 'all';
+
+const WorkloadForecastChart: React.FC<WorkloadForecastChartProps> = ({ decks, days = WorkloadForecaster.DEFAULT_DAYS }) => {
+  const [forecast, setForecast] = useState<WorkloadForecast | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedDeck, setSelectedDeck] = useState<string>(ALL_DECKS);
+  const { user } = useUser();
+  const timeZone = user?.preferences?.timeZone;
+  const dayStartHour = user?.preferences?.dayStartHour;
+
+  useEffect(() => {
+    const fetch = async () => {
+      try {
+        setForecast(await WorkloadForecaster.load(days, { timeZone, dayStartHour }));
+      } catch (e) {
+        console.error('Error loading workload forecast:', e);
+        setError('Failed to load forecast');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetch();
+  }, [days, timeZone, dayStartHour]);
+
+  const chartData = useMemo(() => {
+    if (!forecast) return [];
+    const series = selectedDeck === ALL_DECKS ? forecast.days : forecast.byDeck[selectedDeck] ?? [];
+    return series.map(day => ({
+      ...day,
+      label: new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+    }));
+  }, [forecast, selectedDeck]);
+
+  const summary = useMemo(() => {
+    if (chartData.length === 0) return null;
+    const totals = chartData.map(d => d.total);
+    const peak = chartData.reduce((max, d) => (d.total > max.total ? d : max), chartData[0]);
+    return {
+      average: Math.round(totals.reduce((sum, t) => sum + t, 0) / totals.length),
+      nextWeek: totals.slice(0, 7).reduce((sum, t) => sum + t, 0),
+      peak,
+    };
+  }, [chartData]);
+
+  if (loading) return <div className="p-4">Loading forecast…</div>;
+  if (error) return <div className="p-4 text-red-600">{error}</div>;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <select
+          value={selectedDeck}
+          onChange={(e) => setSelectedDeck(e.target.value)}
+          className="px-3 py-2 border border-neutral-300 dark:border-neutral-600 rounded-lg bg-white dark:bg-neutral-800 text-neutral-800 dark:text-neutral-200"
+        >
+          <option value={ALL_DECKS}>All decks</option>
+          {decks.map(deck => (
+            <option key={deck.id} value={deck.id}>{deck.name}</option>
+          ))}
+        </select>
+        {summary && (
+          <div className="flex gap-6 text-sm text-neutral-600 dark:text-neutral-400">
+            <span>Next 7 days: <strong className="text-neutral-800 dark:text-neutral-200">{summary.nextWeek}</strong></span>
+            <span>Daily average: <strong className="text-neutral-800 dark:text-neutral-200">{summary.average}</strong></span>
+            <span>Peak: <strong className="text-neutral-800 dark:text-neutral-200">{summary.peak.total}</strong> on {summary.peak.label}</span>
+          </div>
+        )}
+      </div>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart data={chartData}>
+          <XAxis dataKey="label" interval={Math.max(0, Math.floor(chartData.length / 12) - 1)} />
+          <YAxis allowDecimals={false} />
+          <Tooltip formatter={(v: number) => Math.round(v)} />
+          <Legend />
+          <Bar dataKey="reviews" name="Reviews" stackId="load" fill="#6366F1" />
+          <Bar dataKey="learning" name="Relearning" stackId="load" fill="#F59E0B" />
+          <Bar dataKey="newCards" name="New" stackId="load" fill="#4ade80" />
+        </BarChart>
+      </ResponsiveContainer>
+
+      {forecast && (
+        <p className="text-xs text-neutral-500 dark:text-neutral-400">
+          Assumes {Math.round(forecast.retentionRate * 100)}% retention (your recent review-phase success rate) and each deck's new cards per day.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default WorkloadForecastChart;
@@ -17,6 +17,7 @@ vi.mock('../../contexts/StudyContext', async (importOriginal: any) => {
     useStudy: () => ({
       getDeckConfig: vi.fn().mockResolvedValue(DEFAULT_DECK_CONFIG),
       updateDeckConfig: vi.fn().mockResolvedValue(undefined),
+      getOptionGroups: vi.fn().mockResolvedValue([]),
     }),
   };
 });
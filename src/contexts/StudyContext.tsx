@@ -7,10 +7,28 @@ import {
   StudyQueueCard, 
   AdvancedReviewResponse,
   StudyQueueResponse,
-  DEFAULT_DECK_CONFIG 
+  DEFAULT_DECK_CONFIG,
+  DEFAULT_FSRS_WEIGHTS,
+  BacklogStatus,
+  Vacation,
+  FilteredDeck,
+  FilteredDeckQuery,
+  LeechCard,
+  BulkRescheduleAction,
+  BulkRescheduleOptions,
+  LeechAction,
+  NewCardOrder,
+  NewReviewMix,
+  OptionGroup,
+  ReviewSortOrder,
+  SchedulerType
 } from '../types/SRSTypes';
-import { AdvancedSRSEngine } from '../lib/advancedSRS';
-import { parseApkg, type ParsedDeck } from '../lib/ankiParser';
+import { AdvancedSRSEngine, LEECH_TAG, StudyDay, type DayBoundary, type DueCounts } from '../lib/advancedSRS';
+import { WorkloadForecaster } from '../lib/workloadForecast';
+import { AntiBurnoutEngine } from '../lib/antiBurnoutEngine';
+import { WorkloadBalance } from '../types/AntiBurnoutTypes';
+import { DeckTree } from '../lib/deckTree';
+import { parseApkg, createNoteIdMap, type ParsedDeck } from '../lib/ankiParser';
 import { useUser } from './UserContext';
 
 export type EmojiRating = '😞' | '😐' | '😊' | '😁';
@@ -39,6 +57,7 @@ interface Card {
   front: string;
   back: string;
   deckId: string;
+  noteId?: string; // Cards generated from the same note are siblings
   tags: string[];
   difficulty: number;
   lastStudied: string | null;
@@ -60,7 +79,8 @@ interface EnhancedDeck extends Deck {
 
 interface Deck {
   id: string;
-  name: string;
+  name: string; // Last segment of the full "Parent::Child" name
+  parentId: string | null; // Parent deck; null at the top level
   description: string;
   cardCount: number;
   dueCount: number;
@@ -98,6 +118,176 @@ export interface ImportResult {
   errors: string[];
 }
 
+interface FilteredDeckRow {
+  id: string;
+  name: string;
+  query: {
+    deck_ids?: string[];
+    tags?: string[];
+    card_states?: CardState[];
+    min_lapses?: number;
+    max_ease?: number;
+    min_days_overdue?: number;
+    last_ratings?: number[];
+  } | null;
+  order_by: FilteredDeck['order'];
+  card_limit: number;
+  reschedule: boolean;
+}
+
+const toFilteredDeck = (row: FilteredDeckRow, cardCount?: number): FilteredDeck => ({
+  id: row.id,
+  name: row.name,
+  query: {
+    deckIds: row.query?.deck_ids,
+    tags: row.query?.tags,
+    cardStates: row.query?.card_states,
+    minLapses: row.query?.min_lapses,
+    maxEase: row.query?.max_ease,
+    minDaysOverdue: row.query?.min_days_overdue,
+    lastRatings: row.query?.last_ratings,
+  },
+  order: row.order_by,
+  cardLimit: row.card_limit,
+  reschedule: row.reschedule,
+  cardCount,
+});
+
+// Empty criteria are left out so they match every card
+const toFilteredDeckQueryRow = (query: FilteredDeckQuery): FilteredDeckRow['query'] => {
+  const row: NonNullable<FilteredDeckRow['query']> = {};
+  if (query.deckIds?.length) row.deck_ids = query.deckIds;
+  if (query.tags?.length) row.tags = query.tags;
+  if (query.cardStates?.length) row.card_states = query.cardStates;
+  if (query.minLapses !== undefined) row.min_lapses = query.minLapses;
+  if (query.maxEase !== undefined) row.max_ease = query.maxEase;
+  if (query.minDaysOverdue !== undefined) row.min_days_overdue = query.minDaysOverdue;
+  if (query.lastRatings?.length) row.last_ratings = query.lastRatings;
+  return row;
+};
+
+// Filtered decks with their current matching card counts
+const fetchFilteredDecks = async (): Promise<FilteredDeck[]> => {
+  try {
+    const [{ data, error }, { data: counts, error: countsError }] = await Promise.all([
+      supabase.from('filtered_decks').select('*').order('created_at', { ascending: true }),
+      supabase.rpc('get_filtered_deck_counts'),
+    ]);
+
+    if (error) {
+      console.error('Error loading filtered decks:', error);
+      return [];
+    }
+    if (countsError) {
+      console.error('Error counting filtered deck cards:', countsError);
+    }
+
+    const countById = new Map<string, number>(
+      ((counts ?? []) as { filtered_deck_id: string; card_count: number }[])
+        .map(row => [row.filtered_deck_id, row.card_count])
+    );
+    return ((data ?? []) as FilteredDeckRow[]).map(row => toFilteredDeck(row, countById.get(row.id)));
+  } catch (error) {
+    console.error('Error loading filtered decks:', error);
+    return [];
+  }
+};
+
+// Where the user's day rolls over: their time zone and "next day starts at" hour
+const toDayBoundary = (preferences?: { timeZone?: string; dayStartHour?: number }): DayBoundary => ({
+  timeZone: preferences?.timeZone,
+  dayStartHour: preferences?.dayStartHour,
+});
+
+interface DeckConfigRow {
+  id?: string;
+  name?: string;
+  learning_steps?: number[];
+  graduating_interval?: number;
+  easy_interval?: number;
+  relearning_steps?: number[];
+  new_cards_per_day?: number;
+  backlog_daily_intake?: number;
+  maximum_interval?: number;
+  starting_ease?: number;
+  easy_bonus?: number;
+  hard_penalty?: number;
+  lapse_penalty?: number;
+  lapse_threshold?: number;
+  leech_action?: LeechAction;
+  scheduler?: SchedulerType;
+  desired_retention?: number;
+  fsrs_weights?: number[];
+  load_balancing?: boolean;
+  bury_new_siblings?: boolean;
+  bury_review_siblings?: boolean;
+  bury_learning_siblings?: boolean;
+  new_card_order?: NewCardOrder;
+  review_sort_order?: ReviewSortOrder;
+  new_review_mix?: NewReviewMix;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// An option group row, as loaded for one of the decks using it
+const toDeckConfig = (data: DeckConfigRow, deckId: string): DeckConfig => ({
+  id: data.id || '',
+  deckId,
+  name: data.name || DEFAULT_DECK_CONFIG.name,
+  learningSteps: data.learning_steps || [1, 10],
+  graduatingInterval: data.graduating_interval || 1,
+  easyInterval: data.easy_interval || 4,
+  relearningSteps: data.relearning_steps || [10],
+  newCardsPerDay: data.new_cards_per_day || 20,
+  backlogDailyIntake: data.backlog_daily_intake || DEFAULT_DECK_CONFIG.backlogDailyIntake,
+  maximumInterval: data.maximum_interval || 36500,
+  startingEase: data.starting_ease || 2.5,
+  easyBonus: data.easy_bonus || 0.15,
+  hardPenalty: data.hard_penalty || 0.15,
+  lapsePenalty: data.lapse_penalty || 0.2,
+  lapseThreshold: data.lapse_threshold || 8,
+  leechAction: data.leech_action || DEFAULT_DECK_CONFIG.leechAction,
+  scheduler: data.scheduler || 'sm2',
+  desiredRetention: data.desired_retention || 0.9,
+  fsrsWeights: data.fsrs_weights || DEFAULT_FSRS_WEIGHTS,
+  loadBalancing: data.load_balancing ?? true,
+  buryNewSiblings: data.bury_new_siblings ?? true,
+  buryReviewSiblings: data.bury_review_siblings ?? true,
+  buryLearningSiblings: data.bury_learning_siblings ?? false,
+  newCardOrder: data.new_card_order || DEFAULT_DECK_CONFIG.newCardOrder,
+  reviewSortOrder: data.review_sort_order || DEFAULT_DECK_CONFIG.reviewSortOrder,
+  newReviewMix: data.new_review_mix || DEFAULT_DECK_CONFIG.newReviewMix,
+  createdAt: data.created_at || new Date().toISOString(),
+  updatedAt: data.updated_at || new Date().toISOString()
+});
+
+// Settings columns only; the group's id and name are handled separately
+const toDeckConfigRow = (config: Partial<DeckConfig>): DeckConfigRow => ({
+  learning_steps: config.learningSteps,
+  graduating_interval: config.graduatingInterval,
+  easy_interval: config.easyInterval,
+  relearning_steps: config.relearningSteps,
+  new_cards_per_day: config.newCardsPerDay,
+  backlog_daily_intake: config.backlogDailyIntake,
+  maximum_interval: config.maximumInterval,
+  starting_ease: config.startingEase,
+  easy_bonus: config.easyBonus,
+  hard_penalty: config.hardPenalty,
+  lapse_penalty: config.lapsePenalty,
+  lapse_threshold: config.lapseThreshold,
+  leech_action: config.leechAction,
+  scheduler: config.scheduler,
+  desired_retention: config.desiredRetention,
+  fsrs_weights: config.fsrsWeights,
+  load_balancing: config.loadBalancing,
+  bury_new_siblings: config.buryNewSiblings,
+  bury_review_siblings: config.buryReviewSiblings,
+  bury_learning_siblings: config.buryLearningSiblings,
+  new_card_order: config.newCardOrder,
+  review_sort_order: config.reviewSortOrder,
+  new_review_mix: config.newReviewMix,
+});
+
 interface StudyContextType {
   decks: Deck[];
   currentDeck: Deck | null;
@@ -112,13 +302,19 @@ interface StudyContextType {
   getStudyQueue: () => Promise<Card[]>;
   
   // Enhanced SRS methods
-  rateAdvancedCard: (cardId: string, rating: EmojiRating, responseTime?: number, hesitationTime?: number) => Promise<AdvancedReviewResponse>;
+  rateAdvancedCard: (cardId: string, rating: EmojiRating, responseTime?: number, hesitationTime?: number, earlyReview?: boolean) => Promise<AdvancedReviewResponse>;
+  logPreviewReview: (cardId: string, rating: EmojiRating, responseTime?: number) => Promise<number>;
+  undoAdvancedReview: (reviewId: number, rating: EmojiRating) => Promise<Partial<EnhancedCard>>;
   getAdvancedStudyQueue: (deckId: string, newLimit?: number, totalLimit?: number) => Promise<StudyQueueResponse>;
+  getStudyAheadQueue: (deckId: string, days: number | null) => Promise<StudyQueueResponse>;
   getDeckConfig: (deckId: string) => Promise<DeckConfig>;
   updateDeckConfig: (deckId: string, config: Partial<DeckConfig>) => Promise<void>;
+  getDueCounts: (deckId: string, days?: number) => Promise<DueCounts>;
+  getBacklogStatus: (deckId: string) => Promise<BacklogStatus>;
   getEnhancedDeckStats: (deckId: string) => Promise<EnhancedDeck>;
   
-  addDeck: (deck: Omit<Deck, 'id'>) => Promise<Deck>;
+  addDeck: (deck: Omit<Deck, 'id' | 'parentId'> & { parentId?: string | null }) => Promise<Deck>;
+  ensureDeckPath: (path: string, description?: string) => Promise<string>;
   addCard: (card: Omit<Card, 'id' | 'type'> & { type?: string }) => void;
   importDeck: (files: File[]) => Promise<ImportResult>;
   updateStudyStats: (rating: EmojiRating) => void;
@@ -134,6 +330,34 @@ interface StudyContextType {
   getStreakInfo: () => Promise<StreakInfo>;
   refreshStreakData: () => Promise<void>;
   refreshDecks: () => Promise<void>;
+  
+  // Vacation mode
+  getVacations: () => Promise<Vacation[]>;
+  planVacation: (startsOn: string, endsOn: string, catchUpDays: number) => Promise<Vacation>;
+  cancelVacation: (vacationId: number) => Promise<Vacation>;
+
+  // Filtered decks
+  filteredDecks: FilteredDeck[];
+  refreshFilteredDecks: () => Promise<void>;
+  saveFilteredDeck: (deck: Omit<FilteredDeck, 'id' | 'cardCount'> & { id?: string }) => Promise<FilteredDeck>;
+  deleteFilteredDeck: (filteredDeckId: string) => Promise<void>;
+  getFilteredDeckQueue: (filteredDeckId: string) => Promise<StudyQueueResponse>;
+
+  // Leech repair
+  getLeeches: (deckId?: string) => Promise<LeechCard[]>;
+  repairLeech: (card: LeechCard, content: { front: string; back: string }, resetLapses: boolean) => Promise<void>;
+  splitLeech: (card: LeechCard, parts: { front: string; back: string }[]) => Promise<void>;
+  setCardSuspended: (cardId: string, suspended: boolean) => Promise<void>;
+  deleteCard: (cardId: string) => Promise<void>;
+
+  // Bulk rescheduling
+  bulkReschedule: (cardIds: string[], action: BulkRescheduleAction, options?: BulkRescheduleOptions) => Promise<number>;
+
+  // Option groups
+  getOptionGroups: () => Promise<OptionGroup[]>;
+  createOptionGroup: (deckId: string, name: string, settings: DeckConfig) => Promise<DeckConfig>;
+  renameOptionGroup: (configId: string, name: string) => Promise<void>;
+  assignOptionGroup: (deckId: string, configId: string) => Promise<DeckConfig>;
 }
 
 const StudyContext = createContext<StudyContextType | undefined>(undefined);
@@ -156,7 +380,7 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     try {
       const { data, error } = await supabase
         .from('decks')
-        .select('id,name,description,created_at');
+        .select('id,name,description,created_at,parent_id');
 
       if (!error && data) {
         const mapped: Deck[] = await Promise.all(
@@ -184,6 +408,7 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
             return {
               id: d.id,
               name: d.name,
+              parentId: d.parent_id ?? null,
               description: d.description ?? '',
               cardCount: cardCount ?? 0,
               dueCount: dueCount ?? 0,
@@ -230,15 +455,15 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       const totalCards = decks.reduce((sum, d) => sum + d.cardCount, 0);
 
       // ------------- Cards studied today & emoji breakdown -------------
-      const todayStart = new Date();
-      todayStart.setHours(0, 0, 0, 0);
-      const tomorrowStart = new Date(todayStart);
-      tomorrowStart.setDate(tomorrowStart.getDate() + 1);
+      const dayBoundary = toDayBoundary(user.preferences);
+      const todayStart = StudyDay.start(new Date(), dayBoundary);
+      const tomorrowStart = StudyDay.nextStart(new Date(), dayBoundary);
 
       const { data: reviewsToday } = await supabase
         .from('reviews')
         .select('rating')
         .eq('owner_id', user.id)
+        .eq('review_kind', 'review')
         .gte('reviewed_at', todayStart.toISOString())
         .lt('reviewed_at', tomorrowStart.toISOString());
 
@@ -262,7 +487,7 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
 
       const weekStatsMap: { [date: string]: { cards: number; positives: number; total: number } } = {};
       (recentLogs ?? []).forEach(log => {
-        const day = new Date(log.session_date).toLocaleDateString('en-CA');
+        const day = StudyDay.dateKey(new Date(log.session_date), dayBoundary);
         if (!weekStatsMap[day]) weekStatsMap[day] = { cards: 0, positives: 0, total: 0 };
         weekStatsMap[day].cards += log.cards_studied ?? 0;
         weekStatsMap[day].total += 1;
@@ -305,7 +530,7 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     updateStudyStats(rating);
   };
 
-  const addDeck = async (deckData: Omit<Deck, 'id'>): Promise<Deck> => {
+  const addDeck = async (deckData: Omit<Deck, 'id' | 'parentId'> & { parentId?: string | null }): Promise<Deck> => {
     // Ensure the new deck row is associated with the currently authenticated user so that
     // it passes the RLS policy which requires `user_id = auth.uid()`.
     const {
@@ -318,12 +543,20 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       throw new Error('Not authenticated');
     }
 
+    // "Parent::Child" creates the child below its (possibly new) parent decks
+    const names = DeckTree.splitPath(deckData.name);
+    const name = names.pop() ?? deckData.name;
+    const parentId = names.length
+      ? await ensureDeckPath(names.join('::'), deckData.description)
+      : deckData.parentId ?? null;
+
     const { data, error } = await supabase
       .from('decks')
       .insert({
         owner_id: session.user.id,
-        name: deckData.name,
+        name,
         description: deckData.description,
+        parent_id: parentId,
       })
       .select()
       .single();
@@ -336,16 +569,64 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     const newDeck: Deck = {
       ...deckData,
       id: data.id,
+      name,
+      parentId,
     };
-    setDecks(prev => [...prev, newDeck]);
+    if (names.length) {
+      await loadDecks();
+    } else {
+      setDecks(prev => [...prev, newDeck]);
+    }
     return newDeck;
   };
 
+  /**
+   * Id of the deck at a "Parent::Child" path, creating any missing levels
+   */
+  const ensureDeckPath = async (path: string, description = ''): Promise<string> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) {
+      throw new Error('Not authenticated');
+    }
+
+    const names = DeckTree.splitPath(path);
+    if (!names.length) {
+      throw new Error('Deck name is empty');
+    }
+
+    let parentId: string | null = null;
+    for (const name of names) {
+      const lookup = supabase.from('decks').select('id').eq('name', name).limit(1);
+      const { data: existing, error: lookupError } = await (parentId ? lookup.eq('parent_id', parentId) : lookup.is('parent_id', null));
+      if (lookupError) {
+        throw new Error(`Failed to look up deck "${name}": ${lookupError.message}`);
+      }
+
+      if (existing?.length) {
+        parentId = existing[0].id as string;
+        continue;
+      }
+
+      const { data: created, error: createError } = await supabase
+        .from('decks')
+        .insert({ owner_id: session.user.id, name, description, parent_id: parentId })
+        .select('id')
+        .single();
+      if (createError) {
+        throw new Error(`Failed to create deck "${name}": ${createError.message}`);
+      }
+      parentId = created.id as string;
+    }
+
+    return parentId as string;
+  };
+
   const addCard = async (cardData: Omit<Card, 'id' | 'type'> & { type?: string }) => {
     const { data, error } = await supabase
       .from('cards')
       .insert({
         deck_id: cardData.deckId,
+        note_id: cardData.noteId,
         type: cardData.type ?? 'basic',
         front: cardData.front,
         back: cardData.back,
@@ -390,7 +671,6 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       let totalCards = 0;
       const createdDecks: string[] = [];
       const errors: string[] = [];
-      const newDecks: Deck[] = [];
       
       // Process each file
       for (let fileIndex = 0; fileIndex < files.length; fileIndex++) {
@@ -399,6 +679,7 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         try {
           // Parse the .apkg file
           const parsedDecks = await parseApkg(file);
+          const toNoteId = createNoteIdMap();
 
           // Create decks in Supabase
           for (const deck of parsedDecks) {
@@ -407,22 +688,11 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
               continue;
             }
 
-            // Create deck
-            const { data: newDeck, error: deckError } = await supabase
-              .from('decks')
-              .insert({
-                owner_id: session.user.id,
-                name: deck.name || `Imported Deck ${fileIndex + 1}`,
-                description: `Imported from ${file.name}`,
-              })
-              .select()
-              .single();
-
-            if (deckError) {
-              throw new Error(`Failed to create deck "${deck.name}": ${deckError.message}`);
-            }
-
-            const deckId = newDeck.id;
+            // Find or create the deck and its parents ("Medicine::Cardio::Drugs")
+            const deckId = await ensureDeckPath(
+              deck.name || `Imported Deck ${fileIndex + 1}`,
+              `Imported from ${file.name}`
+            );
             createdDecks.push(deck.name);
 
             // Insert cards in batches to avoid timeout
@@ -431,6 +701,7 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
               const batch = deck.cards.slice(i, i + batchSize);
               const cardRows = batch.map((card) => ({
                 deck_id: deckId,
+                note_id: toNoteId(card.noteId),
                 type: 'basic',
                 front: card.front || 'No front content',
                 back: card.back || 'No back content',
@@ -453,30 +724,14 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
             }
 
             totalCards += deck.cards.length;
-
-            // Note: Card counts are computed dynamically in loadDecks(), no need to store them
-            // Create local deck object for state update
-            const localDeck: Deck = {
-              id: deckId,
-              name: deck.name || `Imported Deck ${fileIndex + 1}`,
-              description: `Imported from ${file.name}`,
-              cardCount: deck.cards.length,
-              dueCount: 0,
-              newCount: deck.cards.length,
-              color: 'bg-green-100',
-              emoji: '📚',
-              created: new Date().toISOString(),
-              lastStudied: null,
-            };
-            newDecks.push(localDeck);
           }
         } catch (fileError) {
           errors.push(`${file.name}: ${(fileError as Error).message}`);
         }
       }
 
-      // Update local state with new decks
-      setDecks(prev => [...prev, ...newDecks]);
+      // Reload so new parent decks and merged decks show up with their counts
+      await loadDecks();
 
       // Return results
       const success = createdDecks.length > 0;
@@ -527,8 +782,12 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }));
   };
 
+  // Subdecks go with their parent (the database cascades the delete)
   const removeDeck = (id: string) => {
-    setDecks(prev => prev.filter(d => d.id !== id));
+    setDecks(prev => {
+      const removed = DeckTree.subtreeIds(prev, id);
+      return prev.filter(d => !removed.includes(d.id));
+    });
   };
 
   // Anti-burnout workload balancing functions
@@ -537,15 +796,15 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       const { data: { session } } = await supabase.auth.getSession();
       if (!session?.user) return 0;
 
-      const todayStart = new Date();
-      todayStart.setHours(0, 0, 0, 0);
-      const tomorrowStart = new Date(todayStart);
-      tomorrowStart.setDate(tomorrowStart.getDate() + 1);
+      const dayBoundary = toDayBoundary(user?.preferences);
+      const todayStart = StudyDay.start(new Date(), dayBoundary);
+      const tomorrowStart = StudyDay.nextStart(new Date(), dayBoundary);
 
       const { count } = await supabase
         .from('reviews')
         .select('id', { count: 'exact', head: true })
         .eq('owner_id', session.user.id)
+        .eq('review_kind', 'review')
         .gte('reviewed_at', todayStart.toISOString())
         .lt('reviewed_at', tomorrowStart.toISOString());
 
@@ -565,7 +824,30 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     let shouldStudy = true;
     let reason = 'Good time to study!';
 
-    if (cardsToday >= maxDailyCards) {
+    // The anti-burnout engine weighs the forecast's projected load against the daily limit
+    // (null if the forecast could not be computed)
+    let balance: WorkloadBalance | null = null;
+    try {
+      const forecast = await WorkloadForecaster.load(7, toDayBoundary(user?.preferences));
+      balance = new AntiBurnoutEngine(user?.id ?? '', { maxDailyCards }).getWorkloadBalance(cardsToday, forecast.days);
+    } catch (error) {
+      console.error('Error loading workload forecast:', error);
+    }
+    const projectedToday = balance?.projectedDueToday ?? null;
+
+    if (projectedToday === 0) {
+      shouldStudy = false;
+      recommendedCards = 0;
+      reason = 'All caught up - nothing is due today.';
+    } else if (balance && projectedToday !== null && cardsToday < maxDailyCards) {
+      recommendedCards = balance.remainingCapacity;
+      reason = projectedToday > balance.remainingCapacity
+        ? `${projectedToday} cards due today - more than your daily limit, so focus on the most overdue.`
+        : `${projectedToday} cards due today.`;
+      if (balance.overloadRisk) {
+        reason += ` Busy week ahead (up to ${balance.projectedWeekPeak} cards a day) - keep sessions steady.`;
+      }
+    } else if (cardsToday >= maxDailyCards) {
       shouldStudy = false;
       recommendedCards = 0;
       reason = 'Daily limit reached. Time to rest and consolidate learning.';
@@ -664,11 +946,16 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   // ENHANCED SRS METHODS
   // ========================================
 
+  /**
+   * earlyReview: the card is being studied ahead, so SM-2 grows its interval
+   * from the days actually elapsed instead of the full interval
+   */
   const rateAdvancedCard = async (
     cardId: string, 
     rating: EmojiRating, 
     responseTime?: number, 
-    hesitationTime?: number
+    hesitationTime?: number,
+    earlyReview = false
   ): Promise<AdvancedReviewResponse> => {
     try {
       const { data, error } = await supabase.functions.invoke('submit_advanced_review', {
@@ -678,6 +965,7 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
           time_taken: responseTime ? Math.round(responseTime / 1000) : 0,
           response_time_ms: responseTime,
           hesitation_time_ms: hesitationTime,
+          early_review: earlyReview,
         },
       });
 
@@ -695,6 +983,164 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
   };
 
+  /**
+   * Log an answer as a preview: the card's schedule is left alone and the entry
+   * is ignored by stats and streaks. Returns the review id, for undo.
+   */
+  const logPreviewReview = async (
+    cardId: string,
+    rating: EmojiRating,
+    responseTime?: number
+  ): Promise<number> => {
+    const { data, error } = await supabase.rpc('log_preview_review', {
+      p_card_id: cardId,
+      p_rating: { '😞': 0, '😐': 1, '😊': 2, '😁': 3 }[rating],
+      p_time_taken: responseTime ? Math.round(responseTime / 1000) : 0,
+      p_response_time_ms: responseTime ?? null,
+    });
+
+    if (error || data === null) {
+      console.error('Error logging preview review:', error);
+      throw new Error(error?.message || 'Failed to log preview review');
+    }
+
+    return data as number;
+  };
+
+  /**
+   * Roll back a review: restores the card's pre-review snapshot and deletes the review row
+   */
+  const undoAdvancedReview = async (
+    reviewId: number,
+    rating: EmojiRating
+  ): Promise<Partial<EnhancedCard>> => {
+    const { data, error } = await supabase.rpc('undo_review', { p_review_id: reviewId });
+
+    if (error || !data) {
+      console.error('Error undoing review:', error);
+      throw new Error(error?.message || 'Failed to undo review');
+    }
+
+    setStudyStats(prev => ({
+      ...prev,
+      studiedToday: Math.max(0, prev.studiedToday - 1),
+      emojiBreakdown: {
+        ...prev.emojiBreakdown,
+        [rating]: Math.max(0, prev.emojiBreakdown[rating] - 1),
+      },
+    }));
+
+    return {
+      cardState: (data.card_state as CardState) || CardState.NEW,
+      learningStep: data.learning_step || 0,
+      lapseCount: data.lapse_count || 0,
+      easeFactor: Number(data.ease_factor) || 2.5,
+      interval: Number(data.interval) || 1,
+      reviewCount: data.review_count || 0,
+      lastStudied: data.last_studied,
+      nextDue: data.next_due,
+      isLeech: data.is_leech || false,
+      stability: data.stability ?? undefined,
+      fsrsDifficulty: data.fsrs_difficulty ?? undefined
+    };
+  };
+
+  // Transform study queue rows to StudyQueueCard format with safe handling
+  // Note: Queue functions return result_* column names to avoid conflicts
+  const toStudyQueueCards = (rows: unknown[], deckId: string): StudyQueueCard[] =>
+    rows.map((card: any) => {
+      try {
+        const baseCard = {
+          id: card.result_card_id || card.card_id || card.id,
+          deckId: card.result_deck_id || deckId,
+          noteId: card.result_note_id ?? undefined,
+          type: card.result_card_type || card.card_type || card.type || 'basic',
+          front: card.result_front || card.front || '',
+          back: card.result_back || card.back || '',
+          tags: card.tags || [],
+          difficulty: card.difficulty || 0,
+          created: card.created_at || new Date().toISOString(),
+          cardState: (card.result_card_state || card.card_state as CardState) || CardState.NEW,
+          learningStep: card.result_learning_step || card.learning_step || 0,
+          lapseCount: card.result_lapse_count || card.lapse_count || 0,
+          isLeech: card.result_is_leech || card.is_leech || false,
+          lastStudied: card.result_last_studied || card.last_studied || null,
+          nextDue: card.result_next_due || card.next_due || new Date().toISOString(),
+          interval: card.result_interval_days || card.interval_days || card.interval || 1,
+          easeFactor: Number(card.result_ease_factor || card.ease_factor) || 2.5,
+          reviewCount: card.result_review_count || card.review_count || 0,
+          stability: card.result_stability ?? undefined,
+          fsrsDifficulty: card.result_fsrs_difficulty ?? undefined,
+          recallProbability: card.result_recall_probability ?? undefined,
+          priority: card.result_priority || card.priority || 5
+        };
+
+        // Handle special card types that store data in JSON format
+        if (baseCard.type === 'multiple-choice') {
+          try {
+            const mcData = JSON.parse(baseCard.back);
+            return {
+              ...baseCard,
+              question: baseCard.front,
+              options: mcData.options || [],
+              correctAnswer: mcData.correctAnswer || 0,
+              explanation: mcData.explanation || ''
+            };
+          } catch (jsonError) {
+            console.warn('Failed to parse multiple choice data:', jsonError);
+            // Fall back to basic card if parsing fails
+            return { ...baseCard, type: 'basic' };
+          }
+        } else if (baseCard.type === 'type-in') {
+          try {
+            const typeInData = JSON.parse(baseCard.back);
+            return {
+              ...baseCard,
+              question: baseCard.front,
+              answer: typeInData.answer || '',
+              acceptableAnswers: typeInData.acceptableAnswers || [],
+              caseSensitive: typeInData.caseSensitive || false
+            };
+          } catch (jsonError) {
+            console.warn('Failed to parse type-in data:', jsonError);
+            // Fall back to basic card if parsing fails
+            return { ...baseCard, type: 'basic' };
+          }
+        } else if (baseCard.type === 'cloze') {
+          return {
+            ...baseCard,
+            text: baseCard.front,
+            clozes: [{ id: '1', answer: 'cloze', hint: '' }] // Basic cloze structure
+          };
+        }
+
+        return baseCard;
+      } catch (cardError) {
+        console.error('Error transforming card:', card, cardError);
+        // Return a basic card structure to prevent crashes
+        return {
+          id: card.result_card_id || card.card_id || card.id || 'unknown',
+          deckId: card.result_deck_id || deckId,
+          type: 'basic',
+          front: card.result_front || card.front || 'Error loading card',
+          back: card.result_back || card.back || 'Error loading card',
+          tags: [],
+          difficulty: 0,
+          created: new Date().toISOString(),
+          cardState: CardState.NEW,
+          learningStep: 0,
+          lapseCount: 0,
+          isLeech: false,
+          lastStudied: null,
+          nextDue: new Date().toISOString(),
+          interval: 1,
+          easeFactor: 2.5,
+          reviewCount: 0,
+          priority: 5
+        };
+      }
+    }).filter(card => card.id !== 'unknown'); // Remove failed transformations
+
   const getAdvancedStudyQueue = async (
     deckId: string, 
     newLimit: number = user?.preferences?.newCardsPerDay || 20, 
@@ -731,96 +1177,7 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         };
       }
 
-      // Transform database response to StudyQueueCard format with safe handling
-      // Note: Function now returns result_* column names to avoid conflicts
-      const cards: StudyQueueCard[] = data.map((card: any) => {
-        try {
-          const baseCard = {
-            id: card.result_card_id || card.card_id || card.id,
-            deckId: deckId,
-            type: card.result_card_type || card.card_type || card.type || 'basic',
-            front: card.result_front || card.front || '',
-            back: card.result_back || card.back || '',
-            tags: card.tags || [],
-            difficulty: card.difficulty || 0,
-            created: card.created_at || new Date().toISOString(),
-            cardState: (card.result_card_state || card.card_state as CardState) || CardState.NEW,
-            learningStep: card.result_learning_step || card.learning_step || 0,
-            lapseCount: card.result_lapse_count || card.lapse_count || 0,
-            isLeech: card.result_is_leech || card.is_leech || false,
-            lastStudied: card.last_studied || null,
-            nextDue: card.result_next_due || card.next_due || new Date().toISOString(),
-            interval: card.result_interval_days || card.interval_days || card.interval || 1,
-            easeFactor: card.result_ease_factor || card.ease_factor || 2.5,
-            reviewCount: card.review_count || 0,
-            priority: card.result_priority || card.priority || 5
-          };
-
-          // Handle special card types that store data in JSON format
-          if (baseCard.type === 'multiple-choice') {
-            try {
-              const mcData = JSON.parse(baseCard.back);
-              return {
-                ...baseCard,
-                question: baseCard.front,
-                options: mcData.options || [],
-                correctAnswer: mcData.correctAnswer || 0,
-                explanation: mcData.explanation || ''
-              };
-            } catch (jsonError) {
-              console.warn('Failed to parse multiple choice data:', jsonError);
-              // Fall back to basic card if parsing fails
-              return { ...baseCard, type: 'basic' };
-            }
-          } else if (baseCard.type === 'type-in') {
-            try {
-              const typeInData = JSON.parse(baseCard.back);
-              return {
-                ...baseCard,
-                question: baseCard.front,
-                answer: typeInData.answer || '',
-                acceptableAnswers: typeInData.acceptableAnswers || [],
-                caseSensitive: typeInData.caseSensitive || false
-              };
-            } catch (jsonError) {
-              console.warn('Failed to parse type-in data:', jsonError);
-              // Fall back to basic card if parsing fails
-              return { ...baseCard, type: 'basic' };
-            }
-          } else if (baseCard.type === 'cloze') {
-            return {
-              ...baseCard,
-              text: baseCard.front,
-              clozes: [{ id: '1', answer: 'cloze', hint: '' }] // Basic cloze structure
-            };
-          }
-
-          return baseCard;
-        } catch (cardError) {
-          console.error('Error transforming card:', card, cardError);
-          // Return a basic card structure to prevent crashes
-          return {
-            id: card.result_card_id || card.card_id || card.id || 'unknown',
-            deckId: deckId,
-            type: 'basic',
-            front: card.result_front || card.front || 'Error loading card',
-            back: card.result_back || card.back || 'Error loading card',
-            tags: [],
-            difficulty: 0,
-            created: new Date().toISOString(),
-            cardState: CardState.NEW,
-            learningStep: 0,
-            lapseCount: 0,
-            isLeech: false,
-            lastStudied: null,
-            nextDue: new Date().toISOString(),
-            interval: 1,
-            easeFactor: 2.5,
-            reviewCount: 0,
-            priority: 5
-          };
-        }
-      }).filter(card => card.id !== 'unknown'); // Remove failed transformations
+      const cards = toStudyQueueCards(data, deckId);
 
       // Calculate metadata
       const newCards = cards.filter(c => c.cardState === CardState.NEW).length;
@@ -856,6 +1213,51 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
   };
 
+  /**
+   * Cards due within the next `days` study days (0 = today), or the whole deck
+   * when days is null - for previewing and studying ahead
+   */
+  const getStudyAheadQueue = async (deckId: string, days: number | null): Promise<StudyQueueResponse> => {
+    try {
+      const { data, error } = await supabase.rpc('get_study_ahead_queue', {
+        p_deck_id: deckId,
+        p_days: days,
+      });
+
+      if (error) {
+        throw new Error(error.message || 'Failed to get study ahead queue');
+      }
+
+      const cards = toStudyQueueCards(Array.isArray(data) ? data : [], deckId);
+
+      return {
+        success: true,
+        cards,
+        metadata: {
+          totalAvailable: cards.length,
+          newCardsRemaining: cards.filter(c => c.cardState === CardState.NEW).length,
+          dueReviews: cards.filter(c => c.cardState === CardState.REVIEW).length,
+          learningCards: cards.filter(c => c.cardState === CardState.LEARNING).length,
+          relearningCards: cards.filter(c => c.cardState === CardState.RELEARNING).length
+        }
+      };
+    } catch (error) {
+      console.error('Error getting study ahead queue:', error);
+      return {
+        success: false,
+        cards: [],
+        metadata: {
+          totalAvailable: 0,
+          newCardsRemaining: 0,
+          dueReviews: 0,
+          learningCards: 0,
+          relearningCards: 0
+        },
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  };
+
   const getDeckConfig = async (deckId: string): Promise<DeckConfig> => {
     try {
       console.log('Getting deck config for:', deckId);
@@ -868,39 +1270,6 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
 
       if (error) {
         console.error('Deck config error:', error);
-        
-        // If it's a duplicate key error, try to get existing config directly
-        if (error.message?.includes('duplicate key') || error.message?.includes('unique constraint')) {
-          console.log('Duplicate key error, trying direct query...');
-          const { data: directData, error: directError } = await supabase
-            .from('deck_configs')
-            .select('*')
-            .eq('deck_id', deckId)
-            .limit(1)
-            .single();
-            
-          if (!directError && directData) {
-            console.log('Got config via direct query:', directData);
-            return {
-              id: directData.id,
-              deckId: directData.deck_id,
-              learningSteps: directData.learning_steps || [1, 10],
-              graduatingInterval: directData.graduating_interval || 1,
-              easyInterval: directData.easy_interval || 4,
-              relearningSteps: directData.relearning_steps || [10],
-              newCardsPerDay: directData.new_cards_per_day || 20,
-              maximumInterval: directData.maximum_interval || 36500,
-              startingEase: directData.starting_ease || 2.5,
-              easyBonus: directData.easy_bonus || 0.15,
-              hardPenalty: directData.hard_penalty || 0.15,
-              lapsePenalty: directData.lapse_penalty || 0.2,
-              lapseThreshold: directData.lapse_threshold || 8,
-              createdAt: directData.created_at,
-              updatedAt: directData.updated_at
-            };
-          }
-        }
-        
         throw new Error(error.message || 'Failed to get deck config');
       }
 
@@ -910,23 +1279,7 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       }
 
       // Transform database response to DeckConfig format
-      const config = {
-        id: data.id || '',
-        deckId: data.deck_id || deckId,
-        learningSteps: data.learning_steps || [1, 10],
-        graduatingInterval: data.graduating_interval || 1,
-        easyInterval: data.easy_interval || 4,
-        relearningSteps: data.relearning_steps || [10],
-        newCardsPerDay: data.new_cards_per_day || 20,
-        maximumInterval: data.maximum_interval || 36500,
-        startingEase: data.starting_ease || 2.5,
-        easyBonus: data.easy_bonus || 0.15,
-        hardPenalty: data.hard_penalty || 0.15,
-        lapsePenalty: data.lapse_penalty || 0.2,
-        lapseThreshold: data.lapse_threshold || 8,
-        createdAt: data.created_at || new Date().toISOString(),
-        updatedAt: data.updated_at || new Date().toISOString()
-      };
+      const config = toDeckConfig(data, deckId);
       
       console.log('Transformed config:', config);
       return config;
@@ -945,26 +1298,22 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
   };
 
+  // Saves into the deck's option group, so every deck in the group changes
   const updateDeckConfig = async (deckId: string, config: Partial<DeckConfig>): Promise<void> => {
     try {
+      const configId = config.id || (await getDeckConfig(deckId)).id;
+      if (!configId) {
+        throw new Error('Deck has no option group');
+      }
+
       const { error } = await supabase
         .from('deck_configs')
-        .upsert({
-          deck_id: deckId,
-          learning_steps: config.learningSteps,
-          graduating_interval: config.graduatingInterval,
-          easy_interval: config.easyInterval,
-          relearning_steps: config.relearningSteps,
-          new_cards_per_day: config.newCardsPerDay,
-          maximum_interval: config.maximumInterval,
-          starting_ease: config.startingEase,
-          easy_bonus: config.easyBonus,
-          hard_penalty: config.hardPenalty,
-          lapse_penalty: config.lapsePenalty,
-          lapse_threshold: config.lapseThreshold,
+        .update({
+          ...toDeckConfigRow(config),
+          name: config.name,
           updated_at: new Date().toISOString()
         })
-        .eq('deck_id', deckId);
+        .eq('id', configId);
 
       if (error) {
         throw new Error(error.message || 'Failed to update deck config');
@@ -975,6 +1324,40 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
   };
 
+  // Review cards already due per day ahead, for load-balanced interval previews
+  const getDueCounts = async (deckId: string, days: number = DEFAULT_DECK_CONFIG.maximumInterval + 1): Promise<DueCounts> => {
+    const { data, error } = await supabase.rpc('get_due_counts', { p_deck_id: deckId, p_days: days });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to get due counts');
+    }
+
+    const counts: DueCounts = {};
+    (data ?? []).forEach((row: { day_offset: number; due_count: number }) => {
+      counts[row.day_offset] = row.due_count;
+    });
+    return counts;
+  };
+
+  // Overdue review backlog and how long catching up takes at the deck's daily intake
+  const getBacklogStatus = async (deckId: string): Promise<BacklogStatus> => {
+    const { data, error } = await supabase.rpc('get_backlog_status', { p_deck_id: deckId });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to get backlog status');
+    }
+
+    const row = data?.[0];
+    return {
+      overdueCount: row?.overdue_count ?? 0,
+      dailyIntake: row?.daily_intake ?? DEFAULT_DECK_CONFIG.backlogDailyIntake,
+      intakeRemaining: row?.intake_remaining ?? 0,
+      inBacklog: row?.in_backlog ?? false,
+      daysToClear: row?.days_to_clear ?? 0,
+      meanRecall: row?.mean_recall ?? null,
+    };
+  };
+
   const getEnhancedDeckStats = async (deckId: string): Promise<EnhancedDeck> => {
     try {
       // Get basic deck info
@@ -1021,6 +1404,7 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       } : {
         id: deckId,
         name: 'Unknown Deck',
+        parentId: null,
         description: '',
         cardCount: 0,
         dueCount: 0,
@@ -1056,6 +1440,7 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       const { data, error } = await supabase
         .from('reviews')
         .select('reviewed_at')
+        .eq('review_kind', 'review')
         .gte('reviewed_at', since.toISOString());
 
       if (error) {
@@ -1063,17 +1448,34 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         return 0;
       }
 
+      // Read from the table: this also runs on mount, before the user context has loaded
+      const { data: prefs } = await supabase
+        .from('user_preferences')
+        .select('preferences')
+        .eq('user_id', session.user.id)
+        .maybeSingle();
+
+      const dayBoundary = toDayBoundary(prefs?.preferences);
       const daysSet = new Set<string>(
-        (data as any[]).map(r => new Date(r.reviewed_at).toDateString())
+        (data as any[]).map(r => StudyDay.dateKey(new Date(r.reviewed_at), dayBoundary))
       );
 
+      // Planned vacation days bridge the streak without adding to it
+      const { data: vacationDays } = await supabase
+        .from('daily_workload')
+        .select('date')
+        .eq('is_vacation', true)
+        .gte('date', since.toISOString().slice(0, 10));
+
+      const vacationSet = new Set<string>((vacationDays ?? []).map(v => v.date));
+
+      const today = StudyDay.dateKey(new Date(), dayBoundary);
       let streak = 0;
-      for (let i = 0; ; i++) {
-        const d = new Date();
-        d.setDate(d.getDate() - i);
-        if (daysSet.has(d.toDateString())) {
+      for (let i = 0; i <= 120; i++) {
+        const day = StudyDay.shiftDate(today, -i);
+        if (daysSet.has(day)) {
           streak++;
-        } else {
+        } else if (!vacationSet.has(day)) {
           break;
         }
       }
@@ -1206,6 +1608,405 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     await loadDecks();
   };
 
+  // ========================================
+  // VACATION MODE
+  // ========================================
+
+  const toVacation = (row: {
+    id: number;
+    starts_on: string;
+    ends_on: string;
+    catch_up_days: number;
+    status: Vacation['status'];
+    pulled_forward: number;
+    postponed: number;
+    spread: number;
+  }): Vacation => ({
+    id: row.id,
+    startsOn: row.starts_on,
+    endsOn: row.ends_on,
+    catchUpDays: row.catch_up_days,
+    status: row.status,
+    pulledForward: row.pulled_forward,
+    postponed: row.postponed,
+    spread: row.spread,
+  });
+
+  const getVacations = async (): Promise<Vacation[]> => {
+    const { data, error } = await supabase
+      .from('vacations')
+      .select('*')
+      .neq('status', 'cancelled')
+      .order('starts_on', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to load vacations');
+    }
+
+    return (data ?? []).map(toVacation);
+  };
+
+  const planVacation = async (startsOn: string, endsOn: string, catchUpDays: number): Promise<Vacation> => {
+    const { data, error } = await supabase.rpc('plan_vacation', {
+      p_starts_on: startsOn,
+      p_ends_on: endsOn,
+      p_catch_up_days: catchUpDays,
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to plan vacation');
+    }
+
+    return toVacation(data);
+  };
+
+  const cancelVacation = async (vacationId: number): Promise<Vacation> => {
+    const { data, error } = await supabase.rpc('cancel_vacation', { p_vacation_id: vacationId });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to cancel vacation');
+    }
+
+    return toVacation(data);
+  };
+
+  // Once a vacation is over, spread its backlog over the catch-up days
+  useEffect(() => {
+    if (!user) return;
+
+    const finishEndedVacations = async () => {
+      try {
+        const { data: ended, error: endedError } = await supabase
+          .from('vacations')
+          .select('id')
+          .eq('status', 'planned')
+          .lt('ends_on', new Date().toISOString().slice(0, 10));
+
+        if (endedError || !ended) {
+          console.error('Error checking for ended vacations:', endedError);
+          return;
+        }
+
+        for (const vacation of ended) {
+          const { error } = await supabase.rpc('finish_vacation', { p_vacation_id: vacation.id });
+          if (error) {
+            console.error('Error finishing vacation:', error);
+          }
+        }
+
+        if (ended.length > 0) {
+          await loadDecks();
+        }
+      } catch (error) {
+        console.error('Error checking for ended vacations:', error);
+      }
+    };
+
+    finishEndedVacations();
+  }, [user]);
+
+  // ========================================
+  // FILTERED DECKS
+  // ========================================
+
+  const [filteredDecks, setFilteredDecks] = useState<FilteredDeck[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      fetchFilteredDecks().then(setFilteredDecks);
+    }
+  }, [user]);
+
+  const refreshFilteredDecks = async (): Promise<void> => {
+    setFilteredDecks(await fetchFilteredDecks());
+  };
+
+  const saveFilteredDeck = async (
+    deck: Omit<FilteredDeck, 'id' | 'cardCount'> & { id?: string }
+  ): Promise<FilteredDeck> => {
+    const row = {
+      name: deck.name,
+      query: toFilteredDeckQueryRow(deck.query),
+      order_by: deck.order,
+      card_limit: deck.cardLimit,
+      reschedule: deck.reschedule,
+    };
+
+    const { data, error } = deck.id
+      ? await supabase.from('filtered_decks').update(row).eq('id', deck.id).select().single()
+      : await supabase.from('filtered_decks').insert(row).select().single();
+
+    if (error) {
+      throw new Error(error.message || 'Failed to save filtered deck');
+    }
+
+    await refreshFilteredDecks();
+    return toFilteredDeck(data as FilteredDeckRow);
+  };
+
+  const deleteFilteredDeck = async (filteredDeckId: string): Promise<void> => {
+    const { error } = await supabase.from('filtered_decks').delete().eq('id', filteredDeckId);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to delete filtered deck');
+    }
+
+    setFilteredDecks(prev => prev.filter(deck => deck.id !== filteredDeckId));
+  };
+
+  // Cards come from many decks; each carries its own deckId so it can be
+  // scheduled with that deck's options
+  const getFilteredDeckQueue = async (filteredDeckId: string): Promise<StudyQueueResponse> => {
+    try {
+      const { data, error } = await supabase.rpc('get_filtered_deck_queue', {
+        p_filtered_deck_id: filteredDeckId,
+      });
+
+      if (error) {
+        throw new Error(error.message || 'Failed to get filtered deck queue');
+      }
+
+      const cards = toStudyQueueCards(Array.isArray(data) ? data : [], filteredDeckId);
+
+      return {
+        success: true,
+        cards,
+        metadata: {
+          totalAvailable: cards.length,
+          newCardsRemaining: cards.filter(c => c.cardState === CardState.NEW).length,
+          dueReviews: cards.filter(c => c.cardState === CardState.REVIEW).length,
+          learningCards: cards.filter(c => c.cardState === CardState.LEARNING).length,
+          relearningCards: cards.filter(c => c.cardState === CardState.RELEARNING).length
+        }
+      };
+    } catch (error) {
+      console.error('Error getting filtered deck queue:', error);
+      return {
+        success: false,
+        cards: [],
+        metadata: {
+          totalAvailable: 0,
+          newCardsRemaining: 0,
+          dueReviews: 0,
+          learningCards: 0,
+          relearningCards: 0
+        },
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  };
+
+  // ========================================
+  // LEECH REPAIR
+  // ========================================
+
+  const getLeeches = async (deckId?: string): Promise<LeechCard[]> => {
+    const { data, error } = await supabase.rpc('get_leeches', { p_deck_id: deckId ?? null });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to load leeches');
+    }
+
+    return ((data ?? []) as {
+      card_id: string;
+      deck_id: string;
+      deck_name: string;
+      card_type: string;
+      front: string;
+      back: string;
+      tags: string[];
+      lapse_count: number;
+      ease_factor: number | string;
+      interval_days: number;
+      is_suspended: boolean;
+      review_history: { rating: number; reviewed_at: string; time_taken: number; interval_before: number | null }[];
+    }[]).map(row => ({
+      id: row.card_id,
+      deckId: row.deck_id,
+      deckName: row.deck_name,
+      type: row.card_type,
+      front: row.front,
+      back: row.back,
+      tags: row.tags,
+      lapseCount: row.lapse_count,
+      easeFactor: Number(row.ease_factor),
+      interval: row.interval_days,
+      isSuspended: row.is_suspended,
+      reviews: row.review_history.map(review => ({
+        rating: review.rating,
+        reviewedAt: review.reviewed_at,
+        timeTaken: review.time_taken,
+        intervalBefore: review.interval_before,
+      })),
+    }));
+  };
+
+  /**
+   * Rewrite a leech. Resetting lapses also clears the leech flag and tag and unsuspends it.
+   */
+  const repairLeech = async (
+    card: LeechCard,
+    content: { front: string; back: string },
+    resetLapses: boolean
+  ): Promise<void> => {
+    const { error } = await supabase
+      .from('cards')
+      .update(resetLapses
+        ? {
+            ...content,
+            lapse_count: 0,
+            is_leech: false,
+            is_suspended: false,
+            tags: card.tags.filter(tag => tag !== LEECH_TAG),
+          }
+        : content)
+      .eq('id', card.id);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to update card');
+    }
+  };
+
+  // Replace a leech with several smaller new cards in the same deck
+  const splitLeech = async (card: LeechCard, parts: { front: string; back: string }[]): Promise<void> => {
+    const { error: insertError } = await supabase
+      .from('cards')
+      .insert(parts.map(part => ({
+        deck_id: card.deckId,
+        type: 'basic',
+        front: part.front,
+        back: part.back,
+        tags: card.tags.filter(tag => tag !== LEECH_TAG),
+      })));
+
+    if (insertError) {
+      throw new Error(insertError.message || 'Failed to create cards');
+    }
+
+    await deleteCard(card.id);
+    await loadDecks();
+  };
+
+  const setCardSuspended = async (cardId: string, suspended: boolean): Promise<void> => {
+    const { error } = await supabase.from('cards').update({ is_suspended: suspended }).eq('id', cardId);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to update card');
+    }
+  };
+
+  const deleteCard = async (cardId: string): Promise<void> => {
+    const { error } = await supabase.from('cards').delete().eq('id', cardId);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to delete card');
+    }
+  };
+
+  // ========================================
+  // BULK RESCHEDULING
+  // ========================================
+
+  /**
+   * Apply one scheduling change to many cards; returns how many cards changed
+   */
+  const bulkReschedule = async (
+    cardIds: string[],
+    action: BulkRescheduleAction,
+    options: BulkRescheduleOptions = {}
+  ): Promise<number> => {
+    const { data, error } = await supabase.rpc('bulk_reschedule', {
+      p_card_ids: cardIds,
+      p_action: action,
+      p_options: {
+        reset_counts: options.resetCounts,
+        min_days: options.minDays,
+        max_days: options.maxDays,
+        set_interval: options.setInterval,
+        start: options.start,
+        step: options.step,
+        randomize: options.randomize,
+        shift_existing: options.shiftExisting,
+        days: options.days,
+      },
+    });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to reschedule cards');
+    }
+
+    await loadDecks();
+    return data ?? 0;
+  };
+
+  // ========================================
+  // OPTION GROUPS
+  // ========================================
+
+  /**
+   * The user's option groups, each with the decks using it
+   */
+  const getOptionGroups = async (): Promise<OptionGroup[]> => {
+    const { data, error } = await supabase
+      .from('deck_configs')
+      .select('id, name, decks(id)')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message || 'Failed to load option groups');
+    }
+
+    return ((data ?? []) as { id: string; name: string; decks: { id: string }[] | null }[]).map(row => ({
+      id: row.id,
+      name: row.name,
+      deckIds: (row.decks ?? []).map(deck => deck.id),
+    }));
+  };
+
+  /**
+   * New option group starting from a copy of `settings`; the deck moves into it
+   */
+  const createOptionGroup = async (deckId: string, name: string, settings: DeckConfig): Promise<DeckConfig> => {
+    const { data, error } = await supabase
+      .from('deck_configs')
+      .insert({ ...toDeckConfigRow(settings), name })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new Error(error.message || 'Failed to create option group');
+    }
+
+    return assignOptionGroup(deckId, data.id);
+  };
+
+  const renameOptionGroup = async (configId: string, name: string): Promise<void> => {
+    const { error } = await supabase
+      .from('deck_configs')
+      .update({ name, updated_at: new Date().toISOString() })
+      .eq('id', configId);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to rename option group');
+    }
+  };
+
+  /**
+   * Point a deck at another option group; returns the deck's new settings
+   */
+  const assignOptionGroup = async (deckId: string, configId: string): Promise<DeckConfig> => {
+    const { error } = await supabase
+      .from('decks')
+      .update({ config_id: configId })
+      .eq('id', deckId);
+
+    if (error) {
+      throw new Error(error.message || 'Failed to change option group');
+    }
+
+    return getDeckConfig(deckId);
+  };
+
   const value: StudyContextType = {
     decks,
     currentDeck,
@@ -1221,12 +2022,18 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     
     // Enhanced SRS methods
     rateAdvancedCard,
+    logPreviewReview,
+    undoAdvancedReview,
     getAdvancedStudyQueue,
+    getStudyAheadQueue,
     getDeckConfig,
     updateDeckConfig,
+    getDueCounts,
+    getBacklogStatus,
     getEnhancedDeckStats,
     
     addDeck,
+    ensureDeckPath,
     addCard,
     importDeck,
     updateStudyStats,
@@ -1242,6 +2049,34 @@ export const StudyProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     getStreakInfo,
     refreshStreakData,
     refreshDecks,
+    
+    // Vacation mode
+    getVacations,
+    planVacation,
+    cancelVacation,
+
+    // Filtered decks
+    filteredDecks,
+    refreshFilteredDecks,
+    saveFilteredDeck,
+    deleteFilteredDeck,
+    getFilteredDeckQueue,
+
+    // Leech repair
+    getLeeches,
+    repairLeech,
+    splitLeech,
+    setCardSuspended,
+    deleteCard,
+
+    // Bulk rescheduling
+    bulkReschedule,
+
+    // Option groups
+    getOptionGroups,
+    createOptionGroup,
+    renameOptionGroup,
+    assignOptionGroup,
   };
 
   return <StudyContext.Provider value={value}>{children}</StudyContext.Provider>;
@@ -4,6 +4,7 @@ import { User as SupabaseUser } from '@supabase/supabase-js';
 
 interface Preferences {
   timeZone?: string;
+  dayStartHour?: number; // Hour (0-23) the next study day starts at, in timeZone
   showProgressPopups?: boolean;
   smartBreakSuggestions?: boolean;
   emojiCelebrations?: boolean;
@@ -20,6 +21,7 @@ interface Preferences {
   theme?: 'light' | 'dark' | 'auto';
   fontSize?: number;
   animations?: boolean;
+  easyDays?: number[]; // Review load multiplier per weekday, Sunday first (1 = normal)
 }
 
 interface User extends SupabaseUser {
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { MediaService } from '../lib/mediaService';
+
+/**
+ * Card HTML with its media:// references swapped for signed URLs. Renders
+ * straight away from cached URLs and updates once the rest are signed.
+ */
+export function useResolvedMedia(html: string): string {
+  const [resolved, setResolved] = useState(() => MediaService.resolveCached(html));
+
+  useEffect(() => {
+    setResolved(MediaService.resolveCached(html));
+    if (MediaService.refsIn(html).length === 0) return;
+
+    let cancelled = false;
+    MediaService.resolve(html)
+      .then(result => {
+        if (!cancelled) setResolved(result);
+      })
+      .catch(error => console.error('Failed to load card media:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [html]);
+
+  return resolved;
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import JSZip from 'jszip';
+import { ApkgExporter, ApkgExportData, ExportCard } from '../ankiExporter';
+import { parseApkg, ankiSchedulingColumns, ankiReviewRows } from '../ankiParser';
+import { CardState } from '../../types/SRSTypes';
+
+// Load the sql.js WebAssembly from node_modules instead of the CDN
+vi.mock('sql.js', async (importOriginal: () => Promise<{ default: (config: object) => unknown }>) => {
+  const actual = await importOriginal();
+  const wasmBinary = readFileSync(require.resolve('sql.js/dist/sql-wasm.wasm'));
+  return { default: () => actual.default({ wasmBinary }) };
+});
+import initSqlJs from 'sql.js';
+
+process.env.TZ = 'UTC';
+const NOW = new Date('2025-07-10T12:00:00Z');
+const IMAGE_URL = 'https://example.com/storage/v1/object/public/card-images/cell%20diagram.png';
+const IMAGE_BYTES = new Uint8Array([137, 80, 78, 71, 1, 2, 3]);
+
+const card = (id: string, overrides: Partial<ExportCard> = {}): ExportCard => ({
+  id,
+  deckId: 'deck-cells',
+  noteId: `note-${id}`,
+  type: 'basic',
+  front: '',
+  back: '',
+  tags: [],
+  difficulty: 0,
+  created: '2025-07-01T09:00:00Z',
+  cardState: CardState.NEW,
+  learningStep: 0,
+  lapseCount: 0,
+  isLeech: false,
+  lastStudied: null,
+  nextDue: NOW.toISOString(),
+  interval: 1,
+  easeFactor: 2.5,
+  reviewCount: 0,
+  isSuspended: false,
+  newPosition: null,
+  ...overrides
+});
+
+const data: ApkgExportData = {
+  decks: [
+    { id: 'deck-bio', name: 'Biology' },
+    { id: 'deck-cells', name: 'Biology::Cells' }
+  ],
+  cards: [
+    card('basic', {
+      deckId: 'deck-bio',
+      front: `What does this show? <img src="${IMAGE_URL}">`,
+      back: 'A eukaryotic cell',
+      tags: ['cell biology'],
+      cardState: CardState.REVIEW,
+      interval: 12,
+      easeFactor: 2.3,
+      reviewCount: 3,
+      lapseCount: 1,
+      nextDue: '2025-07-15T08:00:00Z'
+    }),
+    card('forward', { noteId: 'note-pair', front: 'Nucleus', back: 'Holds the genome', newPosition: 4 }),
+    card('reverse', { noteId: 'note-pair', front: 'Holds the genome', back: 'Nucleus', newPosition: 5 }),
+    card('typed', {
+      type: 'type-in',
+      front: 'Powerhouse of the cell',
+      back: JSON.stringify({ answer: 'mitochondria', acceptableAnswers: [], caseSensitive: false }),
+      cardState: CardState.LEARNING,
+      nextDue: '2025-07-10T12:10:00Z',
+      isSuspended: true
+    }),
+    card('cloze', { type: 'cloze', front: '{{c1::Ribosomes}} build proteins', back: 'Cloze card' }),
+    card('occlusion', {
+      type: 'image-occlusion',
+      front: JSON.stringify({
+        question: 'Name the organelle',
+        image: IMAGE_URL,
+        occlusions: [{ id: '1', x: 10, y: 20, width: 30, height: 15, label: 'Golgi' }]
+      }),
+      back: 'Image occlusion card'
+    })
+  ],
+  reviews: [
+    { cardId: 'basic', rating: 2, reviewedAt: '2025-07-01T10:00:00Z', timeTaken: 8, before: { cardState: CardState.NEW, interval: 0, easeFactor: 2.5 } },
+    { cardId: 'basic', rating: 2, reviewedAt: '2025-07-03T10:00:00Z', timeTaken: 5, before: { cardState: CardState.REVIEW, interval: 3, easeFactor: 2.5 } },
+    { cardId: 'basic', rating: 1, reviewedAt: '2025-07-06T10:00:00Z', timeTaken: 90, before: { cardState: CardState.REVIEW, interval: 5, easeFactor: 2.4 } }
+  ]
+};
+
+const fetchMedia = vi.fn(async (url: string) => url === IMAGE_URL ? IMAGE_BYTES : null);
+
+const exportFile = async (options = {}) => {
+  const bytes = await ApkgExporter.build(data, { fetchMedia, now: NOW, ...options });
+  return new File([bytes], 'export.apkg');
+};
+
+// Rows of a query against the exported collection
+const query = async (file: File, sql: string) => {
+  const zip = await new JSZip().loadAsync(file);
+  const collection = await zip.file('collection.anki2')!.async('uint8array');
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(collection);
+  const [result] = db.exec(sql) as { columns: string[]; values: unknown[][] }[];
+  db.close();
+  return (result?.values ?? []).map((row): Record<string, unknown> => Object.fromEntries(result.columns.map((column, i) => [column, row[i]])));
+};
+
+describe('apkg export', () => {
+  it('round-trips decks, fields and media through the importer', async () => {
+    const decks = await parseApkg(await exportFile());
+
+    expect(decks.map(deck => deck.name)).toEqual(['Biology', 'Biology::Cells']);
+    const [basic] = decks[0].cards;
+    expect(basic.front).toBe('What does this show? [IMAGE: cell_diagram.png]');
+    expect(basic.back).toBe('A eukaryotic cell');
+    expect(basic.frontImages).toEqual(['cell_diagram.png']);
+    expect(basic.media).toEqual({ 'cell_diagram.png': Buffer.from(IMAGE_BYTES).toString('base64') });
+    expect(basic.noteType).toBe('Basic');
+    expect(basic.tags).toEqual(['cell_biology']);
+    expect(Object.keys(basic.fields ?? {})).toEqual(['Front', 'Back']);
+
+    const cells = decks[1].cards;
+    const collapse = (text: string) => text.replace(/\s+/g, ' ');
+    expect(cells.map(c => [c.type, collapse(c.front), collapse(c.back)]).sort()).toEqual([
+      ['basic', 'Holds the genome', 'Nucleus'],
+      ['basic', 'Nucleus', 'Holds the genome'],
+      ['type-in', 'Powerhouse of the cell', JSON.stringify({ answer: 'mitochondria', acceptableAnswers: [], caseSensitive: false })],
+      ['cloze', '{{c1::Ribosomes}} build proteins', ''],
+      ['basic', 'Name the organelle [IMAGE: cell_diagram.png]', 'Name the organelle [IMAGE: cell_diagram.png]']
+    ].sort());
+    // A card and its reverse come back as siblings of one note
+    const pair = cells.filter(c => c.fields?.Front === 'Nucleus');
+    expect(pair).toHaveLength(2);
+    expect(pair[0].noteId).toBe(pair[1].noteId);
+    expect(fetchMedia).toHaveBeenCalledTimes(1);
+  });
+
+  it('maps card types onto Anki note types', async () => {
+    const file = await exportFile();
+    const rows = await query(file, 'SELECT n.guid, n.mid, n.tags, c.ord FROM cards c JOIN notes n ON n.id = c.nid ORDER BY c.id');
+    const [col] = await query(file, 'SELECT models FROM col');
+    const models = JSON.parse(col.models as string) as Record<string, { name: string; type: number }>;
+    const modelName = (mid: unknown) => models[String(mid)].name;
+
+    expect(rows.map(row => [row.guid, modelName(row.mid), row.ord])).toEqual([
+      ['note-basic', 'Basic', 0],
+      ['note-pair', 'Basic (and reversed card)', 0],
+      ['note-pair', 'Basic (and reversed card)', 1],
+      ['note-typed', 'Basic (type in the answer)', 0],
+      ['note-cloze', 'Cloze', 0],
+      ['note-occlusion', 'Image Occlusion', 0]
+    ]);
+    expect(rows[0].tags).toBe(' cell_biology ');
+  });
+
+  it('carries intervals, ease, due dates and review history', async () => {
+    const file = await exportFile({ includeHistory: true });
+    const [col] = await query(file, 'SELECT crt FROM col');
+    expect(col.crt).toBe(Date.parse('2025-07-01T00:00:00Z') / 1000);
+
+    const cards = await query(file, 'SELECT type, queue, due, ivl, factor, reps, lapses FROM cards ORDER BY id');
+    expect(cards[0]).toEqual({ type: 2, queue: 2, due: 14, ivl: 12, factor: 2300, reps: 3, lapses: 1 });
+    expect(cards.slice(1, 3).map(c => [c.type, c.queue, c.due])).toEqual([[0, 0, 4], [0, 0, 5]]);
+    // Suspended learning card, due at a timestamp
+    expect(cards[3]).toMatchObject({ type: 1, queue: -1, due: Date.parse('2025-07-10T12:10:00Z') / 1000 });
+
+    const revlog = await query(file, 'SELECT ease, ivl, lastIvl, factor, time, type FROM revlog ORDER BY id');
+    expect(revlog).toEqual([
+      { ease: 3, ivl: 3, lastIvl: 0, factor: 2500, time: 8000, type: 0 },
+      { ease: 3, ivl: 5, lastIvl: 3, factor: 2400, time: 5000, type: 1 },
+      { ease: 2, ivl: 12, lastIvl: 5, factor: 2300, time: 60000, type: 1 }
+    ]);
+  });
+
+  it('keeps scheduling and history when imported back', async () => {
+    const decks = await parseApkg(await exportFile({ includeHistory: true }));
+    const [basic] = decks[0].cards;
+
+    expect(ankiSchedulingColumns(basic, decks[0].collectionCreated)).toMatchObject({
+      card_state: CardState.REVIEW,
+      interval: 12,
+      ease_factor: 2.3,
+      next_due: '2025-07-15T00:00:00.000Z',
+      last_studied: '2025-07-06T10:00:00.000Z',
+      review_count: 3,
+      lapse_count: 1,
+      is_suspended: false
+    });
+    expect(ankiReviewRows(basic, 'new-id').map(row => [row.rating, row.time_taken, row.reviewed_at, row.card_snapshot])).toEqual([
+      [2, 8, '2025-07-01T10:00:00.000Z', { card_state: CardState.NEW, interval: 0, ease_factor: 2.5 }],
+      [2, 5, '2025-07-03T10:00:00.000Z', { card_state: CardState.REVIEW, interval: 3, ease_factor: 2.5 }],
+      [1, 60, '2025-07-06T10:00:00.000Z', { card_state: CardState.REVIEW, interval: 5, ease_factor: 2.4 }]
+    ]);
+    // Kept out of the per-row streak trigger, with the interval the retention readers need
+    expect(ankiReviewRows(basic, 'new-id').map(row => [row.imported, row.interval_before])).toEqual([
+      [true, 0], [true, 3], [true, 5]
+    ]);
+
+    const typed = decks[1].cards.find(c => c.type === 'type-in')!;
+    expect(ankiSchedulingColumns(typed, decks[1].collectionCreated)).toMatchObject({
+      card_state: CardState.LEARNING,
+      next_due: '2025-07-10T12:10:00.000Z',
+      is_suspended: true
+    });
+    expect(ankiSchedulingColumns(basic, decks[0].collectionCreated, true)).toMatchObject({
+      card_state: CardState.NEW,
+      interval: 1,
+      review_count: 0
+    });
+  });
+
+  it('exports every card as new without scheduling', async () => {
+    const file = await exportFile({ includeScheduling: false, includeHistory: true });
+    const cards = await query(file, 'SELECT type, queue, due, ivl FROM cards ORDER BY id');
+    expect(cards.every(c => c.type === 0 && c.ivl === 0)).toBe(true);
+    expect(cards.map(c => c.due)).toEqual([1, 4, 5, 6, 7, 8]);
+    expect(await query(file, 'SELECT id FROM revlog')).toEqual([]);
+  });
+});
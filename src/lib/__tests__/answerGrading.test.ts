@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { AnswerGrader } from '../answerGrading';
+
+describe('answer grading', () => {
+  it('ignores case, accents, punctuation and word order', () => {
+    expect(AnswerGrader.grade('Paris', 'paris').verdict).toBe('exact');
+    expect(AnswerGrader.grade('creme brulee', 'Crème brûlée!').verdict).toBe('equivalent');
+    expect(AnswerGrader.grade('salt and pepper', 'pepper and salt').verdict).toBe('equivalent');
+  });
+
+  it('keeps signs and symbols that change the answer', () => {
+    expect(AnswerGrader.grade('5', '-5').verdict).toBe('wrong');
+    expect(AnswerGrader.grade('-5', '\u22125').verdict).toBe('equivalent');
+    expect(AnswerGrader.grade('3.14', '314').verdict).toBe('wrong');
+    expect(AnswerGrader.grade('50', '50%').verdict).toBe('wrong');
+    expect(AnswerGrader.grade('C', 'C++').verdict).toBe('wrong');
+    expect(AnswerGrader.grade('C', 'C#').verdict).toBe('wrong');
+    expect(AnswerGrader.grade('+', '-').verdict).toBe('wrong');
+    expect(AnswerGrader.grade('?', '!').verdict).toBe('wrong');
+    expect(AnswerGrader.grade('well known', 'well-known').verdict).toBe('equivalent');
+    expect(AnswerGrader.suggestRating(AnswerGrader.grade('C', 'C#')).rating).toBe('😞');
+  });
+
+  it('tolerates a typo per five characters, up to three', () => {
+    expect(AnswerGrader.grade('mitochondira', 'mitochondria').verdict).toBe('typo');
+    expect(AnswerGrader.grade('cta', 'cat').verdict).toBe('wrong');
+    expect(AnswerGrader.grade('photosynthesis', 'respiration').verdict).toBe('wrong');
+  });
+
+  it('matches the closest acceptable answer', () => {
+    const grade = AnswerGrader.grade('colour', 'color', ['colour']);
+    expect(grade.verdict).toBe('exact');
+    expect(grade.expected).toBe('colour');
+  });
+
+  it('respects case-sensitive cards', () => {
+    expect(AnswerGrader.grade('na', 'Na', [], true).verdict).toBe('wrong');
+    expect(AnswerGrader.grade('Na', 'Na', [], true).verdict).toBe('exact');
+  });
+
+  it('diffs characters into kept, extra and missing runs', () => {
+    expect(AnswerGrader.diff('helo wrld!', 'hello world')).toEqual([
+      { text: 'hel', kind: 'same' },
+      { text: 'l', kind: 'missing' },
+      { text: 'o w', kind: 'same' },
+      { text: 'o', kind: 'missing' },
+      { text: 'rld', kind: 'same' },
+      { text: '!', kind: 'extra' }
+    ]);
+  });
+
+  it('suggests a rating from the grade and the answer time', () => {
+    const correct = AnswerGrader.grade('Paris', 'Paris');
+    expect(AnswerGrader.suggestRating(AnswerGrader.grade('Lyon', 'Paris')).rating).toBe('😞');
+    expect(AnswerGrader.suggestRating(AnswerGrader.grade('mitochondira', 'mitochondria')).rating).toBe('😐');
+    expect(AnswerGrader.suggestRating(correct).rating).toBe('😊');
+    expect(AnswerGrader.suggestRating(correct, 2000).rating).toBe('😁');
+    expect(AnswerGrader.suggestRating(correct, 5000).rating).toBe('😊');
+    expect(AnswerGrader.suggestRating(correct, 20000).rating).toBe('😐');
+  });
+});
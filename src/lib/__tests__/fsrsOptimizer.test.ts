@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { FSRSOptimizer, ReviewLogEntry } from '../fsrsOptimizer';
+import { FSRSScheduler, MemoryState } from '../advancedSRS';
+import { DEFAULT_FSRS_WEIGHTS } from '../../types/SRSTypes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.parse('2025-01-01T00:00:00Z');
+
+// Deterministic PRNG so the synthetic history is the same on every run
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Review history of a learner whose memory follows `weights`: each card is
+ * learned with Good, then reviewed around its stability and remembered with
+ * the probability the model predicts
+ */
+const synthesize = (weights: number[], cards: number, reviewsPerCard: number): ReviewLogEntry[] => {
+  const random = mulberry32(42);
+  const history: ReviewLogEntry[] = [];
+
+  for (let c = 0; c < cards; c++) {
+    const cardId = `card-${c}`;
+    let time = START + c * 60000;
+    history.push({ cardId, rating: 2, reviewedAt: new Date(time).toISOString() });
+    let memory: MemoryState = {
+      stability: FSRSScheduler.initialStability(3, weights),
+      difficulty: FSRSScheduler.initialDifficulty(3, weights)
+    };
+
+    for (let r = 0; r < reviewsPerCard; r++) {
+      const elapsedDays = Math.max(1, Math.round(memory.stability * (0.5 + random() * 1.5)));
+      time += elapsedDays * DAY_MS;
+      const recall = FSRSScheduler.retrievability(elapsedDays, memory.stability);
+      const grade = random() < recall ? 3 : 1;
+      history.push({ cardId, rating: grade - 1, reviewedAt: new Date(time).toISOString() });
+      memory = {
+        stability: grade === 1
+          ? FSRSScheduler.forgetStability(memory, recall, weights)
+          : FSRSScheduler.recallStability(memory, recall, grade, weights),
+        difficulty: FSRSScheduler.nextDifficulty(memory.difficulty, grade, weights)
+      };
+    }
+  }
+
+  return history;
+};
+
+const sequencesOf = (history: ReviewLogEntry[]) => {
+  const byCard = new Map<string, ReviewLogEntry[]>();
+  history.forEach(entry => byCard.set(entry.cardId, [...(byCard.get(entry.cardId) ?? []), entry]));
+  return [...byCard.values()];
+};
+
+describe('FSRS optimizer', () => {
+  // A learner who remembers far longer after the first Good than the defaults assume
+  const trueWeights = DEFAULT_FSRS_WEIGHTS.map((w, i) => i === 2 ? 12 : w);
+  const history = synthesize(trueWeights, 150, 4);
+
+  it('scores the generating weights better than the defaults', () => {
+    const sequences = sequencesOf(history);
+    const truth = FSRSOptimizer.evaluate(sequences, trueWeights);
+    const defaults = FSRSOptimizer.evaluate(sequences, DEFAULT_FSRS_WEIGHTS);
+
+    expect(truth.count).toBe(600);
+    expect(truth.logLoss).toBeLessThan(defaults.logLoss);
+    expect(truth.rmse).toBeLessThan(defaults.rmse);
+  });
+
+  it('recovers the weights the history was generated with', () => {
+    const result = FSRSOptimizer.optimize(history, DEFAULT_FSRS_WEIGHTS);
+    const truth = FSRSOptimizer.evaluate(sequencesOf(history), trueWeights);
+
+    expect(result.reviewCount).toBe(600);
+    expect(result.cardCount).toBe(150);
+    expect(result.after.logLoss).toBeLessThan(result.before.logLoss);
+    expect(result.after.logLoss).toBeLessThan(truth.logLoss + 0.01);
+    // The initial stability for Good moves most of the way to the true value
+    expect(result.weights[2]).toBeGreaterThan(8);
+  });
+
+  it('needs a minimum of spaced reviews', () => {
+    const short = synthesize(DEFAULT_FSRS_WEIGHTS, 10, 3);
+    expect(() => FSRSOptimizer.optimize(short)).toThrow(
+      `Not enough review history to optimize (30 of ${FSRSOptimizer.MINIMUM_REVIEWS} spaced reviews needed)`
+    );
+  });
+
+  it('runs in place where Web Workers are unavailable', async () => {
+    const result = await FSRSOptimizer.optimizeInBackground(history, DEFAULT_FSRS_WEIGHTS, { iterations: 5 });
+    expect(result.weights).toHaveLength(DEFAULT_FSRS_WEIGHTS.length);
+    await expect(FSRSOptimizer.optimizeInBackground(synthesize(DEFAULT_FSRS_WEIGHTS, 10, 3)))
+      .rejects.toThrow('Not enough review history');
+  });
+});
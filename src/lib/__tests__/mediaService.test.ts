@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const storage = vi.hoisted(() => ({
+  list: vi.fn(),
+  createSignedUrls: vi.fn(),
+  uploadFile: vi.fn()
+}));
+
+vi.mock('../supabaseClient', () => ({
+  supabase: {
+    storage: {
+      from: () => ({ list: storage.list, createSignedUrls: storage.createSignedUrls })
+    }
+  }
+}));
+vi.mock('../uploadFile', () => ({ uploadFile: storage.uploadFile }));
+
+import { MediaService } from '../mediaService';
+
+const base64 = (text: string) => Buffer.from(text).toString('base64');
+
+describe('media service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.list.mockResolvedValue({ data: [], error: null });
+    storage.uploadFile.mockImplementation(async (_bucket: string, _file: File, _userId: string, path: string) => `https://signed/${path}`);
+  });
+
+  it('uploads each distinct file once under its content hash', async () => {
+    const refs = await MediaService.uploadMedia('user-1', {
+      'cat.png': base64('cat'),
+      'cat copy.PNG': base64('cat'),
+      'dog.png': base64('dog')
+    });
+
+    const catHash = await MediaService.hash(new TextEncoder().encode('cat'));
+    expect(refs['cat.png']).toBe(`media://user-1/${catHash}.png`);
+    expect(refs['cat copy.PNG']).toBe(refs['cat.png']);
+    expect(refs['dog.png']).not.toBe(refs['cat.png']);
+    expect(storage.uploadFile).toHaveBeenCalledTimes(2);
+    expect(storage.uploadFile).toHaveBeenCalledWith('media', expect.any(File), 'user-1', `user-1/${catHash}.png`);
+  });
+
+  it('skips files already in storage', async () => {
+    const hash = await MediaService.hash(new TextEncoder().encode('bird'));
+    storage.list.mockResolvedValue({ data: [{ name: `${hash}.gif` }], error: null });
+
+    const refs = await MediaService.uploadMedia('user-1', { 'bird.gif': base64('bird') });
+    expect(refs['bird.gif']).toBe(`media://user-1/${hash}.gif`);
+    expect(storage.uploadFile).not.toHaveBeenCalled();
+  });
+
+  it('resolves references to signed URLs, signing each path once', async () => {
+    storage.createSignedUrls.mockImplementation(async (paths: string[]) => ({
+      data: paths.map(path => ({ path, signedUrl: `https://signed/${path}?token=1`, error: null })),
+      error: null
+    }));
+    const html = '<img src="media://user-2/abc.png" alt="a"> and <img src="media://user-2/abc.png">';
+
+    expect(MediaService.resolveCached(html)).not.toContain('media://');
+    const resolved = await MediaService.resolve(html);
+    expect(resolved).toBe('<img src="https://signed/user-2/abc.png?token=1" alt="a"> and <img src="https://signed/user-2/abc.png?token=1">');
+    expect(storage.createSignedUrls).toHaveBeenCalledWith(['user-2/abc.png'], 3600);
+
+    // Cached from now on
+    expect(MediaService.resolveCached(html)).toBe(resolved);
+    await MediaService.resolve(html);
+    expect(storage.createSignedUrls).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves HTML without references alone', async () => {
+    expect(await MediaService.resolve('<b>plain</b>')).toBe('<b>plain</b>');
+    expect(storage.createSignedUrls).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { RetentionSimulator } from '../retentionSimulator';
+import { CardState, DEFAULT_DECK_CONFIG, EnhancedCard } from '../../types/SRSTypes';
+
+process.env.TZ = 'UTC';
+const TODAY = new Date('2025-07-10T12:00:00Z');
+
+const card = (index: number, overrides: Partial<EnhancedCard> = {}): EnhancedCard => ({
+  id: `card-${index}`,
+  deckId: 'deck-1',
+  type: 'basic',
+  front: '',
+  back: '',
+  tags: [],
+  difficulty: 0,
+  created: '2025-06-01T00:00:00Z',
+  cardState: CardState.NEW,
+  learningStep: 0,
+  lapseCount: 0,
+  isLeech: false,
+  lastStudied: null,
+  nextDue: TODAY.toISOString(),
+  interval: 1,
+  easeFactor: 2.5,
+  reviewCount: 0,
+  ...overrides
+});
+
+const deck: EnhancedCard[] = [
+  ...Array.from({ length: 30 }, (_, i) => card(i)),
+  ...Array.from({ length: 30 }, (_, i) => card(30 + i, {
+    cardState: CardState.REVIEW,
+    interval: 10,
+    reviewCount: 5,
+    lastStudied: '2025-07-01T12:00:00Z',
+    nextDue: new Date(TODAY.getTime() + (i % 5) * 86400000).toISOString()
+  }))
+];
+
+const fsrs = (desiredRetention: number) => ({
+  label: `${desiredRetention}`,
+  config: { ...DEFAULT_DECK_CONFIG, scheduler: 'fsrs' as const, desiredRetention, newCardsPerDay: 5 }
+});
+
+describe('retention simulator', () => {
+  const options = { days: 120, runs: 2, today: TODAY };
+
+  it('repeats exactly for the same seed', () => {
+    const first = RetentionSimulator.simulate(deck, [fsrs(0.9)], undefined, options);
+    expect(RetentionSimulator.simulate(deck, [fsrs(0.9)], undefined, options)).toEqual(first);
+    expect(first[0].days).toHaveLength(120);
+  });
+
+  it('introduces new cards at the daily limit', () => {
+    const [result] = RetentionSimulator.simulate(deck, [fsrs(0.9)], undefined, options);
+    expect(result.days.slice(0, 6).map(day => day.newCards)).toEqual([5, 5, 5, 5, 5, 5]);
+    expect(result.days[6].newCards).toBe(0);
+  });
+
+  it('a higher retention target costs more reviews and keeps more in memory', () => {
+    const [low, high] = RetentionSimulator.simulate(deck, [fsrs(0.8), fsrs(0.95)], undefined, options);
+    expect(high.totalReviews).toBeGreaterThan(low.totalReviews);
+    expect(high.totalMinutes).toBeGreaterThan(low.totalMinutes);
+    expect(high.averageRetention).toBeGreaterThan(low.averageRetention);
+  });
+
+  it('runs in place where Web Workers are unavailable', async () => {
+    const results = await RetentionSimulator.simulateInBackground(deck, [fsrs(0.9)], undefined, options);
+    expect(results).toEqual(RetentionSimulator.simulate(deck, [fsrs(0.9)], undefined, options));
+  });
+
+  it('falls back to the default model when the history is short', async () => {
+    const model = await RetentionSimulator.fitRecallModel([
+      { cardId: 'a', rating: 2, reviewedAt: '2025-07-01T00:00:00Z', timeTaken: 30 }
+    ]);
+    expect(model.fitted).toBe(false);
+    expect(model.secondsPerReview).toBe(RetentionSimulator.DEFAULT_MODEL.secondsPerReview);
+    expect(model.weights).toEqual(DEFAULT_DECK_CONFIG.fsrsWeights);
+  });
+});
@@ -0,0 +1,283 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_FSRS_WEIGHTS } from '../../types/SRSTypes';
+import {
+  scheduleCard,
+  fromCardRow,
+  FSRSScheduler,
+  fromDeckConfigRow,
+  toCardUpdate,
+  CardRow,
+  DeckConfigRow,
+  LoadBalancer,
+  Rating,
+  vacationRange
+} from '../../../supabase/functions/_shared/scheduler';
+
+// Day arithmetic in the core is calendar-based, so pin the zone and the clock
+process.env.TZ = 'UTC';
+const NOW = new Date('2025-07-10T12:00:00Z');
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const SCHEDULERS = ['sm2', 'fsrs'];
+const RATINGS: [Rating, string][] = [[0, 'Again'], [1, 'Hard'], [2, 'Good'], [3, 'Easy']];
+
+// The columns submit_advanced_review selects, as PostgREST returns them:
+// DECIMAL columns arrive as strings
+type SelectedCardRow = CardRow & {
+  next_due: string;
+  deck_id: string;
+  tags: string[];
+  is_suspended: boolean;
+};
+
+const newRow: SelectedCardRow = {
+  id: 'card-1',
+  card_state: 'new',
+  learning_step: 0,
+  lapse_count: 0,
+  ease_factor: '2.5',
+  interval: 1,
+  review_count: 0,
+  last_studied: null,
+  next_due: '2025-07-10T12:00:00+00:00',
+  is_leech: false,
+  deck_id: 'deck-1',
+  stability: null,
+  fsrs_difficulty: null,
+  tags: [],
+  is_suspended: false
+};
+
+const CARD_ROWS: Record<string, SelectedCardRow> = {
+  new: newRow,
+  learning: {
+    ...newRow,
+    card_state: 'learning',
+    learning_step: 1,
+    review_count: 2,
+    last_studied: '2025-07-10T11:50:00+00:00',
+    stability: 3.1,
+    fsrs_difficulty: 5.2
+  },
+  review: {
+    ...newRow,
+    card_state: 'review',
+    interval: 10,
+    ease_factor: '2.36',
+    review_count: 6,
+    lapse_count: 1,
+    last_studied: '2025-06-30T12:00:00+00:00',
+    stability: 11.4,
+    fsrs_difficulty: 6.1
+  },
+  // Predates FSRS - memory state must be estimated from the SM-2 fields
+  legacyReview: {
+    ...newRow,
+    card_state: 'review',
+    interval: 25,
+    ease_factor: '1.9',
+    review_count: 9,
+    last_studied: '2025-06-15T12:00:00+00:00'
+  },
+  relearning: {
+    ...newRow,
+    card_state: 'relearning',
+    learning_step: 0,
+    interval: 20,
+    ease_factor: '1.35',
+    review_count: 14,
+    lapse_count: 7,
+    last_studied: '2025-07-10T11:50:00+00:00',
+    stability: 2.4,
+    fsrs_difficulty: 8.7
+  }
+};
+
+// A deck_configs row with the column defaults, as get_deck_config returns it
+const CONFIG_ROW: DeckConfigRow = {
+  learning_steps: [1, 10],
+  graduating_interval: 1,
+  easy_interval: 4,
+  relearning_steps: [10],
+  maximum_interval: 36500,
+  starting_ease: '2.5',
+  easy_bonus: '0.15',
+  hard_penalty: '0.15',
+  lapse_penalty: '0.2',
+  lapse_threshold: 8,
+  scheduler: 'sm2',
+  desired_retention: '0.9',
+  fsrs_weights: DEFAULT_FSRS_WEIGHTS,
+  load_balancing: true,
+  leech_action: 'suspend'
+};
+
+/** The edge function's write path: selected row -> core -> cards update */
+function submit(row: SelectedCardRow, rating: Rating, configRow: DeckConfigRow = CONFIG_ROW) {
+  const outcome = scheduleCard(fromCardRow(row), rating, fromDeckConfigRow(configRow), NOW);
+  return { outcome, update: toCardUpdate(outcome, NOW) };
+}
+
+const inMinutes = (minutes: number) => new Date(NOW.getTime() + minutes * MINUTE_MS).toISOString();
+const inDays = (days: number) => new Date(NOW.getTime() + days * DAY_MS).toISOString();
+
+describe('shared scheduling core', () => {
+  describe('SM-2 write path from the selected card row', () => {
+    // Load balancing off so review intervals are the plain SM-2 values
+    const config = { ...CONFIG_ROW, load_balancing: false };
+    const write = (row: SelectedCardRow, rating: Rating) => submit(row, rating, config).update;
+
+    it('starts new cards on the first learning step, or graduates them on Easy', () => {
+      for (const rating of [0, 1, 2] as Rating[]) {
+        expect(write(CARD_ROWS.new, rating)).toEqual({
+          card_state: 'learning',
+          learning_step: 0,
+          ease_factor: 2.5,
+          interval: 0,
+          next_due: inMinutes(1),
+          review_count: 1,
+          last_studied: NOW.toISOString()
+        });
+      }
+
+      expect(write(CARD_ROWS.new, 3)).toEqual({
+        card_state: 'review',
+        ease_factor: 2.65,
+        interval: 4,
+        next_due: inDays(4),
+        review_count: 1,
+        last_studied: NOW.toISOString()
+      });
+    });
+
+    it('graduates learning cards after the last step', () => {
+      expect(write(CARD_ROWS.learning, 0)).toMatchObject({ card_state: 'learning', learning_step: 0, next_due: inMinutes(1) });
+      expect(write(CARD_ROWS.learning, 1)).toMatchObject({ card_state: 'review', interval: 1, ease_factor: 2.35, next_due: inDays(1) });
+      expect(write(CARD_ROWS.learning, 2)).toMatchObject({ card_state: 'review', interval: 1, ease_factor: 2.5, next_due: inDays(1) });
+      expect(write(CARD_ROWS.learning, 3)).toMatchObject({ card_state: 'review', interval: 4, ease_factor: 2.65, next_due: inDays(4) });
+    });
+
+    it('grows review intervals by the ease the row stores as a string', () => {
+      // 10 days at 2.36: Hard x1.2, Good x2.46, Easy x2.51 x1.3
+      expect(write(CARD_ROWS.review, 1)).toMatchObject({ card_state: 'review', interval: 12, ease_factor: 2.21, next_due: inDays(12), review_count: 7 });
+      expect(write(CARD_ROWS.review, 2)).toMatchObject({ card_state: 'review', interval: 25, ease_factor: 2.46, next_due: inDays(25), review_count: 7 });
+      expect(write(CARD_ROWS.review, 3)).toMatchObject({ card_state: 'review', interval: 33, ease_factor: 2.51, next_due: inDays(33), review_count: 7 });
+    });
+
+    it('lapses review cards into relearning and flags leeches', () => {
+      const lapse = write(CARD_ROWS.review, 0);
+      expect(lapse).toMatchObject({
+        card_state: 'relearning',
+        learning_step: 0,
+        interval: 0,
+        next_due: inMinutes(10),
+        lapse_count: 2,
+        is_leech: false
+      });
+      expect(lapse.ease_factor).toBeCloseTo(2.16, 10);
+
+      // The eighth lapse reaches the threshold, and ease stops at the 1.3 floor
+      const { outcome, update } = submit({ ...CARD_ROWS.relearning, card_state: 'review' }, 0, config);
+      expect(update).toMatchObject({ lapse_count: 8, is_leech: true, ease_factor: 1.3 });
+      expect(outcome.becameLeech).toBe(true);
+    });
+
+    it('returns relearning cards to review at a fraction of the old interval', () => {
+      expect(write(CARD_ROWS.relearning, 2)).toMatchObject({ card_state: 'review', interval: 5, ease_factor: 1.35, next_due: inDays(5) });
+      expect(write(CARD_ROWS.relearning, 3)).toMatchObject({ card_state: 'review', interval: 10, ease_factor: 1.5, next_due: inDays(10) });
+    });
+  });
+
+  it('matches the golden schedules for every scheduler, state and rating', async () => {
+    const golden: Record<string, unknown> = {};
+
+    SCHEDULERS.forEach(scheduler => {
+      Object.entries(CARD_ROWS).forEach(([name, row]) => {
+        RATINGS.forEach(([rating, label]) => {
+          const { outcome, update } = submit(row, rating, { ...CONFIG_ROW, scheduler });
+          golden[`${scheduler}/${name}/${label}`] = {
+            ...update,
+            graduated: outcome.graduated ?? false,
+            lapsed: outcome.lapsed ?? false,
+            becameLeech: outcome.becameLeech ?? false
+          };
+        });
+      });
+    });
+
+    await expect(JSON.stringify(golden, null, 2) + '\n')
+      .toMatchFileSnapshot('./__fixtures__/scheduler.golden.json');
+  });
+
+  it('damps FSRS difficulty changes as difficulty nears the maximum', () => {
+    // Again from 5: 5 + 1.4604 * 2 * (10 - 5) / 9 = 6.62267, reverted towards
+    // 7.1949 - e^(0.5345 * 3) + 1 = 3.22450 by 0.0046 gives 6.60704
+    expect(FSRSScheduler.nextDifficulty(5, 1, DEFAULT_FSRS_WEIGHTS)).toBeCloseTo(6.60704, 4);
+    // Easy from 5: 5 - 1.4604 * 5 / 9 = 4.18867, reverted gives 4.18423
+    expect(FSRSScheduler.nextDifficulty(5, 4, DEFAULT_FSRS_WEIGHTS)).toBeCloseTo(4.18423, 4);
+    // Again at the maximum adds nothing; only the reversion moves it: 9.96883
+    expect(FSRSScheduler.nextDifficulty(10, 1, DEFAULT_FSRS_WEIGHTS)).toBeCloseTo(9.96883, 4);
+  });
+
+  it('load balancing is deterministic and picks the least busy day in the fuzz window', () => {
+    const [min, max] = LoadBalancer.fuzzRange(30, 36500);
+    expect(min).toBeLessThan(30);
+    expect(max).toBeGreaterThan(30);
+
+    const dueCounts: Record<number, number> = {};
+    for (let day = min; day <= max; day++) {
+      dueCounts[day] = day === max ? 1 : 20;
+    }
+    expect(LoadBalancer.pickInterval(30, 36500, 'card:3', { dueCounts }, NOW)).toBe(max);
+
+    const first = LoadBalancer.pickInterval(30, 36500, 'card:3', {}, NOW);
+    expect(LoadBalancer.pickInterval(30, 36500, 'card:3', {}, NOW)).toBe(first);
+    expect(first).toBeGreaterThanOrEqual(min);
+    expect(first).toBeLessThanOrEqual(max);
+
+    // Short intervals are never fuzzed
+    expect(LoadBalancer.pickInterval(2, 36500, 'card:3', { dueCounts }, NOW)).toBe(2);
+  });
+
+  it('easy days steer due dates off lightened weekdays', () => {
+    // Weekends off: nothing should land on a Saturday or Sunday
+    const load = { dueCounts: {}, easyDays: [0, 1, 1, 1, 1, 1, 0], timeZone: 'UTC' };
+    for (let reviewCount = 0; reviewCount < 20; reviewCount++) {
+      const interval = LoadBalancer.pickInterval(30, 36500, `card:${reviewCount}`, load, NOW);
+      const weekday = LoadBalancer.weekday(new Date(NOW.getTime() + interval * 86400000), 'UTC');
+      expect([0, 6]).not.toContain(weekday);
+    }
+  });
+
+  it('nothing comes due during a planned vacation', () => {
+    const config = fromDeckConfigRow(CONFIG_ROW);
+    const vacation = vacationRange('2025-07-11', '2025-08-31');
+    const outcome = scheduleCard(fromCardRow(CARD_ROWS.review), 2, config, NOW, { vacations: [vacation] });
+
+    expect(outcome.nextDue.getTime()).toBeGreaterThanOrEqual(vacation.end.getTime());
+  });
+
+  it('early reviews grow the interval from the days elapsed, never below the current one', () => {
+    const config = { ...fromDeckConfigRow(CONFIG_ROW), loadBalancing: false };
+    const early = fromCardRow({ ...CARD_ROWS.review, last_studied: '2025-07-06T12:00:00+00:00' });
+    const interval = (rating: Rating, earlyReview: boolean) =>
+      scheduleCard(early, rating, config, NOW, { earlyReview }).interval;
+
+    // Four days into a ten-day interval: Good keeps ten days instead of the full 25
+    expect(interval(2, false)).toBe(25);
+    expect(interval(2, true)).toBe(10);
+    expect(interval(1, true)).toBe(6);
+    expect(interval(3, true)).toBeLessThan(interval(3, false));
+    expect(interval(0, true)).toBe(interval(0, false));
+
+    // A card that is already due is scheduled as usual
+    const due = fromCardRow(CARD_ROWS.review);
+    expect(scheduleCard(due, 2, config, NOW, { earlyReview: true })).toEqual(scheduleCard(due, 2, config, NOW));
+  });
+
+  it('rejects ratings outside 0-3', () => {
+    const config = fromDeckConfigRow(CONFIG_ROW);
+    expect(() => scheduleCard(fromCardRow(CARD_ROWS.new), 4 as Rating, config, NOW)).toThrow();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { ForecastCard, ForecastDeckSettings, WorkloadForecaster } from '../workloadForecast';
+import { CardState } from '../../types/SRSTypes';
+
+process.env.TZ = 'UTC';
+// Two in the morning: still the previous study day for a 4 AM rollover
+const TODAY = new Date('2025-07-10T02:00:00Z');
+
+const SETTINGS: ForecastDeckSettings = {
+  newCardsPerDay: 20,
+  graduatingInterval: 1,
+  startingEase: 2.5,
+  maximumInterval: 36500
+};
+
+const reviewCard = (overrides: Partial<ForecastCard> = {}): ForecastCard => ({
+  deckId: 'deck-1',
+  cardState: CardState.REVIEW,
+  nextDue: '2025-07-10T10:00:00Z',
+  interval: 10,
+  easeFactor: 2.5,
+  ...overrides
+});
+
+const newCards = (count: number, deckId = 'deck-1'): ForecastCard[] =>
+  Array.from({ length: count }, () => ({ ...reviewCard({ deckId }), cardState: CardState.NEW }));
+
+describe('workload forecast', () => {
+  it('buckets due dates into study days that start at the rollover hour', () => {
+    const midnight = WorkloadForecaster.forecast([reviewCard()], {}, 1, 90, TODAY);
+    expect(midnight.days[0]).toMatchObject({ date: '2025-07-10', reviews: 1 });
+
+    const rollover = WorkloadForecaster.forecast([reviewCard()], {}, 1, 90, TODAY, { timeZone: 'UTC', dayStartHour: 4 });
+    expect(rollover.days[0]).toMatchObject({ date: '2025-07-09', reviews: 0 });
+    expect(rollover.days[1]).toMatchObject({ date: '2025-07-10', reviews: 1 });
+  });
+
+  it('follows a recalled card forward by its ease', () => {
+    const { days } = WorkloadForecaster.forecast([reviewCard()], { 'deck-1': SETTINGS }, 1, 90, TODAY);
+
+    // Due today at 10 days, then 25 and 63 days later
+    const dueDays = days.flatMap((day, index) => day.reviews > 0 ? [index] : []);
+    expect(dueDays).toEqual([0, 25, 88]);
+    expect(days.every(day => day.learning === 0)).toBe(true);
+  });
+
+  it('splits each review into recall and lapse branches by the retention rate', () => {
+    const { days, retentionRate } = WorkloadForecaster.forecast(
+      [reviewCard({ interval: 4, nextDue: TODAY.toISOString() })], {}, 0.8, 30, TODAY
+    );
+
+    expect(retentionRate).toBe(0.8);
+    expect(days[0]).toMatchObject({ reviews: 1, learning: 0.2, total: 1 });
+    // The lapse comes back after a quarter of the interval, the recall after 4 x 2.5 days
+    expect(days[1].reviews).toBe(0.2);
+    expect(days[10].reviews).toBe(0.8);
+  });
+
+  it('counts learning and relearning steps on the day they are due', () => {
+    const cards = [
+      reviewCard({ cardState: CardState.LEARNING, nextDue: TODAY.toISOString() }),
+      reviewCard({ cardState: CardState.RELEARNING, nextDue: '2025-07-11T12:00:00Z', interval: 3 })
+    ];
+    const { days } = WorkloadForecaster.forecast(cards, { 'deck-1': SETTINGS }, 1, 10, TODAY);
+
+    expect(days[0]).toMatchObject({ learning: 1, reviews: 0, total: 1 });
+    expect(days[1]).toMatchObject({ learning: 1, reviews: 1, total: 2 });
+    // Day four: the graduated card's second review and the relearned card's first
+    expect(days[4]).toMatchObject({ learning: 0, reviews: 2 });
+  });
+
+  it('introduces new cards at the deck allowance and totals every deck', () => {
+    const cards = [...newCards(30), ...newCards(5, 'deck-2')];
+    const { days, byDeck } = WorkloadForecaster.forecast(cards, { 'deck-1': SETTINGS }, 1, 10, TODAY);
+
+    expect(byDeck['deck-1'].slice(0, 3).map(day => day.newCards)).toEqual([20, 10, 0]);
+    // First reviews one graduating interval after each intake
+    expect(byDeck['deck-1'].slice(0, 3).map(day => day.reviews)).toEqual([0, 20, 10]);
+    // No settings for deck-2: the default allowance takes all five on day one
+    expect(byDeck['deck-2'][0].newCards).toBe(5);
+    expect(days[0].newCards).toBe(25);
+    expect(days).toHaveLength(10);
+  });
+});
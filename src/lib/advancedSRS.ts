@@ -1,5 +1,5 @@
 // Advanced Spaced Repetition System Engine
-// Core scheduling logic for state-based SRS with learning phases
+// Client adapter over the shared scheduling core (same code the review edge function runs)
 
 import {
   CardState,
@@ -10,6 +10,17 @@ import {
   RATING_MAPPINGS
 } from '../types/SRSTypes';
 import { EmojiRating } from '../contexts/StudyContext';
+import {
+  scheduleCard as scheduleWithCore,
+  SM2Scheduler,
+  LoadContext,
+  Rating,
+  SchedulerCard,
+  SchedulerConfig
+} from '../../supabase/functions/_shared/scheduler';
+
+export { FSRSScheduler, LEECH_TAG, StudyDay, vacationRange } from '../../supabase/functions/_shared/scheduler';
+export type { DateRange, DayBoundary, DueCounts, LoadContext, MemoryState } from '../../supabase/functions/_shared/scheduler';
 
 // ========================================
 // MAIN SRS ENGINE CLASS
@@ -18,302 +29,41 @@ import { EmojiRating } from '../contexts/StudyContext';
 export class AdvancedSRSEngine {
   
   /**
-   * Main scheduling function - determines next review timing based on card state and rating
+   * Main scheduling function - determines next review timing based on card state and rating.
+   * Pass the same load context (due counts, easy days) the server uses so previews match the write.
    */
   static scheduleCard(
     card: EnhancedCard,
     rating: EmojiRating,
-    config: DeckConfig = DEFAULT_DECK_CONFIG
+    config: DeckConfig = DEFAULT_DECK_CONFIG,
+    now: Date = new Date(),
+    load: LoadContext = {}
   ): SchedulingResult {
-    const ratingValue = this.emojiToRating(rating);
-    
-    switch (card.cardState) {
-      case CardState.NEW:
-        return this.scheduleNewCard(card, ratingValue, config);
-      case CardState.LEARNING:
-        return this.scheduleLearningCard(card, ratingValue, config);
-      case CardState.REVIEW:
-        return this.scheduleReviewCard(card, ratingValue, config);
-      case CardState.RELEARNING:
-        return this.scheduleRelearningCard(card, ratingValue, config);
-      default:
-        throw new Error(`Unknown card state: ${card.cardState}`);
-    }
-  }
+    const outcome = scheduleWithCore(
+      this.toSchedulerCard(card),
+      this.emojiToRating(rating),
+      this.toSchedulerConfig(config),
+      now,
+      load
+    );
 
-  // ========================================
-  // STATE-SPECIFIC SCHEDULING METHODS
-  // ========================================
-
-  /**
-   * Schedule a new card entering the learning phase
-   */
-  private static scheduleNewCard(
-    card: EnhancedCard,
-    rating: number,
-    config: DeckConfig
-  ): SchedulingResult {
-    // New cards always start learning regardless of rating
-    // Rating affects which step they start at
-    
-    if (rating === 3) { // Easy - graduate immediately
-      return {
-        nextDue: this.addDays(new Date(), config.easyInterval),
-        interval: config.easyInterval,
-        cardState: CardState.REVIEW,
-        easeFactor: config.startingEase + config.easyBonus,
-        graduated: true,
-        reviewCount: card.reviewCount + 1
-      };
-    }
-    
-    if (rating === 0) { // Again - start at first learning step
-      return {
-        nextDue: this.addMinutes(new Date(), config.learningSteps[0]),
-        interval: config.learningSteps[0] / (24 * 60), // Convert to days for consistency
-        cardState: CardState.LEARNING,
-        learningStep: 0,
-        easeFactor: config.startingEase,
-        reviewCount: card.reviewCount + 1
-      };
-    }
-    
-    // Good/Hard - start learning progression
     return {
-      nextDue: this.addMinutes(new Date(), config.learningSteps[0]),
-      interval: config.learningSteps[0] / (24 * 60),
-      cardState: CardState.LEARNING,
-      learningStep: 0,
-      easeFactor: config.startingEase,
-      reviewCount: card.reviewCount + 1
+      nextDue: outcome.nextDue,
+      interval: outcome.interval,
+      cardState: outcome.cardState as CardState,
+      learningStep: outcome.learningStep,
+      easeFactor: outcome.easeFactor,
+      stability: outcome.stability,
+      fsrsDifficulty: outcome.fsrsDifficulty,
+      lapseCount: outcome.lapseCount,
+      isLeech: outcome.isLeech,
+      reviewCount: outcome.reviewCount,
+      graduated: outcome.graduated,
+      lapsed: outcome.lapsed,
+      becameLeech: outcome.becameLeech
     };
   }
 
-  /**
-   * Schedule a card in the learning phase
-   */
-  private static scheduleLearningCard(
-    card: EnhancedCard,
-    rating: number,
-    config: DeckConfig
-  ): SchedulingResult {
-    const currentStep = card.learningStep || 0;
-    
-    // Failed - restart learning from beginning
-    if (rating === 0) {
-      return {
-        nextDue: this.addMinutes(new Date(), config.learningSteps[0]),
-        interval: config.learningSteps[0] / (24 * 60),
-        cardState: CardState.LEARNING,
-        learningStep: 0,
-        easeFactor: card.easeFactor,
-        reviewCount: card.reviewCount + 1
-      };
-    }
-    
-    // Easy - graduate immediately to review
-    if (rating === 3) {
-      return {
-        nextDue: this.addDays(new Date(), config.easyInterval),
-        interval: config.easyInterval,
-        cardState: CardState.REVIEW,
-        easeFactor: card.easeFactor + config.easyBonus,
-        graduated: true,
-        reviewCount: card.reviewCount + 1
-      };
-    }
-    
-    // Good/Hard - advance to next learning step or graduate
-    const nextStep = currentStep + 1;
-    
-    if (nextStep >= config.learningSteps.length) {
-      // Graduate to review phase
-      return {
-        nextDue: this.addDays(new Date(), config.graduatingInterval),
-        interval: config.graduatingInterval,
-        cardState: CardState.REVIEW,
-        easeFactor: rating === 1 ? card.easeFactor - config.hardPenalty : card.easeFactor,
-        graduated: true,
-        reviewCount: card.reviewCount + 1
-      };
-    }
-    
-    // Continue learning progression
-    const nextStepMinutes = config.learningSteps[nextStep];
-    return {
-      nextDue: this.addMinutes(new Date(), nextStepMinutes),
-      interval: nextStepMinutes / (24 * 60),
-      cardState: CardState.LEARNING,
-      learningStep: nextStep,
-      easeFactor: rating === 1 ? card.easeFactor - config.hardPenalty : card.easeFactor,
-      reviewCount: card.reviewCount + 1
-    };
-  }
-
-  /**
-   * Schedule a card in the review phase (standard SM-2 with enhancements)
-   */
-  private static scheduleReviewCard(
-    card: EnhancedCard,
-    rating: number,
-    config: DeckConfig
-  ): SchedulingResult {
-    // Failed - move to relearning
-    if (rating === 0) {
-      const newLapseCount = card.lapseCount + 1;
-      const newEaseFactor = Math.max(1.3, card.easeFactor - config.lapsePenalty);
-      
-      return {
-        nextDue: this.addMinutes(new Date(), config.relearningSteps[0]),
-        interval: config.relearningSteps[0] / (24 * 60),
-        cardState: CardState.RELEARNING,
-        learningStep: 0,
-        easeFactor: newEaseFactor,
-        lapseCount: newLapseCount,
-        isLeech: newLapseCount >= config.lapseThreshold,
-        reviewCount: card.reviewCount + 1
-      };
-    }
-    
-    // Apply SM-2 algorithm with modifications
-    const newEaseFactor = this.updateEaseFactor(card.easeFactor, rating, config);
-    const newInterval = this.calculateReviewInterval(card.interval, newEaseFactor, rating, config);
-    
-    return {
-      nextDue: this.addDays(new Date(), Math.min(newInterval, config.maximumInterval)),
-      interval: newInterval,
-      cardState: CardState.REVIEW,
-      easeFactor: newEaseFactor,
-      reviewCount: card.reviewCount + 1
-    };
-  }
-
-  /**
-   * Schedule a card in the relearning phase
-   */
-  private static scheduleRelearningCard(
-    card: EnhancedCard,
-    rating: number,
-    config: DeckConfig
-  ): SchedulingResult {
-    const currentStep = card.learningStep || 0;
-    
-    // Failed - restart relearning
-    if (rating === 0) {
-      const newLapseCount = card.lapseCount + 1;
-      return {
-        nextDue: this.addMinutes(new Date(), config.relearningSteps[0]),
-        interval: config.relearningSteps[0] / (24 * 60),
-        cardState: CardState.RELEARNING,
-        learningStep: 0,
-        easeFactor: Math.max(1.3, card.easeFactor - config.lapsePenalty),
-        lapseCount: newLapseCount,
-        isLeech: newLapseCount >= config.lapseThreshold,
-        reviewCount: card.reviewCount + 1
-      };
-    }
-    
-    // Easy - graduate immediately back to review
-    if (rating === 3) {
-      const graduationInterval = Math.max(1, Math.round(card.interval * 0.5)); // 50% of previous interval
-      return {
-        nextDue: this.addDays(new Date(), graduationInterval),
-        interval: graduationInterval,
-        cardState: CardState.REVIEW,
-        easeFactor: card.easeFactor + config.easyBonus,
-        graduated: true,
-        reviewCount: card.reviewCount + 1
-      };
-    }
-    
-    // Good/Hard - advance relearning step or graduate
-    const nextStep = currentStep + 1;
-    
-    if (nextStep >= config.relearningSteps.length) {
-      // Graduate back to review with reduced interval
-      const graduationInterval = Math.max(1, Math.round(card.interval * 0.25)); // 25% of previous interval
-      return {
-        nextDue: this.addDays(new Date(), graduationInterval),
-        interval: graduationInterval,
-        cardState: CardState.REVIEW,
-        easeFactor: rating === 1 ? card.easeFactor - config.hardPenalty : card.easeFactor,
-        graduated: true,
-        reviewCount: card.reviewCount + 1
-      };
-    }
-    
-    // Continue relearning progression
-    const nextStepMinutes = config.relearningSteps[nextStep];
-    return {
-      nextDue: this.addMinutes(new Date(), nextStepMinutes),
-      interval: nextStepMinutes / (24 * 60),
-      cardState: CardState.RELEARNING,
-      learningStep: nextStep,
-      easeFactor: rating === 1 ? card.easeFactor - config.hardPenalty : card.easeFactor,
-      reviewCount: card.reviewCount + 1
-    };
-  }
-
-  // ========================================
-  // SM-2 ALGORITHM HELPERS
-  // ========================================
-
-  /**
-   * Update ease factor based on rating (enhanced SM-2)
-   */
-  private static updateEaseFactor(
-    currentEase: number,
-    rating: number,
-    config: DeckConfig
-  ): number {
-    let newEase = currentEase;
-    
-    switch (rating) {
-      case 0: // Again - significant penalty (handled in state transitions)
-        newEase = Math.max(1.3, currentEase - config.lapsePenalty);
-        break;
-      case 1: // Hard - small penalty
-        newEase = Math.max(1.3, currentEase - config.hardPenalty);
-        break;
-      case 2: // Good - slight increase
-        newEase = currentEase + 0.1;
-        break;
-      case 3: // Easy - bonus increase
-        newEase = currentEase + config.easyBonus;
-        break;
-    }
-    
-    return Math.round(newEase * 100) / 100; // Round to 2 decimal places
-  }
-
-  /**
-   * Calculate next review interval for review cards
-   */
-  private static calculateReviewInterval(
-    currentInterval: number,
-    easeFactor: number,
-    rating: number,
-    config: DeckConfig
-  ): number {
-    let newInterval: number;
-    
-    switch (rating) {
-      case 1: // Hard - reduced interval
-        newInterval = Math.max(1, Math.round(currentInterval * 1.2));
-        break;
-      case 2: // Good - standard SM-2
-        newInterval = Math.round(currentInterval * easeFactor);
-        break;
-      case 3: // Easy - bonus multiplier
-        newInterval = Math.round(currentInterval * easeFactor * 1.3);
-        break;
-      default:
-        newInterval = Math.round(currentInterval * easeFactor);
-    }
-    
-    return Math.min(newInterval, config.maximumInterval);
-  }
-
   // ========================================
   // UTILITY METHODS
   // ========================================
@@ -321,28 +71,50 @@ export class AdvancedSRSEngine {
   /**
    * Convert emoji rating to numerical value
    */
-  private static emojiToRating(emoji: EmojiRating): number {
+  private static emojiToRating(emoji: EmojiRating): Rating {
     const mapping = RATING_MAPPINGS.find(m => m.emoji === emoji);
     if (!mapping) {
       throw new Error(`Unknown rating emoji: ${emoji}`);
     }
-    return mapping.value;
+    return mapping.value as Rating;
   }
 
   /**
-   * Add minutes to a date
+   * Card and deck settings in the shape the shared core takes
    */
-  private static addMinutes(date: Date, minutes: number): Date {
-    return new Date(date.getTime() + minutes * 60 * 1000);
+  static toSchedulerCard(card: EnhancedCard): SchedulerCard {
+    return {
+      id: card.id,
+      cardState: card.cardState,
+      learningStep: card.learningStep || 0,
+      lapseCount: card.lapseCount,
+      easeFactor: card.easeFactor,
+      interval: card.interval,
+      reviewCount: card.reviewCount,
+      lastStudied: card.lastStudied,
+      isLeech: card.isLeech,
+      stability: card.stability,
+      fsrsDifficulty: card.fsrsDifficulty
+    };
   }
 
-  /**
-   * Add days to a date
-   */
-  private static addDays(date: Date, days: number): Date {
-    const result = new Date(date);
-    result.setDate(result.getDate() + days);
-    return result;
+  static toSchedulerConfig(config: DeckConfig): SchedulerConfig {
+    return {
+      learningSteps: config.learningSteps,
+      graduatingInterval: config.graduatingInterval,
+      easyInterval: config.easyInterval,
+      relearningSteps: config.relearningSteps,
+      maximumInterval: config.maximumInterval,
+      startingEase: config.startingEase,
+      easyBonus: config.easyBonus,
+      hardPenalty: config.hardPenalty,
+      lapsePenalty: config.lapsePenalty,
+      lapseThreshold: config.lapseThreshold,
+      scheduler: config.scheduler,
+      desiredRetention: config.desiredRetention,
+      fsrsWeights: config.fsrsWeights,
+      loadBalancing: config.loadBalancing
+    };
   }
 
   // ========================================
@@ -354,12 +126,13 @@ export class AdvancedSRSEngine {
    */
   static predictNextDue(
     card: EnhancedCard,
-    config: DeckConfig = DEFAULT_DECK_CONFIG
+    config: DeckConfig = DEFAULT_DECK_CONFIG,
+    load: LoadContext = {}
   ): Record<EmojiRating, { nextDue: Date; interval: number; newState: CardState }> {
     const predictions: Record<string, any> = {};
     
     RATING_MAPPINGS.forEach(({ emoji }) => {
-      const result = this.scheduleCard(card, emoji, config);
+      const result = this.scheduleCard(card, emoji, config, new Date(), load);
       predictions[emoji] = {
         nextDue: result.nextDue,
         interval: result.interval,
@@ -404,8 +177,8 @@ export class AdvancedSRSEngine {
     
     // Simulate successful reviews (rating 2 - Good)
     while (currentEase < targetEase || currentInterval < targetInterval) {
-      currentEase = this.updateEaseFactor(currentEase, 2, config);
-      currentInterval = this.calculateReviewInterval(currentInterval, currentEase, 2, config);
+      currentEase = SM2Scheduler.updateEaseFactor(currentEase, 2, this.toSchedulerConfig(config));
+      currentInterval = SM2Scheduler.calculateReviewInterval(currentInterval, currentEase, 2, this.toSchedulerConfig(config));
       days += currentInterval;
       reviews++;
       
@@ -460,6 +233,10 @@ export class DeckConfigManager {
       errors.push('Starting ease must be at least 1.3');
     }
     
+    if (config.desiredRetention !== undefined && (config.desiredRetention < 0.7 || config.desiredRetention > 0.99)) {
+      errors.push('Desired retention must be between 0.70 and 0.99');
+    }
+    
     // Add more validations as needed
     
     return {
@@ -0,0 +1,699 @@
+// Anki Exporter
+// Builds an .apkg from a deck and its subdecks: a schema 11 collection.anki2
+// SQLite file plus the media files, zipped the way Anki exports them. Basic,
+// type-in, cloze and image occlusion cards map onto Anki's stock note types;
+// scheduling and review history are optional.
+
+import JSZip from 'jszip';
+import initSqlJs from 'sql.js';
+import { supabase } from './supabaseClient';
+import { DeckTree } from './deckTree';
+import { MediaService } from './mediaService';
+import { ReviewLogEntry } from './fsrsOptimizer';
+import { CardState, EnhancedCard } from '../types/SRSTypes';
+
+export interface ExportDeck {
+  id: string;
+  name: string; // Full "Parent::Child" name
+}
+
+export interface ExportCard extends EnhancedCard {
+  isSuspended: boolean;
+  newPosition: number | null;
+}
+
+export interface ExportReview extends ReviewLogEntry {
+  before?: { cardState: CardState; interval: number; easeFactor: number }; // Card as it was before the answer
+}
+
+export interface ApkgExportData {
+  decks: ExportDeck[];
+  cards: ExportCard[];
+  reviews: ExportReview[];
+}
+
+export interface ApkgExportOptions {
+  includeScheduling?: boolean; // Keep intervals, ease and due dates; otherwise every card is exported as new
+  includeHistory?: boolean; // Add the review log (only with scheduling)
+  fetchMedia?: (url: string) => Promise<Uint8Array | null>;
+  now?: Date;
+}
+
+interface AnkiModel {
+  id: number;
+  name: string;
+  type: 0 | 1; // 1 = cloze
+  fields: string[];
+  templates: { name: string; qfmt: string; afmt: string }[];
+  originalStockKind?: number;
+}
+
+interface AnkiNote {
+  guid: string;
+  model: AnkiModel;
+  fields: string[];
+  tags: string[];
+  cards: { card: ExportCard; ord: number }[];
+}
+
+// The part of a sql.js database the revlog writer needs (sql.js ships no typings)
+interface SqlDatabase {
+  prepare(sql: string): { run(values: unknown[]): void; free(): void };
+}
+
+const FIELD_SEPARATOR = '\u001f';
+const DAY_MS = 86400000;
+const IMG_SRC = /(<img[^>]+src=["'])([^"']+)(["'])/gi;
+
+const MODELS: Record<'basic' | 'reversed' | 'typeIn' | 'cloze' | 'imageOcclusion', AnkiModel> = {
+  basic: {
+    id: 1700000000001,
+    name: 'Basic',
+    type: 0,
+    fields: ['Front', 'Back'],
+    templates: [{ name: 'Card 1', qfmt: '{{Front}}', afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}' }]
+  },
+  reversed: {
+    id: 1700000000002,
+    name: 'Basic (and reversed card)',
+    type: 0,
+    fields: ['Front', 'Back'],
+    templates: [
+      { name: 'Card 1', qfmt: '{{Front}}', afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}' },
+      { name: 'Card 2', qfmt: '{{Back}}', afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Front}}' }
+    ]
+  },
+  typeIn: {
+    id: 1700000000003,
+    name: 'Basic (type in the answer)',
+    type: 0,
+    fields: ['Front', 'Back'],
+    templates: [{ name: 'Card 1', qfmt: '{{Front}}\n\n{{type:Back}}', afmt: '{{Front}}\n\n<hr id=answer>\n\n{{type:Back}}' }]
+  },
+  cloze: {
+    id: 1700000000004,
+    name: 'Cloze',
+    type: 1,
+    fields: ['Text', 'Back Extra'],
+    templates: [{ name: 'Cloze', qfmt: '{{cloze:Text}}', afmt: '{{cloze:Text}}<br>\n{{Back Extra}}' }]
+  },
+  imageOcclusion: {
+    id: 1700000000005,
+    name: 'Image Occlusion',
+    type: 1,
+    fields: ['Occlusion', 'Image', 'Header', 'Back Extra', 'Comments'],
+    templates: [{
+      name: 'Image Occlusion',
+      qfmt: '{{#Header}}<div>{{Header}}</div>{{/Header}}\n<div style="display: none">{{cloze:Occlusion}}</div>\n<div id="image-occlusion-container">\n  {{Image}}\n  <canvas id="image-occlusion-canvas"></canvas>\n</div>\n<script>\ntry { anki.imageOcclusion.setup(); } catch (exc) {}\n</script>',
+      afmt: '{{#Header}}<div>{{Header}}</div>{{/Header}}\n<div style="display: none">{{cloze:Occlusion}}</div>\n<div id="image-occlusion-container">\n  {{Image}}\n  <canvas id="image-occlusion-canvas"></canvas>\n</div>\n<script>\ntry { anki.imageOcclusion.setup(); } catch (exc) {}\n</script>\n<div><button id="toggle">Toggle Masks</button></div>\n{{#Back Extra}}<div>{{Back Extra}}</div>{{/Back Extra}}'
+    }],
+    originalStockKind: 6
+  }
+};
+
+const COLLECTION_CONF = {
+  estTimes: true,
+  dueCounts: true,
+  newSpread: 0,
+  collapseTime: 1200,
+  timeLim: 0,
+  sortType: 'noteFld',
+  sortBackwards: false,
+  addToCur: true
+};
+
+const DECK_CONF = {
+  id: 1,
+  name: 'Default',
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: { bury: false, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 0], order: 1, perDay: 20 },
+  rev: { bury: false, ease4: 1.3, ivlFct: 1, maxIvl: 36500, perDay: 200, hardFactor: 1.2 },
+  lapse: { delays: [10], leechAction: 1, leechFails: 8, minInt: 1, mult: 0 }
+};
+
+const SCHEMA = `
+  CREATE TABLE col (id integer PRIMARY KEY, crt integer NOT NULL, mod integer NOT NULL, scm integer NOT NULL, ver integer NOT NULL, dty integer NOT NULL, usn integer NOT NULL, ls integer NOT NULL, conf text NOT NULL, models text NOT NULL, decks text NOT NULL, dconf text NOT NULL, tags text NOT NULL);
+  CREATE TABLE notes (id integer PRIMARY KEY, guid text NOT NULL, mid integer NOT NULL, mod integer NOT NULL, usn integer NOT NULL, tags text NOT NULL, flds text NOT NULL, sfld integer NOT NULL, csum integer NOT NULL, flags integer NOT NULL, data text NOT NULL);
+  CREATE TABLE cards (id integer PRIMARY KEY, nid integer NOT NULL, did integer NOT NULL, ord integer NOT NULL, mod integer NOT NULL, usn integer NOT NULL, type integer NOT NULL, queue integer NOT NULL, due integer NOT NULL, ivl integer NOT NULL, factor integer NOT NULL, reps integer NOT NULL, lapses integer NOT NULL, left integer NOT NULL, odue integer NOT NULL, odid integer NOT NULL, flags integer NOT NULL, data text NOT NULL);
+  CREATE TABLE revlog (id integer PRIMARY KEY, cid integer NOT NULL, usn integer NOT NULL, ease integer NOT NULL, ivl integer NOT NULL, lastIvl integer NOT NULL, factor integer NOT NULL, time integer NOT NULL, type integer NOT NULL);
+  CREATE TABLE graves (usn integer NOT NULL, oid integer NOT NULL, type integer NOT NULL);
+  CREATE INDEX ix_notes_usn ON notes (usn);
+  CREATE INDEX ix_cards_usn ON cards (usn);
+  CREATE INDEX ix_revlog_usn ON revlog (usn);
+  CREATE INDEX ix_cards_nid ON cards (nid);
+  CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid ON revlog (cid);
+  CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+export class ApkgExporter {
+  private static readonly PAGE_SIZE = 1000;
+  private static readonly MAX_ANSWER_MS = 60000; // Anki caps logged answer time at a minute
+
+  /**
+   * Load a deck, its subdecks, their cards and (optionally) review history
+   */
+  static async load(deckId: string, includeHistory = false): Promise<ApkgExportData> {
+    const { data: deckRows, error: deckError } = await supabase.from('decks').select('id, name, parent_id');
+    if (deckError) {
+      throw new Error(`Failed to load decks: ${deckError.message}`);
+    }
+
+    const treeDecks = (deckRows ?? []).map(row => ({
+      id: row.id as string,
+      name: row.name as string,
+      parentId: row.parent_id as string | null,
+      cardCount: 0,
+      dueCount: 0,
+      newCount: 0
+    }));
+    const deckIds = DeckTree.subtreeIds(treeDecks, deckId);
+    const decks = deckIds.map(id => ({ id, name: DeckTree.path(treeDecks, id) }));
+
+    const cards = await this.loadCards(deckIds);
+    const reviews = includeHistory ? await this.loadReviews(deckIds) : [];
+    return { decks, cards, reviews };
+  }
+
+  /**
+   * Build the .apkg file
+   */
+  static async build(data: ApkgExportData, options: ApkgExportOptions = {}): Promise<Uint8Array> {
+    const {
+      includeScheduling = true,
+      includeHistory = false,
+      fetchMedia = this.fetchMedia,
+      now = new Date()
+    } = options;
+
+    const SQL = await initSqlJs({
+      locateFile: (file: string) => `https://sql.js.org/dist/${file}`
+    });
+    const db = new SQL.Database();
+    db.run(SCHEMA);
+
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    const nextId = this.idSequence();
+    const media = await this.collectMedia(data.cards, fetchMedia);
+
+    // Collection creation day: every review due date counts days from here
+    const earliest = data.cards.reduce((min, card) => {
+      const created = Date.parse(card.created);
+      return Number.isFinite(created) && created < min ? created : min;
+    }, now.getTime());
+    const crt = this.startOfDay(earliest);
+
+    // Decks, plus the Default deck every collection has
+    const deckIds = new Map<string, number>();
+    const decksJson: Record<string, unknown> = { 1: this.deckJson(1, 'Default', nowSeconds) };
+    data.decks.forEach((deck, index) => {
+      const id = Math.floor(crt / 1000) * 1000 + index + 2;
+      deckIds.set(deck.id, id);
+      decksJson[id] = this.deckJson(id, deck.name, nowSeconds);
+    });
+    const defaultDeckId = deckIds.get(data.decks[0]?.id) ?? 1;
+
+    const notes = this.buildNotes(data.cards, media.renamed);
+    const cardIds = new Map<string, number>();
+    let nextPosition = 1;
+
+    const noteStatement = db.prepare('INSERT INTO notes VALUES (?,?,?,?,?,?,?,?,?,?,?)');
+    const cardStatement = db.prepare('INSERT INTO cards VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?,?)');
+    for (const note of notes) {
+      const noteId = nextId(Date.parse(note.cards[0].card.created) || now.getTime());
+      const sortField = this.stripHtml(note.fields[0]);
+      noteStatement.run([
+        noteId, note.guid, note.model.id, nowSeconds, 0,
+        note.tags.length ? ` ${note.tags.join(' ')} ` : '',
+        note.fields.join(FIELD_SEPARATOR), sortField, await this.checksum(sortField), 0, ''
+      ]);
+
+      for (const { card, ord } of note.cards) {
+        const id = nextId(Date.parse(card.created) || now.getTime());
+        cardIds.set(card.id, id);
+        const position = card.newPosition ?? nextPosition;
+        nextPosition = Math.max(nextPosition, position + 1);
+        const schedule = includeScheduling ? this.schedule(card, crt, position) : this.newSchedule(position);
+        cardStatement.run([
+          id, noteId, deckIds.get(card.deckId) ?? defaultDeckId, ord, nowSeconds, 0,
+          schedule.type, card.isSuspended ? -1 : schedule.queue, schedule.due, schedule.ivl, schedule.factor,
+          schedule.reps, schedule.lapses, schedule.left, 0, 0, 0, ''
+        ]);
+      }
+    }
+    noteStatement.free();
+    cardStatement.free();
+
+    if (includeScheduling && includeHistory) {
+      this.writeRevlog(db, data, cardIds, nextId);
+    }
+
+    const models = Object.fromEntries(Object.values(MODELS).map(model => [model.id, this.modelJson(model, defaultDeckId, nowSeconds)]));
+    db.run('INSERT INTO col VALUES (1,?,?,?,11,0,0,0,?,?,?,?,?)', [
+      Math.floor(crt / 1000), now.getTime(), now.getTime(),
+      JSON.stringify({ ...COLLECTION_CONF, nextPos: nextPosition, curModel: MODELS.basic.id, curDeck: defaultDeckId, activeDecks: [defaultDeckId] }),
+      JSON.stringify(models),
+      JSON.stringify(decksJson),
+      JSON.stringify({ 1: { ...DECK_CONF, mod: nowSeconds } }),
+      '{}'
+    ]);
+
+    const collection = db.export();
+    db.close();
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', collection);
+    const mediaMap: Record<string, string> = {};
+    media.files.forEach((file, index) => {
+      mediaMap[index] = file.name;
+      zip.file(String(index), file.data);
+    });
+    zip.file('media', JSON.stringify(mediaMap));
+
+    return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  }
+
+  // ========================================
+  // NOTES
+  // ========================================
+
+  /**
+   * Group cards into Anki notes. A basic card and its reverse sibling become
+   * one "Basic (and reversed card)" note; everything else is a note per card.
+   */
+  private static buildNotes(cards: ExportCard[], renamed: Map<string, string>): AnkiNote[] {
+    const localize = (html: string) => html.replace(IMG_SRC, (match, open, src, close) =>
+      renamed.has(src) ? `${open}${renamed.get(src)}${close}` : match);
+
+    const siblings = new Map<string, ExportCard[]>();
+    cards.forEach(card => {
+      if (card.noteId) siblings.set(card.noteId, [...(siblings.get(card.noteId) ?? []), card]);
+    });
+
+    const notes: AnkiNote[] = [];
+    const done = new Set<string>();
+    for (const card of cards) {
+      if (done.has(card.id)) continue;
+      done.add(card.id);
+
+      const group = card.noteId ? siblings.get(card.noteId) ?? [] : [];
+      const reverse = group.length === 2 && group.find(other =>
+        other.id !== card.id && other.type === 'basic' && card.type === 'basic' &&
+        other.front === card.back && other.back === card.front);
+
+      if (reverse) {
+        done.add(reverse.id);
+        notes.push({
+          guid: card.noteId as string,
+          model: MODELS.reversed,
+          fields: [localize(card.front), localize(card.back)],
+          tags: this.ankiTags(card.tags),
+          cards: [{ card, ord: 0 }, { card: reverse, ord: 1 }]
+        });
+        continue;
+      }
+
+      const { model, fields } = this.noteFields(card);
+      notes.push({
+        guid: group.length === 1 ? card.noteId as string : card.id,
+        model,
+        fields: fields.map(localize),
+        tags: this.ankiTags(card.tags),
+        cards: [{ card, ord: 0 }]
+      });
+    }
+    return notes;
+  }
+
+  /**
+   * Note type and field values for one card. Type-in, cloze, image occlusion
+   * and multiple choice cards keep their details as JSON in front/back.
+   */
+  private static noteFields(card: ExportCard): { model: AnkiModel; fields: string[] } {
+    switch (card.type) {
+      case 'type-in': {
+        const back = this.parseJson<{ answer?: string }>(card.back);
+        return { model: MODELS.typeIn, fields: [card.front, back?.answer ?? card.back] };
+      }
+      case 'cloze':
+        return { model: MODELS.cloze, fields: [card.front, card.back === 'Cloze card' ? '' : card.back] };
+      case 'image-occlusion': {
+        const front = this.parseJson<{
+          question?: string;
+          image?: string;
+          occlusions?: { x: number; y: number; width: number; height: number }[];
+        }>(card.front);
+        if (!front?.image) break;
+        // Every mask hides together on the one card, so they all share c1
+        const occlusions = (front.occlusions ?? []).map(shape =>
+          `{{c1::image-occlusion:rect:left=${this.fraction(shape.x)}:top=${this.fraction(shape.y)}:width=${this.fraction(shape.width)}:height=${this.fraction(shape.height)}:oi=1}}`);
+        return {
+          model: MODELS.imageOcclusion,
+          fields: [occlusions.join('<br>'), `<img src="${front.image}">`, front.question ?? '', '', '']
+        };
+      }
+      case 'multiple-choice': {
+        const back = this.parseJson<{ options?: string[]; correctAnswer?: number; explanation?: string }>(card.back);
+        if (!back?.options) break;
+        const letter = (index: number) => String.fromCharCode(65 + index);
+        const options = back.options.map((option, index) => `${letter(index)}. ${option}`).join('<br>');
+        const correct = back.correctAnswer ?? 0;
+        const answer = `${letter(correct)}. ${back.options[correct] ?? ''}${back.explanation ? `<br><br>${back.explanation}` : ''}`;
+        return { model: MODELS.basic, fields: [`${card.front}<br><br>${options}`, answer] };
+      }
+    }
+    return { model: MODELS.basic, fields: [card.front, card.back] };
+  }
+
+  // ========================================
+  // SCHEDULING
+  // ========================================
+
+  private static newSchedule(position: number) {
+    return { type: 0, queue: 0, due: position, ivl: 0, factor: 0, reps: 0, lapses: 0, left: 0 };
+  }
+
+  /**
+   * Anki card columns for a card's state. Review cards are due in days since
+   * the collection was created; learning cards at a timestamp in seconds.
+   */
+  private static schedule(card: ExportCard, crt: number, position: number) {
+    const factor = Math.round(card.easeFactor * 1000);
+    const counts = { reps: card.reviewCount, lapses: card.lapseCount };
+    const dueMs = Date.parse(card.nextDue) || Date.now();
+
+    switch (card.cardState) {
+      case CardState.REVIEW:
+        return {
+          ...counts,
+          type: 2,
+          queue: 2,
+          due: Math.max(0, Math.round((this.startOfDay(dueMs) - crt) / DAY_MS)),
+          ivl: Math.max(1, Math.round(card.interval)),
+          factor,
+          left: 0
+        };
+      case CardState.LEARNING:
+      case CardState.RELEARNING: {
+        const relearning = card.cardState === CardState.RELEARNING;
+        return {
+          ...counts,
+          type: relearning ? 3 : 1,
+          queue: 1,
+          due: Math.floor(dueMs / 1000),
+          ivl: relearning ? Math.max(1, Math.round(card.interval)) : 0,
+          factor: relearning ? factor : 0,
+          left: 1001 // One step to go, done today
+        };
+      }
+      default:
+        return { ...this.newSchedule(position), ...counts };
+    }
+  }
+
+  /**
+   * One revlog row per answer. The interval and ease after an answer are
+   * those in the next answer's snapshot, or the card's current ones after the last.
+   */
+  private static writeRevlog(db: SqlDatabase, data: ApkgExportData, cardIds: Map<string, number>, nextId: (ms: number) => number) {
+    const cards = new Map(data.cards.map(card => [card.id, card]));
+    const byCard = new Map<string, ExportReview[]>();
+    data.reviews.forEach(review => {
+      if (cardIds.has(review.cardId)) byCard.set(review.cardId, [...(byCard.get(review.cardId) ?? []), review]);
+    });
+
+    const statement = db.prepare('INSERT INTO revlog VALUES (?,?,?,?,?,?,?,?,?)');
+    byCard.forEach((reviews, cardId) => {
+      const card = cards.get(cardId) as ExportCard;
+      reviews.sort((a, b) => Date.parse(a.reviewedAt) - Date.parse(b.reviewedAt));
+      reviews.forEach((review, index) => {
+        const after = index < reviews.length - 1
+          ? reviews[index + 1].before
+          : { cardState: card.cardState, interval: card.interval, easeFactor: card.easeFactor };
+        const inReview = (state?: CardState) => state === CardState.REVIEW || state === CardState.RELEARNING;
+        const type = !review.before
+          ? (index === 0 ? 0 : 1)
+          : review.before.cardState === CardState.REVIEW ? 1
+          : review.before.cardState === CardState.RELEARNING ? 2 : 0;
+
+        statement.run([
+          nextId(Date.parse(review.reviewedAt)),
+          cardIds.get(cardId),
+          0,
+          review.rating + 1,
+          after && inReview(after.cardState) ? Math.round(after.interval) : 0,
+          review.before && inReview(review.before.cardState) ? Math.round(review.before.interval) : 0,
+          Math.round((after?.easeFactor ?? card.easeFactor) * 1000),
+          Math.min(this.MAX_ANSWER_MS, Math.round((review.timeTaken ?? 0) * 1000)),
+          type
+        ]);
+      });
+    });
+    statement.free();
+  }
+
+  // ========================================
+  // MEDIA
+  // ========================================
+
+  /**
+   * Download every image the cards show and give each a unique file name
+   */
+  private static async collectMedia(cards: ExportCard[], fetchMedia: (url: string) => Promise<Uint8Array | null>) {
+    const urls = new Set<string>();
+    cards.forEach(card => {
+      [card.front, card.back].forEach(html => {
+        for (const match of html.matchAll(IMG_SRC)) urls.add(match[2]);
+      });
+      if (card.type === 'image-occlusion') {
+        const image = this.parseJson<{ image?: string }>(card.front)?.image;
+        if (image) urls.add(image);
+      }
+    });
+
+    const files: { name: string; data: Uint8Array }[] = [];
+    const renamed = new Map<string, string>();
+    const taken = new Set<string>();
+    for (const url of urls) {
+      if (!/^https?:\/\//i.test(url) && !MediaService.isRef(url)) continue;
+      try {
+        const data = await fetchMedia(url);
+        if (!data) continue;
+        const name = this.uniqueName(url, taken);
+        files.push({ name, data });
+        renamed.set(url, name);
+      } catch (error) {
+        console.warn(`Could not download media ${url}, keeping the link:`, error);
+      }
+    }
+    return { files, renamed };
+  }
+
+  private static async fetchMedia(url: string): Promise<Uint8Array | null> {
+    // Uploaded media is referenced as media://…; download it through a signed URL
+    const source = MediaService.isRef(url) ? (await MediaService.signedUrls([url]))[url] : url;
+    if (!source) return null;
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  private static uniqueName(url: string, taken: Set<string>): string {
+    let base = 'media';
+    try {
+      base = decodeURIComponent(new URL(url).pathname.split('/').pop() || base);
+    } catch {
+      // Keep the default name
+    }
+    base = base.replace(/[^\w.-]/g, '_');
+    const dot = base.lastIndexOf('.');
+    const [stem, extension] = dot > 0 ? [base.slice(0, dot), base.slice(dot)] : [base, ''];
+
+    let name = base;
+    for (let copy = 2; taken.has(name); copy++) {
+      name = `${stem}-${copy}${extension}`;
+    }
+    taken.add(name);
+    return name;
+  }
+
+  // ========================================
+  // HELPERS
+  // ========================================
+
+  /**
+   * Anki ids are millisecond timestamps; bump past any already used
+   */
+  private static idSequence(): (ms: number) => number {
+    const used = new Set<number>();
+    return (ms) => {
+      let id = Math.floor(ms);
+      while (used.has(id)) id++;
+      used.add(id);
+      return id;
+    };
+  }
+
+  private static startOfDay(ms: number): number {
+    const day = new Date(ms);
+    day.setHours(0, 0, 0, 0);
+    return day.getTime();
+  }
+
+  /** Percent (0-100) to a 0-1 fraction with four decimals */
+  private static fraction(percent: number): string {
+    return (Math.round(percent * 100) / 10000).toString();
+  }
+
+  private static ankiTags(tags: string[] = []): string[] {
+    return tags.map(tag => tag.trim().replace(/\s+/g, '_')).filter(Boolean);
+  }
+
+  private static stripHtml(html: string): string {
+    return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim();
+  }
+
+  /**
+   * First 8 hex digits of the field's SHA-1, which Anki uses to spot duplicates
+   */
+  private static async checksum(text: string): Promise<number> {
+    const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+    return new DataView(digest).getUint32(0);
+  }
+
+  private static parseJson<T>(text: string): T | null {
+    try {
+      const value = JSON.parse(text);
+      return value && typeof value === 'object' ? value as T : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static deckJson(id: number, name: string, mod: number) {
+    return {
+      id, name, mod, usn: 0, desc: '', dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+      newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0], extendNew: 0, extendRev: 0
+    };
+  }
+
+  private static modelJson(model: AnkiModel, deckId: number, mod: number) {
+    return {
+      id: model.id,
+      name: model.name,
+      type: model.type,
+      mod,
+      usn: 0,
+      sortf: 0,
+      did: deckId,
+      tmpls: model.templates.map((template, ord) => ({ ...template, ord, bqfmt: '', bafmt: '', did: null, bfont: '', bsize: 0 })),
+      flds: model.fields.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+      css: '.card {\n  font-family: arial;\n  font-size: 20px;\n  text-align: center;\n  color: black;\n  background-color: white;\n}\n',
+      latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+      latexPost: '\\end{document}',
+      latexsvg: false,
+      req: model.templates.map((_, ord) => [ord, 'any', [ord]]),
+      tags: [],
+      vers: [],
+      ...(model.originalStockKind ? { originalStockKind: model.originalStockKind } : {})
+    };
+  }
+
+  // ========================================
+  // DATA LOADING
+  // ========================================
+
+  private static async loadCards(deckIds: string[]): Promise<ExportCard[]> {
+    const cards: ExportCard[] = [];
+
+    for (let from = 0; ; from += this.PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('cards')
+        .select('id, deck_id, note_id, type, front, back, tags, card_state, learning_step, lapse_count, ease_factor, interval, review_count, last_studied, next_due, is_leech, is_suspended, new_position, created_at')
+        .in('deck_id', deckIds)
+        .order('new_position', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: true })
+        .range(from, from + this.PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load cards for export: ${error.message}`);
+      }
+
+      const rows = data ?? [];
+      rows.forEach(row => cards.push({
+        id: row.id,
+        deckId: row.deck_id,
+        noteId: row.note_id ?? undefined,
+        type: row.type,
+        front: row.front ?? '',
+        back: row.back ?? '',
+        tags: row.tags ?? [],
+        difficulty: 0,
+        created: row.created_at,
+        cardState: (row.card_state as CardState) || CardState.NEW,
+        learningStep: row.learning_step ?? 0,
+        lapseCount: row.lapse_count ?? 0,
+        isLeech: row.is_leech ?? false,
+        lastStudied: row.last_studied,
+        nextDue: row.next_due || new Date().toISOString(),
+        interval: Number(row.interval) || 1,
+        easeFactor: Number(row.ease_factor) || 2.5,
+        reviewCount: row.review_count ?? 0,
+        isSuspended: row.is_suspended ?? false,
+        newPosition: row.new_position ?? null
+      }));
+
+      if (rows.length < this.PAGE_SIZE) break;
+    }
+
+    return cards;
+  }
+
+  private static async loadReviews(deckIds: string[]): Promise<ExportReview[]> {
+    const reviews: ExportReview[] = [];
+
+    for (let from = 0; ; from += this.PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('reviews')
+        .select('card_id, rating, reviewed_at, time_taken, card_snapshot, cards!inner(deck_id)')
+        .eq('review_kind', 'review')
+        .in('cards.deck_id', deckIds)
+        .order('reviewed_at', { ascending: true })
+        .range(from, from + this.PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load review history: ${error.message}`);
+      }
+
+      const rows = (data ?? []) as unknown as {
+        card_id: string;
+        rating: number;
+        reviewed_at: string;
+        time_taken: number | null;
+        card_snapshot: { card_state?: CardState; interval?: number; ease_factor?: number } | null;
+      }[];
+      rows.forEach(row => reviews.push({
+        cardId: row.card_id,
+        rating: row.rating,
+        reviewedAt: row.reviewed_at,
+        timeTaken: row.time_taken ?? undefined,
+        before: row.card_snapshot?.card_state ? {
+          cardState: row.card_snapshot.card_state,
+          interval: Number(row.card_snapshot.interval) || 0,
+          easeFactor: Number(row.card_snapshot.ease_factor) || 2.5
+        } : undefined
+      }));
+
+      if (rows.length < this.PAGE_SIZE) break;
+    }
+
+    return reviews;
+  }
+}
@@ -1,24 +1,77 @@
 import JSZip from 'jszip';
+import { decompress } from 'fzstd';
 // sql.js does not have perfect TypeScript typings; treat as any
 // eslint-disable-next-line @typescript-eslint/consistent-type-imports
 import initSqlJs from 'sql.js';
+import { CardState } from '../types/SRSTypes';
+
+/** Scheduling columns of an Anki card row */
+export interface AnkiSchedule {
+  type: number; // 0 new, 1 learning, 2 review, 3 relearning
+  queue: number; // -1 suspended, -2/-3 buried, 0 new, 1/3 learning, 2 review
+  due: number; // New: position; review: days since the collection was created; learning: epoch seconds (queue 1) or days (queue 3)
+  ivl: number; // Days
+  factor: number; // Ease in permille
+  reps: number;
+  lapses: number;
+  stability?: number; // FSRS memory state, when Anki scheduled the card with FSRS
+  difficulty?: number;
+}
+
+/** A row of Anki's review log */
+export interface AnkiRevlogEntry {
+  id: number; // Answer time, epoch milliseconds
+  ease: number; // 1-4; 0 for manual rescheduling
+  ivl: number; // Days, or negative seconds while learning
+  lastIvl: number;
+  factor: number;
+  time: number; // Milliseconds spent answering
+  type: number; // 0 learn, 1 review, 2 relearn, 3 filtered, 4 manual
+}
+
+/** Card types an Anki card can become */
+export type ImportedCardType = 'basic' | 'cloze' | 'type-in';
+
+/** A note type (model): its fields and card templates */
+export interface AnkiNoteType {
+  id: number;
+  name: string;
+  kind: 'standard' | 'cloze';
+  fields: string[];
+  templates: { name: string; qfmt: string; afmt: string }[];
+}
 
 export interface AnkiCard {
   deckId: number;
+  noteId?: number; // Anki note id; cards of one note are siblings
+  type?: ImportedCardType;
+  noteType?: string; // Note type name
   front: string;
-  back: string;
+  back: string; // For type-in cards, JSON with the expected answer
+  fields?: Record<string, string>; // The note's fields by name
+  tags?: string[];
   frontImages?: string[];
   backImages?: string[];
   media?: Record<string, string>; // filename -> base64 data
+  schedule?: AnkiSchedule;
+  revlog?: AnkiRevlogEntry[]; // Oldest first
 }
 
 export interface AnkiDeck {
   name: string;
   cards: AnkiCard[];
+  collectionCreated?: number; // col.crt, epoch seconds; review due days count from here
 }
 
 export type ParsedDeck = AnkiDeck;
 
+const FIELD_SEPARATOR = '\u001f';
+
+// The part of a sql.js database the note type reader uses (sql.js ships no typings)
+interface SqlDatabase {
+  exec(sql: string): { columns: string[]; values: unknown[][] }[];
+}
+
 export async function parseApkg(file: File): Promise<AnkiDeck[]> {
   try {
     console.log('Starting Anki file parsing...');
@@ -40,8 +93,7 @@ export async function parseApkg(file: File): Promise<AnkiDeck[]> {
     const mediaEntry = zipContent.file('media');
     if (mediaEntry) {
       try {
-        const mediaJson = await mediaEntry.async('text');
-        const mediaData = JSON.parse(mediaJson);
+        const mediaData = readMediaMap(await mediaEntry.async('uint8array'));
         Object.assign(mediaMapping, mediaData);
         console.log('Found media mapping:', mediaData);
       } catch (error) {
@@ -49,11 +101,12 @@ export async function parseApkg(file: File): Promise<AnkiDeck[]> {
       }
     }
     
-    // Extract actual media files (usually numbered: 0, 1, 2, etc.)
+    // Extract actual media files (usually numbered: 0, 1, 2, etc.). Newer
+    // packages compress each one with zstd.
     for (const [filename, zipEntry] of Object.entries(zipContent.files)) {
       if (!zipEntry.dir && /^\d+$/.test(filename)) {
         try {
-          const fileData = await zipEntry.async('base64');
+          const fileData = toBase64(unzstd(await zipEntry.async('uint8array')));
           const actualFilename = mediaMapping[filename] || filename;
           mediaFiles[actualFilename] = fileData;
           console.log(`Extracted media file: ${filename} -> ${actualFilename}`);
@@ -65,15 +118,17 @@ export async function parseApkg(file: File): Promise<AnkiDeck[]> {
     
     console.log(`Extracted ${Object.keys(mediaFiles).length} media files`);
 
-    // Look for collection database files in order of preference
-    let dbBuffer: ArrayBuffer | null = null;
+    // Look for collection database files in order of preference. Newer
+    // packages also carry a legacy collection.anki2 that only holds a note
+    // asking to update Anki, so the zstd-compressed anki21b comes first.
+    let dbBuffer: Uint8Array | null = null;
     const dbFiles = ['collection.anki21b', 'collection.anki21', 'collection.anki2'];
     
     for (const dbFile of dbFiles) {
       const dbEntry = zipContent.file(dbFile);
       if (dbEntry) {
         console.log(`Found collection file: ${dbFile}`);
-        dbBuffer = await dbEntry.async('arraybuffer');
+        dbBuffer = unzstd(await dbEntry.async('uint8array'));
         break;
       }
     }
@@ -83,7 +138,7 @@ export async function parseApkg(file: File): Promise<AnkiDeck[]> {
     }
 
     // Open database
-    const db = new SQL.Database(new Uint8Array(dbBuffer));
+    const db = new SQL.Database(dbBuffer);
 
     // Check if database is valid
     try {
@@ -97,19 +152,24 @@ export async function parseApkg(file: File): Promise<AnkiDeck[]> {
 
     // Get collection metadata - try different approaches for different versions
     let decksJson: Record<string, any> = {};
+    let collectionCreated: number | undefined;
     
     try {
       // Try modern format first (Anki 2.1.50+)
-      const colRes = db.exec('SELECT decks, ver FROM col');
+      const colRes = db.exec('SELECT decks, ver, crt FROM col');
       if (colRes.length > 0 && colRes[0].values.length > 0) {
         const version = colRes[0].values[0][1] as number;
+        collectionCreated = colRes[0].values[0][2] as number;
         console.log(`Anki collection version: ${version}`);
         
         if (version >= 50) {
           console.log('Detected modern Anki format (2.1.50+)');
         }
         
-        decksJson = JSON.parse(colRes[0].values[0][0] as string) as Record<string, any>;
+        // Schema 18 collections keep decks in their own table
+        decksJson = version >= 18
+          ? readDeckTable(db)
+          : JSON.parse(colRes[0].values[0][0] as string) as Record<string, any>;
       }
     } catch (error) {
       // Fallback to legacy format
@@ -130,7 +190,8 @@ export async function parseApkg(file: File): Promise<AnkiDeck[]> {
       if (deck && typeof deck === 'object' && deck.name) {
         acc[parseInt(deckId)] = {
           name: deck.name,
-          cards: []
+          cards: [],
+          collectionCreated
         };
       }
       return acc;
@@ -155,23 +216,36 @@ export async function parseApkg(file: File): Promise<AnkiDeck[]> {
         throw new Error('This .apkg file appears to be empty or is a placeholder file. Please export a deck that contains actual cards.');
       }
 
-      // Try comprehensive query that works with most versions
+      // Try comprehensive query that works with most versions. Cards in a
+      // filtered deck belong to their original deck (odid).
       cardNoteRows = db.exec(`
         SELECT 
           c.id as card_id, 
-          c.did as deck_id, 
+          CASE WHEN c.odid != 0 THEN c.odid ELSE c.did END as deck_id, 
+          c.nid as note_id,
           n.flds as fields,
-          n.mid as model_id
+          n.mid as model_id,
+          n.tags as tags,
+          c.ord as ord,
+          c.type as card_type,
+          c.queue as queue,
+          CASE WHEN c.odid != 0 THEN c.odue ELSE c.due END as due,
+          c.ivl as ivl,
+          c.factor as factor,
+          c.reps as reps,
+          c.lapses as lapses,
+          c.data as card_data
         FROM cards c
         JOIN notes n ON n.id = c.nid
         WHERE c.did IN (${Object.keys(deckMap).join(',')})
+        ORDER BY c.due, c.id
       `);
     } catch (error) {
       console.log('Primary query failed, trying fallback:', error);
       // Fallback to simpler query
       try {
         cardNoteRows = db.exec(`
-          SELECT c.did as deck_id, n.flds as fields
+          SELECT c.did as deck_id, c.nid as note_id, n.flds as fields
           FROM cards c
           JOIN notes n ON n.id = c.nid
         `);
@@ -180,12 +254,33 @@ export async function parseApkg(file: File): Promise<AnkiDeck[]> {
       }
     }
 
+    const noteTypes = readNoteTypes(db);
+    console.log(`Found ${noteTypes.size} note type(s)`);
+
+    // Review history by card id
+    const revlogByCard = new Map<number, AnkiRevlogEntry[]>();
+    try {
+      const revlogRes = db.exec('SELECT cid, id, ease, ivl, lastIvl, factor, time, type FROM revlog ORDER BY id');
+      revlogRes[0]?.values.forEach((row: unknown[]) => {
+        const [cid, id, ease, ivl, lastIvl, factor, time, type] = row as number[];
+        revlogByCard.set(cid, [...(revlogByCard.get(cid) ?? []), { id, ease, ivl, lastIvl, factor, time, type }]);
+      });
+    } catch (error) {
+      console.warn('Could not read review history:', error);
+    }
+
     let totalCards = 0;
     
     if (cardNoteRows.length > 0) {
       const [cols, rows] = [cardNoteRows[0].columns, cardNoteRows[0].values];
       const deckIdIdx = cols.indexOf('deck_id');
       const fieldsIdx = cols.indexOf('fields');
+      const noteIdIdx = cols.indexOf('note_id');
+      const cardIdIdx = cols.indexOf('card_id');
+      const typeIdx = cols.indexOf('card_type');
+      const modelIdIdx = cols.indexOf('model_id');
+      const ordIdx = cols.indexOf('ord');
+      const tagsIdx = cols.indexOf('tags');
 
       if (deckIdIdx === -1 || fieldsIdx === -1) {
         throw new Error('Database schema incompatible: missing required columns');
@@ -199,76 +294,20 @@ export async function parseApkg(file: File): Promise<AnkiDeck[]> {
           const deckId = r[deckIdIdx] as number;
           const flds = r[fieldsIdx] as string;
           
-          console.log('Raw field data:', flds);
-          
-          // Try multiple field separators
-          let parts: string[];
-          if (flds.includes('\u001f')) {
-            parts = flds.split('\u001f'); // Standard field separator (ASCII 31)
-            console.log('Used \\u001f separator, parts:', parts.length);
-          } else if (flds.includes('\x1f')) {
-            parts = flds.split('\x1f'); // Alternative separator
-            console.log('Used \\x1f separator, parts:', parts.length);
-          } else if (flds.includes('\t')) {
-            parts = flds.split('\t'); // Tab separator
-            console.log('Used tab separator, parts:', parts.length);
-          } else {
-            // Try to find natural break points in the text
-            // Look for patterns like question/answer boundaries
-            let front = '';
-            let back = '';
-            
-            // Try to split on common patterns for Q&A format
-            const patterns = [
-              /\n\n+/,           // Double newlines
-              /(?:\r?\n){2,}/,   // Multiple line breaks
-              /\?\s*(?=[A-D]\.\s)/,  // Question mark followed by "A. ", "B. ", etc.
-              /\?\s*(?=Answer)/i,    // Question mark followed by "Answer"
-              /\?\s*(?=Explanation)/i, // Question mark followed by "Explanation"
-              /(?<=\?)\s*(?=[A-D]\.\s)/,  // After question mark, before options
-              /Answer[:\s]/i,    // "Answer:" or "Answer "
-              /Explanation[:\s]/i, // "Explanation:" or "Explanation "
-            ];
-            
-            let splitFound = false;
-            for (const pattern of patterns) {
-              const matches = flds.split(pattern);
-              if (matches.length >= 2) {
-                front = matches[0].trim();
-                back = matches.slice(1).join(' ').trim();
-                console.log(`Split using pattern ${pattern}, front length: ${front.length}, back length: ${back.length}`);
-                splitFound = true;
-                break;
-              }
-            }
-            
-            if (!splitFound) {
-              // Fallback: split roughly in half if text is long enough
-              if (flds.length > 100) {
-                const midPoint = Math.floor(flds.length / 2);
-                const breakPoint = flds.indexOf(' ', midPoint);
-                if (breakPoint !== -1) {
-                  front = flds.substring(0, breakPoint).trim();
-                  back = flds.substring(breakPoint).trim();
-                  console.log('Split at midpoint');
-                } else {
-                  front = flds.trim();
-                  back = '';
-                }
-              } else {
-                front = flds.trim();
-                back = '';
-              }
-            }
-            
-            parts = [front, back];
-          }
-          
-          console.log('Parts after splitting:', parts.map((p, i) => `${i}: "${p.substring(0, 100)}..."`));
-          
-          // Extract front and back, handling various card formats
-          let front = parts[0] || '';
-          let back = parts[1] || '';
+          const model = modelIdIdx === -1 ? undefined : noteTypes.get(r[modelIdIdx] as number);
+          const parts = flds.split(FIELD_SEPARATOR);
+          const fields: Record<string, string> = {};
+          parts.forEach((value, index) => {
+            fields[model?.fields[index] ?? `Field ${index + 1}`] = value;
+          });
+
+          // Render the card's template; without a known note type, the first
+          // two fields are the question and answer
+          const rendered = model
+            ? renderCard(model, fields, ordIdx === -1 ? 0 : r[ordIdx] as number)
+            : { type: 'basic' as ImportedCardType, front: parts[0] || '', back: parts[1] || '' };
+          let front = rendered.front;
+          let back = rendered.back;
           
           // Extract images from HTML
           const extractImages = (html: string): string[] => {
@@ -321,7 +360,7 @@ export async function parseApkg(file: File): Promise<AnkiDeck[]> {
           };
           
           front = formatContent(front);
-          back = formatContent(back);
+          back = rendered.type === 'type-in' ? back : formatContent(back);
           
           // Skip truly empty cards
           if (!front && !back) {
@@ -330,12 +369,39 @@ export async function parseApkg(file: File): Promise<AnkiDeck[]> {
           
           const card: AnkiCard = { 
             deckId, 
+            noteId: noteIdIdx === -1 ? undefined : r[noteIdIdx] as number,
+            type: rendered.type,
+            noteType: model?.name,
             front, 
             back,
+            fields,
+            tags: tagsIdx === -1 ? [] : String(r[tagsIdx] ?? '').split(/\s+/).filter(Boolean),
             frontImages: frontImages.length > 0 ? frontImages : undefined,
             backImages: backImages.length > 0 ? backImages : undefined,
             media: Object.keys(mediaFiles).length > 0 ? mediaFiles : undefined
           };
+
+          if (typeIdx !== -1) {
+            const column = (name: string) => Number(r[cols.indexOf(name)]) || 0;
+            let memory: { s?: number; d?: number } = {};
+            try {
+              memory = JSON.parse((r[cols.indexOf('card_data')] as string) || '{}');
+            } catch {
+              // Not JSON; no FSRS memory state
+            }
+            card.schedule = {
+              type: column('card_type'),
+              queue: column('queue'),
+              due: column('due'),
+              ivl: column('ivl'),
+              factor: column('factor'),
+              reps: column('reps'),
+              lapses: column('lapses'),
+              stability: typeof memory.s === 'number' ? memory.s : undefined,
+              difficulty: typeof memory.d === 'number' ? memory.d : undefined
+            };
+            card.revlog = revlogByCard.get(r[cardIdIdx] as number);
+          }
           
           if (frontImages.length > 0 || backImages.length > 0) {
             console.log(`Card with images - Front: ${frontImages.join(', ')}, Back: ${backImages.join(', ')}`);
@@ -367,4 +433,380 @@ export async function parseApkg(file: File): Promise<AnkiDeck[]> {
     console.error('Error parsing Anki file:', error);
     throw new Error(`Failed to parse Anki file: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
-}
\ No newline at end of file
+}
+// ========================================
+// PACKAGE FORMATS
+// ========================================
+
+const ZSTD_MAGIC = [0x28, 0xb5, 0x2f, 0xfd];
+
+/**
+ * Decompress zstd data (the anki21b collection and newer media); anything
+ * else is returned as is
+ */
+function unzstd(bytes: Uint8Array): Uint8Array {
+  const compressed = ZSTD_MAGIC.every((byte, index) => bytes[index] === byte);
+  return compressed ? decompress(bytes) : bytes;
+}
+
+/**
+ * Zip entry name -> media filename. Older packages store a JSON object; newer
+ * ones a zstd-compressed protobuf list of entries (name = 1), numbered by
+ * position unless an entry names its legacy zip file (field 255).
+ */
+function readMediaMap(bytes: Uint8Array): Record<string, string> {
+  const data = unzstd(bytes);
+  const text = new TextDecoder().decode(data);
+  if (text.trimStart().startsWith('{')) {
+    return JSON.parse(text) as Record<string, string>;
+  }
+
+  const mapping: Record<string, string> = {};
+  readProtobufEntries(data)
+    .filter(([field, value]) => field === 1 && value instanceof Uint8Array)
+    .forEach(([, value], index) => {
+      const entry = readProtobufFields(value as Uint8Array);
+      const name = entry.get(1);
+      const zipName = entry.get(255);
+      if (name instanceof Uint8Array) {
+        mapping[String(typeof zipName === 'number' ? zipName : index)] = new TextDecoder().decode(name);
+      }
+    });
+  return mapping;
+}
+
+/**
+ * Decks of a schema 18 collection, keyed by id like the legacy `col.decks`
+ * JSON. Names separate levels with \x1f instead of "::".
+ */
+function readDeckTable(db: SqlDatabase): Record<string, { name: string }> {
+  const decks: Record<string, { name: string }> = {};
+  db.exec('SELECT id, name FROM decks')[0]?.values.forEach(row => {
+    const [id, name] = row as [number, string];
+    decks[String(id)] = { name: name.split(FIELD_SEPARATOR).join('::') };
+  });
+  return decks;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// ========================================
+// NOTE TYPES
+// ========================================
+
+/**
+ * Note types from the legacy `col.models` JSON or, in newer collections, the
+ * `notetypes`, `fields` and `templates` tables
+ */
+function readNoteTypes(db: SqlDatabase): Map<number, AnkiNoteType> {
+  const noteTypes = new Map<number, AnkiNoteType>();
+
+  try {
+    const modelsRes = db.exec('SELECT models FROM col');
+    const models = JSON.parse((modelsRes[0]?.values[0]?.[0] as string) || '{}') as Record<string, {
+      id?: number | string;
+      name?: string;
+      type?: number;
+      flds?: { name: string; ord: number }[];
+      tmpls?: { name: string; ord: number; qfmt?: string; afmt?: string }[];
+    } | null>;
+    Object.values(models).forEach(model => {
+      if (!model || !Array.isArray(model.flds) || !Array.isArray(model.tmpls)) return;
+      const byOrd = (a: { ord: number }, b: { ord: number }) => a.ord - b.ord;
+      noteTypes.set(Number(model.id), {
+        id: Number(model.id),
+        name: String(model.name ?? ''),
+        kind: model.type === 1 ? 'cloze' : 'standard',
+        fields: [...model.flds].sort(byOrd).map(field => field.name),
+        templates: [...model.tmpls].sort(byOrd).map(template => ({
+          name: template.name,
+          qfmt: template.qfmt ?? '',
+          afmt: template.afmt ?? ''
+        }))
+      });
+    });
+  } catch (error) {
+    console.warn('Could not read note types from col.models:', error);
+  }
+
+  if (noteTypes.size > 0) return noteTypes;
+
+  try {
+    const typeRes = db.exec('SELECT id, name, config FROM notetypes');
+    const fieldRes = db.exec('SELECT ntid, name FROM fields ORDER BY ntid, ord');
+    const templateRes = db.exec('SELECT ntid, name, config FROM templates ORDER BY ntid, ord');
+    typeRes[0]?.values.forEach(row => {
+      const [id, name, config] = row as [number, string, Uint8Array];
+      noteTypes.set(Number(id), {
+        id: Number(id),
+        name,
+        // Notetype.Config: kind = 1 (0 normal, 1 cloze)
+        kind: readProtobufFields(config).get(1) === 1 ? 'cloze' : 'standard',
+        fields: [],
+        templates: []
+      });
+    });
+    fieldRes[0]?.values.forEach(row => {
+      const [ntid, name] = row as [number, string];
+      noteTypes.get(Number(ntid))?.fields.push(name);
+    });
+    templateRes[0]?.values.forEach(row => {
+      const [ntid, name, config] = row as [number, string, Uint8Array];
+      // Template.Config: q_format = 1, a_format = 2
+      const values = readProtobufFields(config);
+      const text = (value: unknown) => value instanceof Uint8Array ? new TextDecoder().decode(value) : '';
+      noteTypes.get(Number(ntid))?.templates.push({ name, qfmt: text(values.get(1)), afmt: text(values.get(2)) });
+    });
+  } catch (error) {
+    console.warn('Could not read note types from the notetypes table:', error);
+  }
+
+  return noteTypes;
+}
+
+/**
+ * Top-level fields of a protobuf message: varints as numbers, length-delimited
+ * values as bytes. Enough to read note type and template configs.
+ */
+function readProtobufFields(bytes: Uint8Array | null): Map<number, number | Uint8Array> {
+  const values = new Map<number, number | Uint8Array>();
+  readProtobufEntries(bytes).forEach(([field, value]) => {
+    if (!values.has(field)) values.set(field, value);
+  });
+  return values;
+}
+
+/**
+ * Every top-level field in order, so repeated fields can be read
+ */
+function readProtobufEntries(bytes: Uint8Array | null): [number, number | Uint8Array][] {
+  const entries: [number, number | Uint8Array][] = [];
+  if (!bytes) return entries;
+
+  let offset = 0;
+  const readVarint = () => {
+    let value = 0;
+    let scale = 1;
+    while (offset < bytes.length) {
+      const byte = bytes[offset++];
+      value += (byte & 0x7f) * scale;
+      scale *= 128;
+      if (byte < 0x80) break;
+    }
+    return value;
+  };
+
+  while (offset < bytes.length) {
+    const key = readVarint();
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+    let value: number | Uint8Array;
+    if (wireType === 0) {
+      value = readVarint();
+    } else if (wireType === 2) {
+      const length = readVarint();
+      value = bytes.subarray(offset, offset + length);
+      offset += length;
+    } else if (wireType === 1 || wireType === 5) {
+      offset += wireType === 1 ? 8 : 4;
+      continue;
+    } else {
+      break; // Groups are long deprecated; stop rather than misread
+    }
+    entries.push([field, value]);
+  }
+  return entries;
+}
+
+/**
+ * A card's question and answer from its note type's template. Cloze cards
+ * keep only their own deletion active (as c1); a {{type:Field}} template
+ * becomes a type-in card answered by that field.
+ */
+function renderCard(noteType: AnkiNoteType, fields: Record<string, string>, ord: number): { type: ImportedCardType; front: string; back: string } {
+  const template = noteType.kind === 'cloze' ? noteType.templates[0] : noteType.templates[ord] ?? noteType.templates[0];
+  if (!template) {
+    const values = Object.values(fields);
+    return { type: 'basic', front: values[0] ?? '', back: values[1] ?? '' };
+  }
+
+  const front = renderTemplate(template.qfmt, fields, noteType.kind === 'cloze' ? ord : undefined);
+  // The answer side usually repeats the question above <hr id=answer>; keep what follows
+  const answerSide = renderTemplate(template.afmt, fields, undefined);
+  const divider = answerSide.search(/<hr id=["']?answer["']?\s*\/?>/i);
+  const back = (divider === -1 ? answerSide : answerSide.slice(answerSide.indexOf('>', divider) + 1)).trim();
+
+  const typed = /\{\{type:(?:[^:}]+:)?([^}]+)\}\}/.exec(template.qfmt);
+  if (typed && noteType.kind !== 'cloze') {
+    const answer = stripHtml(fields[typed[1].trim()] ?? '');
+    return { type: 'type-in', front, back: JSON.stringify({ answer, acceptableAnswers: [], caseSensitive: false }) };
+  }
+
+  // Image occlusion notes are cloze models whose deletions live in hidden markup
+  const isCloze = noteType.kind === 'cloze' && /\{\{c1::/.test(front);
+  return { type: isCloze ? 'cloze' : 'basic', front, back };
+}
+
+/**
+ * Fill in an Anki template: {{Field}}, filters like {{text:Field}}, and
+ * {{#Field}}/{{^Field}} sections. The answer side's {{FrontSide}}, typing
+ * boxes, TTS, scripts, buttons and hidden markup are left out; cloze fields
+ * render only when `clozeOrd` is set.
+ */
+function renderTemplate(template: string, fields: Record<string, string>, clozeOrd: number | undefined): string {
+  const hasValue = (name: string) => stripHtml(fields[name.trim()] ?? '').trim() !== '';
+
+  let text = template
+    .replace(/<script[\s\S]*?<\/script>|<style[\s\S]*?<\/style>|<button[\s\S]*?<\/button>/gi, '')
+    .replace(/<div[^>]*display:\s*none[^>]*>[\s\S]*?<\/div>/gi, '');
+  const section = /\{\{([#^])([^}]+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+  for (let previous = ''; previous !== text;) {
+    previous = text;
+    text = text.replace(section, (_, kind: string, name: string, inner: string) =>
+      (kind === '#') === hasValue(name) ? inner : '');
+  }
+
+  return text.replace(/\{\{([^}]+)\}\}/g, (_, tag: string) => {
+    const filters = tag.split(':').map(part => part.trim());
+    const name = filters.pop() ?? '';
+    if (name === 'FrontSide' || filters.some(filter => filter === 'type' || filter.startsWith('tts'))) return '';
+    const value = fields[name] ?? '';
+    if (filters.includes('cloze')) return clozeOrd === undefined ? '' : activeCloze(value, clozeOrd);
+    if (filters.includes('text')) return stripHtml(value);
+    return value;
+  });
+}
+
+/**
+ * Keep the deletion for card `ord` (renumbered c1) and reveal the others
+ */
+function activeCloze(text: string, ord: number): string {
+  return text.replace(/\{\{c(\d+)::([\s\S]*?)\}\}/g, (_, number: string, body: string) =>
+    Number(number) === ord + 1 ? `{{c1::${body}}}` : body.split('::')[0]);
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim();
+}
+
+/**
+ * Assigns a fresh note UUID per Anki note id, so siblings stay linked after import
+ */
+export function createNoteIdMap(): (ankiNoteId?: number) => string | undefined {
+  const noteIds = new Map<number, string>();
+  return (ankiNoteId) => {
+    if (ankiNoteId === undefined) return undefined;
+    if (!noteIds.has(ankiNoteId)) {
+      noteIds.set(ankiNoteId, crypto.randomUUID());
+    }
+    return noteIds.get(ankiNoteId);
+  };
+}
+
+const DAY_SECONDS = 86400;
+
+/**
+ * Scheduling columns for an imported card. With `asNew`, or when the file
+ * carries no schedule, the card starts out new; otherwise Anki's state,
+ * interval, ease, due date and counts carry over.
+ */
+export function ankiSchedulingColumns(card: AnkiCard, collectionCreated: number | undefined, asNew = false) {
+  const fresh = {
+    card_state: CardState.NEW,
+    learning_step: 0,
+    interval: 1,
+    ease_factor: 2.5,
+    next_due: new Date().toISOString(),
+    last_studied: null as string | null,
+    review_count: 0,
+    lapse_count: 0,
+    is_suspended: false,
+    stability: null as number | null,
+    fsrs_difficulty: null as number | null
+  };
+
+  const schedule = card.schedule;
+  if (asNew || !schedule || collectionCreated === undefined) {
+    return fresh;
+  }
+
+  // Review due dates count days from the collection's creation
+  const dayToIso = (day: number) => new Date((collectionCreated + day * DAY_SECONDS) * 1000).toISOString();
+  const lastAnswer = card.revlog?.filter(entry => entry.ease > 0).pop();
+  const carried = {
+    ...fresh,
+    ease_factor: schedule.factor > 0 ? schedule.factor / 1000 : fresh.ease_factor,
+    last_studied: lastAnswer ? new Date(lastAnswer.id).toISOString() : null,
+    review_count: schedule.reps,
+    lapse_count: schedule.lapses,
+    is_suspended: schedule.queue === -1,
+    stability: schedule.stability ?? null,
+    fsrs_difficulty: schedule.difficulty ?? null
+  };
+
+  switch (schedule.type) {
+    case 2: {
+      const nextDue = dayToIso(schedule.due);
+      const interval = Math.max(1, schedule.ivl);
+      return {
+        ...carried,
+        card_state: CardState.REVIEW,
+        interval,
+        next_due: nextDue,
+        last_studied: carried.last_studied ?? new Date(Date.parse(nextDue) - interval * DAY_SECONDS * 1000).toISOString()
+      };
+    }
+    case 1:
+    case 3:
+      return {
+        ...carried,
+        card_state: schedule.type === 3 ? CardState.RELEARNING : CardState.LEARNING,
+        interval: schedule.type === 3 ? Math.max(1, schedule.ivl) : 1,
+        // Intraday learning is due at a timestamp, day learning on a day number
+        next_due: schedule.due > 1e9 ? new Date(schedule.due * 1000).toISOString() : dayToIso(schedule.due)
+      };
+    default:
+      return { ...fresh, is_suspended: schedule.queue === -1 };
+  }
+}
+
+/**
+ * Review rows for an imported card's Anki history, skipping manual
+ * reschedules. Each row's snapshot is the card as it was before the answer.
+ * Rows are marked imported so the streak trigger skips them; the import
+ * recomputes the streak once at the end.
+ */
+export function ankiReviewRows(card: AnkiCard, cardId: string) {
+  let easeBefore = 2.5;
+  return (card.revlog ?? [])
+    .filter(entry => entry.ease > 0 && entry.type !== 4)
+    .map((entry, index) => {
+      const stateBefore = entry.type === 2 ? CardState.RELEARNING
+        : entry.lastIvl > 0 ? CardState.REVIEW
+        : index === 0 ? CardState.NEW : CardState.LEARNING;
+      const intervalBefore = Math.max(0, entry.lastIvl); // A negative lastIvl is a learning step in seconds
+      const row = {
+        card_id: cardId,
+        rating: Math.min(3, entry.ease - 1),
+        time_taken: Math.round(entry.time / 1000),
+        response_time_ms: entry.time,
+        reviewed_at: new Date(entry.id).toISOString(),
+        review_kind: 'review',
+        imported: true,
+        interval_before: intervalBefore,
+        card_snapshot: {
+          card_state: stateBefore,
+          interval: intervalBefore,
+          ease_factor: easeBefore
+        }
+      };
+      if (entry.factor > 0) easeBefore = entry.factor / 1000;
+      return row;
+    });
+}
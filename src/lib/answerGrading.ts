@@ -0,0 +1,207 @@
+// Answer Grading
+// Grades typed answers for type-in cards with some tolerance: accents,
+// punctuation and word order are ignored (signs and symbols like + # % still
+// count), and a few typos on a longer answer still count as nearly right.
+// Suggests a rating from the grade and how long the answer took.
+
+import { EmojiRating } from '../contexts/StudyContext';
+
+export type AnswerVerdict =
+  | 'exact' // Typed exactly as expected
+  | 'equivalent' // Differs only in case, accents, punctuation or word order
+  | 'typo' // Within the edit-distance tolerance
+  | 'wrong';
+
+/** A run of characters in the typed-versus-expected diff */
+export interface DiffSegment {
+  text: string;
+  kind: 'same' | 'extra' | 'missing'; // extra = typed but not expected, missing = expected but not typed
+}
+
+export interface AnswerGrade {
+  verdict: AnswerVerdict;
+  expected: string; // The accepted answer closest to what was typed
+  distance: number; // Edits between the normalised answers
+  diff: DiffSegment[];
+}
+
+export interface RatingSuggestion {
+  rating: EmojiRating;
+  reason: string;
+}
+
+export class AnswerGrader {
+  private static readonly CHARS_PER_TYPO = 5; // One typo allowed per this many characters
+  private static readonly MAX_TYPOS = 3;
+  private static readonly MAX_DIFF_LENGTH = 500;
+  private static readonly THINKING_MS = 4000; // Recall time before typing starts
+  private static readonly TYPING_MS_PER_CHAR = 250;
+
+  /**
+   * Grade a typed answer against the card's answer and its alternatives
+   */
+  static grade(typed: string, answer: string, acceptableAnswers: string[] = [], caseSensitive = false): AnswerGrade {
+    const candidates = [answer, ...acceptableAnswers].filter(candidate => candidate.trim());
+    let best: AnswerGrade | null = null;
+
+    for (const expected of candidates) {
+      const grade = this.gradeOne(typed, expected, caseSensitive);
+      if (!best || this.rank(grade) < this.rank(best)) {
+        best = grade;
+      }
+    }
+
+    return best ?? { verdict: 'wrong', expected: answer, distance: typed.length, diff: this.diff(typed, answer, caseSensitive) };
+  }
+
+  /**
+   * Suggested rating: wrong is Again, a typo is Hard, and a correct answer is
+   * Good - or Easy when typed well within the time the answer's length allows,
+   * Hard when it took far longer
+   */
+  static suggestRating(grade: AnswerGrade, responseMs?: number): RatingSuggestion {
+    if (grade.verdict === 'wrong') {
+      return { rating: '😞', reason: 'Incorrect answer' };
+    }
+    if (grade.verdict === 'typo') {
+      return { rating: '😐', reason: 'Nearly right - small spelling mistakes' };
+    }
+    if (responseMs === undefined) {
+      return { rating: '😊', reason: 'Correct answer' };
+    }
+
+    const expectedMs = this.THINKING_MS + grade.expected.length * this.TYPING_MS_PER_CHAR;
+    const seconds = `${(responseMs / 1000).toFixed(1)}s`;
+    if (responseMs <= expectedMs / 2) {
+      return { rating: '😁', reason: `Correct and quick (${seconds})` };
+    }
+    if (responseMs > expectedMs * 2) {
+      return { rating: '😐', reason: `Correct but slow (${seconds})` };
+    }
+    return { rating: '😊', reason: `Correct (${seconds})` };
+  }
+
+  // ========================================
+  // MATCHING
+  // ========================================
+
+  private static gradeOne(typed: string, expected: string, caseSensitive: boolean): AnswerGrade {
+    const diff = this.diff(typed, expected, caseSensitive);
+    const exactTyped = caseSensitive ? typed.trim() : typed.trim().toLowerCase();
+    const exactExpected = caseSensitive ? expected.trim() : expected.trim().toLowerCase();
+    if (exactTyped === exactExpected) {
+      return { verdict: 'exact', expected, distance: 0, diff };
+    }
+
+    const a = this.normalize(typed, caseSensitive);
+    const b = this.normalize(expected, caseSensitive);
+    // An answer that is all punctuation has nothing left to compare loosely
+    if (!b) {
+      return { verdict: 'wrong', expected, distance: this.editDistance(exactTyped, exactExpected), diff };
+    }
+    if (a === b || this.sortTokens(a) === this.sortTokens(b)) {
+      return { verdict: 'equivalent', expected, distance: 0, diff };
+    }
+
+    const distance = Math.min(
+      this.editDistance(a, b),
+      this.editDistance(this.sortTokens(a), this.sortTokens(b))
+    );
+    const tolerance = Math.min(this.MAX_TYPOS, Math.floor(b.length / this.CHARS_PER_TYPO));
+    return { verdict: distance <= tolerance ? 'typo' : 'wrong', expected, distance, diff };
+  }
+
+  private static rank(grade: AnswerGrade): number {
+    const order: AnswerVerdict[] = ['exact', 'equivalent', 'typo', 'wrong'];
+    return order.indexOf(grade.verdict) * 10000 + grade.distance;
+  }
+
+  /**
+   * Strip accents and punctuation, collapse whitespace and (usually) fold case.
+   * Signs and decimal points on numbers and symbols such as + # % are kept,
+   * so "-5" and "5" or "C++" and "C" stay different answers.
+   */
+  static normalize(text: string, caseSensitive = false): string {
+    const stripped = text
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      .replace(/\u2212/g, '-') // Minus sign
+      // Kept: a sign or decimal point on a number, symbols; any other punctuation separates words
+      .replace(/(-(?=\p{N})|(?<=\p{N})[.,](?=\p{N})|[#%&@*/]|\p{S})|\p{P}/gu, (_, kept?: string) => kept ?? ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+    return caseSensitive ? stripped : stripped.toLowerCase();
+  }
+
+  private static sortTokens(text: string): string {
+    return text.split(' ').sort().join(' ');
+  }
+
+  /**
+   * Levenshtein distance, one row at a time
+   */
+  static editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  // ========================================
+  // DIFF
+  // ========================================
+
+  /**
+   * Character-level diff of the typed answer against the expected one, from
+   * their longest common subsequence. Characters match ignoring accents (and
+   * case, unless the card is case sensitive).
+   */
+  static diff(typed: string, expected: string, caseSensitive = false): DiffSegment[] {
+    const a = Array.from(typed.trim().slice(0, this.MAX_DIFF_LENGTH));
+    const b = Array.from(expected.trim().slice(0, this.MAX_DIFF_LENGTH));
+    const fold = (char: string) => {
+      const plain = char.normalize('NFD').replace(/\p{M}/gu, '');
+      return caseSensitive ? plain : plain.toLowerCase();
+    };
+
+    // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = fold(a[i]) === fold(b[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (text: string, kind: DiffSegment['kind']) => {
+      const last = segments[segments.length - 1];
+      if (last?.kind === kind) last.text += text;
+      else segments.push({ text, kind });
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && fold(a[i]) === fold(b[j])) {
+        push(b[j], 'same');
+        i++;
+        j++;
+      } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+        push(b[j++], 'missing');
+      } else {
+        push(a[i++], 'extra');
+      }
+    }
+
+    return segments;
+  }
+}
@@ -17,6 +17,7 @@ import {
 } from '../types/AntiBurnoutTypes';
 import { EmojiRating } from '../contexts/StudyContext';
 import { ResponseTimeBaselineEngine } from './responseTimeBaseline';
+import { ForecastDay } from './workloadForecast';
 
 export class AntiBurnoutEngine {
   private config: AntiBurnoutConfig;
@@ -375,14 +376,23 @@ export class AntiBurnoutEngine {
     };
   }
 
-  // Get workload balance assessment
-  getWorkloadBalance(cardsStudiedToday: number): WorkloadBalance {
+  // Get workload balance assessment - pass the workload forecast to plan against real projected load
+  getWorkloadBalance(cardsStudiedToday: number, forecast?: ForecastDay[]): WorkloadBalance {
     const dailyCapacity = this.config.workloadLimits.maxDailyCards;
     const fatigue = this.getFatigueIndicators();
     
     // Adjust capacity based on fatigue
     const adjustedCapacity = Math.round(dailyCapacity * (1 - fatigue.overallFatigueScore / 200));
-    const remainingCapacity = Math.max(0, adjustedCapacity - cardsStudiedToday);
+    let remainingCapacity = Math.max(0, adjustedCapacity - cardsStudiedToday);
+
+    // No point recommending more than is actually due; flag overload if the coming week exceeds capacity
+    const projectedDueToday = forecast?.[0]?.total;
+    const projectedWeekPeak = forecast && forecast.length > 0
+      ? Math.max(...forecast.slice(0, 7).map(day => day.total))
+      : undefined;
+    if (projectedDueToday !== undefined) {
+      remainingCapacity = Math.min(remainingCapacity, projectedDueToday);
+    }
     
     // Estimate optimal session length based on current performance
     let optimalSessionLength = this.config.workloadLimits.optimalSessionLength;
@@ -400,7 +410,10 @@ export class AntiBurnoutEngine {
       remainingCapacity,
       optimalSessionLength,
       recommendedCardCount: Math.min(recommendedCardCount, remainingCapacity),
-      overloadRisk: cardsStudiedToday > adjustedCapacity * 0.8,
+      overloadRisk: cardsStudiedToday + (projectedDueToday ?? 0) > adjustedCapacity * 0.8
+        || (projectedWeekPeak !== undefined && projectedWeekPeak > adjustedCapacity),
+      projectedDueToday,
+      projectedWeekPeak,
     };
   }
 
@@ -0,0 +1,111 @@
+// Deck Tree
+// Decks nest through parentId. Anki names a subdeck by its full path
+// ("Medicine::Cardio::Drugs"); we store each level as its own deck with the
+// last segment as its name.
+
+export const DECK_PATH_SEPARATOR = '::';
+
+export interface TreeDeck {
+  id: string;
+  name: string;
+  parentId: string | null;
+  cardCount: number;
+  dueCount: number;
+  newCount: number;
+}
+
+/** A deck in tree order, with counts that include its subdecks */
+export interface DeckTreeRow<T extends TreeDeck> {
+  deck: T;
+  depth: number;
+  path: string; // Full "Parent::Child" name
+  cardCount: number;
+  dueCount: number;
+  newCount: number;
+}
+
+export class DeckTree {
+
+  /**
+   * Path segments of an Anki-style deck name, ignoring empty ones
+   */
+  static splitPath(name: string): string[] {
+    return name.split(DECK_PATH_SEPARATOR).map(part => part.trim()).filter(Boolean);
+  }
+
+  /**
+   * Full "Parent::Child" name of a deck
+   */
+  static path<T extends TreeDeck>(decks: T[], deckId: string): string {
+    const byId = new Map(decks.map(deck => [deck.id, deck]));
+    const names: string[] = [];
+    const seen = new Set<string>();
+    for (let deck = byId.get(deckId); deck && !seen.has(deck.id); deck = deck.parentId ? byId.get(deck.parentId) : undefined) {
+      seen.add(deck.id);
+      names.unshift(deck.name);
+    }
+    return names.join(DECK_PATH_SEPARATOR);
+  }
+
+  /**
+   * Ids of a deck and every deck below it
+   */
+  static subtreeIds<T extends TreeDeck>(decks: T[], deckId: string): string[] {
+    const ids = [deckId];
+    for (let i = 0; i < ids.length; i++) {
+      decks.forEach(deck => {
+        if (deck.parentId === ids[i] && !ids.includes(deck.id)) ids.push(deck.id);
+      });
+    }
+    return ids;
+  }
+
+  /**
+   * Ids of a deck's parent, grandparent and so on up to the top
+   */
+  static ancestorIds<T extends TreeDeck>(decks: T[], deckId: string): string[] {
+    const byId = new Map(decks.map(deck => [deck.id, deck]));
+    const ids: string[] = [];
+    for (let parentId = byId.get(deckId)?.parentId; parentId && !ids.includes(parentId); parentId = byId.get(parentId)?.parentId) {
+      ids.push(parentId);
+    }
+    return ids;
+  }
+
+  /**
+   * Decks depth-first with rolled-up counts. Siblings keep the order they
+   * have in `decks`; a deck whose parent is missing is shown at the top level.
+   */
+  static flatten<T extends TreeDeck>(decks: T[]): DeckTreeRow<T>[] {
+    const ids = new Set(decks.map(deck => deck.id));
+    const children = new Map<string | null, T[]>();
+    decks.forEach(deck => {
+      const parentId = deck.parentId && ids.has(deck.parentId) ? deck.parentId : null;
+      children.set(parentId, [...(children.get(parentId) ?? []), deck]);
+    });
+
+    const rows: DeckTreeRow<T>[] = [];
+    const visit = (deck: T, depth: number, parentPath: string): DeckTreeRow<T> => {
+      const path = parentPath ? `${parentPath}${DECK_PATH_SEPARATOR}${deck.name}` : deck.name;
+      const row: DeckTreeRow<T> = {
+        deck,
+        depth,
+        path,
+        cardCount: deck.cardCount,
+        dueCount: deck.dueCount,
+        newCount: deck.newCount
+      };
+      rows.push(row);
+      (children.get(deck.id) ?? []).forEach(child => {
+        const childRow = visit(child, depth + 1, path);
+        row.cardCount += childRow.cardCount;
+        row.dueCount += childRow.dueCount;
+        row.newCount += childRow.newCount;
+      });
+      return row;
+    };
+
+    (children.get(null) ?? []).forEach(deck => visit(deck, 0, ''));
+    return rows;
+  }
+}
@@ -0,0 +1,308 @@
+// FSRS Parameter Optimizer
+// Fits FSRS weights to the user's own review history, entirely client-side
+
+import { DeckConfig, DEFAULT_FSRS_WEIGHTS } from '../types/SRSTypes';
+import { FSRSScheduler, MemoryState } from './advancedSRS';
+import { supabase } from './supabaseClient';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Allowed range for each FSRS-5 parameter (keeps the fitted model well-behaved)
+const WEIGHT_BOUNDS: [number, number][] = [
+  [0.01, 100], [0.01, 100], [0.01, 100], [0.01, 100],
+  [1, 10], [0.001, 4], [0.001, 4], [0.001, 0.75],
+  [0, 4.5], [0, 0.8], [0.001, 3.5], [0.001, 5],
+  [0.001, 0.25], [0.001, 0.9], [0, 4], [0, 1],
+  [1, 6], [0, 2], [0, 2]
+];
+
+export interface ReviewLogEntry {
+  cardId: string;
+  rating: number; // 0-3, as stored in the reviews table
+  reviewedAt: string;
+  timeTaken?: number; // Seconds
+}
+
+export interface OptimizationMetrics {
+  logLoss: number;
+  rmse: number;
+}
+
+export interface OptimizationResult {
+  weights: number[];
+  before: OptimizationMetrics;
+  after: OptimizationMetrics;
+  cardCount: number;
+  reviewCount: number; // Long-term reviews the model was scored against
+}
+
+export interface OptimizerOptions {
+  iterations?: number;
+  learningRate?: number;
+}
+
+/** Messages to and from the optimizer worker */
+export interface OptimizerRequest {
+  history: ReviewLogEntry[];
+  initialWeights: number[];
+  options: OptimizerOptions;
+}
+
+export type OptimizerResponse = { result: OptimizationResult } | { error: string };
+
+/**
+ * FSRS Optimizer
+ * Replays each card's review sequence under a candidate parameter set and
+ * minimises the log-loss of predicted recall against what actually happened.
+ */
+export class FSRSOptimizer {
+  static readonly MINIMUM_REVIEWS = 400;
+  private static readonly MAX_REVIEWS = 50000;
+  private static readonly PAGE_SIZE = 1000;
+
+  /**
+   * Load the signed-in user's review log, optionally limited to one deck
+   */
+  static async loadReviewHistory(deckId?: string): Promise<ReviewLogEntry[]> {
+    const entries: ReviewLogEntry[] = [];
+
+    for (let from = 0; from < this.MAX_REVIEWS; from += this.PAGE_SIZE) {
+      let query = supabase
+        .from('reviews')
+        .select(deckId ? 'card_id, rating, reviewed_at, time_taken, cards!inner(deck_id)' : 'card_id, rating, reviewed_at, time_taken')
+        .eq('review_kind', 'review')
+        .order('reviewed_at', { ascending: true })
+        .range(from, from + this.PAGE_SIZE - 1);
+
+      if (deckId) {
+        query = query.eq('cards.deck_id', deckId);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        throw new Error(`Failed to load review history: ${error.message}`);
+      }
+
+      const rows = (data ?? []) as unknown as { card_id: string; rating: number; reviewed_at: string; time_taken: number | null }[];
+      rows.forEach(row => entries.push({
+        cardId: row.card_id,
+        rating: row.rating,
+        reviewedAt: row.reviewed_at,
+        timeTaken: row.time_taken ?? undefined
+      }));
+
+      if (rows.length < this.PAGE_SIZE) break;
+    }
+
+    return entries;
+  }
+
+  /**
+   * Fit FSRS weights to a review log and report metrics before and after
+   */
+  static optimize(
+    history: ReviewLogEntry[],
+    initialWeights: number[] = DEFAULT_FSRS_WEIGHTS,
+    options: OptimizerOptions = {}
+  ): OptimizationResult {
+    const { iterations = 100, learningRate = 0.01 } = options;
+    const sequences = this.buildSequences(history);
+    const startWeights = initialWeights.length === DEFAULT_FSRS_WEIGHTS.length
+      ? initialWeights
+      : DEFAULT_FSRS_WEIGHTS;
+
+    const before = this.evaluate(sequences, startWeights);
+    if (before.count < this.MINIMUM_REVIEWS) {
+      throw new Error(
+        `Not enough review history to optimize (${before.count} of ${this.MINIMUM_REVIEWS} spaced reviews needed)`
+      );
+    }
+
+    // Adam on weights normalised to [0, 1] within their bounds, so every
+    // parameter moves on a comparable scale regardless of its magnitude
+    let x = startWeights.map((w, i) => this.normalize(w, i));
+    const m = new Array(x.length).fill(0);
+    const v = new Array(x.length).fill(0);
+    const beta1 = 0.9;
+    const beta2 = 0.999;
+    const epsilon = 1e-8;
+    const h = 1e-4;
+
+    let best = { weights: startWeights, loss: before.logLoss };
+
+    for (let t = 1; t <= iterations; t++) {
+      const weights = x.map((xi, i) => this.denormalize(xi, i));
+      const baseLoss = this.evaluate(sequences, weights).logLoss;
+
+      if (baseLoss < best.loss) {
+        best = { weights, loss: baseLoss };
+      }
+
+      const gradient = x.map((xi, i) => {
+        const probe = [...weights];
+        probe[i] = this.denormalize(Math.min(1, xi + h), i);
+        return (this.evaluate(sequences, probe).logLoss - baseLoss) / h;
+      });
+
+      x = x.map((xi, i) => {
+        m[i] = beta1 * m[i] + (1 - beta1) * gradient[i];
+        v[i] = beta2 * v[i] + (1 - beta2) * gradient[i] * gradient[i];
+        const mHat = m[i] / (1 - Math.pow(beta1, t));
+        const vHat = v[i] / (1 - Math.pow(beta2, t));
+        return Math.min(1, Math.max(0, xi - learningRate * mHat / (Math.sqrt(vHat) + epsilon)));
+      });
+    }
+
+    const finalWeights = x.map((xi, i) => this.denormalize(xi, i));
+    const finalLoss = this.evaluate(sequences, finalWeights).logLoss;
+    if (finalLoss < best.loss) {
+      best = { weights: finalWeights, loss: finalLoss };
+    }
+
+    const after = this.evaluate(sequences, best.weights);
+    const roundedWeights = best.weights.map(w => Math.round(w * 10000) / 10000);
+
+    return {
+      weights: roundedWeights,
+      before: { logLoss: before.logLoss, rmse: before.rmse },
+      after: { logLoss: after.logLoss, rmse: after.rmse },
+      cardCount: sequences.length,
+      reviewCount: before.count
+    };
+  }
+
+  /**
+   * `optimize` on a Web Worker: a fit replays the whole history a couple of
+   * thousand times, which would freeze the page on the main thread. Runs in
+   * place where workers are unavailable (tests).
+   */
+  static optimizeInBackground(
+    history: ReviewLogEntry[],
+    initialWeights: number[] = DEFAULT_FSRS_WEIGHTS,
+    options: OptimizerOptions = {}
+  ): Promise<OptimizationResult> {
+    if (typeof Worker === 'undefined') {
+      return Promise.resolve().then(() => this.optimize(history, initialWeights, options));
+    }
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./fsrsOptimizer.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<OptimizerResponse>) => {
+        worker.terminate();
+        if ('result' in event.data) resolve(event.data.result);
+        else reject(new Error(event.data.error));
+      };
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || 'Optimizer worker failed'));
+      };
+      const request: OptimizerRequest = { history, initialWeights, options };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Copy fitted weights into a deck configuration
+   */
+  static applyToConfig(config: DeckConfig, result: OptimizationResult): DeckConfig {
+    return {
+      ...config,
+      fsrsWeights: result.weights,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  // ========================================
+  // MODEL EVALUATION
+  // ========================================
+
+  /**
+   * Score a parameter set: log-loss and RMSE of predicted vs actual recall
+   */
+  static evaluate(
+    sequences: ReviewLogEntry[][],
+    weights: number[]
+  ): OptimizationMetrics & { count: number } {
+    let logLossSum = 0;
+    let squaredErrorSum = 0;
+    let count = 0;
+
+    sequences.forEach(sequence => {
+      let memory: MemoryState | null = null;
+      let lastReviewTime = 0;
+
+      sequence.forEach(review => {
+        const grade = review.rating + 1;
+        const time = new Date(review.reviewedAt).getTime();
+
+        if (!memory) {
+          memory = {
+            stability: FSRSScheduler.initialStability(grade, weights),
+            difficulty: FSRSScheduler.initialDifficulty(grade, weights)
+          };
+          lastReviewTime = time;
+          return;
+        }
+
+        const elapsedDays = (time - lastReviewTime) / DAY_MS;
+        let stability: number;
+
+        if (elapsedDays >= 1) {
+          const r = FSRSScheduler.retrievability(elapsedDays, memory.stability);
+          const p = Math.min(Math.max(r, 1e-6), 1 - 1e-6);
+          const recalled = grade > 1 ? 1 : 0;
+
+          logLossSum += -(recalled * Math.log(p) + (1 - recalled) * Math.log(1 - p));
+          squaredErrorSum += (p - recalled) * (p - recalled);
+          count++;
+
+          stability = grade === 1
+            ? FSRSScheduler.forgetStability(memory, r, weights)
+            : FSRSScheduler.recallStability(memory, r, grade, weights);
+        } else {
+          stability = FSRSScheduler.shortTermStability(memory.stability, grade, weights);
+        }
+
+        memory = {
+          stability,
+          difficulty: FSRSScheduler.nextDifficulty(memory.difficulty, grade, weights)
+        };
+        lastReviewTime = time;
+      });
+    });
+
+    return {
+      logLoss: count > 0 ? logLossSum / count : 0,
+      rmse: count > 0 ? Math.sqrt(squaredErrorSum / count) : 0,
+      count
+    };
+  }
+
+  /**
+   * Group the flat review log into chronologically ordered per-card sequences
+   */
+  private static buildSequences(history: ReviewLogEntry[]): ReviewLogEntry[][] {
+    const byCard = new Map<string, ReviewLogEntry[]>();
+
+    history.forEach(entry => {
+      if (entry.rating < 0 || entry.rating > 3) return;
+      const list = byCard.get(entry.cardId) ?? [];
+      list.push(entry);
+      byCard.set(entry.cardId, list);
+    });
+
+    return Array.from(byCard.values())
+      .map(list => list.sort((a, b) => new Date(a.reviewedAt).getTime() - new Date(b.reviewedAt).getTime()))
+      .filter(list => list.length >= 2);
+  }
+
+  private static normalize(weight: number, index: number): number {
+    const [lo, hi] = WEIGHT_BOUNDS[index];
+    return Math.min(1, Math.max(0, (weight - lo) / (hi - lo)));
+  }
+
+  private static denormalize(x: number, index: number): number {
+    const [lo, hi] = WEIGHT_BOUNDS[index];
+    return lo + x * (hi - lo);
+  }
+}
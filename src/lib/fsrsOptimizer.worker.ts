@@ -0,0 +1,15 @@
+// FSRS Optimizer worker
+// Runs a parameter fit off the main thread; see FSRSOptimizer.optimizeInBackground
+
+import { FSRSOptimizer, OptimizerRequest, OptimizerResponse } from './fsrsOptimizer';
+
+self.onmessage = (event: MessageEvent<OptimizerRequest>) => {
+  const { history, initialWeights, options } = event.data;
+  let response: OptimizerResponse;
+  try {
+    response = { result: FSRSOptimizer.optimize(history, initialWeights, options) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : 'Optimization failed' };
+  }
+  self.postMessage(response);
+};
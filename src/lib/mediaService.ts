@@ -0,0 +1,185 @@
+// Media Service
+// Imported media lives in a private storage bucket, one object per distinct
+// file content: the path is the owner's folder plus the SHA-256 of the bytes,
+// so the same image imported twice is stored once. Cards reference an object
+// as media://<path>, and the reference is swapped for a signed URL when the
+// card is shown.
+
+import { supabase } from './supabaseClient';
+import { uploadFile } from './uploadFile';
+
+export const MEDIA_BUCKET = 'media';
+export const MEDIA_REF_PREFIX = 'media://';
+
+// Shown until a reference resolves, so the browser never requests media://
+const PLACEHOLDER_IMAGE = 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7';
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav'
+};
+
+interface CachedUrl {
+  url: string;
+  expiresAt: number; // epoch ms
+}
+
+export class MediaService {
+  private static readonly SIGNED_URL_SECONDS = 60 * 60;
+  private static readonly REFRESH_MARGIN_MS = 5 * 60 * 1000; // Re-sign URLs this close to expiring
+  private static readonly REF_PATTERN = /media:\/\/[^\s"'<>)]+/g;
+  private static urls = new Map<string, CachedUrl>();
+
+  // ========================================
+  // REFERENCES
+  // ========================================
+
+  static isRef(src: string): boolean {
+    return src.startsWith(MEDIA_REF_PREFIX);
+  }
+
+  static toRef(path: string): string {
+    return `${MEDIA_REF_PREFIX}${path}`;
+  }
+
+  static pathOf(ref: string): string {
+    return ref.slice(MEDIA_REF_PREFIX.length);
+  }
+
+  /**
+   * Distinct media references in a piece of card HTML
+   */
+  static refsIn(html: string): string[] {
+    return [...new Set(html.match(this.REF_PATTERN) ?? [])];
+  }
+
+  // ========================================
+  // UPLOAD
+  // ========================================
+
+  /**
+   * Upload base64 media files (name -> data, as the Anki parser returns them)
+   * and return a reference per name. Files with the same content share one
+   * object, and objects already in storage are not uploaded again.
+   */
+  static async uploadMedia(userId: string, files: Record<string, string>): Promise<Record<string, string>> {
+    const refs: Record<string, string> = {};
+    const done = new Set<string>();
+
+    for (const [name, base64] of Object.entries(files)) {
+      const bytes = this.fromBase64(base64);
+      const extension = this.extensionOf(name);
+      const path = `${userId}/${await this.hash(bytes)}${extension ? `.${extension}` : ''}`;
+      refs[name] = this.toRef(path);
+      if (done.has(path)) continue;
+      done.add(path);
+
+      if (await this.exists(path)) continue;
+      const file = new File([bytes], name, { type: MIME_TYPES[extension] ?? 'application/octet-stream' });
+      const signedUrl = await uploadFile(MEDIA_BUCKET, file, userId, path);
+      this.urls.set(path, { url: signedUrl, expiresAt: Date.now() + this.SIGNED_URL_SECONDS * 1000 });
+    }
+
+    return refs;
+  }
+
+  private static async exists(path: string): Promise<boolean> {
+    const slash = path.lastIndexOf('/');
+    const fileName = path.slice(slash + 1);
+    const { data, error } = await supabase.storage
+      .from(MEDIA_BUCKET)
+      .list(path.slice(0, slash), { search: fileName, limit: 1 });
+    if (error) {
+      console.warn('Could not check for existing media, uploading again:', error);
+      return false;
+    }
+    return (data ?? []).some(object => object.name === fileName);
+  }
+
+  /**
+   * SHA-256 of the content, as hex
+   */
+  static async hash(bytes: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private static extensionOf(name: string): string {
+    const match = /\.([a-z0-9]+)$/i.exec(name);
+    return match ? match[1].toLowerCase() : '';
+  }
+
+  private static fromBase64(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  }
+
+  // ========================================
+  // RESOLUTION
+  // ========================================
+
+  /**
+   * Signed URLs for media references, signing the ones not cached (or about
+   * to expire) in one request
+   */
+  static async signedUrls(refs: string[]): Promise<Record<string, string>> {
+    const now = Date.now();
+    const stale = refs
+      .map(ref => this.pathOf(ref))
+      .filter(path => (this.urls.get(path)?.expiresAt ?? 0) - this.REFRESH_MARGIN_MS <= now);
+
+    if (stale.length > 0) {
+      const { data, error } = await supabase.storage
+        .from(MEDIA_BUCKET)
+        .createSignedUrls([...new Set(stale)], this.SIGNED_URL_SECONDS);
+      if (error) {
+        console.error('Failed to sign media URLs:', error);
+        throw error;
+      }
+      (data ?? []).forEach(entry => {
+        if (entry.path && entry.signedUrl) {
+          this.urls.set(entry.path, { url: entry.signedUrl, expiresAt: now + this.SIGNED_URL_SECONDS * 1000 });
+        }
+      });
+    }
+
+    const urls: Record<string, string> = {};
+    refs.forEach(ref => {
+      const cached = this.urls.get(this.pathOf(ref));
+      if (cached) urls[ref] = cached.url;
+    });
+    return urls;
+  }
+
+  /**
+   * Card HTML with every media reference replaced by a signed URL
+   */
+  static async resolve(html: string): Promise<string> {
+    const refs = this.refsIn(html);
+    if (refs.length === 0) return html;
+    const urls = await this.signedUrls(refs);
+    return html.replace(this.REF_PATTERN, ref => urls[ref] ?? PLACEHOLDER_IMAGE);
+  }
+
+  /**
+   * Card HTML resolved from cached URLs only; references not cached yet show
+   * a blank placeholder until `resolve` finishes
+   */
+  static resolveCached(html: string): string {
+    if (!html.includes(MEDIA_REF_PREFIX)) return html;
+    const now = Date.now();
+    return html.replace(this.REF_PATTERN, ref => {
+      const cached = this.urls.get(this.pathOf(ref));
+      return cached && cached.expiresAt > now ? cached.url : PLACEHOLDER_IMAGE;
+    });
+  }
+}
@@ -0,0 +1,424 @@
+// Retention Simulator
+// Monte-Carlo run of a deck's real cards through the scheduler for a year under
+// candidate settings. A memory model fitted to the user's review history
+// decides whether each answer is recalled; the candidate settings decide when
+// the card comes back.
+
+import { CardState, DeckConfig, EnhancedCard, DEFAULT_DECK_CONFIG } from '../types/SRSTypes';
+import { EmojiRating } from '../contexts/StudyContext';
+import { AdvancedSRSEngine, FSRSScheduler, MemoryState } from './advancedSRS';
+import { FSRSOptimizer, ReviewLogEntry } from './fsrsOptimizer';
+import { supabase } from './supabaseClient';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RATING_EMOJIS: EmojiRating[] = ['😞', '😐', '😊', '😁'];
+
+/** One set of settings to try */
+export interface SimulationCandidate {
+  label: string;
+  config: DeckConfig;
+}
+
+/** How the simulated learner answers, fitted from their review log */
+export interface RecallModel {
+  weights: number[]; // FSRS weights the simulated memory follows
+  firstAgainRate: number; // Share of first answers on a new card that were Again
+  passShares: [number, number, number]; // Hard, Good and Easy shares of passing answers
+  secondsPerReview: number;
+  reviewCount: number; // Reviews the model was fitted on
+  fitted: boolean; // False when there was too little history to fit the weights
+}
+
+export interface SimulationDay {
+  day: number; // Days from today
+  reviews: number; // Answers on studied cards, learning steps included
+  newCards: number; // First answers on new cards
+  minutes: number;
+  retention: number; // Average recall probability of every studied card at the end of the day
+}
+
+export interface SimulationResult {
+  label: string;
+  days: SimulationDay[]; // Averaged over the runs
+  totalReviews: number; // New cards included
+  totalMinutes: number;
+  averageRetention: number;
+  finalRetention: number;
+}
+
+export interface SimulationOptions {
+  days?: number;
+  runs?: number;
+  seed?: number;
+  today?: Date;
+}
+
+export interface SimulationRequest {
+  cards: EnhancedCard[];
+  candidates: SimulationCandidate[];
+  model: RecallModel;
+  options: SimulationOptions;
+}
+
+export type SimulationResponse = { results: SimulationResult[] } | { error: string };
+
+interface SimulatedCard {
+  card: EnhancedCard; // Scheduler's view, updated by each simulated answer
+  memory: MemoryState | null; // The learner's actual memory; null until first studied
+  lastReview: number; // Epoch ms
+  due: number; // Epoch ms; Infinity while new or once suspended
+}
+
+/**
+ * Retention Simulator
+ * Every candidate sees the same random draws, so differences in the results
+ * come from the settings rather than from luck.
+ */
+export class RetentionSimulator {
+  static readonly DEFAULT_DAYS = 365;
+  static readonly DEFAULT_RUNS = 3;
+  private static readonly MAX_ANSWERS_PER_DAY = 20; // Per card, so a step loop cannot run away
+  private static readonly MIN_ANSWER_SAMPLES = 50;
+  private static readonly OPTIMIZER_ITERATIONS = 20;
+  private static readonly PAGE_SIZE = 1000;
+
+  static readonly DEFAULT_MODEL: RecallModel = {
+    weights: DEFAULT_DECK_CONFIG.fsrsWeights,
+    firstAgainRate: 0.25,
+    passShares: [0.1, 0.8, 0.1],
+    secondsPerReview: 8,
+    reviewCount: 0,
+    fitted: false
+  };
+
+  /**
+   * Load the deck's cards and fit the recall model to its history
+   */
+  static async load(deckId: string, config: DeckConfig): Promise<{ cards: EnhancedCard[]; model: RecallModel }> {
+    const [cards, history] = await Promise.all([
+      this.loadCards(deckId),
+      FSRSOptimizer.loadReviewHistory(deckId)
+    ]);
+
+    return { cards, model: await this.fitRecallModel(history, config.fsrsWeights) };
+  }
+
+  /**
+   * Fit the memory model and answer habits to a review log. Falls back to the
+   * defaults for whatever the history is too short to estimate.
+   */
+  static async fitRecallModel(history: ReviewLogEntry[], initialWeights: number[] = DEFAULT_DECK_CONFIG.fsrsWeights): Promise<RecallModel> {
+    const model: RecallModel = { ...this.DEFAULT_MODEL, reviewCount: history.length };
+
+    const seen = new Set<string>();
+    const firstAnswers: number[] = [];
+    const passCounts = [0, 0, 0];
+    history.forEach(entry => {
+      if (!seen.has(entry.cardId)) {
+        seen.add(entry.cardId);
+        firstAnswers.push(entry.rating);
+      } else if (entry.rating > 0) {
+        passCounts[entry.rating - 1]++;
+      }
+    });
+
+    if (firstAnswers.length >= this.MIN_ANSWER_SAMPLES) {
+      model.firstAgainRate = firstAnswers.filter(rating => rating === 0).length / firstAnswers.length;
+    }
+
+    const passes = passCounts[0] + passCounts[1] + passCounts[2];
+    if (passes >= this.MIN_ANSWER_SAMPLES) {
+      model.passShares = [passCounts[0] / passes, passCounts[1] / passes, passCounts[2] / passes];
+    }
+
+    // Median, so a card left open over lunch does not skew it
+    const times = history
+      .map(entry => entry.timeTaken ?? 0)
+      .filter(seconds => seconds > 0)
+      .sort((a, b) => a - b);
+    if (times.length >= this.MIN_ANSWER_SAMPLES) {
+      model.secondsPerReview = times[Math.floor(times.length / 2)];
+    }
+
+    try {
+      const fit = await FSRSOptimizer.optimizeInBackground(history, initialWeights, { iterations: this.OPTIMIZER_ITERATIONS });
+      model.weights = fit.weights;
+      model.fitted = true;
+    } catch {
+      // Not enough spaced reviews to fit; keep the deck's (or the default) weights
+      model.weights = initialWeights.length === DEFAULT_DECK_CONFIG.fsrsWeights.length
+        ? initialWeights
+        : DEFAULT_DECK_CONFIG.fsrsWeights;
+    }
+
+    return model;
+  }
+
+  /**
+   * Simulate each candidate over the same cards and random draws
+   */
+  static simulate(
+    cards: EnhancedCard[],
+    candidates: SimulationCandidate[],
+    model: RecallModel = this.DEFAULT_MODEL,
+    options: SimulationOptions = {}
+  ): SimulationResult[] {
+    const { days = this.DEFAULT_DAYS, runs = this.DEFAULT_RUNS, seed = 1, today = new Date() } = options;
+    const start = new Date(today);
+    start.setHours(0, 0, 0, 0);
+
+    return candidates.map(candidate => {
+      const totals: SimulationDay[] = Array.from({ length: days }, (_, day) => ({
+        day, reviews: 0, newCards: 0, minutes: 0, retention: 0
+      }));
+
+      for (let run = 0; run < runs; run++) {
+        this.run(cards, candidate.config, model, totals, start.getTime(), this.random(seed + run));
+      }
+
+      const averaged = totals.map(day => ({
+        day: day.day,
+        reviews: Math.round(day.reviews / runs * 10) / 10,
+        newCards: Math.round(day.newCards / runs * 10) / 10,
+        minutes: Math.round(day.minutes / runs * 10) / 10,
+        retention: Math.round(day.retention / runs * 1000) / 1000
+      }));
+      const studied = averaged.filter(day => day.retention > 0);
+
+      return {
+        label: candidate.label,
+        days: averaged,
+        totalReviews: Math.round(averaged.reduce((sum, day) => sum + day.reviews + day.newCards, 0)),
+        totalMinutes: Math.round(averaged.reduce((sum, day) => sum + day.minutes, 0)),
+        averageRetention: studied.length
+          ? Math.round(studied.reduce((sum, day) => sum + day.retention, 0) / studied.length * 1000) / 1000
+          : 0,
+        finalRetention: averaged[averaged.length - 1]?.retention ?? 0
+      };
+    });
+  }
+
+  /**
+   * `simulate` on a Web Worker: a year of answers for every card, run and
+   * candidate would freeze the page on a large deck. Runs in place where
+   * workers are unavailable (tests).
+   */
+  static simulateInBackground(
+    cards: EnhancedCard[],
+    candidates: SimulationCandidate[],
+    model: RecallModel = this.DEFAULT_MODEL,
+    options: SimulationOptions = {}
+  ): Promise<SimulationResult[]> {
+    if (typeof Worker === 'undefined') {
+      return Promise.resolve().then(() => this.simulate(cards, candidates, model, options));
+    }
+
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./retentionSimulator.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+        worker.terminate();
+        if ('results' in event.data) resolve(event.data.results);
+        else reject(new Error(event.data.error));
+      };
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || 'Simulation worker failed'));
+      };
+      const request: SimulationRequest = { cards, candidates, model, options };
+      worker.postMessage(request);
+    });
+  }
+
+  // ========================================
+  // SIMULATION
+  // ========================================
+
+  private static run(
+    cards: EnhancedCard[],
+    config: DeckConfig,
+    model: RecallModel,
+    totals: SimulationDay[],
+    startMs: number,
+    random: () => number
+  ): void {
+    const sims: SimulatedCard[] = cards.map(card => ({
+      card,
+      memory: card.cardState === CardState.NEW ? null : this.initialMemory(card, model),
+      lastReview: card.lastStudied ? new Date(card.lastStudied).getTime() : startMs,
+      due: card.cardState === CardState.NEW ? Infinity : new Date(card.nextDue).getTime()
+    }));
+    const newQueue = sims.filter(sim => sim.memory === null);
+    let nextNew = 0;
+
+    totals.forEach((totalsDay, day) => {
+      const dayStart = startMs + day * DAY_MS;
+      const dayEnd = dayStart + DAY_MS;
+
+      // New cards are introduced in deck order, up to the daily limit
+      for (let n = 0; n < config.newCardsPerDay && nextNew < newQueue.length; n++) {
+        newQueue[nextNew++].due = dayStart;
+      }
+
+      sims.forEach(sim => {
+        for (let answers = 0; sim.due < dayEnd && answers < this.MAX_ANSWERS_PER_DAY; answers++) {
+          this.answer(sim, Math.max(sim.due, dayStart), config, model, random, totalsDay);
+        }
+      });
+
+      let recallSum = 0;
+      let studied = 0;
+      sims.forEach(sim => {
+        if (!sim.memory) return;
+        recallSum += FSRSScheduler.retrievability((dayEnd - sim.lastReview) / DAY_MS, sim.memory.stability);
+        studied++;
+      });
+      totalsDay.retention += studied ? recallSum / studied : 0;
+    });
+  }
+
+  /**
+   * One answer: the memory model decides the rating, the candidate settings
+   * the next due date
+   */
+  private static answer(
+    sim: SimulatedCard,
+    now: number,
+    config: DeckConfig,
+    model: RecallModel,
+    random: () => number,
+    totalsDay: SimulationDay
+  ): void {
+    const w = model.weights;
+    const elapsedDays = (now - sim.lastReview) / DAY_MS;
+    const recall = sim.memory ? FSRSScheduler.retrievability(elapsedDays, sim.memory.stability) : 1 - model.firstAgainRate;
+    const rating = random() < recall ? this.passRating(model, random()) : 0;
+    const grade = rating + 1;
+
+    if (!sim.memory) {
+      totalsDay.newCards++;
+      sim.memory = {
+        stability: FSRSScheduler.initialStability(grade, w),
+        difficulty: FSRSScheduler.initialDifficulty(grade, w)
+      };
+    } else {
+      totalsDay.reviews++;
+      const stability = elapsedDays < 1
+        ? FSRSScheduler.shortTermStability(sim.memory.stability, grade, w)
+        : rating === 0
+          ? FSRSScheduler.forgetStability(sim.memory, recall, w)
+          : FSRSScheduler.recallStability(sim.memory, recall, grade, w);
+      sim.memory = { stability, difficulty: FSRSScheduler.nextDifficulty(sim.memory.difficulty, grade, w) };
+    }
+    totalsDay.minutes += model.secondsPerReview / 60;
+
+    const result = AdvancedSRSEngine.scheduleCard(sim.card, RATING_EMOJIS[rating], config, new Date(now));
+    sim.card = {
+      ...sim.card,
+      cardState: result.cardState,
+      learningStep: result.learningStep ?? 0,
+      easeFactor: result.easeFactor,
+      interval: result.interval,
+      reviewCount: result.reviewCount,
+      lapseCount: result.lapseCount ?? sim.card.lapseCount,
+      isLeech: result.isLeech ?? sim.card.isLeech,
+      stability: result.stability ?? sim.card.stability,
+      fsrsDifficulty: result.fsrsDifficulty ?? sim.card.fsrsDifficulty,
+      lastStudied: new Date(now).toISOString(),
+      nextDue: result.nextDue.toISOString()
+    };
+    sim.lastReview = now;
+    sim.due = result.becameLeech && config.leechAction === 'suspend' ? Infinity : result.nextDue.getTime();
+  }
+
+  /**
+   * Memory of a card studied before the simulation starts: its FSRS state, or
+   * one estimated from its SM-2 interval and ease
+   */
+  private static initialMemory(card: EnhancedCard, model: RecallModel): MemoryState {
+    return FSRSScheduler.getMemoryState(
+      AdvancedSRSEngine.toSchedulerCard(card),
+      AdvancedSRSEngine.toSchedulerConfig(DEFAULT_DECK_CONFIG),
+      model.weights
+    );
+  }
+
+  private static passRating(model: RecallModel, draw: number): number {
+    const [hard, good] = model.passShares;
+    if (draw < hard) return 1;
+    return draw < hard + good ? 2 : 3;
+  }
+
+  /**
+   * Seeded PRNG (mulberry32), so a simulation can be repeated exactly
+   */
+  private static random(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6D2B79F5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  // ========================================
+  // DATA LOADING
+  // ========================================
+
+  /**
+   * The cards of the deck and its subdecks that are not suspended, new cards
+   * in the order they will be introduced. Studying a deck includes its
+   * subdecks, so the simulation does too.
+   */
+  private static async loadCards(deckId: string): Promise<EnhancedCard[]> {
+    const { data: subtree, error: subtreeError } = await supabase.rpc('deck_subtree', { p_deck_id: deckId });
+    if (subtreeError) {
+      throw new Error(`Failed to load subdecks for simulation: ${subtreeError.message}`);
+    }
+    const deckIds = ((subtree ?? []) as { deck_id: string }[]).map(row => row.deck_id);
+    const cards: EnhancedCard[] = [];
+
+    for (let from = 0; ; from += this.PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('cards')
+        .select('id, deck_id, card_state, learning_step, lapse_count, ease_factor, interval, review_count, last_studied, next_due, is_leech, stability, fsrs_difficulty, created_at')
+        .in('deck_id', deckIds)
+        .eq('is_suspended', false)
+        .order('new_position', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: true })
+        .range(from, from + this.PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load cards for simulation: ${error.message}`);
+      }
+
+      const rows = data ?? [];
+      rows.forEach(row => cards.push({
+        id: row.id,
+        deckId: row.deck_id,
+        type: 'basic',
+        front: '',
+        back: '',
+        tags: [],
+        difficulty: 0,
+        created: row.created_at,
+        cardState: (row.card_state as CardState) || CardState.NEW,
+        learningStep: row.learning_step ?? 0,
+        lapseCount: row.lapse_count ?? 0,
+        isLeech: row.is_leech ?? false,
+        lastStudied: row.last_studied,
+        nextDue: row.next_due || new Date().toISOString(),
+        interval: Number(row.interval) || 1,
+        easeFactor: Number(row.ease_factor) || DEFAULT_DECK_CONFIG.startingEase,
+        reviewCount: row.review_count ?? 0,
+        stability: row.stability ?? undefined,
+        fsrsDifficulty: row.fsrs_difficulty ?? undefined
+      }));
+
+      if (rows.length < this.PAGE_SIZE) break;
+    }
+
+    return cards;
+  }
+}
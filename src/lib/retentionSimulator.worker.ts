@@ -0,0 +1,15 @@
+// Retention Simulator worker
+// Runs a simulation off the main thread; see RetentionSimulator.simulateInBackground
+
+import { RetentionSimulator, SimulationRequest, SimulationResponse } from './retentionSimulator';
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const { cards, candidates, model, options } = event.data;
+  let response: SimulationResponse;
+  try {
+    response = { results: RetentionSimulator.simulate(cards, candidates, model, options) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : 'Simulation failed' };
+  }
+  self.postMessage(response);
+};
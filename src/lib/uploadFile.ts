@@ -1,13 +1,14 @@
 import { supabase } from './supabaseClient';
 
-export const uploadFile = async (bucket: string, file: File, userId: string): Promise<string> => {
+// `path` places the object at a fixed key (e.g. a content hash) instead of a timestamped one
+export const uploadFile = async (bucket: string, file: File, userId: string, path?: string): Promise<string> => {
   // Sanitize filename: remove spaces, special characters except dots and hyphens
   const sanitizedFileName = file.name
     .replace(/[^a-zA-Z0-9.-]/g, '_') // Replace special chars with underscore
     .replace(/_{2,}/g, '_') // Replace multiple underscores with single
     .replace(/^_|_$/g, ''); // Remove leading/trailing underscores
   
-  const filePath = `${userId}/${Date.now()}_${sanitizedFileName}`;
+  const filePath = path ?? `${userId}/${Date.now()}_${sanitizedFileName}`;
 
   const { error: uploadError } = await supabase.storage.from(bucket).upload(filePath, file, { upsert: true });
   
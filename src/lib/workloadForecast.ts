@@ -0,0 +1,347 @@
+// Workload Forecast Engine
+// Projects reviews per day from every card's schedule, the observed retention rate
+// and each deck's new-card allowance
+
+import { CardState, DEFAULT_DECK_CONFIG } from '../types/SRSTypes';
+import { StudyDay, type DayBoundary } from './advancedSRS';
+import { supabase } from './supabaseClient';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ForecastCard {
+  deckId: string;
+  cardState: CardState;
+  nextDue: string;
+  interval: number; // Days
+  easeFactor: number;
+}
+
+export interface ForecastDeckSettings {
+  newCardsPerDay: number;
+  graduatingInterval: number;
+  startingEase: number;
+  maximumInterval: number;
+}
+
+export interface ForecastDay {
+  date: string; // YYYY-MM-DD study date
+  reviews: number; // Expected review-phase cards due
+  learning: number; // Expected learning and relearning steps
+  newCards: number; // New cards introduced
+  total: number;
+}
+
+export interface WorkloadForecast {
+  days: ForecastDay[]; // All decks combined
+  byDeck: Record<string, ForecastDay[]>;
+  retentionRate: number;
+}
+
+interface DayCounts {
+  reviews: number[];
+  learning: number[];
+  newCards: number[];
+}
+
+/**
+ * Workload Forecaster
+ * Deterministic expected-value simulation: every review splits into a recall
+ * branch (weight × retention) and a lapse branch (weight × (1 - retention)),
+ * and each branch is followed forward on the SM-2 schedule.
+ */
+export class WorkloadForecaster {
+  static readonly DEFAULT_DAYS = 90;
+  static readonly DEFAULT_RETENTION = 0.9;
+  private static readonly MIN_RETENTION_SAMPLES = 50;
+  private static readonly MIN_BRANCH_WEIGHT = 0.005;
+  private static readonly PAGE_SIZE = 1000;
+
+  /**
+   * Load the signed-in user's cards, deck settings and retention, then forecast
+   */
+  static async load(days: number = this.DEFAULT_DAYS, boundary: DayBoundary = {}): Promise<WorkloadForecast> {
+    const [cards, settings, retentionRate] = await Promise.all([
+      this.loadCards(),
+      this.loadDeckSettings(),
+      this.loadObservedRetention()
+    ]);
+
+    return this.forecast(cards, settings, retentionRate, days, new Date(), boundary);
+  }
+
+  /**
+   * Simulate due counts per study day for each deck and in total.
+   * Days begin at the user's rollover hour in their time zone.
+   */
+  static forecast(
+    cards: ForecastCard[],
+    settings: Record<string, ForecastDeckSettings>,
+    retentionRate: number = this.DEFAULT_RETENTION,
+    days: number = this.DEFAULT_DAYS,
+    today: Date = new Date(),
+    boundary: DayBoundary = {}
+  ): WorkloadForecast {
+    const start = StudyDay.dateKey(today, boundary);
+    const retention = Math.min(Math.max(retentionRate, 0), 1);
+
+    const cardsByDeck = new Map<string, ForecastCard[]>();
+    cards.forEach(card => {
+      const list = cardsByDeck.get(card.deckId) ?? [];
+      list.push(card);
+      cardsByDeck.set(card.deckId, list);
+    });
+
+    const byDeck: Record<string, ForecastDay[]> = {};
+    const totals = this.emptyCounts(days);
+
+    cardsByDeck.forEach((deckCards, deckId) => {
+      const deckSettings = settings[deckId] ?? this.defaultSettings();
+      const counts = this.forecastDeck(deckCards, deckSettings, retention, days, start, boundary);
+
+      for (let d = 0; d < days; d++) {
+        totals.reviews[d] += counts.reviews[d];
+        totals.learning[d] += counts.learning[d];
+        totals.newCards[d] += counts.newCards[d];
+      }
+
+      byDeck[deckId] = this.toDays(counts, start);
+    });
+
+    return {
+      days: this.toDays(totals, start),
+      byDeck,
+      retentionRate: retention
+    };
+  }
+
+  // ========================================
+  // SIMULATION
+  // ========================================
+
+  private static forecastDeck(
+    cards: ForecastCard[],
+    settings: ForecastDeckSettings,
+    retention: number,
+    days: number,
+    start: string,
+    boundary: DayBoundary
+  ): DayCounts {
+    const counts = this.emptyCounts(days);
+    let newCardsRemaining = 0;
+
+    cards.forEach(card => {
+      if (card.cardState === CardState.NEW) {
+        newCardsRemaining++;
+        return;
+      }
+
+      const dueDay = Math.max(0, this.daysBetween(start, StudyDay.dateKey(new Date(card.nextDue), boundary)));
+      switch (card.cardState) {
+        case CardState.LEARNING:
+          // Finishes its steps on the day it is due, then first review at the graduating interval
+          if (dueDay < days) counts.learning[dueDay] += 1;
+          this.simulate(counts, dueDay + settings.graduatingInterval, settings.graduatingInterval,
+            settings.startingEase, 1, retention, settings, days);
+          break;
+        case CardState.RELEARNING:
+          if (dueDay < days) counts.learning[dueDay] += 1;
+          this.simulate(counts, dueDay + Math.max(1, card.interval), Math.max(1, card.interval),
+            card.easeFactor, 1, retention, settings, days);
+          break;
+        default:
+          this.simulate(counts, dueDay, Math.max(1, card.interval), card.easeFactor, 1, retention, settings, days);
+      }
+    });
+
+    // Every new card follows the same path, so simulate one and shift it per intro day
+    if (newCardsRemaining > 0 && settings.newCardsPerDay > 0) {
+      const profile = this.emptyCounts(days);
+      this.simulate(profile, settings.graduatingInterval, settings.graduatingInterval,
+        settings.startingEase, 1, retention, settings, days);
+
+      for (let d = 0; d < days && newCardsRemaining > 0; d++) {
+        const introduced = Math.min(settings.newCardsPerDay, newCardsRemaining);
+        newCardsRemaining -= introduced;
+        counts.newCards[d] += introduced;
+
+        for (let k = 0; d + k < days; k++) {
+          counts.reviews[d + k] += introduced * profile.reviews[k];
+          counts.learning[d + k] += introduced * profile.learning[k];
+        }
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Follow one review-phase card forward, splitting into recall and lapse branches
+   */
+  private static simulate(
+    counts: DayCounts,
+    day: number,
+    interval: number,
+    easeFactor: number,
+    weight: number,
+    retention: number,
+    settings: ForecastDeckSettings,
+    days: number
+  ): void {
+    const stack = [{ day, interval, easeFactor, weight }];
+
+    while (stack.length > 0) {
+      const branch = stack.pop()!;
+      if (branch.day >= days || branch.weight < this.MIN_BRANCH_WEIGHT) continue;
+
+      counts.reviews[branch.day] += branch.weight;
+
+      // Recalled - interval grows by the ease factor
+      const recallInterval = Math.min(
+        settings.maximumInterval,
+        Math.max(branch.interval + 1, Math.round(branch.interval * branch.easeFactor))
+      );
+      stack.push({
+        day: branch.day + recallInterval,
+        interval: recallInterval,
+        easeFactor: branch.easeFactor,
+        weight: branch.weight * retention
+      });
+
+      // Lapsed - relearning step today, back to review at a reduced interval
+      const lapseWeight = branch.weight * (1 - retention);
+      counts.learning[branch.day] += lapseWeight;
+      const relearnInterval = Math.max(1, Math.round(branch.interval * 0.25));
+      stack.push({
+        day: branch.day + relearnInterval,
+        interval: relearnInterval,
+        easeFactor: Math.max(1.3, branch.easeFactor - DEFAULT_DECK_CONFIG.lapsePenalty),
+        weight: lapseWeight
+      });
+    }
+  }
+
+  // ========================================
+  // DATA LOADING
+  // ========================================
+
+  private static async loadCards(): Promise<ForecastCard[]> {
+    const cards: ForecastCard[] = [];
+
+    for (let from = 0; ; from += this.PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('cards')
+        .select('deck_id, card_state, next_due, interval, ease_factor')
+        .eq('is_suspended', false)
+        .range(from, from + this.PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load cards for forecast: ${error.message}`);
+      }
+
+      const rows = data ?? [];
+      rows.forEach(row => cards.push({
+        deckId: row.deck_id,
+        cardState: (row.card_state as CardState) || CardState.NEW,
+        nextDue: row.next_due || new Date().toISOString(),
+        interval: Number(row.interval) || 1,
+        easeFactor: Number(row.ease_factor) || DEFAULT_DECK_CONFIG.startingEase
+      }));
+
+      if (rows.length < this.PAGE_SIZE) break;
+    }
+
+    return cards;
+  }
+
+  private static async loadDeckSettings(): Promise<Record<string, ForecastDeckSettings>> {
+    // Each deck's option group; decks without one get the defaults
+    const { data, error } = await supabase
+      .from('decks')
+      .select('id, deck_configs(new_cards_per_day, graduating_interval, starting_ease, maximum_interval)');
+
+    if (error) {
+      throw new Error(`Failed to load deck settings for forecast: ${error.message}`);
+    }
+
+    const settings: Record<string, ForecastDeckSettings> = {};
+    (data ?? []).forEach(row => {
+      const group = (Array.isArray(row.deck_configs) ? row.deck_configs[0] : row.deck_configs) ?? {};
+      settings[row.id] = {
+        newCardsPerDay: group.new_cards_per_day ?? DEFAULT_DECK_CONFIG.newCardsPerDay,
+        graduatingInterval: group.graduating_interval ?? DEFAULT_DECK_CONFIG.graduatingInterval,
+        startingEase: Number(group.starting_ease) || DEFAULT_DECK_CONFIG.startingEase,
+        maximumInterval: group.maximum_interval ?? DEFAULT_DECK_CONFIG.maximumInterval
+      };
+    });
+
+    return settings;
+  }
+
+  /**
+   * Share of review-phase answers (interval of a day or more) that were not Again, last 90 days
+   */
+  private static async loadObservedRetention(): Promise<number> {
+    const since = new Date(Date.now() - 90 * DAY_MS);
+    const { data, error } = await supabase
+      .from('reviews')
+      .select('rating')
+      .eq('review_kind', 'review')
+      .gte('reviewed_at', since.toISOString())
+      .gte('interval_before', 1);
+
+    if (error) {
+      console.error('Error loading observed retention:', error);
+      return this.DEFAULT_RETENTION;
+    }
+
+    const ratings = data ?? [];
+    if (ratings.length < this.MIN_RETENTION_SAMPLES) {
+      return this.DEFAULT_RETENTION;
+    }
+
+    return ratings.filter(r => r.rating > 0).length / ratings.length;
+  }
+
+  // ========================================
+  // HELPERS
+  // ========================================
+
+  private static defaultSettings(): ForecastDeckSettings {
+    return {
+      newCardsPerDay: DEFAULT_DECK_CONFIG.newCardsPerDay,
+      graduatingInterval: DEFAULT_DECK_CONFIG.graduatingInterval,
+      startingEase: DEFAULT_DECK_CONFIG.startingEase,
+      maximumInterval: DEFAULT_DECK_CONFIG.maximumInterval
+    };
+  }
+
+  private static emptyCounts(days: number): DayCounts {
+    return {
+      reviews: new Array(days).fill(0),
+      learning: new Array(days).fill(0),
+      newCards: new Array(days).fill(0)
+    };
+  }
+
+  private static toDays(counts: DayCounts, start: string): ForecastDay[] {
+    return counts.reviews.map((_, d) => {
+      const reviews = Math.round(counts.reviews[d] * 10) / 10;
+      const learning = Math.round(counts.learning[d] * 10) / 10;
+      const newCards = counts.newCards[d];
+      return {
+        date: StudyDay.shiftDate(start, d),
+        reviews,
+        learning,
+        newCards,
+        total: Math.round(reviews + learning + newCards)
+      };
+    });
+  }
+
+  /**
+   * Whole days from one study date (YYYY-MM-DD) to another
+   */
+  private static daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+  }
+}
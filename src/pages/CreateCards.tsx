@@ -40,6 +40,7 @@ const CreateCards: React.FC = () => {
     type: 'basic' as CardType,
     front: '',
     back: '',
+    reverse: false, // Also save a back-to-front sibling card
     tags: '',
     hint: '',
     // Cloze-specific
@@ -264,6 +265,29 @@ const CreateCards: React.FC = () => {
     navigate(`/study/${targetDeckId}`);
   };
 
+  // Reversed basic cards share the note of the forward card, so they are buried as siblings
+  const addManualCard = async (deckId: string, front: string, back: string) => {
+    const card = {
+      deckId,
+      noteId: crypto.randomUUID(),
+      type: manualCardData.type,
+      front,
+      back,
+      tags: manualCardData.tags ? manualCardData.tags.split(',').map(t=>t.trim()).filter(Boolean) : [],
+      difficulty: 0,
+      lastStudied: null,
+      nextDue: new Date().toISOString(),
+      interval: 1,
+      easeFactor: 2.5,
+      reviewCount: 0,
+    };
+
+    await addCard(card);
+    if (manualCardData.type === 'basic' && manualCardData.reverse) {
+      await addCard({ ...card, front: back, back: front });
+    }
+  };
+
   const handleSaveCard = async () => {
     if (!user) {
       console.error('User not logged in');
@@ -364,25 +388,14 @@ const CreateCards: React.FC = () => {
     }
 
     try {
-      await addCard({
-        deckId: selectedDeckId,
-        type: manualCardData.type,
-        front,
-        back,
-        tags: manualCardData.tags ? manualCardData.tags.split(',').map(t=>t.trim()).filter(Boolean) : [],
-        difficulty: 0,
-        lastStudied: null,
-        nextDue: new Date().toISOString(),
-        interval: 1,
-        easeFactor: 2.5,
-        reviewCount: 0,
-      });
+      await addManualCard(selectedDeckId, front, back);
 
       // Reset form for next card
       setManualCardData({
         type: 'basic' as CardType,
         front: '',
         back: '',
+        reverse: false,
         tags: '',
         hint: '',
         // Cloze-specific
@@ -525,19 +538,7 @@ const CreateCards: React.FC = () => {
 
     // Save the card first
     try {
-      await addCard({
-        deckId: selectedDeckId,
-        type: manualCardData.type,
-        front,
-        back,
-        tags: manualCardData.tags ? manualCardData.tags.split(',').map(t=>t.trim()).filter(Boolean) : [],
-        difficulty: 0,
-        lastStudied: null,
-        nextDue: new Date().toISOString(),
-        interval: 1,
-        easeFactor: 2.5,
-        reviewCount: 0,
-      });
+      await addManualCard(selectedDeckId, front, back);
 
       // Then navigate to study the deck
       navigate(`/study/${selectedDeckId}`);
@@ -670,6 +671,15 @@ const CreateCards: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <label className="flex items-center space-x-2 text-sm text-neutral-700 dark:text-neutral-300">
+        <input
+          type="checkbox"
+          checked={manualCardData.reverse}
+          onChange={(e) => setManualCardData(prev => ({ ...prev, reverse: e.target.checked }))}
+        />
+        <span>Also add a reversed card (back → front)</span>
+      </label>
     </div>
   );
 
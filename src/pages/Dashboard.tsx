@@ -19,20 +19,27 @@ import {
   Heart,
   MessageSquare,
   ChevronDown,
-  Pencil
+  Pencil,
+  Filter
 } from 'lucide-react';
 import { useUser } from '../contexts/UserContext';
 import { useStudy } from '../contexts/StudyContext';
 import ThemeToggle from '../components/ThemeToggle';
 import { supabase } from '../lib/supabaseClient';
+import { StudyDay } from '../lib/advancedSRS';
+import { DeckTree } from '../lib/deckTree';
 import { getPersonalizedTip } from '../lib/dynamicContent';
 import AchievementsList from '../components/AchievementsList';
+import FilteredDeckEditor from '../components/FilteredDeckEditor';
+import { FilteredDeck } from '../types/SRSTypes';
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useUser();
-  const { decks, getCardsStudiedToday, getWorkloadRecommendation, checkBurnoutRisk, getStudyCalendarData, getStreakInfo, refreshStreakData } = useStudy();
+  const { decks, filteredDecks, getCardsStudiedToday, getWorkloadRecommendation, checkBurnoutRisk, getStudyCalendarData, getStreakInfo, refreshStreakData } = useStudy();
   const [selectedDate, setSelectedDate] = useState(new Date());
+  // undefined = closed, null = creating a new filtered deck
+  const [editingFilteredDeck, setEditingFilteredDeck] = useState<FilteredDeck | null | undefined>(undefined);
   const [workloadRecommendation, setWorkloadRecommendation] = useState<{
     recommendedCards: number;
     shouldStudy: boolean;
@@ -78,15 +85,15 @@ const Dashboard: React.FC = () => {
         .from('cards')
         .select('id', { head: true, count: 'exact' });
 
-      // today timeframe
-      const todayStart = new Date();
-      todayStart.setHours(0,0,0,0);
-      const tomorrowStart = new Date(todayStart);
-      tomorrowStart.setDate(tomorrowStart.getDate()+1);
+      // today timeframe, from the user's day rollover hour
+      const dayBoundary = { timeZone: user?.preferences?.timeZone, dayStartHour: user?.preferences?.dayStartHour };
+      const todayStart = StudyDay.start(new Date(), dayBoundary);
+      const tomorrowStart = StudyDay.nextStart(new Date(), dayBoundary);
 
       const { data: reviewsToday } = await supabase
         .from('reviews')
         .select('rating')
+        .eq('review_kind', 'review')
         .gte('reviewed_at', todayStart.toISOString())
         .lt('reviewed_at', tomorrowStart.toISOString());
 
@@ -135,7 +142,7 @@ const Dashboard: React.FC = () => {
       }
     };
     loadStats();
-  }, [decks, getCardsStudiedToday, getWorkloadRecommendation, checkBurnoutRisk, getStudyCalendarData, getStreakInfo]);
+  }, [decks, getCardsStudiedToday, getWorkloadRecommendation, checkBurnoutRisk, getStudyCalendarData, getStreakInfo, user?.preferences]);
 
   useEffect(() => {
     const fetchInsights = async () => {
@@ -189,6 +196,8 @@ const Dashboard: React.FC = () => {
 
   const sortedDecks = [...decks].sort((a,b)=> new Date(b.created).getTime() - new Date(a.created).getTime());
   const totalDueCards = sortedDecks.reduce((sum, deck) => sum + deck.dueCount, 0);
+  // Parents list their subdecks below them, with due counts that include them
+  const deckRows = DeckTree.flatten(sortedDecks);
   const positivityRate = Math.round(
     ((stats.emojiBreakdown['😊'] + stats.emojiBreakdown['😁']) / 
      (stats.emojiBreakdown['😞'] + stats.emojiBreakdown['😐'] + stats.emojiBreakdown['😊'] + stats.emojiBreakdown['😁'])) * 100
@@ -335,20 +344,21 @@ const Dashboard: React.FC = () => {
               Today's Study
             </h3>
             <div className="space-y-3">
-              {sortedDecks.map(deck => (
+              {deckRows.map(({ deck, depth, path, dueCount }) => (
                 <div
                   key={deck.id}
                   className="flex items-center justify-between w-full px-2 py-1 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors"
+                  style={{ paddingLeft: `${0.5 + depth}rem` }}
                 >
                   <div className="flex items-center space-x-3">
                     <div className={`w-3 h-3 rounded-full ${
-                      deck.dueCount > 10 ? 'bg-error-500' : 
-                      deck.dueCount > 5 ? 'bg-warning-500' : 
+                      dueCount > 10 ? 'bg-error-500' : 
+                      dueCount > 5 ? 'bg-warning-500' : 
                       'bg-success-500'
                     }`} />
                     <div>
-                      <p className="font-medium text-neutral-800 dark:text-neutral-200 max-w-[140px] truncate">{deck.name}</p>
-                      <p className="text-xs text-neutral-600 dark:text-neutral-400">{deck.dueCount} due</p>
+                      <p className="font-medium text-neutral-800 dark:text-neutral-200 max-w-[140px] truncate" title={path}>{deck.name}</p>
+                      <p className="text-xs text-neutral-600 dark:text-neutral-400">{dueCount} due</p>
                     </div>
                   </div>
                   <div className="flex items-center space-x-2">
@@ -369,6 +379,46 @@ const Dashboard: React.FC = () => {
                   </div>
                 </div>
               ))}
+              {filteredDecks.map(filteredDeck => (
+                <div
+                  key={filteredDeck.id}
+                  className="flex items-center justify-between w-full px-2 py-1 rounded-lg hover:bg-neutral-100 dark:hover:bg-neutral-700 transition-colors"
+                >
+                  <div className="flex items-center space-x-3">
+                    <Filter className="w-3 h-3 text-primary-500" />
+                    <div>
+                      <p className="font-medium text-neutral-800 dark:text-neutral-200 max-w-[140px] truncate">{filteredDeck.name}</p>
+                      <p className="text-xs text-neutral-600 dark:text-neutral-400">
+                        {filteredDeck.cardCount ?? 0} cards{filteredDeck.reschedule ? '' : ' · preview'}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setEditingFilteredDeck(filteredDeck)}
+                      className="p-1 text-neutral-500 hover:text-primary-600 transition-colors"
+                      title="Edit filtered deck"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => navigate(`/study/filtered/${filteredDeck.id}`)}
+                      disabled={!filteredDeck.cardCount}
+                      className="p-1 text-neutral-500 hover:text-secondary-600 transition-colors disabled:opacity-40"
+                      title="Study filtered deck"
+                    >
+                      <BookOpen className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              <button
+                onClick={() => setEditingFilteredDeck(null)}
+                className="w-full px-2 py-1 text-sm text-primary-600 dark:text-primary-400 hover:underline flex items-center space-x-1"
+              >
+                <Plus className="w-4 h-4" />
+                <span>New filtered deck</span>
+              </button>
             </div>
             <button
               onClick={() => {
@@ -719,6 +769,13 @@ const Dashboard: React.FC = () => {
         {/* Achievements */}
         <AchievementsList />
       </main>
+
+      {editingFilteredDeck !== undefined && (
+        <FilteredDeckEditor
+          filteredDeck={editingFilteredDeck ?? undefined}
+          onClose={() => setEditingFilteredDeck(undefined)}
+        />
+      )}
     </div>
   );
 };
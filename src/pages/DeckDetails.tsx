@@ -2,9 +2,12 @@ import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabaseClient';
 import { useStudy } from '../contexts/StudyContext';
-import { ArrowLeft, Trash2, Pencil } from 'lucide-react';
+import { ArrowLeft, Trash2, Pencil, Bug, CalendarClock, Download } from 'lucide-react';
+import { AnimatePresence } from 'framer-motion';
 import QuestionFormatter from '../components/QuestionFormatter';
 import CardContent from '../components/CardContent';
+import BulkRescheduleDialog from '../components/BulkRescheduleDialog';
+import ApkgExportDialog from '../components/ApkgExportDialog';
 
 interface Card {
   id: string;
@@ -57,6 +60,10 @@ const DeckDetails: React.FC = () => {
   const [name, setName] = useState(deck?.name ?? '');
   const [description, setDescription] = useState(deck?.description ?? '');
   const [editingCardId, setEditingCardId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showReschedule, setShowReschedule] = useState(false);
+  const [rescheduleMessage, setRescheduleMessage] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
 
   useEffect(() => {
     const loadCards = async () => {
@@ -112,6 +119,16 @@ const DeckDetails: React.FC = () => {
     setEditingCardId(null);
   };
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleRescheduled = (changed: number) => {
+    setShowReschedule(false);
+    setSelectedIds([]);
+    setRescheduleMessage(`Rescheduled ${changed} ${changed === 1 ? 'card' : 'cards'}.`);
+  };
+
   const deleteCard = async (id:string) => {
     if(!confirm('Delete this card?')) return;
     await supabase.from('cards').delete().eq('id',id);
@@ -132,6 +149,12 @@ const DeckDetails: React.FC = () => {
             )}
           </div>
           <div className="flex space-x-3">
+            <button onClick={()=>navigate(`/deck/${deckId}/leeches`)} title="Repair leeches" className="p-3 rounded-full bg-amber-500 text-white hover:bg-amber-600 transition-colors shadow-md focus:outline-none focus:ring-2 focus:ring-amber-400">
+              <Bug className="w-4 h-4"/>
+            </button>
+            <button onClick={()=>setShowExport(true)} title="Export for Anki (.apkg)" className="p-3 rounded-full bg-secondary-500 text-white hover:bg-secondary-600 transition-colors shadow-md focus:outline-none focus:ring-2 focus:ring-secondary-400">
+              <Download className="w-4 h-4"/>
+            </button>
             <button onClick={()=>setEditing(true)} title="Edit deck" className="p-3 rounded-full bg-primary-500 text-white hover:bg-primary-600 transition-colors shadow-md focus:outline-none focus:ring-2 focus:ring-primary-400">
               <Pencil className="w-4 h-4"/>
             </button>
@@ -150,6 +173,24 @@ const DeckDetails: React.FC = () => {
           {cards.length}
         </span>
       </h2>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <label className="flex items-center space-x-2 text-sm text-neutral-700 dark:text-neutral-300">
+          <input
+            type="checkbox"
+            checked={cards.length > 0 && selectedIds.length === cards.length}
+            onChange={(e) => setSelectedIds(e.target.checked ? cards.map(c => c.id) : [])}
+          />
+          <span>Select all</span>
+        </label>
+        <button
+          onClick={() => { setRescheduleMessage(null); setShowReschedule(true); }}
+          disabled={selectedIds.length === 0}
+          className="px-3 py-1.5 text-sm rounded-lg flex items-center space-x-1 bg-primary-500 text-white hover:bg-primary-600 transition-colors disabled:bg-neutral-400"
+        >
+          <CalendarClock className="w-4 h-4" /><span>Reschedule ({selectedIds.length})</span>
+        </button>
+        {rescheduleMessage && <span className="text-sm text-neutral-500 dark:text-neutral-400">{rescheduleMessage}</span>}
+      </div>
       {/* Updated grid layout */}
       <div className="grid sm:grid-cols-1 lg:grid-cols-2 gap-6">
         {cards.map(c=> (
@@ -160,6 +201,13 @@ const DeckDetails: React.FC = () => {
               <CardContent content={c.front} className="font-medium text-neutral-800 dark:text-neutral-100 mb-1 break-words" />
             )}
             <CardContent content={c.back} className="text-sm text-neutral-600 dark:text-neutral-400 break-words" />
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(c.id)}
+              onChange={() => toggleSelected(c.id)}
+              className="absolute top-3 left-2"
+              title="Select card"
+            />
             <div className="absolute top-2 right-2 flex space-x-1 transition-opacity">
               <button onClick={()=>startEditCard(c)} className="p-1 text-neutral-500 hover:text-primary-600 focus:outline-none"><Pencil className="w-4 h-4"/></button>
               <button onClick={()=>deleteCard(c.id)} className="p-1 text-neutral-500 hover:text-error-600 focus:outline-none"><Trash2 className="w-4 h-4"/></button>
@@ -167,6 +215,15 @@ const DeckDetails: React.FC = () => {
           </div>
         ))}
       </div>
+
+      <AnimatePresence>
+        {showReschedule && (
+          <BulkRescheduleDialog cardIds={selectedIds} onClose={() => setShowReschedule(false)} onDone={handleRescheduled} />
+        )}
+        {showExport && deckId && (
+          <ApkgExportDialog deckId={deckId} deckName={deck?.name ?? 'deck'} onClose={() => setShowExport(false)} />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
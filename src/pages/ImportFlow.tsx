@@ -16,9 +16,9 @@ import {
   ArrowLeft
 } from 'lucide-react';
 import { useStudy } from '../contexts/StudyContext';
-import { useUser } from '../contexts/UserContext';
 import { supabase } from '../lib/supabaseClient';
-import { parseApkg, type ParsedDeck } from '../lib/ankiParser';
+import { parseApkg, createNoteIdMap, ankiSchedulingColumns, ankiReviewRows, type ParsedDeck } from '../lib/ankiParser';
+import { MediaService } from '../lib/mediaService';
 
 type ImportStep = 'upload' | 'processing' | 'review' | 'success' | 'error';
 
@@ -39,19 +39,22 @@ interface ImportResults {
 const ImportFlow: React.FC = () => {
   console.log('ImportFlow component rendering...');
   const navigate = useNavigate();
-  const { user } = useUser();
   
-  let addDeck, refreshDecks;
+  let addDeck, refreshDecks, ensureDeckPath;
   try {
     const studyContext = useStudy();
     addDeck = studyContext.addDeck;
     refreshDecks = studyContext.refreshDecks;
+    ensureDeckPath = studyContext.ensureDeckPath;
     console.log('StudyContext loaded successfully');
   } catch (error) {
     console.error('Error loading StudyContext:', error);
     // Provide fallback functions
     addDeck = async () => {};
     refreshDecks = async () => {};
+    ensureDeckPath = async (): Promise<string> => {
+      throw new Error('Decks are unavailable');
+    };
   }
   const [currentStep, setCurrentStep] = useState<ImportStep>('upload');
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
@@ -70,11 +73,13 @@ const ImportFlow: React.FC = () => {
   const [parsedDecks, setParsedDecks] = useState<ParsedDeck[]>([]);
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [keepScheduling, setKeepScheduling] = useState(true);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     accept: {
-      'application/zip': ['.apkg'],
-      'application/x-zip-compressed': ['.apkg'],
+      'application/zip': ['.apkg', '.colpkg'],
+      'application/x-zip-compressed': ['.apkg', '.colpkg'],
+      'application/octet-stream': ['.apkg', '.colpkg'],
     },
     multiple: true,
     onDrop: async (acceptedFiles) => {
@@ -102,6 +107,7 @@ const ImportFlow: React.FC = () => {
       setImportProgress({ step: 'Processing files', progress: 5, message: 'Starting file processing...' });
 
       let totalCards = 0;
+      let importedHistory = false;
       const createdDecks: string[] = [];
       const errors: string[] = [];
       
@@ -117,7 +123,7 @@ const ImportFlow: React.FC = () => {
         });
 
         try {
-          // Parse the .apkg file
+          // Parse the .apkg or .colpkg file
           console.log('About to parse file:', file.name);
           
           setImportProgress({
@@ -127,6 +133,7 @@ const ImportFlow: React.FC = () => {
           });
           
           const decks = await parseApkg(file);
+          const toNoteId = createNoteIdMap();
           console.log('Successfully parsed decks:', decks);
           setParsedDecks(prev => [...prev, ...decks]);
 
@@ -136,6 +143,27 @@ const ImportFlow: React.FC = () => {
             message: `Found ${decks.length} deck(s) with ${decks.reduce((sum, d) => sum + d.cards.length, 0)} cards`
           });
 
+          // Upload the media the cards show, once per distinct file
+          const usedMedia: Record<string, string> = {};
+          decks.forEach(deck => deck.cards.forEach(card => {
+            [...(card.frontImages ?? []), ...(card.backImages ?? [])].forEach(name => {
+              if (card.media?.[name]) usedMedia[name] = card.media[name];
+            });
+          }));
+          let mediaRefs: Record<string, string> = {};
+          if (Object.keys(usedMedia).length > 0) {
+            setImportProgress({
+              step: `Processing ${file.name}`,
+              progress: fileProgress + 12,
+              message: `Uploading ${Object.keys(usedMedia).length} media files...`
+            });
+            const { data: { session } } = await supabase.auth.getSession();
+            if (!session) {
+              throw new Error('Sign in again to upload media');
+            }
+            mediaRefs = await MediaService.uploadMedia(session.user.id, usedMedia);
+          }
+
           // Create decks in Supabase
           console.log('About to create decks in Supabase:', decks.length);
           for (const deck of decks) {
@@ -145,22 +173,11 @@ const ImportFlow: React.FC = () => {
             }
 
             console.log(`Creating deck "${deck.name}" with ${deck.cards.length} cards`);
-            // Create deck
-            const { data: newDeck, error: deckError } = await supabase
-              .from('decks')
-              .insert({
-                owner_id: user?.id,
-                name: deck.name || `Imported Deck ${fileIndex + 1}`,
-                description: `Imported from ${file.name}`,
-              })
-              .select()
-              .single();
-
-            if (deckError) {
-              throw new Error(`Failed to create deck "${deck.name}": ${deckError.message}`);
-            }
-
-            const deckId = newDeck.id;
+            // Find or create the deck and its parents ("Medicine::Cardio::Drugs")
+            const deckId = await ensureDeckPath(
+              deck.name || `Imported Deck ${fileIndex + 1}`,
+              `Imported from ${file.name}`
+            );
             createdDecks.push(deck.name);
 
             setImportProgress({
@@ -174,21 +191,11 @@ const ImportFlow: React.FC = () => {
             for (let i = 0; i < deck.cards.length; i += batchSize) {
               const batch = deck.cards.slice(i, i + batchSize);
               const cardRows = batch.map((card) => {
-                // Convert images to data URLs for display
+                // Point images at the uploaded media; the references become
+                // signed URLs when the card is shown
                 const processImages = (images?: string[], media?: Record<string, string>) => {
                   if (!images || !media) return [];
-                  return images.map(imgSrc => {
-                    if (media[imgSrc]) {
-                      // Determine mime type based on file extension
-                      const ext = imgSrc.split('.').pop()?.toLowerCase();
-                      const mimeType = ext === 'png' ? 'image/png' : 
-                                     ext === 'jpg' || ext === 'jpeg' ? 'image/jpeg' :
-                                     ext === 'gif' ? 'image/gif' :
-                                     ext === 'webp' ? 'image/webp' : 'image/png';
-                      return `data:${mimeType};base64,${media[imgSrc]}`;
-                    }
-                    return imgSrc;
-                  });
+                  return images.map(imgSrc => mediaRefs[imgSrc] ?? imgSrc);
                 };
 
                 const frontImages = processImages(card.frontImages, card.media);
@@ -222,27 +229,42 @@ const ImportFlow: React.FC = () => {
 
                 return {
                   deck_id: deckId,
-                  type: 'basic',
+                  note_id: toNoteId(card.noteId),
+                  type: card.type ?? 'basic',
                   front: processedFront,
                   back: processedBack,
-                  tags: [],
+                  tags: card.tags ?? [],
+                  note_fields: card.fields ?? null,
                   difficulty: 0,
-                  last_studied: null,
-                  next_due: new Date().toISOString(),
-                  interval: 1,
-                  ease_factor: 2.5,
-                  review_count: 0,
+                  ...ankiSchedulingColumns(card, deck.collectionCreated, !keepScheduling),
                 };
               });
 
-              const { error: cardsError } = await supabase
+              const { data: insertedCards, error: cardsError } = await supabase
                 .from('cards')
-                .insert(cardRows);
+                .insert(cardRows)
+                .select('id');
 
               if (cardsError) {
                 throw new Error(`Failed to insert cards for deck "${deck.name}": ${cardsError.message}`);
               }
 
+              // Carry the Anki review history over to the new cards
+              if (keepScheduling) {
+                const reviewRows = batch.flatMap((card, index) =>
+                  insertedCards?.[index] ? ankiReviewRows(card, insertedCards[index].id) : []);
+                for (let r = 0; r < reviewRows.length; r += batchSize) {
+                  const { error: reviewsError } = await supabase
+                    .from('reviews')
+                    .insert(reviewRows.slice(r, r + batchSize));
+
+                  if (reviewsError) {
+                    throw new Error(`Failed to import review history for deck "${deck.name}": ${reviewsError.message}`);
+                  }
+                }
+                importedHistory ||= reviewRows.length > 0;
+              }
+
               const cardsProgress = (i + batch.length) / deck.cards.length;
               setImportProgress({
                 step: `Importing cards`,
@@ -278,6 +300,17 @@ const ImportFlow: React.FC = () => {
         message: 'Completing import...'
       });
 
+      // The streak trigger skips imported history, so count it in once here
+      if (importedHistory) {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (session) {
+          const { error: streakError } = await supabase.rpc('update_user_streak', { p_user_id: session.user.id });
+          if (streakError) {
+            console.error('Failed to update streak after import:', streakError);
+          }
+        }
+      }
+
       const processingTime = Math.round((Date.now() - startTime) / 1000);
       setImportResults({
         totalCards,
@@ -363,7 +396,7 @@ const ImportFlow: React.FC = () => {
       </div>
 
       <p className="text-neutral-600 dark:text-neutral-400 mb-8 text-lg">
-        Upload your .apkg files to import your Anki decks and cards
+        Upload your .apkg deck exports or .colpkg collection backups to import your Anki decks and cards
       </p>
 
       <div
@@ -387,7 +420,7 @@ const ImportFlow: React.FC = () => {
             <Upload className="w-12 h-12 text-white" />
           </motion.div>
           <p className="text-xl font-semibold text-neutral-800 dark:text-neutral-200 mb-2">
-            {isDragActive ? 'Drop your files here' : 'Drop your .apkg files here'}
+            {isDragActive ? 'Drop your files here' : 'Drop your .apkg or .colpkg files here'}
           </p>
           <p className="text-neutral-600 dark:text-neutral-400 mb-4">
             or click to browse
@@ -417,6 +450,15 @@ const ImportFlow: React.FC = () => {
           </div>
         </div>
 
+        <label className="flex items-center justify-center space-x-2 mb-6 text-sm text-neutral-700 dark:text-neutral-300">
+          <input
+            type="checkbox"
+            checked={keepScheduling}
+            onChange={(e) => setKeepScheduling(e.target.checked)}
+          />
+          <span>Keep Anki scheduling and review history (uncheck to import every card as new)</span>
+        </label>
+
         <div className="flex justify-center space-x-4">
           <button
             onClick={() => {
@@ -682,7 +724,7 @@ const ImportFlow: React.FC = () => {
           <div className="text-left space-y-2 text-sm text-neutral-600 dark:text-neutral-400">
             <div className="flex items-start space-x-2">
               <span className="w-2 h-2 bg-primary-500 rounded-full mt-2 flex-shrink-0" />
-              <span>Make sure you're uploading valid .apkg files exported from Anki</span>
+              <span>Make sure you're uploading valid .apkg or .colpkg files exported from Anki</span>
             </div>
             <div className="flex items-start space-x-2">
               <span className="w-2 h-2 bg-primary-500 rounded-full mt-2 flex-shrink-0" />
@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Pencil, Play, Scissors, Trash2, Plus, X } from 'lucide-react';
+import { useStudy } from '../contexts/StudyContext';
+import { LeechCard, RATING_MAPPINGS } from '../types/SRSTypes';
+import CardContent from '../components/CardContent';
+
+/**
+ * LeechRepair
+ * ----------------------------------------------
+ * Lists leech cards (for one deck or all decks) with their full review history
+ * so they can be rewritten, split into smaller cards, deleted or unsuspended.
+ */
+type RepairMode =
+  | { kind: 'edit'; front: string; back: string; resetLapses: boolean }
+  | { kind: 'split'; parts: { front: string; back: string }[] };
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+const LeechRepair: React.FC = () => {
+  const { deckId } = useParams<{ deckId?: string }>();
+  const navigate = useNavigate();
+  const { decks, getLeeches, repairLeech, splitLeech, setCardSuspended, deleteCard } = useStudy();
+  const deck = decks.find(d => d.id === deckId);
+
+  const [leeches, setLeeches] = useState<LeechCard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [repairing, setRepairing] = useState<Record<string, RepairMode>>({});
+
+  useEffect(() => {
+    const loadLeeches = async () => {
+      setLoading(true);
+      try {
+        setLeeches(await getLeeches(deckId));
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load leeches:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load leeches');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadLeeches();
+  }, [deckId, getLeeches]);
+
+  const setMode = (cardId: string, mode: RepairMode | null) => {
+    setRepairing(prev => {
+      const next = { ...prev };
+      if (mode) next[cardId] = mode; else delete next[cardId];
+      return next;
+    });
+  };
+
+  // Runs a repair action and drops the card from the list when it is no longer a leech
+  const run = async (card: LeechCard, action: () => Promise<void>, remove: boolean, updated?: Partial<LeechCard>) => {
+    try {
+      await action();
+      setLeeches(prev => remove
+        ? prev.filter(c => c.id !== card.id)
+        : prev.map(c => c.id === card.id ? { ...c, ...updated } : c));
+      setMode(card.id, null);
+      setError(null);
+    } catch (err) {
+      console.error('Leech repair failed:', err);
+      setError(err instanceof Error ? err.message : 'Leech repair failed');
+    }
+  };
+
+  const handleSaveEdit = (card: LeechCard, mode: Extract<RepairMode, { kind: 'edit' }>) =>
+    run(
+      card,
+      () => repairLeech(card, { front: mode.front, back: mode.back }, mode.resetLapses),
+      mode.resetLapses,
+      { front: mode.front, back: mode.back }
+    );
+
+  const handleSplit = (card: LeechCard, mode: Extract<RepairMode, { kind: 'split' }>) => {
+    const parts = mode.parts.filter(part => part.front.trim() && part.back.trim());
+    if (parts.length < 2) {
+      setError('Splitting needs at least two complete cards.');
+      return;
+    }
+    run(card, () => splitLeech(card, parts), true);
+  };
+
+  const handleDelete = (card: LeechCard) => {
+    if (!confirm('Delete this card and its review history?')) return;
+    run(card, () => deleteCard(card.id), true);
+  };
+
+  const inputClass = 'w-full p-2 border border-neutral-200 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-100 rounded-lg text-sm';
+  const buttonClass = 'px-3 py-1.5 text-sm rounded-lg flex items-center space-x-1 transition-colors';
+
+  return (
+    <div className="max-w-5xl mx-auto p-4">
+      <button onClick={() => navigate(deckId ? `/deck/${deckId}` : '/dashboard')} className="mb-4 flex items-center text-primary-600">
+        <ArrowLeft className="w-4 h-4 mr-1" />Back
+      </button>
+
+      <h1 className="text-3xl font-extrabold text-neutral-900 dark:text-neutral-100 mb-1">Leech Repair</h1>
+      <p className="text-sm text-neutral-500 dark:text-neutral-400 mb-6">
+        {deck ? `${deck.name}: ` : ''}cards you keep forgetting. Rewrite them, split them into smaller cards, or delete them.
+      </p>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <p className="text-neutral-500">Loading leeches...</p>
+      ) : leeches.length === 0 ? (
+        <p className="text-neutral-500">No leeches here. 🎉</p>
+      ) : (
+        <div className="space-y-6">
+          {leeches.map(card => {
+            const mode = repairing[card.id];
+            return (
+              <div key={card.id} className="p-5 bg-white dark:bg-neutral-800 border border-neutral-200 dark:border-neutral-700 rounded-2xl shadow space-y-4">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-neutral-500 dark:text-neutral-400">
+                  {!deckId && <span className="font-semibold text-neutral-700 dark:text-neutral-300">{card.deckName}</span>}
+                  <span>{card.lapseCount} lapses</span>
+                  <span>ease {card.easeFactor.toFixed(2)}</span>
+                  <span>interval {card.interval}d</span>
+                  {card.isSuspended && (
+                    <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">Suspended</span>
+                  )}
+                </div>
+
+                {mode?.kind === 'edit' ? (
+                  <div className="space-y-2">
+                    <textarea value={mode.front} onChange={(e) => setMode(card.id, { ...mode, front: e.target.value })} rows={2} className={inputClass} />
+                    <textarea value={mode.back} onChange={(e) => setMode(card.id, { ...mode, back: e.target.value })} rows={2} className={inputClass} />
+                    <label className="flex items-center space-x-2 text-sm text-neutral-700 dark:text-neutral-300">
+                      <input type="checkbox" checked={mode.resetLapses} onChange={(e) => setMode(card.id, { ...mode, resetLapses: e.target.checked })} />
+                      <span>Reset lapse count (clears the leech tag and unsuspends the card)</span>
+                    </label>
+                    <div className="flex space-x-2">
+                      <button onClick={() => handleSaveEdit(card, mode)} className={`${buttonClass} bg-primary-500 text-white hover:bg-primary-600`}>Save</button>
+                      <button onClick={() => setMode(card.id, null)} className={`${buttonClass} text-neutral-600 hover:bg-neutral-100 dark:hover:bg-neutral-700`}>Cancel</button>
+                    </div>
+                  </div>
+                ) : mode?.kind === 'split' ? (
+                  <div className="space-y-3">
+                    {mode.parts.map((part, index) => (
+                      <div key={index} className="flex items-start space-x-2">
+                        <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                          <textarea
+                            value={part.front}
+                            placeholder="Front"
+                            onChange={(e) => setMode(card.id, { ...mode, parts: mode.parts.map((p, i) => i === index ? { ...p, front: e.target.value } : p) })}
+                            rows={2}
+                            className={inputClass}
+                          />
+                          <textarea
+                            value={part.back}
+                            placeholder="Back"
+                            onChange={(e) => setMode(card.id, { ...mode, parts: mode.parts.map((p, i) => i === index ? { ...p, back: e.target.value } : p) })}
+                            rows={2}
+                            className={inputClass}
+                          />
+                        </div>
+                        <button
+                          onClick={() => setMode(card.id, { ...mode, parts: mode.parts.filter((_, i) => i !== index) })}
+                          className="p-1 text-neutral-500 hover:text-error-600"
+                          title="Remove"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => setMode(card.id, { ...mode, parts: [...mode.parts, { front: '', back: '' }] })}
+                        className={`${buttonClass} text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20`}
+                      >
+                        <Plus className="w-4 h-4" /><span>Add card</span>
+                      </button>
+                      <button onClick={() => handleSplit(card, mode)} className={`${buttonClass} bg-primary-500 text-white hover:bg-primary-600`}>
+                        Replace with {mode.parts.length} cards
+                      </button>
+                      <button onClick={() => setMode(card.id, null)} className={`${buttonClass} text-neutral-600 hover:bg-neutral-100 dark:hover:bg-neutral-700`}>Cancel</button>
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <CardContent content={card.front} className="font-medium text-neutral-800 dark:text-neutral-100 mb-1 break-words" />
+                    <CardContent content={card.back} className="text-sm text-neutral-600 dark:text-neutral-400 break-words" />
+                  </div>
+                )}
+
+                <div>
+                  <h3 className="text-xs font-semibold text-neutral-500 dark:text-neutral-400 mb-1">Review history</h3>
+                  <div className="flex flex-wrap gap-1">
+                    {card.reviews.map((review, index) => {
+                      const rating = RATING_MAPPINGS.find(r => r.value === review.rating);
+                      return (
+                        <span
+                          key={index}
+                          title={`${formatDate(review.reviewedAt)} · ${rating?.label ?? review.rating} · ${review.timeTaken}s`}
+                          className="px-1.5 py-0.5 rounded bg-neutral-100 dark:bg-neutral-700 text-xs"
+                        >
+                          {rating?.emoji ?? '?'} {formatDate(review.reviewedAt)}
+                        </span>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {!mode && (
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => setMode(card.id, { kind: 'edit', front: card.front, back: card.back, resetLapses: true })}
+                      className={`${buttonClass} text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20`}
+                    >
+                      <Pencil className="w-4 h-4" /><span>Rewrite</span>
+                    </button>
+                    <button
+                      onClick={() => setMode(card.id, { kind: 'split', parts: [{ front: card.front, back: '' }, { front: '', back: '' }] })}
+                      className={`${buttonClass} text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20`}
+                    >
+                      <Scissors className="w-4 h-4" /><span>Split</span>
+                    </button>
+                    {card.isSuspended && (
+                      <button
+                        onClick={() => run(card, () => setCardSuspended(card.id, false), false, { isSuspended: false })}
+                        className={`${buttonClass} text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20`}
+                      >
+                        <Play className="w-4 h-4" /><span>Unsuspend</span>
+                      </button>
+                    )}
+                    <button onClick={() => handleDelete(card)} className={`${buttonClass} text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20`}>
+                      <Trash2 className="w-4 h-4" /><span>Delete</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeechRepair;
@@ -9,6 +9,7 @@ void [ArrowLeft, Calendar, TrendingUp, Target, Brain, Heart, Star, Trophy, Clock
 import { useUser } from '../contexts/UserContext';
 import { useStudy } from '../contexts/StudyContext';
 import { supabase } from '../lib/supabaseClient';
+import WorkloadForecastChart from '../components/WorkloadForecastChart';
 import { getPersonalizedTip, getUserAchievements, checkAndAwardAchievements, getRelativeTimeString, type Achievement } from '../lib/dynamicContent';
 
 interface StudySession {
@@ -549,6 +550,20 @@ const Progress: React.FC = () => {
           </motion.div>
         </div>
 
+        {/* Workload Forecast */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, delay: 0.35 }}
+          className="bg-white/80 dark:bg-neutral-800/80 backdrop-blur-sm rounded-2xl p-6 border border-primary-100 dark:border-neutral-700 shadow-lg mb-8"
+        >
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xl font-bold text-neutral-800 dark:text-neutral-200">Upcoming Reviews (90 days)</h3>
+            <TrendingUp className="w-6 h-6 text-primary-500" />
+          </div>
+          <WorkloadForecastChart decks={decks} />
+        </motion.div>
+
         {/* Goals & Achievements */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Goals */}
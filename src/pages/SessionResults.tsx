@@ -34,6 +34,7 @@ interface SessionData {
   cardsPerMinute?: number;
   totalTimeSeconds?: number;
   deckId?: string;
+  filteredDeckId?: string;
   sessionDate?: string;
 }
 
@@ -65,6 +66,10 @@ const SessionResults: React.FC = () => {
     ]
   };
 
+  const studyAgainPath = sessionData.filteredDeckId
+    ? `/study/filtered/${sessionData.filteredDeckId}`
+    : sessionData.deckId ? `/study/${sessionData.deckId}` : null;
+
   const totalCards = Object.values(sessionData.performance).reduce((sum, count) => sum + count, 0);
   const positiveRate = Math.round(((sessionData.performance['😊'] + sessionData.performance['😁']) / totalCards) * 100);
 
@@ -321,11 +326,11 @@ const SessionResults: React.FC = () => {
           </button>
           
           <button
-            onClick={() => navigate(sessionData.deckId ? `/study/${sessionData.deckId}` : '/dashboard')}
+            onClick={() => navigate(studyAgainPath ?? '/dashboard')}
             className="px-8 py-4 bg-secondary-500 text-white rounded-xl hover:bg-secondary-600 transition-all duration-200 transform hover:scale-105 font-semibold shadow-lg flex items-center justify-center space-x-2"
           >
             <RefreshCw className="w-5 h-5" />
-            <span>{sessionData.deckId ? 'Study Again' : 'Back to Dashboard'}</span>
+            <span>{studyAgainPath ? 'Study Again' : 'Back to Dashboard'}</span>
           </button>
           
           <button
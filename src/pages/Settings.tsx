@@ -11,13 +11,18 @@ import {
   Brain,
   Eye,
   Calendar,
+  CalendarDays,
   BookOpen
 } from 'lucide-react';
 import { useUser } from '../contexts/UserContext';
 import { useStudy } from '../contexts/StudyContext';
 import ThemeToggle from '../components/ThemeToggle';
+import VacationPlanner from '../components/VacationPlanner';
 import { AdaptivePersonalizationEngine } from '../lib/adaptivePersonalization';
 import { supabase } from '../lib/supabaseClient';
+import { DEFAULT_EASY_DAYS, EASY_DAY_LEVELS, easyDayDistribution } from '../types/SRSTypes';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 interface RecentCard {
   id: string;
@@ -52,6 +57,7 @@ const Settings: React.FC = () => {
     email: user?.email || '',
     studyGoal: user?.studyGoal || '',
     timeZone: user?.preferences?.timeZone || getDetectedTimeZone(),
+    dayStartHour: user?.preferences?.dayStartHour ?? 0,
     showProgressPopups: user?.preferences?.showProgressPopups ?? true,
     smartBreakSuggestions: user?.preferences?.smartBreakSuggestions ?? true,
     emojiCelebrations: user?.preferences?.emojiCelebrations ?? true,
@@ -67,6 +73,7 @@ const Settings: React.FC = () => {
     adaptiveBreaks: user?.preferences?.adaptiveBreaks ?? true,
     fontSize: user?.preferences?.fontSize ?? 16,
     animations: user?.preferences?.animations ?? true,
+    easyDays: user?.preferences?.easyDays ?? DEFAULT_EASY_DAYS,
   });
 
   const tabs = [
@@ -86,6 +93,7 @@ const Settings: React.FC = () => {
       setSettings(prev => ({
         ...prev,
         timeZone: user.preferences?.timeZone ?? prev.timeZone,
+        dayStartHour: user.preferences?.dayStartHour ?? prev.dayStartHour,
         showProgressPopups: user.preferences?.showProgressPopups ?? prev.showProgressPopups,
         smartBreakSuggestions: user.preferences?.smartBreakSuggestions ?? prev.smartBreakSuggestions,
         emojiCelebrations: user.preferences?.emojiCelebrations ?? prev.emojiCelebrations,
@@ -101,6 +109,7 @@ const Settings: React.FC = () => {
         adaptiveBreaks: user.preferences?.adaptiveBreaks ?? prev.adaptiveBreaks,
         fontSize: user.preferences?.fontSize ?? prev.fontSize,
         animations: user.preferences?.animations ?? prev.animations,
+        easyDays: user.preferences?.easyDays ?? prev.easyDays,
       }));
     }
   }, [user?.preferences]);
@@ -125,6 +134,7 @@ const Settings: React.FC = () => {
           )
         `)
         .eq('owner_id', user.id)
+        .eq('review_kind', 'review')
         .order('reviewed_at', { ascending: false })
         .limit(limit);
 
@@ -183,6 +193,7 @@ const Settings: React.FC = () => {
     try {
       await updatePreferences({
         timeZone: settings.timeZone,
+        dayStartHour: settings.dayStartHour,
         showProgressPopups: settings.showProgressPopups,
         smartBreakSuggestions: settings.smartBreakSuggestions,
         emojiCelebrations: settings.emojiCelebrations,
@@ -198,6 +209,7 @@ const Settings: React.FC = () => {
         adaptiveBreaks: settings.adaptiveBreaks,
         fontSize: settings.fontSize,
         animations: settings.animations,
+        easyDays: settings.easyDays,
       });
       
       setSaveMessage('Settings saved successfully!');
@@ -305,6 +317,25 @@ const Settings: React.FC = () => {
           💡 We auto-detected your timezone, but you can change it if needed.
         </p>
       </div>
+      <div>
+        <label className="block text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+          Next Day Starts At
+        </label>
+        <select
+          value={settings.dayStartHour}
+          onChange={(e) => setSettings(prev => ({ ...prev, dayStartHour: Number(e.target.value) }))}
+          className="w-full p-3 border border-neutral-200 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-100 rounded-xl focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
+        >
+          {Array.from({ length: 24 }, (_, hour) => (
+            <option key={hour} value={hour}>
+              {new Date(2000, 0, 1, hour).toLocaleTimeString('en-US', { hour: 'numeric' })}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">
+          🌙 Reviews before this hour count towards the previous day, for daily limits and streaks.
+        </p>
+      </div>
     </div>
   );
 
@@ -408,6 +439,55 @@ const Settings: React.FC = () => {
           )}
         </div>
 
+        {/* Easy Days */}
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-800 dark:text-neutral-200 mb-2 flex items-center space-x-2">
+            <CalendarDays className="w-5 h-5 text-primary-500" />
+            <span>Easy Days</span>
+          </h3>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-4">
+            Lighten chosen weekdays. Review due dates shift away from easy days within each card's fuzz range (decks with "Spread out due dates" on).
+          </p>
+          <div className="grid grid-cols-7 gap-2">
+            {easyDayDistribution(settings.easyDays).map((share, day) => {
+              const label = WEEKDAY_LABELS[day];
+              return (
+                <div key={label} className="flex flex-col items-center space-y-2">
+                  <div className="h-24 w-full flex items-end bg-neutral-100 dark:bg-neutral-700 rounded-lg overflow-hidden">
+                    <div
+                      className="w-full bg-primary-500 transition-all duration-200"
+                      style={{ height: `${Math.min(100, Math.round(share * 7 * 50))}%` }}
+                    />
+                  </div>
+                  <span className="text-xs text-neutral-600 dark:text-neutral-400">{Math.round(share * 100)}%</span>
+                  <span className="text-sm font-medium text-neutral-800 dark:text-neutral-200">{label}</span>
+                  <select
+                    value={settings.easyDays[day]}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      setSettings(prev => ({
+                        ...prev,
+                        easyDays: prev.easyDays.map((weight, i) => (i === day ? value : weight))
+                      }));
+                    }}
+                    className="w-full p-1 text-xs border border-neutral-200 dark:border-neutral-600 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-100 rounded-lg"
+                  >
+                    {EASY_DAY_LEVELS.map(level => (
+                      <option key={level.value} value={level.value}>{level.label}</option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">
+            Bars show each day's share of a week's reviews once due dates have settled.
+          </p>
+        </div>
+
+        {/* Vacation Mode */}
+        <VacationPlanner />
+
         {/* Quick Actions */}
         <div>
           <h3 className="text-lg font-semibold text-neutral-800 dark:text-neutral-200 mb-4">Quick Actions</h3>
@@ -1,20 +1,22 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useNavigate, useParams } from 'react-router-dom';
-import { ArrowLeft, Calendar, Settings, SkipBack as Skip, HelpCircle, Flag, Volume2, Eye, EyeOff, Filter, Clock, AlertTriangle, Brain } from 'lucide-react';
+import { ArrowLeft, Calendar, Settings, SkipBack as Skip, HelpCircle, Flag, Volume2, Eye, EyeOff, Filter, Clock, AlertTriangle, Brain, Undo2 } from 'lucide-react';
 import { useStudy, EmojiRating } from '../contexts/StudyContext';
 import { useUser } from '../contexts/UserContext';
 import CardRenderer from '../components/CardRenderer';
 import StudyModeSelector from '../components/StudyModeSelector';
 import CardStateIndicator, { LearningProgress, BatchStateIndicator } from '../components/CardStateIndicator';
 import { Card, StudyMode } from '../types/CardTypes';
-import { StudyQueueCard, DeckConfig, CardState, AdvancedReviewResponse } from '../types/SRSTypes';
+import { StudyQueueCard, DeckConfig, CardState, AdvancedReviewResponse, BacklogStatus, formatInterval } from '../types/SRSTypes';
+import { AdvancedSRSEngine, vacationRange, type DateRange, type DueCounts } from '../lib/advancedSRS';
 import { supabase } from '../lib/supabaseClient';
 import { AntiBurnoutEngine } from '../lib/antiBurnoutEngine';
 import { ResponseTimeData, SmartBreakSuggestion, FatigueIndicators } from '../types/AntiBurnoutTypes';
 import RecoveryProtocol from '../components/RecoveryProtocol';
 import { RecoveryProtocol as RecoveryProtocolType } from '../types/AntiBurnoutTypes';
 import { AdaptivePersonalizationEngine, PersonalizedRecommendations } from '../lib/adaptivePersonalization';
+import { AnswerGrader, RatingSuggestion } from '../lib/answerGrading';
 
 interface PopupNotification {
   id: string;
@@ -27,22 +29,73 @@ interface PopupNotification {
   actions?: Array<{ label: string; action: () => void; }>;
 }
 
+// Everything a review changed, so it can be rolled back from the undo stack
+interface UndoEntry {
+  reviewId: number;
+  cardId: string;
+  rating: EmojiRating;
+  sessionStats: {
+    cardsStudied: number;
+    streak: number;
+    startTime: Date;
+    performance: Record<EmojiRating, number>;
+  };
+  correctStreak: number;
+  previousRating?: EmojiRating;
+  masteredCount: number;
+}
+
+const MAX_UNDO_DEPTH = 50;
+const AUTO_RATE_SECONDS = 4; // Countdown before a type-in card's suggested rating is submitted
+
+// Legacy Card shape the session UI renders, from advanced study queue cards
+const toLegacyCards = (cards: StudyQueueCard[]): Card[] => {
+  const nowIso = new Date().toISOString();
+  return (cards.map(card => ({
+    id: card.id,
+    type: card.type,
+    front: card.front,
+    back: card.back,
+    deckId: card.deckId,
+    tags: card.tags,
+    difficulty: card.difficulty,
+    lastStudied: card.lastStudied,
+    nextDue: card.nextDue,
+    interval: card.interval,
+    easeFactor: card.easeFactor,
+    reviewCount: card.reviewCount,
+    created: nowIso,
+    modified: nowIso,
+    image: card.image,
+    hint: card.hint
+  })) as unknown) as Card[];
+};
+
 const StudySession: React.FC = () => {
   const navigate = useNavigate();
-  const { deckId } = useParams<{ deckId: string }>();
+  const { deckId, filteredDeckId } = useParams<{ deckId: string; filteredDeckId: string }>();
   const { user, isAuthenticated } = useUser();
   const { 
     decks, 
     rateCard, 
     rateAdvancedCard, 
+    logPreviewReview,
+    undoAdvancedReview,
     getAdvancedStudyQueue, 
+    getStudyAheadQueue,
     getDeckConfig, 
+    getDueCounts,
+    getVacations,
+    getBacklogStatus,
+    filteredDecks,
+    getFilteredDeckQueue,
     updateStudyStats, 
     getDueCards,
     studyStats, // access real streak data
   } = useStudy();
   
   const deck = decks.find(d => d.id === deckId);
+  const filteredDeck = filteredDecks.find(f => f.id === filteredDeckId);
 
   // Authentication and loading states
   const [isLoadingAuth, setIsLoadingAuth] = useState(true);
@@ -54,6 +107,11 @@ const StudySession: React.FC = () => {
   const [showModeSelector, setShowModeSelector] = useState(false);
   const [selectedMode, setSelectedMode] = useState<StudyMode | null>(null);
   const [isRating, setIsRating] = useState(false);
+  // Filtered decks without rescheduling leave card schedules untouched (treated as such until loaded),
+  // as do cram and study-ahead sessions unless asked to reschedule
+  const previewOnly = (!!filteredDeckId && filteredDeck?.reschedule !== true) || selectedMode?.settings?.preview === true;
+  // Study ahead / cram: cards due within this many days (null = whole deck) instead of today's queue
+  const aheadDays = filteredDeckId ? undefined : selectedMode?.settings?.aheadDays;
   const [sessionStats, setSessionStats] = useState({
     cardsStudied: 0,
     streak: 0,
@@ -73,9 +131,13 @@ const StudySession: React.FC = () => {
   
   // Enhanced SRS state
   const [advancedCards, setAdvancedCards] = useState<StudyQueueCard[]>([]);
-  const [deckConfig, setDeckConfig] = useState<DeckConfig | null>(null);
+  const [deckConfigs, setDeckConfigs] = useState<Record<string, DeckConfig>>({});
+  const [dueCounts, setDueCounts] = useState<DueCounts | undefined>(undefined);
+  const [vacations, setVacations] = useState<DateRange[]>([]);
+  const [backlogStatus, setBacklogStatus] = useState<BacklogStatus | null>(null);
   const [useAdvancedSRS, setUseAdvancedSRS] = useState(true);
   const [lastReviewResult, setLastReviewResult] = useState<AdvancedReviewResponse | null>(null);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
   const [sessionStartTime, setSessionStartTime] = useState<Date>(new Date());
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
   
@@ -83,6 +145,10 @@ const StudySession: React.FC = () => {
   const [antiBurnoutEngine, setAntiBurnoutEngine] = useState<AntiBurnoutEngine | null>(null);
   const [cardShownTime, setCardShownTime] = useState<Date | null>(null);
   const [answerShownTime, setAnswerShownTime] = useState<Date | null>(null);
+  // Rating suggested from a graded type-in answer, submitted when the countdown runs out
+  const [suggestedRating, setSuggestedRating] = useState<RatingSuggestion | null>(null);
+  const [autoRateIn, setAutoRateIn] = useState<number | null>(null);
+  const submitRatingRef = useRef<(rating: EmojiRating) => void>(() => {});
   const [currentFatigueIndicators, setCurrentFatigueIndicators] = useState<FatigueIndicators | null>(null);
   const [lastBreakSuggestion, setLastBreakSuggestion] = useState<SmartBreakSuggestion | null>(null);
   const [breakSuggestionDismissed, setBreakSuggestionDismissed] = useState(false);
@@ -185,41 +251,80 @@ const StudySession: React.FC = () => {
 
   // Load real cards from Supabase for this deck (only after authentication)
   useEffect(() => {
-    if (isLoadingAuth || authError || !deckId || deckId.length !== 36) return;
+    if (isLoadingAuth || authError) return;
+    if (filteredDeckId ? filteredDeckId.length !== 36 : !deckId || deckId.length !== 36) return;
     
     const fetchCards = async () => {
       setIsLoadingCards(true);
       try {
+        // Upcoming vacations, so previews skip them like the review write does
+        getVacations()
+          .then(list => setVacations(list
+            .filter(v => v.status === 'planned')
+            .map(v => vacationRange(v.startsOn, v.endsOn))))
+          .catch(error => console.error('Error loading vacations:', error));
+
+        if (filteredDeckId) {
+          // Cards come from several decks; each is scheduled with its own deck's options
+          const response = await getFilteredDeckQueue(filteredDeckId);
+          if (!response.success) {
+            throw new Error(response.error || 'Failed to load filtered deck');
+          }
+
+          const sourceDeckIds = [...new Set(response.cards.map(card => card.deckId))];
+          const configs = await Promise.all(sourceDeckIds.map(id => getDeckConfig(id)));
+          setDeckConfigs(Object.fromEntries(sourceDeckIds.map((id, index) => [id, configs[index]])));
+          setAdvancedCards(response.cards);
+
+          const legacyCards = toLegacyCards(response.cards);
+          setAllCards(legacyCards);
+          if (!selectedMode) {
+            setSessionCards(legacyCards);
+          }
+          return;
+        }
+        if (!deckId) return;
+
         // Load deck configuration
         const config = await getDeckConfig(deckId);
-        setDeckConfig(config);
+        setDeckConfigs({ [deckId]: config });
+
+        if (aheadDays !== undefined) {
+          const response = await getStudyAheadQueue(deckId, aheadDays);
+          if (!response.success) {
+            throw new Error(response.error || 'Failed to load cards to study ahead');
+          }
+
+          const subdeckIds = [...new Set(response.cards.map(card => card.deckId))].filter(id => id !== deckId);
+          const subdeckConfigs = await Promise.all(subdeckIds.map(id => getDeckConfig(id)));
+          setDeckConfigs({
+            [deckId]: config,
+            ...Object.fromEntries(subdeckIds.map((id, index) => [id, subdeckConfigs[index]]))
+          });
+          setAdvancedCards(response.cards);
+          setAllCards(toLegacyCards(response.cards));
+          return;
+        }
 
         if (useAdvancedSRS) {
           // Use advanced SRS study queue
           const response = await getAdvancedStudyQueue(deckId, config.newCardsPerDay, 50);
           if (response.success) {
+            // Cards from subdecks are scheduled with their own deck's options
+            const subdeckIds = [...new Set(response.cards.map(card => card.deckId))].filter(id => id !== deckId);
+            const subdeckConfigs = await Promise.all(subdeckIds.map(id => getDeckConfig(id)));
+            setDeckConfigs({
+              [deckId]: config,
+              ...Object.fromEntries(subdeckIds.map((id, index) => [id, subdeckConfigs[index]]))
+            });
             setAdvancedCards(response.cards);
+
+            getBacklogStatus(deckId)
+              .then(setBacklogStatus)
+              .catch(error => console.error('Error loading backlog status:', error));
             
             // Convert to legacy Card format for backward compatibility
-            const nowIso = new Date().toISOString();
-            const legacyCards: Card[] = (response.cards.map(card => ({
-              id: card.id,
-              type: card.type,
-              front: card.front,
-              back: card.back,
-              deckId: card.deckId,
-              tags: card.tags,
-              difficulty: card.difficulty,
-              lastStudied: card.lastStudied,
-              nextDue: card.nextDue,
-              interval: card.interval,
-              easeFactor: card.easeFactor,
-              reviewCount: card.reviewCount,
-              created: nowIso,
-              modified: nowIso,
-              image: card.image,
-              hint: card.hint
-            })) as unknown) as Card[];
+            const legacyCards = toLegacyCards(response.cards);
             
             setAllCards(legacyCards);
             
@@ -245,6 +350,8 @@ const StudySession: React.FC = () => {
         }
       } catch (error) {
         console.error('Error loading cards:', error);
+        // Filtered decks have no legacy equivalent
+        if (!deckId) return;
         // Fallback to legacy system
         setUseAdvancedSRS(false);
         const dueCardsRaw = await getDueCards(deckId, 100);
@@ -259,7 +366,7 @@ const StudySession: React.FC = () => {
     };
 
     fetchCards();
-  }, [isLoadingAuth, authError, deckId, useAdvancedSRS, getDeckConfig, getAdvancedStudyQueue, getDueCards, selectedMode]);
+  }, [isLoadingAuth, authError, deckId, filteredDeckId, aheadDays, useAdvancedSRS, getDeckConfig, getVacations, getBacklogStatus, getAdvancedStudyQueue, getStudyAheadQueue, getFilteredDeckQueue, getDueCards, selectedMode]);
 
   // Apply study mode filtering when mode changes
   useEffect(() => {
@@ -312,6 +419,8 @@ const StudySession: React.FC = () => {
   }, [timeRemaining, navigate]);
 
   const currentCard = sessionCards[currentCardIndex];
+  // Options of the deck the current card belongs to (filtered decks mix several)
+  const deckConfig = deckConfigs[currentCard?.deckId ?? deckId ?? ''] ?? null;
   const totalCards = sessionCards.length;
   const rawProgress = totalCards ? ((currentCardIndex + 1) / totalCards) * 100 : 0;
   const progress = Math.min(100, rawProgress);
@@ -327,6 +436,46 @@ const StudySession: React.FC = () => {
     };
   }, [allCards]);
 
+  // Refresh due counts for each new card so load-balanced previews reflect reviews (and undos) so far
+  useEffect(() => {
+    if (!useAdvancedSRS || !deckConfig?.loadBalancing || !currentCard) {
+      setDueCounts(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    getDueCounts(currentCard.deckId, deckConfig.maximumInterval + 1)
+      .then(counts => { if (!cancelled) setDueCounts(counts); })
+      .catch(error => console.error('Error loading due counts:', error));
+
+    return () => { cancelled = true; };
+  }, [useAdvancedSRS, deckConfig, currentCard, getDueCounts]);
+
+  // Next interval each answer button would produce, from the same scheduler the review write uses
+  const intervalPreviews = useMemo(() => {
+    if (!showAnswer || !currentCard || !useAdvancedSRS || !deckConfig || previewOnly) return null;
+
+    const advancedCard = advancedCards.find(ac => ac.id === currentCard.id);
+    if (!advancedCard) return null;
+
+    try {
+      const predictions = AdvancedSRSEngine.predictNextDue(advancedCard, deckConfig, {
+        dueCounts,
+        easyDays: user?.preferences?.easyDays,
+        timeZone: user?.preferences?.timeZone,
+        dayStartHour: user?.preferences?.dayStartHour,
+        vacations,
+        earlyReview: aheadDays !== undefined
+      });
+      return Object.fromEntries(
+        Object.entries(predictions).map(([emoji, prediction]) => [emoji, formatInterval(prediction.interval)])
+      ) as Record<EmojiRating, string>;
+    } catch (error) {
+      console.error('Error previewing intervals:', error);
+      return null;
+    }
+  }, [showAnswer, currentCard, useAdvancedSRS, deckConfig, previewOnly, aheadDays, advancedCards, dueCounts, user?.preferences, vacations]);
+
   // Anti-burnout monitoring - check fatigue indicators every few cards
   useEffect(() => {
     if (sessionStats.cardsStudied > 0 && sessionStats.cardsStudied % 3 === 0) {
@@ -360,9 +509,22 @@ const StudySession: React.FC = () => {
     if (currentCard && !showAnswer) {
       setCardShownTime(new Date());
       setAnswerShownTime(null);
+      setSuggestedRating(null);
+      setAutoRateIn(null);
     }
   }, [currentCardIndex, currentCard, showAnswer]);
 
+  // Count down to the suggested rating; any rating button overrides it
+  useEffect(() => {
+    if (!suggestedRating || autoRateIn === null || isRating) return;
+    if (autoRateIn <= 0) {
+      submitRatingRef.current(suggestedRating.rating);
+      return;
+    }
+    const timer = setTimeout(() => setAutoRateIn(autoRateIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [suggestedRating, autoRateIn, isRating]);
+
   useEffect(() => {
     // Adaptive celebration frequency (replaces static every-5-cards)
     const celebrationTrigger = personalizedRecommendations?.celebrationTrigger ?? 5;
@@ -529,13 +691,14 @@ const StudySession: React.FC = () => {
       retentionRate,
       streak: currentStreak,
       tomorrowForecast,
-      deckName: deck?.name ?? 'Deck',
+      deckName: deck?.name ?? filteredDeck?.name ?? 'Deck',
       improvements: improvements.length > 0 ? improvements : ["Session completed successfully!"],
       weakestCards,
       sessionMode: selectedMode?.name || 'Normal Study',
       cardsPerMinute,
       totalTimeSeconds: timeSpent,
       deckId: deckId || '',
+      filteredDeckId,
       sessionDate: new Date().toISOString(),
       fatigueScore: finalFatigueIndicators.overallFatigueScore,
       fatigueIndicators: finalFatigueIndicators,
@@ -554,12 +717,37 @@ const StudySession: React.FC = () => {
     // Prevent double-clicking
     if (isRating) return;
     setIsRating(true);
+    setSuggestedRating(null);
+    setAutoRateIn(null);
+
+    // Session state as it was before this review, for undo
+    const undoSnapshot = currentCard ? {
+      cardId: currentCard.id,
+      rating,
+      sessionStats,
+      correctStreak: correctStreakRef.current,
+      previousRating: previousRatings.current[currentCard.id],
+      masteredCount
+    } : null;
     
     try {
-      // Record response time for anti-burnout analysis
-      await recordResponseTime(rating);
+      // Record response time for anti-burnout analysis; preview answers are not study load
+      if (!previewOnly) {
+        await recordResponseTime(rating);
+      }
       
-      if (currentCard) {
+      if (currentCard && previewOnly) {
+        try {
+          // Logged for the record only; the schedule is untouched and undo_review deletes the entry
+          const responseTime = cardShownTime ? Date.now() - cardShownTime.getTime() : undefined;
+          const reviewId = await logPreviewReview(currentCard.id, rating, responseTime);
+          if (undoSnapshot) {
+            setUndoStack(prev => [...prev, { ...undoSnapshot, reviewId }].slice(-MAX_UNDO_DEPTH));
+          }
+        } catch (error) {
+          console.error('Error logging preview review:', error);
+        }
+      } else if (currentCard) {
         try {
           if (useAdvancedSRS && deckConfig) {
             // Use advanced SRS rating with response time tracking
@@ -572,10 +760,16 @@ const StudySession: React.FC = () => {
               currentCard.id, 
               rating, 
               responseTime, 
-              hesitationTime
+              hesitationTime,
+              aheadDays !== undefined
             );
             
             setLastReviewResult(result);
+
+            if (result.success && result.reviewId !== undefined && undoSnapshot) {
+              const entry: UndoEntry = { ...undoSnapshot, reviewId: result.reviewId };
+              setUndoStack(prev => [...prev, entry].slice(-MAX_UNDO_DEPTH));
+            }
             
             // Show transition notifications
             if (result.success && result.transitions) {
@@ -593,10 +787,16 @@ const StudySession: React.FC = () => {
                 showPopup({
                   id: `leech-${Date.now()}`,
                   type: 'fatigue_warning',
-                  message: 'Card marked as leech - consider reviewing or editing',
+                  message: result.card.isSuspended
+                    ? 'Card marked as leech and suspended - fix it on the leech repair screen'
+                    : 'Card tagged as leech - consider reviewing or editing',
                   emoji: '⚠️',
                   duration: 5000,
-                  priority: 'medium'
+                  priority: 'medium',
+                  actionable: true,
+                  actions: [
+                    { label: 'Repair leeches', action: () => navigate(`/deck/${currentCard.deckId}/leeches`) },
+                  ],
                 });
               }
               
@@ -708,8 +908,10 @@ const StudySession: React.FC = () => {
       }
     }
 
-    // Update global stats
-    updateStudyStats(rating);
+    // Update global stats - previews count only in the review log
+    if (!previewOnly) {
+      updateStudyStats(rating);
+    }
     
     // Move to next card or end session
     if (currentCardIndex < sessionCards.length - 1) {
@@ -745,6 +947,71 @@ const StudySession: React.FC = () => {
     }
   };
 
+  const handleUndo = async () => {
+    if (isRating) return;
+
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) {
+      showPopup({
+        id: `undo-empty-${Date.now()}`,
+        type: 'encouragement',
+        message: 'Nothing to undo',
+        emoji: '↩️',
+        duration: 2000,
+      });
+      return;
+    }
+
+    setIsRating(true);
+    try {
+      const restored = await undoAdvancedReview(entry.reviewId, entry.rating);
+      setUndoStack(prev => prev.slice(0, -1));
+      setAdvancedCards(prev => prev.map(card => card.id === entry.cardId ? { ...card, ...restored } : card));
+
+      // Revert session counters
+      setSessionStats(entry.sessionStats);
+      correctStreakRef.current = entry.correctStreak;
+      setMasteredCount(entry.masteredCount);
+      if (entry.previousRating) {
+        previousRatings.current[entry.cardId] = entry.previousRating;
+      } else {
+        delete previousRatings.current[entry.cardId];
+      }
+
+      // Put the card back at the front of the queue
+      const insertAt = Math.max(0, currentCardIndex - 1);
+      setSessionCards(prev => {
+        const card = prev.find(c => c.id === entry.cardId);
+        if (!card) return prev;
+        const rest = prev.filter(c => c.id !== entry.cardId);
+        rest.splice(insertAt, 0, card);
+        return rest;
+      });
+      setCurrentCardIndex(insertAt);
+      setShowAnswer(false);
+      setShowHint(false);
+
+      showPopup({
+        id: `undo-${Date.now()}`,
+        type: 'encouragement',
+        message: 'Review undone',
+        emoji: '↩️',
+        duration: 2000,
+      });
+    } catch (error) {
+      console.error('Error undoing review:', error);
+      showPopup({
+        id: `undo-error-${Date.now()}`,
+        type: 'fatigue_warning',
+        message: 'Could not undo that review',
+        emoji: '⚠️',
+        duration: 3000,
+      });
+    } finally {
+      setIsRating(false);
+    }
+  };
+
   const handleShowAnswer = () => {
     setAnswerShownTime(new Date()); // Track when answer was shown for response time analysis
     setShowAnswer(true);
@@ -829,7 +1096,8 @@ const StudySession: React.FC = () => {
         .from('study_logs')
         .insert({
           user_id: session.user.id,
-          deck_id: deckId,
+          deck_id: deckId ?? null,
+          filtered_deck_id: filteredDeckId ?? null,
           cards_studied: sessionData.cardsStudied,
           time_spent_seconds: sessionData.totalTimeSeconds,
           performance_data: {
@@ -859,6 +1127,12 @@ const StudySession: React.FC = () => {
     }
   };
 
+  submitRatingRef.current = handleRating;
+
+  // Latest state and handlers for the keyboard listener, which is registered once
+  const shortcutsRef = useRef({ showAnswer, handleShowAnswer, handleRating, handleSkip, handleBuryCard, handleUndo });
+  shortcutsRef.current = { showAnswer, handleShowAnswer, handleRating, handleSkip, handleBuryCard, handleUndo };
+
   const emojiButtons = [
     { emoji: '😞', label: 'Again', color: 'from-error-500 to-error-600', shortcut: '1' },
     { emoji: '😐', label: 'Hard', color: 'from-warning-500 to-warning-600', shortcut: '2' },
@@ -869,6 +1143,7 @@ const StudySession: React.FC = () => {
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
+      const { showAnswer, handleShowAnswer, handleRating, handleSkip, handleBuryCard, handleUndo } = shortcutsRef.current;
       if (!showAnswer) {
         if (e.key === ' ' || e.key === 'Enter') {
           e.preventDefault();
@@ -897,11 +1172,16 @@ const StudySession: React.FC = () => {
         e.preventDefault();
         handleBuryCard();
       }
+
+      if (e.key === 'z' && e.ctrlKey) {
+        e.preventDefault();
+        handleUndo();
+      }
     };
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [showAnswer, currentCard]);
+  }, []);
 
   // --------------------------------------------------
   // Fetch initial mastered-card count for milestone detection
@@ -1100,10 +1380,13 @@ const StudySession: React.FC = () => {
                   </button>
                   <div>
                     <h1 className="text-xl font-bold text-neutral-800 dark:text-neutral-200">
-                      {deck?.name ?? 'Study Session'}
+                      {deck?.name ?? filteredDeck?.name ?? 'Study Session'}
                     </h1>
                     <div className="flex items-center space-x-4 text-sm text-neutral-600 dark:text-neutral-400 mt-1">
                       <span>{currentCardIndex + 1} of {totalCards}</span>
+                      {previewOnly && (
+                        <span className="text-amber-600 dark:text-amber-400">Preview only · schedules unchanged</span>
+                      )}
                       {timeRemaining && (
                         <div className="flex items-center space-x-1">
                           <Clock className="w-4 h-4" />
@@ -1166,6 +1449,23 @@ const StudySession: React.FC = () => {
               </div>
             </div>
 
+            {/* Backlog Mode */}
+            {backlogStatus?.inBacklog && (
+              <div className="mb-6 p-4 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-200">
+                <p className="font-medium">
+                  Backlog mode: {backlogStatus.overdueCount} overdue reviews, most at-risk first
+                </p>
+                <p className="mt-1">
+                  {backlogStatus.intakeRemaining} of today's {backlogStatus.dailyIntake} backlog reviews left.
+                  At this pace you'll be caught up in {backlogStatus.daysToClear} {backlogStatus.daysToClear === 1 ? 'day' : 'days'}.
+                  {(() => {
+                    const recall = advancedCards.find(ac => ac.id === currentCard?.id)?.recallProbability;
+                    return recall !== undefined ? ` This card: ~${Math.round(recall * 100)}% recall.` : '';
+                  })()}
+                </p>
+              </div>
+            )}
+
             {/* Encouragement */}
             <motion.div
               initial={{ opacity: 0, y: 10 }}
@@ -1222,6 +1522,11 @@ const StudySession: React.FC = () => {
                     // Handle type-in or multiple choice answers
                     console.log('User answer:', userAnswer);
                   }}
+                  onGrade={(grade) => {
+                    const responseTime = cardShownTime ? Date.now() - cardShownTime.getTime() : undefined;
+                    setSuggestedRating(AnswerGrader.suggestRating(grade, responseTime));
+                    setAutoRateIn(AUTO_RATE_SECONDS);
+                  }}
                   className="mb-8"
                 />
               ) : sessionCards.length === 0 && allCards.length > 0 ? (
@@ -1288,6 +1593,15 @@ const StudySession: React.FC = () => {
                 <Flag className="w-4 h-4" />
                 <span>Bury</span>
               </button>
+              <button 
+                onClick={handleUndo}
+                disabled={undoStack.length === 0 || isRating}
+                className={`flex items-center space-x-2 px-4 py-2 bg-neutral-100 dark:bg-neutral-700 text-neutral-600 dark:text-neutral-300 rounded-xl hover:bg-neutral-200 dark:hover:bg-neutral-600 transition-colors ${undoStack.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+                title="Undo last review (Ctrl+Z)"
+              >
+                <Undo2 className="w-4 h-4" />
+                <span>Undo</span>
+              </button>
             </div>
             )}
 
@@ -1304,6 +1618,31 @@ const StudySession: React.FC = () => {
                   <h3 className="text-xl font-semibold text-neutral-800 dark:text-neutral-200 mb-6">
                     How did you do?
                   </h3>
+                  {suggestedRating && (
+                    <div className="flex flex-wrap items-center justify-center gap-3 mb-4 text-sm text-neutral-600 dark:text-neutral-300">
+                      <span>
+                        Suggested: <span className="text-lg">{suggestedRating.rating}</span> {suggestedRating.reason}
+                        {autoRateIn !== null && ` - rating in ${autoRateIn}s`}
+                      </span>
+                      {autoRateIn !== null && (
+                        <>
+                          <button
+                            onClick={() => setAutoRateIn(0)}
+                            disabled={isRating}
+                            className="px-3 py-1 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+                          >
+                            Rate now
+                          </button>
+                          <button
+                            onClick={() => setAutoRateIn(null)}
+                            className="px-3 py-1 bg-neutral-100 dark:bg-neutral-700 rounded-lg hover:bg-neutral-200 dark:hover:bg-neutral-600 transition-colors"
+                          >
+                            Let me choose
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4 max-w-2xl mx-auto">
                     {emojiButtons.map((button, index) => (
                       <motion.button
@@ -1313,10 +1652,15 @@ const StudySession: React.FC = () => {
                         transition={{ duration: 0.3, delay: index * 0.1 }}
                         onClick={() => handleRating(button.emoji as EmojiRating)}
                         disabled={isRating}
-                        className={`p-6 bg-gradient-to-r ${button.color} text-white rounded-2xl hover:scale-105 transition-all duration-200 shadow-lg hover:shadow-xl relative ${isRating ? 'opacity-50 cursor-not-allowed' : ''}`}
+                        className={`p-6 bg-gradient-to-r ${button.color} text-white rounded-2xl hover:scale-105 transition-all duration-200 shadow-lg hover:shadow-xl relative ${isRating ? 'opacity-50 cursor-not-allowed' : ''} ${suggestedRating?.rating === button.emoji ? 'ring-4 ring-offset-2 ring-primary-300 dark:ring-offset-neutral-900' : ''}`}
                       >
                         <div className="text-4xl mb-2">{button.emoji}</div>
                         <div className="text-sm font-medium">{button.label}</div>
+                        {intervalPreviews && (
+                          <div className="text-xs opacity-90 mt-1">
+                            {intervalPreviews[button.emoji as EmojiRating]}
+                          </div>
+                        )}
                         <div className="absolute top-2 right-2 text-xs opacity-75">
                           {button.shortcut}
                         </div>
@@ -64,6 +64,8 @@ export interface WorkloadBalance {
   optimalSessionLength: number; // minutes
   recommendedCardCount: number;
   overloadRisk: boolean;
+  projectedDueToday?: number; // from the workload forecast, when one was supplied
+  projectedWeekPeak?: number; // busiest day in the next 7 days of the forecast
 }
 
 export interface RecoveryProtocol {
@@ -93,5 +93,7 @@ export interface StudyMode {
     timeLimit?: number;
     cardLimit?: number;
     reviewType?: 'new' | 'due' | 'weak' | 'all';
+    aheadDays?: number | null; // Study cards due within this many days (null = the whole deck) instead of today's queue
+    preview?: boolean; // Answers are logged as previews and leave card schedules alone
   };
 }
\ No newline at end of file
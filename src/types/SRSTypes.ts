@@ -2,6 +2,18 @@
 // Comprehensive type definitions for the enhanced SRS implementation
 
 import { EmojiRating } from '../contexts/StudyContext';
+import {
+  DEFAULT_FSRS_WEIGHTS,
+  LeechAction,
+  NewCardOrder,
+  NewReviewMix,
+  ReviewSortOrder,
+  SchedulerName
+} from '../../supabase/functions/_shared/scheduler';
+
+// FSRS-5 default parameters live in the shared scheduling core
+export { DEFAULT_FSRS_WEIGHTS };
+export type { LeechAction, NewCardOrder, NewReviewMix, ReviewSortOrder };
 
 // ========================================
 // CORE SRS ENUMS AND INTERFACES
@@ -14,9 +26,12 @@ export enum CardState {
   RELEARNING = 'relearning'
 }
 
+export type SchedulerType = SchedulerName;
+
 export interface DeckConfig {
   id: string;
   deckId: string;
+  name: string; // Option group name; every deck in the group shares these settings
   
   // Learning phase settings (in minutes)
   learningSteps: number[]; // Default: [1, 10]
@@ -29,6 +44,7 @@ export interface DeckConfig {
   // Daily limits
   newCardsPerDay: number; // Default: 20
   maximumInterval: number; // Maximum days between reviews (default: 36500)
+  backlogDailyIntake: number; // Overdue reviews per day once the backlog exceeds this (default: 100)
   
   // Ease factor management
   startingEase: number; // Default: 2.5
@@ -38,16 +54,43 @@ export interface DeckConfig {
   
   // Leech detection
   lapseThreshold: number; // Number of lapses before marking as leech (default: 8)
+  leechAction: LeechAction; // Tag the leech, or tag and suspend it (default: 'suspend')
+  
+  // Scheduler selection
+  scheduler: SchedulerType; // Scheduling algorithm for this deck (default: 'sm2')
+  desiredRetention: number; // FSRS target recall probability at due time (default: 0.9)
+  fsrsWeights: number[]; // FSRS model parameters (default: DEFAULT_FSRS_WEIGHTS)
+  
+  // Due date spreading
+  loadBalancing: boolean; // Fuzz review intervals towards the least busy nearby day (default: true)
+  
+  // Sibling burying (cards of the same note wait a day once one is reviewed)
+  buryNewSiblings: boolean; // Default: true
+  buryReviewSiblings: boolean; // Default: true
+  buryLearningSiblings: boolean; // Learning and relearning cards (default: false)
+  
+  // Display order of the study queue
+  newCardOrder: NewCardOrder; // Which new cards are gathered first (default: 'deck')
+  reviewSortOrder: ReviewSortOrder; // How due reviews are sorted (default: 'due')
+  newReviewMix: NewReviewMix; // New cards mixed into, after or before reviews (default: 'reviews_first')
   
   // Metadata
   createdAt: string;
   updatedAt: string;
 }
 
+/** A named set of deck options and the decks using it */
+export interface OptionGroup {
+  id: string;
+  name: string;
+  deckIds: string[];
+}
+
 export interface EnhancedCard {
   // Base card properties
   id: string;
   deckId: string;
+  noteId?: string; // Cards generated from the same note are siblings
   type: string;
   front: string;
   back: string;
@@ -68,6 +111,10 @@ export interface EnhancedCard {
   easeFactor: number; // Current ease factor
   reviewCount: number; // Total number of reviews
   
+  // FSRS memory state (absent until the card is reviewed under FSRS)
+  stability?: number; // Days until recall probability drops to 90%
+  fsrsDifficulty?: number; // Intrinsic difficulty on a 1-10 scale
+  
   // Optional content
   hint?: string;
   image?: string;
@@ -83,8 +130,14 @@ export interface SchedulingResult {
   learningStep?: number;
   easeFactor: number;
   
+  // FSRS memory state
+  stability?: number;
+  fsrsDifficulty?: number;
+  
   // Transition flags
   graduated?: boolean; // Moved from learning to review
+  lapsed?: boolean; // Forgotten during review
+  becameLeech?: boolean; // Crossed the lapse threshold on this review
   isLeech?: boolean; // Card marked as leech
   
   // Additional metadata
@@ -98,6 +151,7 @@ export interface SchedulingResult {
 
 export interface StudyQueueCard extends EnhancedCard {
   priority: number; // 1=relearning, 2=learning, 3=due review, 4=new
+  recallProbability?: number; // Estimated chance of recall right now (review cards only)
 }
 
 export interface StudySessionConfig {
@@ -126,6 +180,38 @@ export interface SessionProgress {
   retentionRate: number; // Percentage of non-lapse ratings
 }
 
+export type FilteredDeckOrder = 'due' | 'random' | 'lapses' | 'ease' | 'recall' | 'added';
+
+// Omitted fields and empty arrays match every card
+export interface FilteredDeckQuery {
+  deckIds?: string[];
+  tags?: string[]; // Any of
+  cardStates?: CardState[];
+  minLapses?: number;
+  maxEase?: number;
+  minDaysOverdue?: number;
+  lastRatings?: number[]; // 0-3, see RATING_MAPPINGS
+}
+
+export interface FilteredDeck {
+  id: string;
+  name: string;
+  query: FilteredDeckQuery;
+  order: FilteredDeckOrder;
+  cardLimit: number;
+  reschedule: boolean; // false = preview only, schedules are left untouched
+  cardCount?: number; // Cards currently matching
+}
+
+export const FILTERED_DECK_ORDERS: { value: FilteredDeckOrder; label: string }[] = [
+  { value: 'due', label: 'Due date (most overdue first)' },
+  { value: 'recall', label: 'Lowest estimated recall first' },
+  { value: 'lapses', label: 'Most lapses first' },
+  { value: 'ease', label: 'Lowest ease first' },
+  { value: 'added', label: 'Most recently added first' },
+  { value: 'random', label: 'Random' }
+];
+
 // ========================================
 // ANALYTICS AND STATISTICS
 // ========================================
@@ -183,17 +269,30 @@ export interface ConfigPreset {
 export const DEFAULT_DECK_CONFIG: DeckConfig = {
   id: '',
   deckId: '',
+  name: 'Default',
   learningSteps: [1, 10], // 1 minute, 10 minutes
   graduatingInterval: 1, // 1 day
   easyInterval: 4, // 4 days
   relearningSteps: [10], // 10 minutes
   newCardsPerDay: 20,
+  backlogDailyIntake: 100,
   maximumInterval: 36500, // ~100 years
   startingEase: 2.5,
   easyBonus: 0.15,
   hardPenalty: 0.15,
   lapsePenalty: 0.2,
   lapseThreshold: 8,
+  leechAction: 'suspend',
+  scheduler: 'sm2',
+  desiredRetention: 0.9,
+  fsrsWeights: DEFAULT_FSRS_WEIGHTS,
+  loadBalancing: true,
+  buryNewSiblings: true,
+  buryReviewSiblings: true,
+  buryLearningSiblings: false,
+  newCardOrder: 'deck',
+  reviewSortOrder: 'due',
+  newReviewMix: 'reviews_first',
   createdAt: '',
   updatedAt: ''
 };
@@ -239,6 +338,17 @@ export const CONFIG_PRESETS: ConfigPreset[] = [
   }
 ];
 
+// Easy Days: review load multiplier per weekday, Sunday first (user preference)
+export const DEFAULT_EASY_DAYS: number[] = [1, 1, 1, 1, 1, 1, 1];
+
+export const EASY_DAY_LEVELS: { value: number; label: string }[] = [
+  { value: 1, label: 'Normal' },
+  { value: 0.75, label: '75%' },
+  { value: 0.5, label: '50%' },
+  { value: 0.25, label: '25%' },
+  { value: 0, label: 'Off' }
+];
+
 // ========================================
 // UTILITY TYPES
 // ========================================
@@ -283,6 +393,7 @@ export const RATING_MAPPINGS: RatingMapping[] = [
 
 export interface AdvancedReviewResponse {
   success: boolean;
+  reviewId?: number; // reviews row id, used to undo this review
   card: {
     id: string;
     nextDue: string;
@@ -292,6 +403,7 @@ export interface AdvancedReviewResponse {
     learningStep?: number;
     lapseCount: number;
     isLeech: boolean;
+    isSuspended?: boolean; // Leech action suspended the card
   };
   transitions?: {
     graduated: boolean;
@@ -314,6 +426,63 @@ export interface StudyQueueResponse {
   error?: string;
 }
 
+export interface BacklogStatus {
+  overdueCount: number; // Review cards due now or earlier
+  dailyIntake: number; // Overdue reviews taken on per day in backlog mode
+  intakeRemaining: number; // Of today's intake
+  inBacklog: boolean; // Overdue reviews exceed one day's intake
+  daysToClear: number; // Days until caught up at the daily intake, counting today
+  meanRecall: number | null; // Average estimated recall across overdue cards
+}
+
+export interface LeechReview {
+  rating: number; // 0-3, see RATING_MAPPINGS
+  reviewedAt: string;
+  timeTaken: number; // Seconds
+  intervalBefore: number | null; // Days
+}
+
+export interface LeechCard {
+  id: string;
+  deckId: string;
+  deckName: string;
+  type: string;
+  front: string;
+  back: string;
+  tags: string[];
+  lapseCount: number;
+  easeFactor: number;
+  interval: number;
+  isSuspended: boolean;
+  reviews: LeechReview[]; // Oldest first
+}
+
+export type BulkRescheduleAction = 'forget' | 'set_due' | 'reposition' | 'shift';
+
+// Only the options of the chosen action are read
+export interface BulkRescheduleOptions {
+  resetCounts?: boolean; // forget: also zero the review and lapse counts
+  minDays?: number; // set_due: due on a random day in [minDays, maxDays] from today
+  maxDays?: number;
+  setInterval?: boolean; // set_due: review cards take the new gap as their interval too
+  start?: number; // reposition: first position in the new-card queue
+  step?: number;
+  randomize?: boolean;
+  shiftExisting?: boolean; // reposition: move later new cards back to make room
+  days?: number; // shift: days to move due dates by (negative = earlier)
+}
+
+export interface Vacation {
+  id: number;
+  startsOn: string; // YYYY-MM-DD (UTC), first day away
+  endsOn: string; // YYYY-MM-DD (UTC), last day away
+  catchUpDays: number; // Days the post-break backlog is spread over
+  status: 'planned' | 'completed' | 'cancelled';
+  pulledForward: number;
+  postponed: number;
+  spread: number;
+}
+
 // ========================================
 // VALIDATION SCHEMAS
 // ========================================
@@ -341,6 +510,10 @@ export function validateDeckConfig(config: Partial<DeckConfig>): string[] {
     errors.push('New cards per day cannot be negative');
   }
   
+  if (config.backlogDailyIntake !== undefined && config.backlogDailyIntake <= 0) {
+    errors.push('Backlog reviews per day must be positive');
+  }
+  
   if (config.startingEase && config.startingEase < 1.3) {
     errors.push('Starting ease must be at least 1.3');
   }
@@ -349,6 +522,14 @@ export function validateDeckConfig(config: Partial<DeckConfig>): string[] {
     errors.push('Lapse threshold must be positive');
   }
   
+  if (config.desiredRetention !== undefined && (config.desiredRetention < 0.7 || config.desiredRetention > 0.99)) {
+    errors.push('Desired retention must be between 0.70 and 0.99');
+  }
+  
+  if (config.fsrsWeights && config.fsrsWeights.length !== DEFAULT_FSRS_WEIGHTS.length) {
+    errors.push(`FSRS weights must contain ${DEFAULT_FSRS_WEIGHTS.length} parameters`);
+  }
+  
   return errors;
 }
 
@@ -358,4 +539,39 @@ export function isValidCardState(state: string): state is CardState {
 
 export function isValidRating(rating: EmojiRating): boolean {
   return RATING_MAPPINGS.some(mapping => mapping.emoji === rating);
-}
\ No newline at end of file
+}
+// ========================================
+// DISPLAY HELPERS
+// ========================================
+
+/**
+ * Compact interval label for answer buttons, e.g. "10m", "3d", "1.5mo", "2y"
+ */
+export function formatInterval(days: number): string {
+  const minutes = Math.round(days * 24 * 60);
+  if (minutes < 60) return `${Math.max(1, minutes)}m`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h`;
+  if (days < 30) return `${Math.round(days)}d`;
+  if (days < 365) return `${Math.round(days / 30 * 10) / 10}mo`;
+  return `${Math.round(days / 365 * 10) / 10}y`;
+}
+
+/**
+ * Due-date input such as "0" (today), "3" or "3-7" -> [min, max] days from today, or null if invalid
+ */
+export function parseDayRange(input: string): [number, number] | null {
+  const match = input.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+  if (!match) return null;
+  const min = Number(match[1]);
+  const max = match[2] === undefined ? min : Number(match[2]);
+  return max >= min ? [min, max] : null;
+}
+
+/**
+ * Share of a week's reviews each weekday should receive under the given easy-day multipliers
+ */
+export function easyDayDistribution(easyDays: number[]): number[] {
+  const total = easyDays.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return easyDays.map(() => 1 / easyDays.length);
+  return easyDays.map(weight => weight / total);
+}
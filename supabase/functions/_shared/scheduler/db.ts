@@ -0,0 +1,166 @@
+// Shared Scheduling Core - Database Adapter
+// Maps snake_case rows from the cards/deck_configs tables to and from core shapes
+
+import {
+  CardStateName,
+  SchedulerCard,
+  SchedulerConfig,
+  SchedulerName,
+  ScheduleOutcome,
+  DEFAULT_FSRS_WEIGHTS
+} from './types.ts';
+
+export interface CardRow {
+  id?: string;
+  card_state: string | null;
+  learning_step: number | null;
+  lapse_count: number | null;
+  ease_factor: number | string | null;
+  interval: number | null;
+  review_count: number | null;
+  last_studied: string | null;
+  is_leech: boolean | null;
+  stability?: number | null;
+  fsrs_difficulty?: number | null;
+}
+
+export interface DeckConfigRow {
+  learning_steps: number[] | null;
+  graduating_interval: number | null;
+  easy_interval: number | null;
+  relearning_steps: number[] | null;
+  maximum_interval: number | null;
+  starting_ease: number | string | null;
+  easy_bonus: number | string | null;
+  hard_penalty: number | string | null;
+  lapse_penalty: number | string | null;
+  lapse_threshold: number | null;
+  scheduler?: string | null;
+  desired_retention?: number | string | null;
+  fsrs_weights?: number[] | null;
+  load_balancing?: boolean | null;
+  leech_action?: LeechAction | null;
+}
+
+export interface CardUpdate {
+  card_state: string;
+  ease_factor: number;
+  interval: number;
+  next_due: string;
+  review_count: number;
+  last_studied: string;
+  learning_step?: number;
+  lapse_count?: number;
+  is_leech?: boolean;
+  stability?: number;
+  fsrs_difficulty?: number;
+  tags?: string[];
+  is_suspended?: boolean;
+}
+
+// What happens to a card once it becomes a leech: both tag it, 'suspend' also pulls it from study
+export type LeechAction = 'suspend' | 'tag';
+
+export const LEECH_TAG = 'leech';
+
+// Study queue display order options; get_advanced_study_queue applies them
+/** Which new cards are gathered first (and so make today's new-card limit) */
+export type NewCardOrder = 'deck' | 'random' | 'tag' | 'created';
+
+/** How due reviews are sorted */
+export type ReviewSortOrder = 'due' | 'overdueness' | 'ease' | 'random';
+
+/** Where new cards go relative to reviews */
+export type NewReviewMix = 'mix' | 'reviews_first' | 'new_first';
+
+/**
+ * Card row -> core card, filling the same defaults the database columns use
+ */
+export function fromCardRow(row: CardRow): SchedulerCard {
+  return {
+    id: row.id,
+    cardState: (row.card_state || 'new') as CardStateName,
+    learningStep: row.learning_step || 0,
+    lapseCount: row.lapse_count || 0,
+    easeFactor: Number(row.ease_factor) || 2.5,
+    interval: row.interval || 1,
+    reviewCount: row.review_count || 0,
+    lastStudied: row.last_studied,
+    isLeech: row.is_leech || false,
+    stability: row.stability ?? null,
+    fsrsDifficulty: row.fsrs_difficulty ?? null
+  };
+}
+
+/**
+ * deck_configs row (as returned by get_deck_config) -> core config
+ */
+export function fromDeckConfigRow(row: DeckConfigRow): SchedulerConfig {
+  return {
+    learningSteps: row.learning_steps?.length ? row.learning_steps : [1, 10],
+    graduatingInterval: row.graduating_interval ?? 1,
+    easyInterval: row.easy_interval ?? 4,
+    relearningSteps: row.relearning_steps?.length ? row.relearning_steps : [10],
+    maximumInterval: row.maximum_interval ?? 36500,
+    startingEase: Number(row.starting_ease ?? 2.5),
+    easyBonus: Number(row.easy_bonus ?? 0.15),
+    hardPenalty: Number(row.hard_penalty ?? 0.15),
+    lapsePenalty: Number(row.lapse_penalty ?? 0.2),
+    lapseThreshold: row.lapse_threshold ?? 8,
+    scheduler: (row.scheduler || 'sm2') as SchedulerName,
+    desiredRetention: Number(row.desired_retention ?? 0.9),
+    fsrsWeights: row.fsrs_weights?.length === DEFAULT_FSRS_WEIGHTS.length
+      ? row.fsrs_weights
+      : DEFAULT_FSRS_WEIGHTS,
+    loadBalancing: row.load_balancing ?? true
+  };
+}
+
+/**
+ * Core outcome -> column values for updating the cards table
+ */
+export function toCardUpdate(outcome: ScheduleOutcome, reviewedAt: Date): CardUpdate {
+  const update: CardUpdate = {
+    card_state: outcome.cardState,
+    ease_factor: outcome.easeFactor,
+    // Whole days - the interval column is an integer
+    interval: Math.max(0, Math.round(outcome.interval)),
+    next_due: outcome.nextDue.toISOString(),
+    review_count: outcome.reviewCount,
+    last_studied: reviewedAt.toISOString()
+  };
+
+  if (outcome.learningStep !== undefined) {
+    update.learning_step = outcome.learningStep;
+  }
+  if (outcome.lapseCount !== undefined) {
+    update.lapse_count = outcome.lapseCount;
+  }
+  if (outcome.isLeech !== undefined) {
+    update.is_leech = outcome.isLeech;
+  }
+  if (outcome.stability !== undefined) {
+    update.stability = outcome.stability;
+    update.fsrs_difficulty = outcome.fsrsDifficulty;
+  }
+
+  return update;
+}
+
+/**
+ * Extra column values for a review that turns the card into a leech
+ */
+export function leechUpdate(
+  tags: string[] | null,
+  action: LeechAction | null | undefined
+): Pick<CardUpdate, 'tags' | 'is_suspended'> {
+  const update: Pick<CardUpdate, 'tags' | 'is_suspended'> = {
+    tags: tags?.includes(LEECH_TAG) ? tags : [...(tags ?? []), LEECH_TAG]
+  };
+
+  if ((action ?? 'suspend') === 'suspend') {
+    update.is_suspended = true;
+  }
+
+  return update;
+}
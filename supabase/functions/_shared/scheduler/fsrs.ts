@@ -0,0 +1,320 @@
+// Shared Scheduling Core - FSRS
+// Stability/difficulty/retrievability memory model (FSRS-5) as an alternative to SM-2
+
+import {
+  Rating,
+  SchedulerCard,
+  SchedulerConfig,
+  ScheduleOutcome,
+  MemoryState,
+  DEFAULT_FSRS_WEIGHTS,
+  addDays,
+  addMinutes
+} from './types.ts';
+
+// Forgetting curve shape: R(t, S) = (1 + FACTOR * t / S) ^ DECAY, so that R(S, S) = 0.9
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const MIN_STABILITY = 0.01;
+
+// ========================================
+// MAIN FSRS SCHEDULER CLASS
+// ========================================
+
+export class FSRSScheduler {
+
+  /**
+   * Schedule a card with FSRS - rating uses the 0-3 scale stored in the reviews table
+   */
+  static scheduleCard(
+    card: SchedulerCard,
+    rating: Rating,
+    config: SchedulerConfig,
+    now: Date
+  ): ScheduleOutcome {
+    const weights = this.resolveWeights(config);
+    const grade = rating + 1; // FSRS grades run 1 (Again) to 4 (Easy)
+
+    switch (card.cardState) {
+      case 'new':
+        return this.scheduleNewCard(card, grade, config, weights, now);
+      case 'learning':
+      case 'relearning':
+        return this.scheduleStepCard(card, grade, config, weights, now);
+      case 'review':
+        return this.scheduleReviewCard(card, grade, config, weights, now);
+      default:
+        throw new Error(`Unknown card state: ${card.cardState}`);
+    }
+  }
+
+  // ========================================
+  // STATE-SPECIFIC SCHEDULING METHODS
+  // ========================================
+
+  /**
+   * First review - seed the memory state from the initial grade
+   */
+  private static scheduleNewCard(
+    card: SchedulerCard,
+    grade: number,
+    config: SchedulerConfig,
+    w: number[],
+    now: Date
+  ): ScheduleOutcome {
+    const memory: MemoryState = {
+      stability: this.initialStability(grade, w),
+      difficulty: this.initialDifficulty(grade, w)
+    };
+
+    if (grade === 4) { // Easy - graduate immediately
+      const interval = this.nextInterval(memory.stability, config);
+      return {
+        nextDue: addDays(now, interval),
+        interval,
+        cardState: 'review',
+        easeFactor: config.startingEase,
+        stability: memory.stability,
+        fsrsDifficulty: memory.difficulty,
+        graduated: true,
+        reviewCount: card.reviewCount + 1
+      };
+    }
+
+    return {
+      nextDue: addMinutes(now, config.learningSteps[0]),
+      interval: config.learningSteps[0] / (24 * 60),
+      cardState: 'learning',
+      learningStep: 0,
+      easeFactor: config.startingEase,
+      stability: memory.stability,
+      fsrsDifficulty: memory.difficulty,
+      reviewCount: card.reviewCount + 1
+    };
+  }
+
+  /**
+   * Same-day learning and relearning steps - short-term stability update
+   */
+  private static scheduleStepCard(
+    card: SchedulerCard,
+    grade: number,
+    config: SchedulerConfig,
+    w: number[],
+    now: Date
+  ): ScheduleOutcome {
+    const relearning = card.cardState === 'relearning';
+    const steps = relearning ? config.relearningSteps : config.learningSteps;
+    const current = this.getMemoryState(card, config, w);
+    const memory: MemoryState = {
+      stability: this.shortTermStability(current.stability, grade, w),
+      difficulty: this.nextDifficulty(current.difficulty, grade, w)
+    };
+
+    // Failed - restart the current phase
+    if (grade === 1) {
+      const newLapseCount = relearning ? card.lapseCount + 1 : undefined;
+      const isLeech = newLapseCount !== undefined ? newLapseCount >= config.lapseThreshold : undefined;
+      return {
+        nextDue: addMinutes(now, steps[0]),
+        interval: steps[0] / (24 * 60),
+        cardState: card.cardState,
+        learningStep: 0,
+        easeFactor: card.easeFactor,
+        stability: memory.stability,
+        fsrsDifficulty: memory.difficulty,
+        lapseCount: newLapseCount,
+        isLeech,
+        becameLeech: !!isLeech && !card.isLeech,
+        reviewCount: card.reviewCount + 1
+      };
+    }
+
+    const nextStep = (card.learningStep || 0) + 1;
+
+    // Easy, or last step completed - graduate to review
+    if (grade === 4 || nextStep >= steps.length) {
+      const interval = this.nextInterval(memory.stability, config);
+      return {
+        nextDue: addDays(now, interval),
+        interval,
+        cardState: 'review',
+        easeFactor: card.easeFactor,
+        stability: memory.stability,
+        fsrsDifficulty: memory.difficulty,
+        graduated: true,
+        reviewCount: card.reviewCount + 1
+      };
+    }
+
+    const nextStepMinutes = steps[nextStep];
+    return {
+      nextDue: addMinutes(now, nextStepMinutes),
+      interval: nextStepMinutes / (24 * 60),
+      cardState: card.cardState,
+      learningStep: nextStep,
+      easeFactor: card.easeFactor,
+      stability: memory.stability,
+      fsrsDifficulty: memory.difficulty,
+      reviewCount: card.reviewCount + 1
+    };
+  }
+
+  /**
+   * Review phase - long-term stability update from current retrievability
+   */
+  private static scheduleReviewCard(
+    card: SchedulerCard,
+    grade: number,
+    config: SchedulerConfig,
+    w: number[],
+    now: Date
+  ): ScheduleOutcome {
+    const current = this.getMemoryState(card, config, w);
+    const elapsedDays = card.lastStudied
+      ? Math.max(0, (now.getTime() - new Date(card.lastStudied).getTime()) / (1000 * 60 * 60 * 24))
+      : card.interval;
+    const r = this.retrievability(elapsedDays, current.stability);
+    const difficulty = this.nextDifficulty(current.difficulty, grade, w);
+
+    // Failed - lapse into relearning
+    if (grade === 1) {
+      const newLapseCount = card.lapseCount + 1;
+      const isLeech = newLapseCount >= config.lapseThreshold;
+      return {
+        nextDue: addMinutes(now, config.relearningSteps[0]),
+        interval: config.relearningSteps[0] / (24 * 60),
+        cardState: 'relearning',
+        learningStep: 0,
+        easeFactor: card.easeFactor,
+        stability: this.forgetStability(current, r, w),
+        fsrsDifficulty: difficulty,
+        lapseCount: newLapseCount,
+        isLeech,
+        lapsed: true,
+        becameLeech: isLeech && !card.isLeech,
+        reviewCount: card.reviewCount + 1
+      };
+    }
+
+    // Keep Hard < Good < Easy so every button means something different
+    const intervalFor = (g: number) =>
+      this.nextInterval(this.recallStability(current, r, g, w), config);
+    const hardInterval = Math.min(intervalFor(2), intervalFor(3));
+    const goodInterval = Math.max(intervalFor(3), hardInterval + 1);
+    const easyInterval = Math.max(intervalFor(4), goodInterval + 1);
+    const interval = Math.min(
+      grade === 2 ? hardInterval : grade === 3 ? goodInterval : easyInterval,
+      config.maximumInterval
+    );
+
+    return {
+      nextDue: addDays(now, interval),
+      interval,
+      cardState: 'review',
+      easeFactor: card.easeFactor,
+      stability: this.recallStability(current, r, grade, w),
+      fsrsDifficulty: difficulty,
+      reviewCount: card.reviewCount + 1
+    };
+  }
+
+  // ========================================
+  // FSRS MODEL FORMULAS
+  // ========================================
+
+  /**
+   * Probability of recall after elapsedDays for a memory of the given stability
+   */
+  static retrievability(elapsedDays: number, stability: number): number {
+    return Math.pow(1 + FACTOR * elapsedDays / Math.max(stability, MIN_STABILITY), DECAY);
+  }
+
+  /**
+   * Days until retrievability decays to the deck's desired retention
+   */
+  static nextInterval(stability: number, config: SchedulerConfig): number {
+    const raw = (stability / FACTOR) * (Math.pow(config.desiredRetention, 1 / DECAY) - 1);
+    return Math.min(Math.max(1, Math.round(raw)), config.maximumInterval);
+  }
+
+  static initialStability(grade: number, w: number[]): number {
+    return Math.max(w[grade - 1], MIN_STABILITY);
+  }
+
+  static initialDifficulty(grade: number, w: number[]): number {
+    return this.clampDifficulty(w[4] - Math.exp(w[5] * (grade - 1)) + 1);
+  }
+
+  /**
+   * Difficulty update, damped linearly as difficulty nears 10, then mean
+   * reversion towards the Easy initial difficulty
+   */
+  static nextDifficulty(difficulty: number, grade: number, w: number[]): number {
+    const updated = difficulty - w[6] * (grade - 3) * (MAX_DIFFICULTY - difficulty) / 9;
+    const target = w[4] - Math.exp(w[5] * 3) + 1;
+    return this.clampDifficulty(w[7] * target + (1 - w[7]) * updated);
+  }
+
+  static recallStability(memory: MemoryState, r: number, grade: number, w: number[]): number {
+    const hardPenalty = grade === 2 ? w[15] : 1;
+    const easyBonus = grade === 4 ? w[16] : 1;
+    const growth = Math.exp(w[8])
+      * (11 - memory.difficulty)
+      * Math.pow(memory.stability, -w[9])
+      * (Math.exp(w[10] * (1 - r)) - 1)
+      * hardPenalty
+      * easyBonus;
+    return Math.max(memory.stability * (growth + 1), MIN_STABILITY);
+  }
+
+  static forgetStability(memory: MemoryState, r: number, w: number[]): number {
+    const stability = w[11]
+      * Math.pow(memory.difficulty, -w[12])
+      * (Math.pow(memory.stability + 1, w[13]) - 1)
+      * Math.exp(w[14] * (1 - r));
+    return Math.max(Math.min(stability, memory.stability), MIN_STABILITY);
+  }
+
+  static shortTermStability(stability: number, grade: number, w: number[]): number {
+    return Math.max(stability * Math.exp(w[17] * (grade - 3 + w[18])), MIN_STABILITY);
+  }
+
+  // ========================================
+  // MEMORY STATE HELPERS
+  // ========================================
+
+  /**
+   * Current memory state, estimated from SM-2 fields for cards that predate FSRS
+   */
+  static getMemoryState(card: SchedulerCard, config: SchedulerConfig, w: number[] = this.resolveWeights(config)): MemoryState {
+    if (card.stability && card.fsrsDifficulty) {
+      return { stability: card.stability, difficulty: card.fsrsDifficulty };
+    }
+
+    if (card.cardState !== 'review' && card.cardState !== 'relearning') {
+      return { stability: this.initialStability(3, w), difficulty: this.initialDifficulty(3, w) };
+    }
+
+    // Assume the SM-2 interval was tuned to hit the desired retention at due time
+    const retentionFactor = Math.pow(config.desiredRetention, 1 / DECAY) - 1;
+    const stability = Math.max(card.interval, 1) * FACTOR / retentionFactor;
+    // Ease 1.3 maps to the hardest difficulty, the default 2.5 to the midpoint
+    const difficulty = this.clampDifficulty(5.5 + (2.5 - card.easeFactor) * (4.5 / 1.2));
+
+    return { stability, difficulty };
+  }
+
+  static resolveWeights(config: SchedulerConfig): number[] {
+    return config.fsrsWeights?.length === DEFAULT_FSRS_WEIGHTS.length
+      ? config.fsrsWeights
+      : DEFAULT_FSRS_WEIGHTS;
+  }
+
+  private static clampDifficulty(difficulty: number): number {
+    return Math.min(Math.max(difficulty, MIN_DIFFICULTY), MAX_DIFFICULTY);
+  }
+}
@@ -0,0 +1,51 @@
+// Shared Scheduling Core
+// Single source of truth for card scheduling. The web client imports this for
+// previews and predictions; submit_advanced_review imports it for the write,
+// so what the user sees on a button is exactly what gets stored.
+
+import { LoadContext, Rating, SchedulerCard, SchedulerConfig, ScheduleOutcome } from './types.ts';
+import { SM2Scheduler } from './sm2.ts';
+import { FSRSScheduler } from './fsrs.ts';
+import { LoadBalancer } from './loadBalancer.ts';
+import { StudyDay } from './studyDay.ts';
+
+export * from './types.ts';
+export { SM2Scheduler } from './sm2.ts';
+export { FSRSScheduler } from './fsrs.ts';
+export { LoadBalancer } from './loadBalancer.ts';
+export { StudyDay, type DayBoundary } from './studyDay.ts';
+export * from './db.ts';
+
+/**
+ * Schedule a card with the deck's configured algorithm.
+ * load (due counts per day, easy-day weights) lets load balancing pick the quietest day.
+ */
+export function scheduleCard(
+  card: SchedulerCard,
+  rating: Rating,
+  config: SchedulerConfig,
+  now: Date = new Date(),
+  load: LoadContext = {}
+): ScheduleOutcome {
+  if (rating < 0 || rating > 3) {
+    throw new Error(`Rating must be between 0 and 3, got ${rating}`);
+  }
+
+  // FSRS already weighs the time elapsed, so only SM-2 needs the early-review rule
+  const outcome = config.scheduler === 'fsrs'
+    ? FSRSScheduler.scheduleCard(card, rating, config, now)
+    : load.earlyReview
+      ? SM2Scheduler.scheduleEarlyReview(card, rating, config, now)
+      : SM2Scheduler.scheduleCard(card, rating, config, now);
+
+  const balanced = !config.loadBalancing || outcome.cardState !== 'review'
+    ? outcome
+    : LoadBalancer.balance(outcome, config, `${card.id ?? ''}:${card.reviewCount}`, load, now);
+
+  // Day-based reviews are due from the start of the user's study day, not the minute of the last review
+  const aligned = load.dayStartHour === undefined || balanced.cardState !== 'review'
+    ? balanced
+    : { ...balanced, nextDue: StudyDay.start(balanced.nextDue, load) };
+
+  return LoadBalancer.skipVacations(aligned, load.vacations, now);
+}
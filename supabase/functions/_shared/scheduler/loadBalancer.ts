@@ -0,0 +1,154 @@
+// Shared Scheduling Core - Load Balancer
+// Interval fuzz plus due-date load balancing, so cards learned together drift apart
+// and reviews lean away from the user's easy days
+
+import { DateRange, LoadContext, SchedulerConfig, ScheduleOutcome, addDays } from './types.ts';
+import { StudyDay } from './studyDay.ts';
+
+// Fuzz grows with the interval: +/-15% of the part between 2.5 and 7 days,
+// +/-10% between 7 and 20 days and +/-5% beyond, plus one day
+const FUZZ_RANGES = [
+  { start: 2.5, end: 7, factor: 0.15 },
+  { start: 7, end: 20, factor: 0.1 },
+  { start: 20, end: Infinity, factor: 0.05 }
+];
+
+export class LoadBalancer {
+
+  /**
+   * Move a review outcome to the day load balancing picks within its fuzz window
+   */
+  static balance(
+    outcome: ScheduleOutcome,
+    config: SchedulerConfig,
+    seed: string,
+    load: LoadContext,
+    now: Date
+  ): ScheduleOutcome {
+    const interval = this.pickInterval(outcome.interval, config.maximumInterval, seed, load, now);
+    return { ...outcome, interval, nextDue: addDays(now, interval) };
+  }
+
+  /**
+   * Push a due date that lands inside a vacation to the moment the vacation ends.
+   * The interval is left alone so later growth is based on the scheduled interval.
+   */
+  static skipVacations(outcome: ScheduleOutcome, vacations: DateRange[] = [], now: Date = new Date()): ScheduleOutcome {
+    const vacation = vacations.find(range =>
+      outcome.nextDue >= range.start && outcome.nextDue < range.end && range.end > now
+    );
+    return vacation ? { ...outcome, nextDue: new Date(vacation.end) } : outcome;
+  }
+
+  /**
+   * Acceptable [min, max] interval window around the ideal interval
+   */
+  static fuzzRange(interval: number, maximumInterval: number): [number, number] {
+    if (interval < 2.5) {
+      return [interval, interval];
+    }
+
+    const delta = FUZZ_RANGES.reduce(
+      (sum, range) => sum + range.factor * Math.max(0, Math.min(interval, range.end) - range.start),
+      1
+    );
+
+    const min = Math.max(2, Math.round(interval - delta));
+    const max = Math.min(maximumInterval, Math.round(interval + delta));
+    return [Math.min(min, max), max];
+  }
+
+  /**
+   * Pick the interval to schedule: the day in the fuzz window with the lowest
+   * load relative to its easy-day multiplier when due counts are known,
+   * otherwise a seeded random day weighted by the multipliers.
+   * The same seed always yields the same choice.
+   */
+  static pickInterval(
+    interval: number,
+    maximumInterval: number,
+    seed: string,
+    load: LoadContext = {},
+    now: Date = new Date()
+  ): number {
+    const [min, max] = this.fuzzRange(interval, maximumInterval);
+    if (min === max) {
+      return min;
+    }
+
+    const random = this.seededRandom(seed);
+    const days: number[] = [];
+    const weights: number[] = [];
+    for (let day = min; day <= max; day++) {
+      days.push(day);
+      weights.push(this.dayWeight(addDays(now, day), load));
+    }
+
+    // Every day in the window is an avoided day - fall back to treating them equally
+    if (!weights.some(weight => weight > 0)) {
+      weights.fill(1);
+    }
+
+    if (!load.dueCounts) {
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      let target = random * total;
+      for (let i = 0; i < days.length; i++) {
+        target -= weights[i];
+        if (target < 0) {
+          return days[i];
+        }
+      }
+      return days[days.length - 1];
+    }
+
+    let lowest = Infinity;
+    let candidates: number[] = [];
+    days.forEach((day, i) => {
+      if (weights[i] === 0) return;
+      // +1 so an empty easy day still ranks behind an empty normal day
+      const score = ((load.dueCounts![day] ?? 0) + 1) / weights[i];
+      if (score < lowest) {
+        lowest = score;
+        candidates = [day];
+      } else if (score === lowest) {
+        candidates.push(day);
+      }
+    });
+
+    return candidates[Math.floor(random * candidates.length)];
+  }
+
+  /**
+   * Easy-day multiplier for the weekday of the study day a date falls in (1 when none are set)
+   */
+  static dayWeight(date: Date, load: LoadContext): number {
+    if (!load.easyDays || load.easyDays.length !== 7) {
+      return 1;
+    }
+    const weight = Number(load.easyDays[StudyDay.weekday(date, load)]);
+    return Number.isFinite(weight) ? Math.min(Math.max(weight, 0), 1) : 1;
+  }
+
+  /**
+   * Day of the week (0 = Sunday) in the given time zone, or the runtime's local zone
+   */
+  static weekday(date: Date, timeZone?: string): number {
+    return StudyDay.weekday(date, { timeZone });
+  }
+
+  /**
+   * Deterministic value in [0, 1) from a string seed (FNV-1a hash, then one mulberry32 step)
+   */
+  static seededRandom(seed: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+      hash ^= seed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+
+    let t = (hash + 0x6d2b79f5) >>> 0;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
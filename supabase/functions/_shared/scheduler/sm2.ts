@@ -0,0 +1,315 @@
+// Shared Scheduling Core - SM-2
+// Ease/interval scheduling with learning and relearning steps
+
+import {
+  Rating,
+  SchedulerCard,
+  SchedulerConfig,
+  ScheduleOutcome,
+  MINIMUM_EASE,
+  addDays,
+  addMinutes
+} from './types.ts';
+
+export class SM2Scheduler {
+
+  static scheduleCard(
+    card: SchedulerCard,
+    rating: Rating,
+    config: SchedulerConfig,
+    now: Date
+  ): ScheduleOutcome {
+    switch (card.cardState) {
+      case 'new':
+        return this.scheduleNewCard(card, rating, config, now);
+      case 'learning':
+        return this.scheduleLearningCard(card, rating, config, now);
+      case 'review':
+        return this.scheduleReviewCard(card, rating, config, now);
+      case 'relearning':
+        return this.scheduleRelearningCard(card, rating, config, now);
+      default:
+        throw new Error(`Unknown card state: ${card.cardState}`);
+    }
+  }
+
+  /**
+   * A review card answered before it was due. The ease multiplier applies to
+   * the days actually elapsed rather than the full interval, and a passing
+   * answer never shortens the interval (Hard may halve the usual growth).
+   * Anything else - a lapse, a card not in review, or one already due - is
+   * scheduled as usual.
+   */
+  static scheduleEarlyReview(
+    card: SchedulerCard,
+    rating: Rating,
+    config: SchedulerConfig,
+    now: Date
+  ): ScheduleOutcome {
+    const elapsedDays = card.lastStudied
+      ? (now.getTime() - new Date(card.lastStudied).getTime()) / (24 * 60 * 60 * 1000)
+      : card.interval;
+
+    if (card.cardState !== 'review' || rating === 0 || elapsedDays >= card.interval) {
+      return this.scheduleCard(card, rating, config, now);
+    }
+
+    const easeFactor = this.updateEaseFactor(card.easeFactor, rating, config);
+    const factor = rating === 1 ? 1.2 : rating === 3 ? easeFactor * 1.3 : easeFactor;
+    const minimum = rating === 1 ? card.interval * factor / 2 : card.interval;
+    const interval = Math.min(
+      Math.max(1, Math.round(Math.max(elapsedDays * factor, minimum))),
+      config.maximumInterval
+    );
+
+    return {
+      nextDue: addDays(now, interval),
+      interval,
+      cardState: 'review',
+      easeFactor,
+      reviewCount: card.reviewCount + 1
+    };
+  }
+
+  // ========================================
+  // STATE-SPECIFIC SCHEDULING METHODS
+  // ========================================
+
+  /**
+   * First review - Easy graduates immediately, anything else starts the learning steps
+   */
+  private static scheduleNewCard(
+    card: SchedulerCard,
+    rating: Rating,
+    config: SchedulerConfig,
+    now: Date
+  ): ScheduleOutcome {
+    if (rating === 3) {
+      return {
+        nextDue: addDays(now, config.easyInterval),
+        interval: config.easyInterval,
+        cardState: 'review',
+        easeFactor: config.startingEase + config.easyBonus,
+        graduated: true,
+        reviewCount: card.reviewCount + 1
+      };
+    }
+
+    return {
+      nextDue: addMinutes(now, config.learningSteps[0]),
+      interval: config.learningSteps[0] / (24 * 60),
+      cardState: 'learning',
+      learningStep: 0,
+      easeFactor: config.startingEase,
+      reviewCount: card.reviewCount + 1
+    };
+  }
+
+  private static scheduleLearningCard(
+    card: SchedulerCard,
+    rating: Rating,
+    config: SchedulerConfig,
+    now: Date
+  ): ScheduleOutcome {
+    // Failed - restart learning from the first step
+    if (rating === 0) {
+      return {
+        nextDue: addMinutes(now, config.learningSteps[0]),
+        interval: config.learningSteps[0] / (24 * 60),
+        cardState: 'learning',
+        learningStep: 0,
+        easeFactor: card.easeFactor,
+        reviewCount: card.reviewCount + 1
+      };
+    }
+
+    // Easy - graduate immediately
+    if (rating === 3) {
+      return {
+        nextDue: addDays(now, config.easyInterval),
+        interval: config.easyInterval,
+        cardState: 'review',
+        easeFactor: card.easeFactor + config.easyBonus,
+        graduated: true,
+        reviewCount: card.reviewCount + 1
+      };
+    }
+
+    const easeFactor = rating === 1 ? this.applyHardPenalty(card.easeFactor, config) : card.easeFactor;
+    const nextStep = (card.learningStep || 0) + 1;
+
+    if (nextStep >= config.learningSteps.length) {
+      return {
+        nextDue: addDays(now, config.graduatingInterval),
+        interval: config.graduatingInterval,
+        cardState: 'review',
+        easeFactor,
+        graduated: true,
+        reviewCount: card.reviewCount + 1
+      };
+    }
+
+    const nextStepMinutes = config.learningSteps[nextStep];
+    return {
+      nextDue: addMinutes(now, nextStepMinutes),
+      interval: nextStepMinutes / (24 * 60),
+      cardState: 'learning',
+      learningStep: nextStep,
+      easeFactor,
+      reviewCount: card.reviewCount + 1
+    };
+  }
+
+  private static scheduleReviewCard(
+    card: SchedulerCard,
+    rating: Rating,
+    config: SchedulerConfig,
+    now: Date
+  ): ScheduleOutcome {
+    // Failed - lapse into relearning
+    if (rating === 0) {
+      const newLapseCount = card.lapseCount + 1;
+      const isLeech = newLapseCount >= config.lapseThreshold;
+      return {
+        nextDue: addMinutes(now, config.relearningSteps[0]),
+        interval: config.relearningSteps[0] / (24 * 60),
+        cardState: 'relearning',
+        learningStep: 0,
+        easeFactor: Math.max(MINIMUM_EASE, card.easeFactor - config.lapsePenalty),
+        lapseCount: newLapseCount,
+        isLeech,
+        lapsed: true,
+        becameLeech: isLeech && !card.isLeech,
+        reviewCount: card.reviewCount + 1
+      };
+    }
+
+    const newEaseFactor = this.updateEaseFactor(card.easeFactor, rating, config);
+    const newInterval = this.calculateReviewInterval(card.interval, newEaseFactor, rating, config);
+
+    return {
+      nextDue: addDays(now, newInterval),
+      interval: newInterval,
+      cardState: 'review',
+      easeFactor: newEaseFactor,
+      reviewCount: card.reviewCount + 1
+    };
+  }
+
+  private static scheduleRelearningCard(
+    card: SchedulerCard,
+    rating: Rating,
+    config: SchedulerConfig,
+    now: Date
+  ): ScheduleOutcome {
+    // Failed - restart relearning and count another lapse
+    if (rating === 0) {
+      const newLapseCount = card.lapseCount + 1;
+      const isLeech = newLapseCount >= config.lapseThreshold;
+      return {
+        nextDue: addMinutes(now, config.relearningSteps[0]),
+        interval: config.relearningSteps[0] / (24 * 60),
+        cardState: 'relearning',
+        learningStep: 0,
+        easeFactor: Math.max(MINIMUM_EASE, card.easeFactor - config.lapsePenalty),
+        lapseCount: newLapseCount,
+        isLeech,
+        becameLeech: isLeech && !card.isLeech,
+        reviewCount: card.reviewCount + 1
+      };
+    }
+
+    // Easy - back to review at half the pre-lapse interval
+    if (rating === 3) {
+      const graduationInterval = Math.max(1, Math.round(card.interval * 0.5));
+      return {
+        nextDue: addDays(now, graduationInterval),
+        interval: graduationInterval,
+        cardState: 'review',
+        easeFactor: card.easeFactor + config.easyBonus,
+        graduated: true,
+        reviewCount: card.reviewCount + 1
+      };
+    }
+
+    const easeFactor = rating === 1 ? this.applyHardPenalty(card.easeFactor, config) : card.easeFactor;
+    const nextStep = (card.learningStep || 0) + 1;
+
+    if (nextStep >= config.relearningSteps.length) {
+      // Back to review at a quarter of the pre-lapse interval
+      const graduationInterval = Math.max(1, Math.round(card.interval * 0.25));
+      return {
+        nextDue: addDays(now, graduationInterval),
+        interval: graduationInterval,
+        cardState: 'review',
+        easeFactor,
+        graduated: true,
+        reviewCount: card.reviewCount + 1
+      };
+    }
+
+    const nextStepMinutes = config.relearningSteps[nextStep];
+    return {
+      nextDue: addMinutes(now, nextStepMinutes),
+      interval: nextStepMinutes / (24 * 60),
+      cardState: 'relearning',
+      learningStep: nextStep,
+      easeFactor,
+      reviewCount: card.reviewCount + 1
+    };
+  }
+
+  // ========================================
+  // SM-2 FORMULAS
+  // ========================================
+
+  /**
+   * Hard lowers ease by the deck's penalty, never below the SM-2 floor
+   */
+  static applyHardPenalty(easeFactor: number, config: SchedulerConfig): number {
+    return Math.max(MINIMUM_EASE, easeFactor - config.hardPenalty);
+  }
+
+  static updateEaseFactor(currentEase: number, rating: Rating, config: SchedulerConfig): number {
+    let newEase = currentEase;
+
+    switch (rating) {
+      case 0: // Again
+        newEase = Math.max(MINIMUM_EASE, currentEase - config.lapsePenalty);
+        break;
+      case 1: // Hard
+        newEase = this.applyHardPenalty(currentEase, config);
+        break;
+      case 2: // Good
+        newEase = currentEase + 0.1;
+        break;
+      case 3: // Easy
+        newEase = currentEase + config.easyBonus;
+        break;
+    }
+
+    return Math.round(newEase * 100) / 100;
+  }
+
+  static calculateReviewInterval(
+    currentInterval: number,
+    easeFactor: number,
+    rating: Rating,
+    config: SchedulerConfig
+  ): number {
+    let newInterval: number;
+
+    switch (rating) {
+      case 1: // Hard
+        newInterval = Math.max(1, Math.round(currentInterval * 1.2));
+        break;
+      case 3: // Easy
+        newInterval = Math.round(currentInterval * easeFactor * 1.3);
+        break;
+      default: // Good
+        newInterval = Math.round(currentInterval * easeFactor);
+    }
+
+    return Math.min(newInterval, config.maximumInterval);
+  }
+}
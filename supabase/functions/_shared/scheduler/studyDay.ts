@@ -0,0 +1,127 @@
+// Shared Scheduling Core - Study Day
+// A study day starts at the user's rollover hour (e.g. 4 AM) in their own time
+// zone instead of at midnight, so a late-night session still counts towards the
+// day it belongs to. Mirrors study_date / study_day_start in SQL.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Where a user's days begin */
+export interface DayBoundary {
+  timeZone?: string; // IANA zone (default: runtime local)
+  dayStartHour?: number; // Hour the next day starts at, 0-23 (default: midnight)
+}
+
+interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export class StudyDay {
+
+  /**
+   * Study date a moment belongs to, as YYYY-MM-DD
+   */
+  static dateKey(at: Date, boundary: DayBoundary = {}): string {
+    const shifted = new Date(at.getTime() - this.startHour(boundary) * HOUR_MS);
+    const { year, month, day } = this.wallClock(shifted, boundary.timeZone);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  /**
+   * Moment the study day containing `at` began
+   */
+  static start(at: Date, boundary: DayBoundary = {}): Date {
+    return this.startOfDate(this.dateKey(at, boundary), boundary);
+  }
+
+  /**
+   * Moment the study day after the one containing `at` begins
+   */
+  static nextStart(at: Date, boundary: DayBoundary = {}): Date {
+    return this.startOfDate(this.shiftDate(this.dateKey(at, boundary), 1), boundary);
+  }
+
+  /**
+   * Moment a study date (YYYY-MM-DD) begins
+   */
+  static startOfDate(dateKey: string, boundary: DayBoundary = {}): Date {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const wall = Date.UTC(year, month - 1, day, this.startHour(boundary));
+    // Guess with the offset at the wall time, then correct for a DST change in between
+    const guess = wall - this.offset(new Date(wall), boundary.timeZone);
+    return new Date(wall - this.offset(new Date(guess), boundary.timeZone));
+  }
+
+  /**
+   * Day of the week (0 = Sunday) of the study date a moment belongs to
+   */
+  static weekday(at: Date, boundary: DayBoundary = {}): number {
+    return new Date(`${this.dateKey(at, boundary)}T00:00:00Z`).getUTCDay();
+  }
+
+  /**
+   * YYYY-MM-DD moved by a number of calendar days
+   */
+  static shiftDate(dateKey: string, days: number): string {
+    const date = new Date(`${dateKey}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static startHour(boundary: DayBoundary): number {
+    const hour = Math.floor(Number(boundary.dayStartHour ?? 0));
+    return Number.isFinite(hour) ? Math.min(Math.max(hour, 0), 23) : 0;
+  }
+
+  /**
+   * Wall clock reading in a zone, or in the runtime's local zone
+   */
+  private static wallClock(at: Date, timeZone?: string): WallClock {
+    if (timeZone) {
+      try {
+        const parts = new Intl.DateTimeFormat('en-US', {
+          timeZone,
+          hourCycle: 'h23',
+          year: 'numeric',
+          month: 'numeric',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: 'numeric',
+          second: 'numeric'
+        }).formatToParts(at);
+        const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+        return {
+          year: part('year'),
+          month: part('month'),
+          day: part('day'),
+          hour: part('hour'),
+          minute: part('minute'),
+          second: part('second')
+        };
+      } catch {
+        // Unknown zone name - fall through to local time
+      }
+    }
+    return {
+      year: at.getFullYear(),
+      month: at.getMonth() + 1,
+      day: at.getDate(),
+      hour: at.getHours(),
+      minute: at.getMinutes(),
+      second: at.getSeconds()
+    };
+  }
+
+  /**
+   * Milliseconds the zone's wall clock is ahead of UTC at a moment
+   */
+  private static offset(at: Date, timeZone?: string): number {
+    const wall = this.wallClock(at, timeZone);
+    const wallMs = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+    return wallMs - Math.floor(at.getTime() / 1000) * 1000;
+  }
+}
@@ -0,0 +1,110 @@
+// Shared Scheduling Core - Types
+// Framework-agnostic shapes used by both the web client and the edge functions.
+// Nothing in this package may import React, Supabase or Deno APIs.
+
+export type CardStateName = 'new' | 'learning' | 'review' | 'relearning';
+
+export type SchedulerName = 'sm2' | 'fsrs';
+
+/** 0 = Again, 1 = Hard, 2 = Good, 3 = Easy (same scale as the reviews table) */
+export type Rating = 0 | 1 | 2 | 3;
+
+export interface SchedulerCard {
+  id?: string; // Seeds the per-card fuzz so results are reproducible
+  cardState: CardStateName;
+  learningStep: number;
+  lapseCount: number;
+  easeFactor: number;
+  interval: number; // Days
+  reviewCount: number;
+  lastStudied: string | null;
+  isLeech: boolean;
+  stability?: number | null;
+  fsrsDifficulty?: number | null;
+}
+
+export interface SchedulerConfig {
+  learningSteps: number[]; // Minutes
+  graduatingInterval: number; // Days
+  easyInterval: number; // Days
+  relearningSteps: number[]; // Minutes
+  maximumInterval: number; // Days
+  startingEase: number;
+  easyBonus: number;
+  hardPenalty: number;
+  lapsePenalty: number;
+  lapseThreshold: number;
+  scheduler: SchedulerName;
+  desiredRetention: number;
+  fsrsWeights: number[];
+  loadBalancing: boolean; // Fuzz review intervals and steer them towards lightly loaded days
+}
+
+export interface ScheduleOutcome {
+  nextDue: Date;
+  interval: number; // Days (fractional while in learning steps)
+  cardState: CardStateName;
+  learningStep?: number;
+  easeFactor: number;
+  stability?: number;
+  fsrsDifficulty?: number;
+  lapseCount?: number;
+  isLeech?: boolean;
+  reviewCount: number;
+
+  // Transition flags
+  graduated?: boolean;
+  lapsed?: boolean;
+  becameLeech?: boolean;
+}
+
+/** Cards already due N days from now, keyed by N (missing days count as 0) */
+export type DueCounts = Record<number, number>;
+
+/** Per-user inputs to load balancing, gathered at review time */
+export interface LoadContext {
+  dueCounts?: DueCounts;
+  easyDays?: number[]; // Load multiplier per weekday, Sunday first (1 = normal, 0 = avoid)
+  timeZone?: string; // IANA zone the weekdays are counted in (default: runtime local)
+  dayStartHour?: number; // Hour the user's day rolls over; when set, review due dates snap to the start of their day
+  vacations?: DateRange[]; // Nothing is scheduled inside these; due dates move to the end
+  earlyReview?: boolean; // Studying ahead: SM-2 grows a review card's interval from the days actually elapsed
+}
+
+/** Half-open [start, end) time range */
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Vacation row dates (inclusive YYYY-MM-DD, UTC days) -> [first day, day after the last)
+ */
+export function vacationRange(startsOn: string, endsOn: string): DateRange {
+  const end = new Date(`${endsOn}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+  return { start: new Date(`${startsOn}T00:00:00Z`), end };
+}
+
+export interface MemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+// FSRS-5 default parameters (trained on a large public review corpus)
+export const DEFAULT_FSRS_WEIGHTS: number[] = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575,
+  0.1192, 1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655, 0.6621
+];
+
+export const MINIMUM_EASE = 1.3;
+
+export function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
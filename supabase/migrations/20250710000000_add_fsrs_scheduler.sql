@@ -0,0 +1,27 @@
+-- FSRS Scheduler Support
+-- Adds per-deck scheduler selection and per-card FSRS memory state
+
+-- ========================================
+-- DECK CONFIGURATION
+-- ========================================
+
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS scheduler TEXT DEFAULT 'sm2'
+  CHECK (scheduler IN ('sm2', 'fsrs'));
+
+-- Target probability of recall when a card comes due (FSRS only)
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS desired_retention DECIMAL DEFAULT 0.9
+  CHECK (desired_retention BETWEEN 0.7 AND 0.99);
+
+-- FSRS model parameters; NULL means the built-in defaults
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS fsrs_weights DOUBLE PRECISION[];
+
+-- ========================================
+-- CARD MEMORY STATE
+-- ========================================
+
+-- Stability: days until recall probability falls to 90%
+ALTER TABLE public.cards ADD COLUMN IF NOT EXISTS stability DOUBLE PRECISION;
+
+-- Intrinsic difficulty on a 1-10 scale (separate from the legacy difficulty column)
+ALTER TABLE public.cards ADD COLUMN IF NOT EXISTS fsrs_difficulty DOUBLE PRECISION
+  CHECK (fsrs_difficulty IS NULL OR fsrs_difficulty BETWEEN 1 AND 10);
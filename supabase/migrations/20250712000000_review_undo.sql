@@ -0,0 +1,89 @@
+-- Review Undo
+-- Stores each card's pre-review scheduling state on the review row so a review
+-- can be rolled back exactly, and adds an RPC that performs the rollback
+
+-- ========================================
+-- PRE-REVIEW SNAPSHOT
+-- ========================================
+
+-- Card scheduling fields as they were immediately before this review
+ALTER TABLE public.reviews ADD COLUMN IF NOT EXISTS card_snapshot JSONB;
+
+-- ========================================
+-- UNDO FUNCTION
+-- ========================================
+
+CREATE OR REPLACE FUNCTION public.undo_review(p_review_id BIGINT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  review_record public.reviews;
+  snapshot JSONB;
+  restored public.cards;
+BEGIN
+  SELECT r.* INTO review_record
+  FROM public.reviews r
+  JOIN public.cards c ON c.id = r.card_id
+  JOIN public.decks d ON d.id = c.deck_id
+  WHERE r.id = p_review_id AND d.owner_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review % not found', p_review_id;
+  END IF;
+
+  snapshot := review_record.card_snapshot;
+  IF snapshot IS NULL THEN
+    RAISE EXCEPTION 'Review % has no card snapshot and cannot be undone', p_review_id;
+  END IF;
+
+  -- Only the latest review of a card can be rolled back, otherwise the
+  -- snapshot would overwrite the effect of every later review
+  IF EXISTS (
+    SELECT 1 FROM public.reviews
+    WHERE card_id = review_record.card_id AND id > review_record.id
+  ) THEN
+    RAISE EXCEPTION 'Only the most recent review of a card can be undone';
+  END IF;
+
+  UPDATE public.cards SET
+    card_state = snapshot->>'card_state',
+    learning_step = (snapshot->>'learning_step')::INTEGER,
+    lapse_count = (snapshot->>'lapse_count')::INTEGER,
+    ease_factor = (snapshot->>'ease_factor')::NUMERIC,
+    interval = (snapshot->>'interval')::NUMERIC,
+    review_count = (snapshot->>'review_count')::INTEGER,
+    last_studied = (snapshot->>'last_studied')::TIMESTAMPTZ,
+    next_due = (snapshot->>'next_due')::TIMESTAMPTZ,
+    is_leech = (snapshot->>'is_leech')::BOOLEAN,
+    stability = (snapshot->>'stability')::DOUBLE PRECISION,
+    fsrs_difficulty = (snapshot->>'fsrs_difficulty')::DOUBLE PRECISION
+  WHERE id = review_record.card_id
+  RETURNING * INTO restored;
+
+  -- Drop the transitions logged by the review and by this rollback
+  DELETE FROM public.card_transitions
+  WHERE card_id = review_record.card_id AND transitioned_at >= review_record.reviewed_at;
+
+  DELETE FROM public.reviews WHERE id = p_review_id;
+
+  RETURN jsonb_build_object(
+    'id', restored.id,
+    'card_state', restored.card_state,
+    'learning_step', restored.learning_step,
+    'lapse_count', restored.lapse_count,
+    'ease_factor', restored.ease_factor,
+    'interval', restored.interval,
+    'review_count', restored.review_count,
+    'last_studied', restored.last_studied,
+    'next_due', restored.next_due,
+    'is_leech', restored.is_leech,
+    'stability', restored.stability,
+    'fsrs_difficulty', restored.fsrs_difficulty
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.undo_review(BIGINT) TO authenticated;
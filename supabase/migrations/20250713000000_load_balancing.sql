@@ -0,0 +1,43 @@
+-- Load Balancing
+-- Per-deck toggle for interval fuzz / due-date load balancing, plus the due
+-- counts the scheduler uses to pick the least busy day
+
+-- ========================================
+-- DECK CONFIGURATION
+-- ========================================
+
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS load_balancing BOOLEAN DEFAULT TRUE;
+
+-- ========================================
+-- DUE COUNTS
+-- ========================================
+
+-- Review cards in the deck due N whole days from now, for N in [0, p_days).
+-- Days with nothing due are omitted.
+CREATE OR REPLACE FUNCTION public.get_due_counts(p_deck_id UUID, p_days INTEGER DEFAULT 400)
+RETURNS TABLE (day_offset INTEGER, due_count INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.decks WHERE id = p_deck_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Deck % not found', p_deck_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    FLOOR(EXTRACT(EPOCH FROM (c.next_due - NOW())) / 86400)::INTEGER AS day_offset,
+    COUNT(*)::INTEGER AS due_count
+  FROM public.cards c
+  WHERE c.deck_id = p_deck_id
+    AND c.card_state = 'review'
+    AND c.next_due >= NOW()
+    AND c.next_due < NOW() + make_interval(days => p_days)
+  GROUP BY 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_due_counts(UUID, INTEGER) TO authenticated;
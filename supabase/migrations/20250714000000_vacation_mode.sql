@@ -0,0 +1,399 @@
+-- Vacation Mode
+-- Lets a user declare a date range away. Planning a vacation pulls safe reviews
+-- forward and postpones the rest past the break; finishing it spreads the
+-- backlog over a few catch-up days, lowest retrievability first. Vacation days
+-- are flagged in daily_workload so they neither count towards nor break a streak.
+-- All dates are UTC calendar days, like the rest of the streak and workload SQL.
+
+-- ========================================
+-- TABLES
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS public.vacations (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL, -- Last day away (inclusive)
+  catch_up_days INTEGER NOT NULL DEFAULT 7 CHECK (catch_up_days BETWEEN 1 AND 60),
+  status TEXT NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'completed', 'cancelled')),
+  pulled_forward INTEGER NOT NULL DEFAULT 0,
+  postponed INTEGER NOT NULL DEFAULT 0,
+  spread INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (ends_on >= starts_on)
+);
+
+ALTER TABLE public.vacations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "vacations_owner_read" ON public.vacations
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_vacations_user_dates ON public.vacations (user_id, starts_on, ends_on);
+
+-- Original due dates of cards moved past a vacation, so cancelling can restore them
+CREATE TABLE IF NOT EXISTS public.vacation_postponed_cards (
+  vacation_id BIGINT NOT NULL REFERENCES public.vacations(id) ON DELETE CASCADE,
+  card_id UUID NOT NULL REFERENCES public.cards(id) ON DELETE CASCADE,
+  original_due TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (vacation_id, card_id)
+);
+
+ALTER TABLE public.vacation_postponed_cards ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.daily_workload ADD COLUMN IF NOT EXISTS is_vacation BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ========================================
+-- HELPERS
+-- ========================================
+
+CREATE OR REPLACE FUNCTION public.is_vacation_day(p_user_id UUID, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.vacations
+    WHERE user_id = p_user_id
+      AND status <> 'cancelled'
+      AND p_date BETWEEN starts_on AND ends_on
+  );
+$$;
+
+-- ========================================
+-- PLAN / CANCEL / FINISH
+-- ========================================
+
+-- Reviews due during the break are pulled forward when at least 75% of their
+-- interval will have elapsed by then; everything else due during the break is
+-- postponed to the first day back.
+CREATE OR REPLACE FUNCTION public.plan_vacation(
+  p_starts_on DATE,
+  p_ends_on DATE,
+  p_catch_up_days INTEGER DEFAULT 7
+)
+RETURNS public.vacations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  vacation public.vacations;
+  break_start TIMESTAMPTZ := p_starts_on::TIMESTAMPTZ;
+  break_end TIMESTAMPTZ := (p_ends_on + 1)::TIMESTAMPTZ;
+  pulled INTEGER;
+  moved INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_starts_on < CURRENT_DATE THEN
+    RAISE EXCEPTION 'Vacation cannot start in the past';
+  END IF;
+
+  IF p_ends_on < p_starts_on THEN
+    RAISE EXCEPTION 'Vacation must end on or after its start date';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.vacations
+    WHERE user_id = auth.uid()
+      AND status = 'planned'
+      AND starts_on <= p_ends_on
+      AND ends_on >= p_starts_on
+  ) THEN
+    RAISE EXCEPTION 'Vacation overlaps an existing one';
+  END IF;
+
+  INSERT INTO public.vacations (user_id, starts_on, ends_on, catch_up_days)
+  VALUES (auth.uid(), p_starts_on, p_ends_on, p_catch_up_days)
+  RETURNING * INTO vacation;
+
+  -- Pull forward: each card moves to the earliest date that is still safe
+  UPDATE public.cards c SET
+    next_due = GREATEST(NOW(), c.last_studied + c.interval * 0.75 * INTERVAL '1 day')
+  FROM public.decks d
+  WHERE d.id = c.deck_id
+    AND d.owner_id = auth.uid()
+    AND c.card_state = 'review'
+    AND c.last_studied IS NOT NULL
+    AND c.next_due >= break_start
+    AND c.next_due < break_end
+    AND c.last_studied + c.interval * 0.75 * INTERVAL '1 day' < break_start;
+
+  GET DIAGNOSTICS pulled = ROW_COUNT;
+
+  -- Postpone: nothing comes due while away
+  INSERT INTO public.vacation_postponed_cards (vacation_id, card_id, original_due)
+  SELECT vacation.id, c.id, c.next_due
+  FROM public.cards c
+  JOIN public.decks d ON d.id = c.deck_id
+  WHERE d.owner_id = auth.uid()
+    AND c.next_due >= break_start
+    AND c.next_due < break_end;
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+
+  UPDATE public.cards c SET next_due = break_end
+  FROM public.vacation_postponed_cards p
+  WHERE p.vacation_id = vacation.id AND p.card_id = c.id;
+
+  -- Flag the days away so workload and streak logic skip them
+  INSERT INTO public.daily_workload (user_id, date, is_vacation)
+  SELECT auth.uid(), day::DATE, TRUE
+  FROM generate_series(p_starts_on, p_ends_on, INTERVAL '1 day') AS day
+  ON CONFLICT (user_id, date) DO UPDATE SET is_vacation = TRUE, updated_at = NOW();
+
+  UPDATE public.vacations SET
+    pulled_forward = pulled,
+    postponed = moved
+  WHERE id = vacation.id
+  RETURNING * INTO vacation;
+
+  RETURN vacation;
+END;
+$$;
+
+-- Restores postponed cards that have not been reviewed since and unflags the days.
+-- Pulled-forward cards stay where they are; reviewing them early was safe.
+CREATE OR REPLACE FUNCTION public.cancel_vacation(p_vacation_id BIGINT)
+RETURNS public.vacations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  vacation public.vacations;
+BEGIN
+  SELECT * INTO vacation
+  FROM public.vacations
+  WHERE id = p_vacation_id AND user_id = auth.uid() AND status = 'planned';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Planned vacation % not found', p_vacation_id;
+  END IF;
+
+  UPDATE public.cards c SET next_due = p.original_due
+  FROM public.vacation_postponed_cards p
+  WHERE p.vacation_id = vacation.id
+    AND p.card_id = c.id
+    AND c.next_due = (vacation.ends_on + 1)::TIMESTAMPTZ;
+
+  UPDATE public.vacations SET status = 'cancelled'
+  WHERE id = vacation.id
+  RETURNING * INTO vacation;
+
+  UPDATE public.daily_workload SET is_vacation = FALSE, updated_at = NOW()
+  WHERE user_id = auth.uid()
+    AND date BETWEEN vacation.starts_on AND vacation.ends_on
+    AND NOT public.is_vacation_day(auth.uid(), date);
+
+  DELETE FROM public.vacation_postponed_cards WHERE vacation_id = vacation.id;
+
+  RETURN vacation;
+END;
+$$;
+
+-- Spreads every overdue review card over the vacation's catch-up days. Cards
+-- with the lowest retrievability (FSRS stability when known, otherwise the
+-- SM-2 interval as a 90%-recall horizon) stay due today; the rest follow.
+CREATE OR REPLACE FUNCTION public.finish_vacation(p_vacation_id BIGINT)
+RETURNS public.vacations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  vacation public.vacations;
+  backlog INTEGER;
+  per_day INTEGER;
+BEGIN
+  SELECT * INTO vacation
+  FROM public.vacations
+  WHERE id = p_vacation_id AND user_id = auth.uid() AND status = 'planned';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Planned vacation % not found', p_vacation_id;
+  END IF;
+
+  IF CURRENT_DATE <= vacation.ends_on THEN
+    RAISE EXCEPTION 'Vacation % has not ended yet', p_vacation_id;
+  END IF;
+
+  SELECT COUNT(*) INTO backlog
+  FROM public.cards c
+  JOIN public.decks d ON d.id = c.deck_id
+  WHERE d.owner_id = auth.uid()
+    AND c.card_state = 'review'
+    AND c.next_due <= NOW();
+
+  per_day := GREATEST(1, CEIL(backlog::NUMERIC / vacation.catch_up_days));
+
+  WITH ranked AS (
+    SELECT
+      c.id,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE
+            WHEN c.last_studied IS NULL THEN 0
+            WHEN c.stability IS NOT NULL AND c.stability > 0 THEN
+              POWER(1 + 19.0 / 81 * EXTRACT(EPOCH FROM NOW() - c.last_studied) / 86400 / c.stability, -0.5)
+            ELSE
+              POWER(0.9, EXTRACT(EPOCH FROM NOW() - c.last_studied) / 86400 / GREATEST(c.interval, 1))
+          END ASC,
+          c.next_due ASC
+      ) AS position
+    FROM public.cards c
+    JOIN public.decks d ON d.id = c.deck_id
+    WHERE d.owner_id = auth.uid()
+      AND c.card_state = 'review'
+      AND c.next_due <= NOW()
+  )
+  UPDATE public.cards c SET next_due = NOW() + ((r.position - 1) / per_day) * INTERVAL '1 day'
+  FROM ranked r
+  WHERE r.id = c.id AND r.position > per_day;
+
+  DELETE FROM public.vacation_postponed_cards WHERE vacation_id = vacation.id;
+
+  UPDATE public.vacations SET status = 'completed', spread = backlog
+  WHERE id = vacation.id
+  RETURNING * INTO vacation;
+
+  RETURN vacation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_vacation_day(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.plan_vacation(DATE, DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_vacation(BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.finish_vacation(BIGINT) TO authenticated;
+
+-- ========================================
+-- ANTI-BURNOUT DUE CARDS
+-- ========================================
+
+-- Same as before, but returns nothing while the user is away
+CREATE OR REPLACE FUNCTION get_due_cards_anti_burnout(
+  p_deck uuid,
+  p_limit integer default 30,
+  p_user_fatigue_score integer default 0
+)
+returns table (
+  id uuid,
+  deck_id uuid,
+  type text,
+  front text,
+  back text,
+  tags text[],
+  difficulty double precision,
+  last_studied timestamptz,
+  next_due timestamptz,
+  interval integer,
+  ease_factor double precision,
+  review_count integer
+) language plpgsql as $$
+begin
+  if public.is_vacation_day(auth.uid(), current_date) then
+    return;
+  end if;
+
+  return query
+  select
+    c.id,
+    c.deck_id,
+    c.type,
+    c.front,
+    c.back,
+    c.tags,
+    c.difficulty,
+    c.last_studied,
+    c.next_due,
+    c.interval,
+    c.ease_factor,
+    c.review_count
+  from public.cards c
+  where c.deck_id = p_deck
+    and c.next_due <= now()
+    and exists (
+      select 1 from public.decks d
+      where d.id = c.deck_id and d.owner_id = auth.uid()
+    )
+  order by
+    -- Prioritize easier cards when fatigued
+    case when p_user_fatigue_score > 70 then c.difficulty else -c.difficulty end,
+    c.next_due asc
+  limit p_limit;
+end;
+$$;
+
+-- ========================================
+-- STREAKS
+-- ========================================
+
+-- Vacation days bridge a streak: they neither add to it nor break it
+CREATE OR REPLACE FUNCTION get_streak_info(p_user_id UUID)
+RETURNS TABLE (
+  current_streak INTEGER,
+  longest_streak INTEGER,
+  total_study_days INTEGER,
+  last_study_date DATE
+) AS $$
+DECLARE
+  study_dates DATE[];
+  vacation_dates DATE[];
+  check_date DATE;
+  run INTEGER;
+BEGIN
+  SELECT ARRAY_AGG(DISTINCT DATE(reviewed_at))
+  INTO study_dates
+  FROM reviews r
+  JOIN cards c ON r.card_id = c.id
+  JOIN decks d ON c.deck_id = d.id
+  WHERE d.owner_id = p_user_id
+    AND reviewed_at >= NOW() - INTERVAL '1 year';
+
+  SELECT ARRAY_AGG(date)
+  INTO vacation_dates
+  FROM daily_workload
+  WHERE user_id = p_user_id AND is_vacation;
+
+  vacation_dates := COALESCE(vacation_dates, ARRAY[]::DATE[]);
+  current_streak := 0;
+  longest_streak := 0;
+  total_study_days := COALESCE(array_length(study_dates, 1), 0);
+
+  IF total_study_days = 0 THEN
+    RETURN QUERY SELECT 0, 0, 0, NULL::DATE;
+    RETURN;
+  END IF;
+
+  SELECT MAX(date_val) INTO last_study_date FROM unnest(study_dates) AS date_val;
+
+  -- Current streak: walk back from today; not having studied yet today is fine
+  check_date := CURRENT_DATE;
+  WHILE check_date > CURRENT_DATE - 366 LOOP
+    IF check_date = ANY(study_dates) THEN
+      current_streak := current_streak + 1;
+    ELSIF NOT (check_date = ANY(vacation_dates) OR check_date = CURRENT_DATE) THEN
+      EXIT;
+    END IF;
+    check_date := check_date - 1;
+  END LOOP;
+
+  -- Longest streak: longest run of study days, stepping over vacation days
+  run := 0;
+  FOR check_date IN
+    SELECT generate_series(MIN(date_val), MAX(date_val), INTERVAL '1 day')::DATE
+    FROM unnest(study_dates) AS date_val
+  LOOP
+    IF check_date = ANY(study_dates) THEN
+      run := run + 1;
+      longest_streak := GREATEST(longest_streak, run);
+    ELSIF NOT check_date = ANY(vacation_dates) THEN
+      run := 0;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT current_streak, longest_streak, total_study_days, last_study_date;
+END;
+$$ LANGUAGE plpgsql;
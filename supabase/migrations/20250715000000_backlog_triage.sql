@@ -0,0 +1,209 @@
+-- Backlog Triage
+-- When a deck's overdue reviews exceed its daily backlog intake, the study queue
+-- switches to backlog mode: overdue reviews are ordered by estimated recall
+-- probability (most at risk first) and capped at the intake left for today.
+-- get_backlog_status reports the backlog size and how many days catching up takes.
+
+-- ========================================
+-- DECK CONFIGURATION
+-- ========================================
+
+-- Most overdue reviews taken on per day while in backlog mode
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS backlog_daily_intake INTEGER DEFAULT 100
+  CHECK (backlog_daily_intake > 0);
+
+-- ========================================
+-- RECALL ESTIMATE
+-- ========================================
+
+-- Recall probability of a review card right now. SM-2 schedules a card for
+-- roughly 90% recall at its interval; cards with a lower ease forget faster,
+-- so stability is the interval scaled by ease relative to the 2.5 default and
+-- recall decays as 0.9^(elapsed / stability), with elapsed = interval + overdue.
+CREATE OR REPLACE FUNCTION public.estimate_recall(
+  p_interval NUMERIC,
+  p_ease_factor NUMERIC,
+  p_next_due TIMESTAMPTZ)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT POWER(
+    0.9,
+    (GREATEST(p_interval, 1) + GREATEST(0, EXTRACT(EPOCH FROM NOW() - p_next_due) / 86400))
+      / (GREATEST(p_interval, 1) * GREATEST(COALESCE(p_ease_factor, 2.5), 1.3) / 2.5)
+  )::DOUBLE PRECISION;
+$$;
+
+-- ========================================
+-- BACKLOG STATUS
+-- ========================================
+
+CREATE OR REPLACE FUNCTION public.get_backlog_status(p_deck_id UUID)
+RETURNS TABLE (
+  overdue_count INTEGER,
+  daily_intake INTEGER,
+  intake_remaining INTEGER,
+  in_backlog BOOLEAN,
+  days_to_clear INTEGER,
+  mean_recall DOUBLE PRECISION)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config_record public.deck_configs;
+  reviewed_today INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.decks WHERE id = p_deck_id AND owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Deck % not found', p_deck_id;
+  END IF;
+
+  SELECT * INTO config_record FROM public.get_deck_config(p_deck_id);
+  daily_intake := COALESCE(config_record.backlog_daily_intake, 100);
+
+  SELECT COUNT(*)::INTEGER, AVG(public.estimate_recall(c.interval, c.ease_factor, c.next_due))
+  INTO overdue_count, mean_recall
+  FROM public.cards c
+  WHERE c.deck_id = p_deck_id
+    AND c.card_state = 'review'
+    AND NOT COALESCE(c.is_leech, false)
+    AND c.next_due <= NOW();
+
+  SELECT COUNT(*)::INTEGER INTO reviewed_today
+  FROM public.reviews r JOIN public.cards c ON r.card_id = c.id
+  WHERE c.deck_id = p_deck_id AND r.reviewed_at >= CURRENT_DATE AND r.interval_before >= 1;
+
+  intake_remaining := GREATEST(0, daily_intake - reviewed_today);
+  in_backlog := overdue_count > daily_intake;
+  days_to_clear := CASE
+    WHEN overdue_count = 0 THEN 0
+    WHEN overdue_count <= intake_remaining THEN 1
+    -- Whatever today still takes, then full days after that
+    ELSE CASE WHEN intake_remaining > 0 THEN 1 ELSE 0 END
+      + CEIL((overdue_count - intake_remaining)::NUMERIC / daily_intake)::INTEGER
+  END;
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.estimate_recall(NUMERIC, NUMERIC, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_backlog_status(UUID) TO authenticated;
+
+-- ========================================
+-- STUDY QUEUE
+-- ========================================
+
+-- Return columns change, so the function must be dropped first
+DROP FUNCTION IF EXISTS public.get_advanced_study_queue(UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_advanced_study_queue(
+  p_deck_id UUID,
+  p_new_limit INTEGER DEFAULT 20,
+  p_total_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  result_card_id UUID,
+  result_card_type TEXT,
+  result_front TEXT,
+  result_back TEXT,
+  result_card_state TEXT,
+  result_learning_step INTEGER,
+  result_lapse_count INTEGER,
+  result_is_leech BOOLEAN,
+  result_next_due TIMESTAMPTZ,
+  result_ease_factor NUMERIC,
+  result_interval_days INTEGER,
+  result_priority INTEGER,
+  result_review_count INTEGER,
+  result_last_studied TIMESTAMPTZ,
+  result_stability DOUBLE PRECISION,
+  result_fsrs_difficulty DOUBLE PRECISION,
+  result_recall_probability DOUBLE PRECISION)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config_record public.deck_configs;
+  new_cards_today INTEGER := 0;
+  remaining_new_cards INTEGER;
+  backlog_mode BOOLEAN := FALSE;
+  backlog_remaining INTEGER := 0;
+BEGIN
+  SELECT * INTO config_record FROM public.get_deck_config(p_deck_id);
+  SELECT COALESCE(COUNT(*),0) INTO new_cards_today
+  FROM public.reviews r JOIN public.cards c ON r.card_id=c.id
+  WHERE c.deck_id=p_deck_id AND r.reviewed_at>=CURRENT_DATE AND c.review_count=0;
+  remaining_new_cards := GREATEST(0, config_record.new_cards_per_day - new_cards_today);
+
+  SELECT b.in_backlog, b.intake_remaining INTO backlog_mode, backlog_remaining
+  FROM public.get_backlog_status(p_deck_id) b;
+
+  RETURN QUERY WITH prioritized_cards AS (
+    SELECT c.id AS pc_card_id,
+           COALESCE(c.type,'basic') AS pc_card_type,
+           COALESCE(c.front,'') AS pc_front,
+           COALESCE(c.back,'') AS pc_back,
+           COALESCE(c.card_state,'new') AS pc_card_state,
+           COALESCE(c.learning_step,0) AS pc_learning_step,
+           COALESCE(c.lapse_count,0) AS pc_lapse_count,
+           COALESCE(c.is_leech,false) AS pc_is_leech,
+           COALESCE(c.next_due,NOW()) AS pc_next_due,
+           COALESCE(c.ease_factor,2.5) AS pc_ease_factor,
+           COALESCE(c.interval,1)::numeric AS pc_interval_days,
+           CASE WHEN COALESCE(c.card_state,'new')='relearning' THEN 1
+                WHEN COALESCE(c.card_state,'new')='learning' THEN 2
+                WHEN COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<=NOW() THEN 3
+                WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN 4
+                ELSE 5 END AS pc_priority,
+           COALESCE(c.review_count,0) AS pc_review_count,
+           c.last_studied AS pc_last_studied,
+           c.stability AS pc_stability,
+           c.fsrs_difficulty AS pc_fsrs_difficulty,
+           CASE WHEN COALESCE(c.card_state,'new')='review'
+                THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW()))
+           END AS pc_recall,
+           ROW_NUMBER() OVER (PARTITION BY COALESCE(c.card_state,'new') ORDER BY 
+                CASE WHEN COALESCE(c.card_state,'new') IN('learning','relearning') THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                -- Backlog mode: most at-risk reviews first
+                CASE WHEN backlog_mode AND COALESCE(c.card_state,'new')='review'
+                     THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW())) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='review' THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN c.created_at END ASC NULLS LAST) AS pc_state_rank
+    FROM public.cards c JOIN public.decks d ON c.deck_id=d.id
+    WHERE c.deck_id=p_deck_id AND d.owner_id=auth.uid() AND NOT COALESCE(c.is_leech,false) AND (
+      COALESCE(c.card_state,'new') IN('learning','relearning') OR
+      (COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<=NOW()) OR
+      (COALESCE(c.card_state,'new')='new' AND remaining_new_cards>0) OR
+      (c.review_count=0 AND remaining_new_cards>0))
+  )
+  SELECT pc_card_id,
+         pc_card_type::text,
+         pc_front,
+         pc_back,
+         pc_card_state::text,
+         pc_learning_step,
+         pc_lapse_count,
+         pc_is_leech,
+         pc_next_due,
+         pc_ease_factor::numeric,
+         pc_interval_days::int,
+         pc_priority,
+         pc_review_count::int,
+         pc_last_studied::timestamptz,
+         pc_stability::double precision,
+         pc_fsrs_difficulty::double precision,
+         pc_recall::double precision
+  FROM prioritized_cards
+  WHERE ((pc_card_state<>'new' AND pc_priority<>4) OR (pc_state_rank<=remaining_new_cards))
+    -- Backlog mode caps today's overdue reviews at the intake left
+    AND NOT (backlog_mode AND pc_priority=3 AND pc_state_rank>backlog_remaining)
+  ORDER BY pc_priority,
+           CASE WHEN backlog_mode AND pc_priority=3 THEN pc_state_rank END ASC NULLS LAST,
+           pc_next_due NULLS LAST
+  LIMIT p_total_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_advanced_study_queue(UUID, INTEGER, INTEGER) TO authenticated;
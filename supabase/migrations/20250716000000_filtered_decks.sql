@@ -0,0 +1,186 @@
+-- Filtered Decks
+-- User-defined study decks built from a saved search over the user's cards:
+-- source decks, tags, card state, lapses, ease, days overdue and last rating.
+-- A filtered deck does not own cards; it is re-evaluated every time it is
+-- studied. When reschedule is off, reviews are preview-only and leave the
+-- cards' schedules untouched (the client skips the write).
+
+-- ========================================
+-- TABLE
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS public.filtered_decks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- { deck_ids, tags, card_states, min_lapses, max_ease, min_days_overdue, last_ratings }
+  -- Missing keys and empty arrays match everything
+  query JSONB NOT NULL DEFAULT '{}'::JSONB,
+  order_by TEXT NOT NULL DEFAULT 'due'
+    CHECK (order_by IN ('due', 'random', 'lapses', 'ease', 'recall', 'added')),
+  card_limit INTEGER NOT NULL DEFAULT 100 CHECK (card_limit BETWEEN 1 AND 9999),
+  reschedule BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.filtered_decks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "filtered_decks_owner_all" ON public.filtered_decks
+  FOR ALL USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_filtered_decks_owner ON public.filtered_decks (owner_id);
+
+DROP TRIGGER IF EXISTS tr_filtered_decks_updated_at ON public.filtered_decks;
+CREATE TRIGGER tr_filtered_decks_updated_at
+BEFORE UPDATE ON public.filtered_decks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Filtered deck sessions span several decks, so they are logged against the filtered deck
+ALTER TABLE public.study_logs ALTER COLUMN deck_id DROP NOT NULL;
+ALTER TABLE public.study_logs ADD COLUMN IF NOT EXISTS filtered_deck_id UUID
+  REFERENCES public.filtered_decks(id) ON DELETE SET NULL;
+
+-- ========================================
+-- SEARCH
+-- ========================================
+
+-- Card ids matching a filtered deck query, in study order
+CREATE OR REPLACE FUNCTION public.search_filtered_cards(
+  p_query JSONB,
+  p_order_by TEXT DEFAULT 'due',
+  p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (card_id UUID, sort_position INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT matched.id, matched.sort_position
+  FROM (
+    SELECT c.id,
+           ROW_NUMBER() OVER (ORDER BY
+             CASE WHEN p_order_by = 'random' THEN random() END,
+             CASE WHEN p_order_by = 'lapses' THEN COALESCE(c.lapse_count, 0) END DESC NULLS LAST,
+             CASE WHEN p_order_by = 'ease' THEN COALESCE(c.ease_factor, 2.5) END ASC NULLS LAST,
+             -- Lowest recall first; cards that are not in review have no estimate
+             CASE WHEN p_order_by = 'recall' AND COALESCE(c.card_state, 'new') = 'review'
+                  THEN public.estimate_recall(COALESCE(c.interval, 1), COALESCE(c.ease_factor, 2.5), COALESCE(c.next_due, NOW())) END ASC NULLS LAST,
+             CASE WHEN p_order_by = 'added' THEN c.created_at END DESC NULLS LAST,
+             COALESCE(c.next_due, NOW()) ASC,
+             c.id)::INTEGER AS sort_position
+    FROM public.cards c
+    JOIN public.decks d ON d.id = c.deck_id
+    LEFT JOIN LATERAL (
+      SELECT r.rating FROM public.reviews r
+      WHERE r.card_id = c.id
+      ORDER BY r.reviewed_at DESC
+      LIMIT 1
+    ) last_review ON TRUE
+    WHERE d.owner_id = auth.uid()
+      AND (COALESCE(jsonb_array_length(p_query->'deck_ids'), 0) = 0
+           OR c.deck_id::TEXT IN (SELECT jsonb_array_elements_text(p_query->'deck_ids')))
+      AND (COALESCE(jsonb_array_length(p_query->'tags'), 0) = 0
+           OR COALESCE(c.tags, '{}') && ARRAY(SELECT jsonb_array_elements_text(p_query->'tags')))
+      AND (COALESCE(jsonb_array_length(p_query->'card_states'), 0) = 0
+           OR COALESCE(c.card_state, 'new') IN (SELECT jsonb_array_elements_text(p_query->'card_states')))
+      AND (p_query->>'min_lapses' IS NULL
+           OR COALESCE(c.lapse_count, 0) >= (p_query->>'min_lapses')::INTEGER)
+      AND (p_query->>'max_ease' IS NULL
+           OR COALESCE(c.ease_factor, 2.5) <= (p_query->>'max_ease')::NUMERIC)
+      AND (p_query->>'min_days_overdue' IS NULL
+           OR (COALESCE(c.card_state, 'new') <> 'new'
+               AND COALESCE(c.next_due, NOW()) <= NOW() - (p_query->>'min_days_overdue')::NUMERIC * INTERVAL '1 day'))
+      AND (COALESCE(jsonb_array_length(p_query->'last_ratings'), 0) = 0
+           OR last_review.rating IN (SELECT jsonb_array_elements_text(p_query->'last_ratings')::SMALLINT))
+  ) matched
+  ORDER BY matched.sort_position
+  LIMIT GREATEST(p_limit, 0);
+$$;
+
+-- ========================================
+-- STUDY QUEUE
+-- ========================================
+
+-- Same result_* columns as get_advanced_study_queue, plus the source deck so
+-- the client can schedule each card with its own deck's options
+CREATE OR REPLACE FUNCTION public.get_filtered_deck_queue(p_filtered_deck_id UUID)
+RETURNS TABLE (
+  result_card_id UUID,
+  result_deck_id UUID,
+  result_card_type TEXT,
+  result_front TEXT,
+  result_back TEXT,
+  result_card_state TEXT,
+  result_learning_step INTEGER,
+  result_lapse_count INTEGER,
+  result_is_leech BOOLEAN,
+  result_next_due TIMESTAMPTZ,
+  result_ease_factor NUMERIC,
+  result_interval_days INTEGER,
+  result_priority INTEGER,
+  result_review_count INTEGER,
+  result_last_studied TIMESTAMPTZ,
+  result_stability DOUBLE PRECISION,
+  result_fsrs_difficulty DOUBLE PRECISION,
+  result_recall_probability DOUBLE PRECISION)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  filtered_record public.filtered_decks;
+BEGIN
+  SELECT * INTO filtered_record
+  FROM public.filtered_decks
+  WHERE id = p_filtered_deck_id AND owner_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Filtered deck % not found', p_filtered_deck_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id,
+         c.deck_id,
+         COALESCE(c.type, 'basic')::TEXT,
+         COALESCE(c.front, ''),
+         COALESCE(c.back, ''),
+         COALESCE(c.card_state, 'new')::TEXT,
+         COALESCE(c.learning_step, 0),
+         COALESCE(c.lapse_count, 0),
+         COALESCE(c.is_leech, false),
+         COALESCE(c.next_due, NOW()),
+         COALESCE(c.ease_factor, 2.5)::NUMERIC,
+         COALESCE(c.interval, 1)::INTEGER,
+         s.sort_position,
+         COALESCE(c.review_count, 0)::INTEGER,
+         c.last_studied::TIMESTAMPTZ,
+         c.stability::DOUBLE PRECISION,
+         c.fsrs_difficulty::DOUBLE PRECISION,
+         CASE WHEN COALESCE(c.card_state, 'new') = 'review'
+              THEN public.estimate_recall(COALESCE(c.interval, 1), COALESCE(c.ease_factor, 2.5), COALESCE(c.next_due, NOW()))
+         END
+  FROM public.search_filtered_cards(filtered_record.query, filtered_record.order_by, filtered_record.card_limit) s
+  JOIN public.cards c ON c.id = s.card_id
+  ORDER BY s.sort_position;
+END;
+$$;
+
+-- Matching card count per filtered deck, for the deck list
+CREATE OR REPLACE FUNCTION public.get_filtered_deck_counts()
+RETURNS TABLE (filtered_deck_id UUID, card_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT f.id,
+         (SELECT COUNT(*) FROM public.search_filtered_cards(f.query, 'due', f.card_limit))::INTEGER
+  FROM public.filtered_decks f
+  WHERE f.owner_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_filtered_cards(JSONB, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_filtered_deck_queue(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_filtered_deck_counts() TO authenticated;
@@ -0,0 +1,191 @@
+-- Sibling Burying
+-- Cards generated from the same note (cloze deletions, reversed basic cards,
+-- image occlusion masks, Anki notes with several templates) share a note_id.
+-- Once one of them is reviewed, its siblings are buried until the next day so
+-- the answer doesn't leak. Burying is computed by the study queue from today's
+-- reviews, so nothing has to be unburied; each deck switches it on separately
+-- for new, review and learning cards.
+
+-- ========================================
+-- NOTES
+-- ========================================
+
+-- Every existing card becomes its own note
+ALTER TABLE public.cards ADD COLUMN IF NOT EXISTS note_id UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE INDEX IF NOT EXISTS idx_cards_note ON public.cards (note_id);
+
+-- ========================================
+-- DECK CONFIGURATION
+-- ========================================
+
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS bury_new_siblings BOOLEAN DEFAULT TRUE;
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS bury_review_siblings BOOLEAN DEFAULT TRUE;
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS bury_learning_siblings BOOLEAN DEFAULT FALSE;
+
+-- ========================================
+-- BURYING
+-- ========================================
+
+-- Whether another card of the same note was reviewed today (UTC)
+CREATE OR REPLACE FUNCTION public.sibling_reviewed_today(p_card_id UUID, p_note_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.cards s
+    JOIN public.reviews r ON r.card_id = s.id
+    WHERE s.note_id = p_note_id
+      AND s.id <> p_card_id
+      AND r.reviewed_at >= CURRENT_DATE
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.sibling_reviewed_today(UUID, UUID) TO authenticated;
+
+-- ========================================
+-- STUDY QUEUE
+-- ========================================
+
+-- Return columns change, so the function must be dropped first
+DROP FUNCTION IF EXISTS public.get_advanced_study_queue(UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_advanced_study_queue(
+  p_deck_id UUID,
+  p_new_limit INTEGER DEFAULT 20,
+  p_total_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  result_card_id UUID,
+  result_card_type TEXT,
+  result_front TEXT,
+  result_back TEXT,
+  result_card_state TEXT,
+  result_learning_step INTEGER,
+  result_lapse_count INTEGER,
+  result_is_leech BOOLEAN,
+  result_next_due TIMESTAMPTZ,
+  result_ease_factor NUMERIC,
+  result_interval_days INTEGER,
+  result_priority INTEGER,
+  result_review_count INTEGER,
+  result_last_studied TIMESTAMPTZ,
+  result_stability DOUBLE PRECISION,
+  result_fsrs_difficulty DOUBLE PRECISION,
+  result_recall_probability DOUBLE PRECISION,
+  result_note_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config_record public.deck_configs;
+  new_cards_today INTEGER := 0;
+  remaining_new_cards INTEGER;
+  backlog_mode BOOLEAN := FALSE;
+  backlog_remaining INTEGER := 0;
+  bury_new BOOLEAN;
+  bury_review BOOLEAN;
+  bury_learning BOOLEAN;
+BEGIN
+  SELECT * INTO config_record FROM public.get_deck_config(p_deck_id);
+  SELECT COALESCE(COUNT(*),0) INTO new_cards_today
+  FROM public.reviews r JOIN public.cards c ON r.card_id=c.id
+  WHERE c.deck_id=p_deck_id AND r.reviewed_at>=CURRENT_DATE AND c.review_count=0;
+  remaining_new_cards := GREATEST(0, config_record.new_cards_per_day - new_cards_today);
+  bury_new := COALESCE(config_record.bury_new_siblings, TRUE);
+  bury_review := COALESCE(config_record.bury_review_siblings, TRUE);
+  bury_learning := COALESCE(config_record.bury_learning_siblings, FALSE);
+
+  SELECT b.in_backlog, b.intake_remaining INTO backlog_mode, backlog_remaining
+  FROM public.get_backlog_status(p_deck_id) b;
+
+  RETURN QUERY WITH prioritized_cards AS (
+    SELECT c.id AS pc_card_id,
+           COALESCE(c.type,'basic') AS pc_card_type,
+           COALESCE(c.front,'') AS pc_front,
+           COALESCE(c.back,'') AS pc_back,
+           COALESCE(c.card_state,'new') AS pc_card_state,
+           COALESCE(c.learning_step,0) AS pc_learning_step,
+           COALESCE(c.lapse_count,0) AS pc_lapse_count,
+           COALESCE(c.is_leech,false) AS pc_is_leech,
+           COALESCE(c.next_due,NOW()) AS pc_next_due,
+           COALESCE(c.ease_factor,2.5) AS pc_ease_factor,
+           COALESCE(c.interval,1)::numeric AS pc_interval_days,
+           CASE WHEN COALESCE(c.card_state,'new')='relearning' THEN 1
+                WHEN COALESCE(c.card_state,'new')='learning' THEN 2
+                WHEN COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<=NOW() THEN 3
+                WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN 4
+                ELSE 5 END AS pc_priority,
+           COALESCE(c.review_count,0) AS pc_review_count,
+           c.last_studied AS pc_last_studied,
+           c.stability AS pc_stability,
+           c.fsrs_difficulty AS pc_fsrs_difficulty,
+           CASE WHEN COALESCE(c.card_state,'new')='review'
+                THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW()))
+           END AS pc_recall,
+           c.note_id AS pc_note_id,
+           -- Whether this card's state has sibling burying switched on
+           CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN bury_new
+                WHEN COALESCE(c.card_state,'new')='review' THEN bury_review
+                ELSE bury_learning END AS pc_buries,
+           -- First card of each note in study order; later siblings wait for another day
+           ROW_NUMBER() OVER (PARTITION BY c.note_id ORDER BY
+                CASE WHEN COALESCE(c.card_state,'new')='relearning' THEN 1
+                     WHEN COALESCE(c.card_state,'new')='learning' THEN 2
+                     WHEN COALESCE(c.card_state,'new')='review' THEN 3
+                     ELSE 4 END,
+                COALESCE(c.next_due,NOW()), c.id) AS pc_sibling_rank,
+           ROW_NUMBER() OVER (PARTITION BY COALESCE(c.card_state,'new') ORDER BY 
+                CASE WHEN COALESCE(c.card_state,'new') IN('learning','relearning') THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                -- Backlog mode: most at-risk reviews first
+                CASE WHEN backlog_mode AND COALESCE(c.card_state,'new')='review'
+                     THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW())) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='review' THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN c.created_at END ASC NULLS LAST) AS pc_state_rank
+    FROM public.cards c JOIN public.decks d ON c.deck_id=d.id
+    WHERE c.deck_id=p_deck_id AND d.owner_id=auth.uid() AND NOT COALESCE(c.is_leech,false) AND (
+      COALESCE(c.card_state,'new') IN('learning','relearning') OR
+      (COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<=NOW()) OR
+      (COALESCE(c.card_state,'new')='new' AND remaining_new_cards>0) OR
+      (c.review_count=0 AND remaining_new_cards>0))
+    -- Buried: a sibling was already reviewed today
+    AND NOT (
+      CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN bury_new
+           WHEN COALESCE(c.card_state,'new')='review' THEN bury_review
+           ELSE bury_learning END
+      AND public.sibling_reviewed_today(c.id, c.note_id))
+  )
+  SELECT pc_card_id,
+         pc_card_type::text,
+         pc_front,
+         pc_back,
+         pc_card_state::text,
+         pc_learning_step,
+         pc_lapse_count,
+         pc_is_leech,
+         pc_next_due,
+         pc_ease_factor::numeric,
+         pc_interval_days::int,
+         pc_priority,
+         pc_review_count::int,
+         pc_last_studied::timestamptz,
+         pc_stability::double precision,
+         pc_fsrs_difficulty::double precision,
+         pc_recall::double precision,
+         pc_note_id
+  FROM prioritized_cards
+  WHERE ((pc_card_state<>'new' AND pc_priority<>4) OR (pc_state_rank<=remaining_new_cards))
+    -- Backlog mode caps today's overdue reviews at the intake left
+    AND NOT (backlog_mode AND pc_priority=3 AND pc_state_rank>backlog_remaining)
+    -- One card per note in a session so siblings don't give each other away
+    AND NOT (pc_buries AND pc_sibling_rank>1)
+  ORDER BY pc_priority,
+           CASE WHEN backlog_mode AND pc_priority=3 THEN pc_state_rank END ASC NULLS LAST,
+           pc_next_due NULLS LAST
+  LIMIT p_total_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_advanced_study_queue(UUID, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,400 @@
+-- Leech Actions
+-- A card becomes a leech when its lapses reach the deck's lapse threshold. What
+-- happens then is now a per-deck choice: 'suspend' (the previous behaviour,
+-- the card leaves the study queue) or 'tag' (the card keeps coming up). Both
+-- tag the card "leech". Suspension gets its own column so a repaired leech can
+-- return to study, and get_leeches backs the leech repair screen.
+
+-- ========================================
+-- SCHEMA
+-- ========================================
+
+ALTER TABLE public.cards ADD COLUMN IF NOT EXISTS is_suspended BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Leeches used to be hidden from the queue outright; keep them hidden
+UPDATE public.cards SET is_suspended = TRUE WHERE COALESCE(is_leech, false) AND NOT is_suspended;
+
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS leech_action TEXT DEFAULT 'suspend'
+  CHECK (leech_action IN ('suspend', 'tag'));
+
+-- ========================================
+-- LEECH REPAIR
+-- ========================================
+
+-- Leeches (optionally of one deck) with their full review history, oldest review first
+CREATE OR REPLACE FUNCTION public.get_leeches(p_deck_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  card_id UUID,
+  deck_id UUID,
+  deck_name TEXT,
+  card_type TEXT,
+  front TEXT,
+  back TEXT,
+  tags TEXT[],
+  lapse_count INTEGER,
+  ease_factor NUMERIC,
+  interval_days INTEGER,
+  is_suspended BOOLEAN,
+  review_history JSONB)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id,
+         c.deck_id,
+         d.name,
+         COALESCE(c.type, 'basic')::TEXT,
+         c.front,
+         c.back,
+         COALESCE(c.tags, '{}'),
+         COALESCE(c.lapse_count, 0),
+         COALESCE(c.ease_factor, 2.5)::NUMERIC,
+         COALESCE(c.interval, 1)::INTEGER,
+         COALESCE(c.is_suspended, false),
+         COALESCE((
+           SELECT jsonb_agg(jsonb_build_object(
+                    'rating', r.rating,
+                    'reviewed_at', r.reviewed_at,
+                    'time_taken', r.time_taken,
+                    'interval_before', r.interval_before)
+                  ORDER BY r.reviewed_at)
+           FROM public.reviews r
+           WHERE r.card_id = c.id
+         ), '[]'::JSONB)
+  FROM public.cards c
+  JOIN public.decks d ON d.id = c.deck_id
+  WHERE d.owner_id = auth.uid()
+    AND COALESCE(c.is_leech, false)
+    AND (p_deck_id IS NULL OR c.deck_id = p_deck_id)
+  ORDER BY COALESCE(c.lapse_count, 0) DESC, c.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_leeches(UUID) TO authenticated;
+
+-- ========================================
+-- UNDO
+-- ========================================
+
+CREATE OR REPLACE FUNCTION public.undo_review(p_review_id BIGINT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  review_record public.reviews;
+  snapshot JSONB;
+  restored public.cards;
+BEGIN
+  SELECT r.* INTO review_record
+  FROM public.reviews r
+  JOIN public.cards c ON c.id = r.card_id
+  JOIN public.decks d ON d.id = c.deck_id
+  WHERE r.id = p_review_id AND d.owner_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review % not found', p_review_id;
+  END IF;
+
+  snapshot := review_record.card_snapshot;
+  IF snapshot IS NULL THEN
+    RAISE EXCEPTION 'Review % has no card snapshot and cannot be undone', p_review_id;
+  END IF;
+
+  -- Only the latest review of a card can be rolled back, otherwise the
+  -- snapshot would overwrite the effect of every later review
+  IF EXISTS (
+    SELECT 1 FROM public.reviews
+    WHERE card_id = review_record.card_id AND id > review_record.id
+  ) THEN
+    RAISE EXCEPTION 'Only the most recent review of a card can be undone';
+  END IF;
+
+  UPDATE public.cards SET
+    card_state = snapshot->>'card_state',
+    learning_step = (snapshot->>'learning_step')::INTEGER,
+    lapse_count = (snapshot->>'lapse_count')::INTEGER,
+    ease_factor = (snapshot->>'ease_factor')::NUMERIC,
+    interval = (snapshot->>'interval')::NUMERIC,
+    review_count = (snapshot->>'review_count')::INTEGER,
+    last_studied = (snapshot->>'last_studied')::TIMESTAMPTZ,
+    next_due = (snapshot->>'next_due')::TIMESTAMPTZ,
+    is_leech = (snapshot->>'is_leech')::BOOLEAN,
+    stability = (snapshot->>'stability')::DOUBLE PRECISION,
+    fsrs_difficulty = (snapshot->>'fsrs_difficulty')::DOUBLE PRECISION,
+    -- Leech actions; snapshots taken before they existed leave these alone
+    is_suspended = CASE WHEN snapshot ? 'is_suspended'
+                        THEN (snapshot->>'is_suspended')::BOOLEAN ELSE is_suspended END,
+    tags = CASE WHEN snapshot ? 'tags'
+                THEN ARRAY(SELECT jsonb_array_elements_text(COALESCE(snapshot->'tags', '[]'::JSONB)))
+                ELSE tags END
+  WHERE id = review_record.card_id
+  RETURNING * INTO restored;
+
+  -- Drop the transitions logged by the review and by this rollback
+  DELETE FROM public.card_transitions
+  WHERE card_id = review_record.card_id AND transitioned_at >= review_record.reviewed_at;
+
+  DELETE FROM public.reviews WHERE id = p_review_id;
+
+  RETURN jsonb_build_object(
+    'id', restored.id,
+    'card_state', restored.card_state,
+    'learning_step', restored.learning_step,
+    'lapse_count', restored.lapse_count,
+    'ease_factor', restored.ease_factor,
+    'interval', restored.interval,
+    'review_count', restored.review_count,
+    'last_studied', restored.last_studied,
+    'next_due', restored.next_due,
+    'is_leech', restored.is_leech,
+    'stability', restored.stability,
+    'fsrs_difficulty', restored.fsrs_difficulty,
+    'is_suspended', restored.is_suspended,
+    'tags', restored.tags
+  );
+END;
+$$;
+
+-- ========================================
+-- QUEUES: SUSPENDED CARDS ARE SKIPPED, TAGGED LEECHES ARE NOT
+-- ========================================
+
+CREATE OR REPLACE FUNCTION public.get_backlog_status(p_deck_id UUID)
+RETURNS TABLE (
+  overdue_count INTEGER,
+  daily_intake INTEGER,
+  intake_remaining INTEGER,
+  in_backlog BOOLEAN,
+  days_to_clear INTEGER,
+  mean_recall DOUBLE PRECISION)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config_record public.deck_configs;
+  reviewed_today INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.decks WHERE id = p_deck_id AND owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Deck % not found', p_deck_id;
+  END IF;
+
+  SELECT * INTO config_record FROM public.get_deck_config(p_deck_id);
+  daily_intake := COALESCE(config_record.backlog_daily_intake, 100);
+
+  SELECT COUNT(*)::INTEGER, AVG(public.estimate_recall(c.interval, c.ease_factor, c.next_due))
+  INTO overdue_count, mean_recall
+  FROM public.cards c
+  WHERE c.deck_id = p_deck_id
+    AND c.card_state = 'review'
+    AND NOT COALESCE(c.is_suspended, false)
+    AND c.next_due <= NOW();
+
+  SELECT COUNT(*)::INTEGER INTO reviewed_today
+  FROM public.reviews r JOIN public.cards c ON r.card_id = c.id
+  WHERE c.deck_id = p_deck_id AND r.reviewed_at >= CURRENT_DATE AND r.interval_before >= 1;
+
+  intake_remaining := GREATEST(0, daily_intake - reviewed_today);
+  in_backlog := overdue_count > daily_intake;
+  days_to_clear := CASE
+    WHEN overdue_count = 0 THEN 0
+    WHEN overdue_count <= intake_remaining THEN 1
+    -- Whatever today still takes, then full days after that
+    ELSE CASE WHEN intake_remaining > 0 THEN 1 ELSE 0 END
+      + CEIL((overdue_count - intake_remaining)::NUMERIC / daily_intake)::INTEGER
+  END;
+
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_advanced_study_queue(
+  p_deck_id UUID,
+  p_new_limit INTEGER DEFAULT 20,
+  p_total_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  result_card_id UUID,
+  result_card_type TEXT,
+  result_front TEXT,
+  result_back TEXT,
+  result_card_state TEXT,
+  result_learning_step INTEGER,
+  result_lapse_count INTEGER,
+  result_is_leech BOOLEAN,
+  result_next_due TIMESTAMPTZ,
+  result_ease_factor NUMERIC,
+  result_interval_days INTEGER,
+  result_priority INTEGER,
+  result_review_count INTEGER,
+  result_last_studied TIMESTAMPTZ,
+  result_stability DOUBLE PRECISION,
+  result_fsrs_difficulty DOUBLE PRECISION,
+  result_recall_probability DOUBLE PRECISION,
+  result_note_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config_record public.deck_configs;
+  new_cards_today INTEGER := 0;
+  remaining_new_cards INTEGER;
+  backlog_mode BOOLEAN := FALSE;
+  backlog_remaining INTEGER := 0;
+  bury_new BOOLEAN;
+  bury_review BOOLEAN;
+  bury_learning BOOLEAN;
+BEGIN
+  SELECT * INTO config_record FROM public.get_deck_config(p_deck_id);
+  SELECT COALESCE(COUNT(*),0) INTO new_cards_today
+  FROM public.reviews r JOIN public.cards c ON r.card_id=c.id
+  WHERE c.deck_id=p_deck_id AND r.reviewed_at>=CURRENT_DATE AND c.review_count=0;
+  remaining_new_cards := GREATEST(0, config_record.new_cards_per_day - new_cards_today);
+  bury_new := COALESCE(config_record.bury_new_siblings, TRUE);
+  bury_review := COALESCE(config_record.bury_review_siblings, TRUE);
+  bury_learning := COALESCE(config_record.bury_learning_siblings, FALSE);
+
+  SELECT b.in_backlog, b.intake_remaining INTO backlog_mode, backlog_remaining
+  FROM public.get_backlog_status(p_deck_id) b;
+
+  RETURN QUERY WITH prioritized_cards AS (
+    SELECT c.id AS pc_card_id,
+           COALESCE(c.type,'basic') AS pc_card_type,
+           COALESCE(c.front,'') AS pc_front,
+           COALESCE(c.back,'') AS pc_back,
+           COALESCE(c.card_state,'new') AS pc_card_state,
+           COALESCE(c.learning_step,0) AS pc_learning_step,
+           COALESCE(c.lapse_count,0) AS pc_lapse_count,
+           COALESCE(c.is_leech,false) AS pc_is_leech,
+           COALESCE(c.next_due,NOW()) AS pc_next_due,
+           COALESCE(c.ease_factor,2.5) AS pc_ease_factor,
+           COALESCE(c.interval,1)::numeric AS pc_interval_days,
+           CASE WHEN COALESCE(c.card_state,'new')='relearning' THEN 1
+                WHEN COALESCE(c.card_state,'new')='learning' THEN 2
+                WHEN COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<=NOW() THEN 3
+                WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN 4
+                ELSE 5 END AS pc_priority,
+           COALESCE(c.review_count,0) AS pc_review_count,
+           c.last_studied AS pc_last_studied,
+           c.stability AS pc_stability,
+           c.fsrs_difficulty AS pc_fsrs_difficulty,
+           CASE WHEN COALESCE(c.card_state,'new')='review'
+                THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW()))
+           END AS pc_recall,
+           c.note_id AS pc_note_id,
+           -- Whether this card's state has sibling burying switched on
+           CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN bury_new
+                WHEN COALESCE(c.card_state,'new')='review' THEN bury_review
+                ELSE bury_learning END AS pc_buries,
+           -- First card of each note in study order; later siblings wait for another day
+           ROW_NUMBER() OVER (PARTITION BY c.note_id ORDER BY
+                CASE WHEN COALESCE(c.card_state,'new')='relearning' THEN 1
+                     WHEN COALESCE(c.card_state,'new')='learning' THEN 2
+                     WHEN COALESCE(c.card_state,'new')='review' THEN 3
+                     ELSE 4 END,
+                COALESCE(c.next_due,NOW()), c.id) AS pc_sibling_rank,
+           ROW_NUMBER() OVER (PARTITION BY COALESCE(c.card_state,'new') ORDER BY 
+                CASE WHEN COALESCE(c.card_state,'new') IN('learning','relearning') THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                -- Backlog mode: most at-risk reviews first
+                CASE WHEN backlog_mode AND COALESCE(c.card_state,'new')='review'
+                     THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW())) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='review' THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN c.created_at END ASC NULLS LAST) AS pc_state_rank
+    FROM public.cards c JOIN public.decks d ON c.deck_id=d.id
+    WHERE c.deck_id=p_deck_id AND d.owner_id=auth.uid() AND NOT COALESCE(c.is_suspended,false) AND (
+      COALESCE(c.card_state,'new') IN('learning','relearning') OR
+      (COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<=NOW()) OR
+      (COALESCE(c.card_state,'new')='new' AND remaining_new_cards>0) OR
+      (c.review_count=0 AND remaining_new_cards>0))
+    -- Buried: a sibling was already reviewed today
+    AND NOT (
+      CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN bury_new
+           WHEN COALESCE(c.card_state,'new')='review' THEN bury_review
+           ELSE bury_learning END
+      AND public.sibling_reviewed_today(c.id, c.note_id))
+  )
+  SELECT pc_card_id,
+         pc_card_type::text,
+         pc_front,
+         pc_back,
+         pc_card_state::text,
+         pc_learning_step,
+         pc_lapse_count,
+         pc_is_leech,
+         pc_next_due,
+         pc_ease_factor::numeric,
+         pc_interval_days::int,
+         pc_priority,
+         pc_review_count::int,
+         pc_last_studied::timestamptz,
+         pc_stability::double precision,
+         pc_fsrs_difficulty::double precision,
+         pc_recall::double precision,
+         pc_note_id
+  FROM prioritized_cards
+  WHERE ((pc_card_state<>'new' AND pc_priority<>4) OR (pc_state_rank<=remaining_new_cards))
+    -- Backlog mode caps today's overdue reviews at the intake left
+    AND NOT (backlog_mode AND pc_priority=3 AND pc_state_rank>backlog_remaining)
+    -- One card per note in a session so siblings don't give each other away
+    AND NOT (pc_buries AND pc_sibling_rank>1)
+  ORDER BY pc_priority,
+           CASE WHEN backlog_mode AND pc_priority=3 THEN pc_state_rank END ASC NULLS LAST,
+           pc_next_due NULLS LAST
+  LIMIT p_total_limit;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_filtered_cards(
+  p_query JSONB,
+  p_order_by TEXT DEFAULT 'due',
+  p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (card_id UUID, sort_position INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT matched.id, matched.sort_position
+  FROM (
+    SELECT c.id,
+           ROW_NUMBER() OVER (ORDER BY
+             CASE WHEN p_order_by = 'random' THEN random() END,
+             CASE WHEN p_order_by = 'lapses' THEN COALESCE(c.lapse_count, 0) END DESC NULLS LAST,
+             CASE WHEN p_order_by = 'ease' THEN COALESCE(c.ease_factor, 2.5) END ASC NULLS LAST,
+             -- Lowest recall first; cards that are not in review have no estimate
+             CASE WHEN p_order_by = 'recall' AND COALESCE(c.card_state, 'new') = 'review'
+                  THEN public.estimate_recall(COALESCE(c.interval, 1), COALESCE(c.ease_factor, 2.5), COALESCE(c.next_due, NOW())) END ASC NULLS LAST,
+             CASE WHEN p_order_by = 'added' THEN c.created_at END DESC NULLS LAST,
+             COALESCE(c.next_due, NOW()) ASC,
+             c.id)::INTEGER AS sort_position
+    FROM public.cards c
+    JOIN public.decks d ON d.id = c.deck_id
+    LEFT JOIN LATERAL (
+      SELECT r.rating FROM public.reviews r
+      WHERE r.card_id = c.id
+      ORDER BY r.reviewed_at DESC
+      LIMIT 1
+    ) last_review ON TRUE
+    WHERE d.owner_id = auth.uid()
+      AND NOT COALESCE(c.is_suspended, false)
+      AND (COALESCE(jsonb_array_length(p_query->'deck_ids'), 0) = 0
+           OR c.deck_id::TEXT IN (SELECT jsonb_array_elements_text(p_query->'deck_ids')))
+      AND (COALESCE(jsonb_array_length(p_query->'tags'), 0) = 0
+           OR COALESCE(c.tags, '{}') && ARRAY(SELECT jsonb_array_elements_text(p_query->'tags')))
+      AND (COALESCE(jsonb_array_length(p_query->'card_states'), 0) = 0
+           OR COALESCE(c.card_state, 'new') IN (SELECT jsonb_array_elements_text(p_query->'card_states')))
+      AND (p_query->>'min_lapses' IS NULL
+           OR COALESCE(c.lapse_count, 0) >= (p_query->>'min_lapses')::INTEGER)
+      AND (p_query->>'max_ease' IS NULL
+           OR COALESCE(c.ease_factor, 2.5) <= (p_query->>'max_ease')::NUMERIC)
+      AND (p_query->>'min_days_overdue' IS NULL
+           OR (COALESCE(c.card_state, 'new') <> 'new'
+               AND COALESCE(c.next_due, NOW()) <= NOW() - (p_query->>'min_days_overdue')::NUMERIC * INTERVAL '1 day'))
+      AND (COALESCE(jsonb_array_length(p_query->'last_ratings'), 0) = 0
+           OR last_review.rating IN (SELECT jsonb_array_elements_text(p_query->'last_ratings')::SMALLINT))
+  ) matched
+  ORDER BY matched.sort_position
+  LIMIT GREATEST(p_limit, 0);
+$$;
@@ -0,0 +1,477 @@
+-- Day Rollover
+-- A per-user "next day starts at" hour, read together with the time zone from
+-- user_preferences.preferences (dayStartHour, timeZone). Everything that asks
+-- "what is today" goes through study_date / study_day_start so daily limits,
+-- streaks, the workload log and due counts agree with the client and the
+-- review edge function. Users without preferences keep midnight UTC.
+
+-- ========================================
+-- STUDY DAY HELPERS
+-- ========================================
+
+-- These run with the caller's rights, so they only see the user_preferences
+-- rows RLS lets the caller read; anyone else's settings fall back to midnight UTC
+
+-- The user's time zone (UTC when unset or unknown) and rollover hour (0-23)
+CREATE OR REPLACE FUNCTION public.study_day_settings(p_user_id UUID)
+RETURNS TABLE (time_zone TEXT, day_start_hour INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(tz.name, 'UTC'),
+    LEAST(GREATEST(COALESCE(ROUND((p.preferences->>'dayStartHour')::NUMERIC)::INTEGER, 0), 0), 23)
+  FROM (SELECT p_user_id AS user_id) u
+  LEFT JOIN public.user_preferences p ON p.user_id = u.user_id
+  LEFT JOIN pg_timezone_names tz ON tz.name = p.preferences->>'timeZone';
+$$;
+
+-- Study date a moment belongs to: the local date, counted from the rollover hour
+CREATE OR REPLACE FUNCTION public.study_date_at(p_at TIMESTAMPTZ, p_time_zone TEXT, p_day_start_hour INTEGER)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ((p_at AT TIME ZONE p_time_zone) - make_interval(hours => p_day_start_hour))::DATE;
+$$;
+
+-- The user's study date for a moment (today by default)
+CREATE OR REPLACE FUNCTION public.study_date(p_user_id UUID, p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT public.study_date_at(p_at, s.time_zone, s.day_start_hour)
+  FROM public.study_day_settings(p_user_id) s;
+$$;
+
+-- Moment a study date begins for the user (today's by default)
+CREATE OR REPLACE FUNCTION public.study_day_start(p_user_id UUID, p_date DATE DEFAULT NULL)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT (COALESCE(p_date, public.study_date_at(NOW(), s.time_zone, s.day_start_hour))
+          + make_interval(hours => s.day_start_hour)) AT TIME ZONE s.time_zone
+  FROM public.study_day_settings(p_user_id) s;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.study_day_settings(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.study_date_at(TIMESTAMPTZ, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.study_date(UUID, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.study_day_start(UUID, DATE) TO authenticated;
+
+-- ========================================
+-- DUE CARDS
+-- ========================================
+
+-- Day-based cards count as due for the whole study day they fall in;
+-- learning steps stay due to the minute
+CREATE OR REPLACE FUNCTION public.get_due_cards(p_deck UUID, p_limit INT DEFAULT 30)
+RETURNS SETOF public.cards
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.*
+  FROM public.cards c
+  JOIN public.decks d ON d.id = c.deck_id
+  CROSS JOIN (SELECT public.study_day_start(auth.uid(), public.study_date(auth.uid()) + 1) AS day_end) today
+  WHERE c.deck_id = p_deck
+    AND d.owner_id = auth.uid()
+    AND (c.next_due IS NULL
+         OR c.next_due < CASE WHEN c.card_state IN ('learning', 'relearning') THEN NOW() ELSE today.day_end END)
+  ORDER BY c.next_due NULLS FIRST
+  LIMIT p_limit;
+$$;
+
+-- Review cards in the deck due N study days from today, for due dates in
+-- [now, now + p_days). Days with nothing due are omitted.
+CREATE OR REPLACE FUNCTION public.get_due_counts(p_deck_id UUID, p_days INTEGER DEFAULT 400)
+RETURNS TABLE (day_offset INTEGER, due_count INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings RECORD;
+  today DATE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.decks WHERE id = p_deck_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Deck % not found', p_deck_id;
+  END IF;
+
+  SELECT * INTO settings FROM public.study_day_settings(auth.uid());
+  today := public.study_date_at(NOW(), settings.time_zone, settings.day_start_hour);
+
+  RETURN QUERY
+  SELECT
+    (public.study_date_at(c.next_due, settings.time_zone, settings.day_start_hour) - today)::INTEGER AS day_offset,
+    COUNT(*)::INTEGER AS due_count
+  FROM public.cards c
+  WHERE c.deck_id = p_deck_id
+    AND c.card_state = 'review'
+    AND c.next_due >= NOW()
+    AND c.next_due < NOW() + make_interval(days => p_days)
+  GROUP BY 1;
+END;
+$$;
+
+-- ========================================
+-- DAILY LIMITS, BACKLOG AND SIBLINGS
+-- ========================================
+
+-- Whether another card of the same note was reviewed since p_since (the start of today)
+DROP FUNCTION IF EXISTS public.sibling_reviewed_today(UUID, UUID);
+CREATE OR REPLACE FUNCTION public.sibling_reviewed_today(p_card_id UUID, p_note_id UUID, p_since TIMESTAMPTZ)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.cards s
+    JOIN public.reviews r ON r.card_id = s.id
+    WHERE s.note_id = p_note_id
+      AND s.id <> p_card_id
+      AND r.reviewed_at >= p_since
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.sibling_reviewed_today(UUID, UUID, TIMESTAMPTZ) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_backlog_status(p_deck_id UUID)
+RETURNS TABLE (
+  overdue_count INTEGER,
+  daily_intake INTEGER,
+  intake_remaining INTEGER,
+  in_backlog BOOLEAN,
+  days_to_clear INTEGER,
+  mean_recall DOUBLE PRECISION)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config_record public.deck_configs;
+  reviewed_today INTEGER;
+  day_start TIMESTAMPTZ := public.study_day_start(auth.uid());
+  day_end TIMESTAMPTZ := public.study_day_start(auth.uid(), public.study_date(auth.uid()) + 1);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.decks WHERE id = p_deck_id AND owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Deck % not found', p_deck_id;
+  END IF;
+
+  SELECT * INTO config_record FROM public.get_deck_config(p_deck_id);
+  daily_intake := COALESCE(config_record.backlog_daily_intake, 100);
+
+  SELECT COUNT(*)::INTEGER, AVG(public.estimate_recall(c.interval, c.ease_factor, c.next_due))
+  INTO overdue_count, mean_recall
+  FROM public.cards c
+  WHERE c.deck_id = p_deck_id
+    AND c.card_state = 'review'
+    AND NOT COALESCE(c.is_suspended, false)
+    AND c.next_due < day_end;
+
+  SELECT COUNT(*)::INTEGER INTO reviewed_today
+  FROM public.reviews r JOIN public.cards c ON r.card_id = c.id
+  WHERE c.deck_id = p_deck_id AND r.reviewed_at >= day_start AND r.interval_before >= 1;
+
+  intake_remaining := GREATEST(0, daily_intake - reviewed_today);
+  in_backlog := overdue_count > daily_intake;
+  days_to_clear := CASE
+    WHEN overdue_count = 0 THEN 0
+    WHEN overdue_count <= intake_remaining THEN 1
+    -- Whatever today still takes, then full days after that
+    ELSE CASE WHEN intake_remaining > 0 THEN 1 ELSE 0 END
+      + CEIL((overdue_count - intake_remaining)::NUMERIC / daily_intake)::INTEGER
+  END;
+
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_advanced_study_queue(
+  p_deck_id UUID,
+  p_new_limit INTEGER DEFAULT 20,
+  p_total_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  result_card_id UUID,
+  result_card_type TEXT,
+  result_front TEXT,
+  result_back TEXT,
+  result_card_state TEXT,
+  result_learning_step INTEGER,
+  result_lapse_count INTEGER,
+  result_is_leech BOOLEAN,
+  result_next_due TIMESTAMPTZ,
+  result_ease_factor NUMERIC,
+  result_interval_days INTEGER,
+  result_priority INTEGER,
+  result_review_count INTEGER,
+  result_last_studied TIMESTAMPTZ,
+  result_stability DOUBLE PRECISION,
+  result_fsrs_difficulty DOUBLE PRECISION,
+  result_recall_probability DOUBLE PRECISION,
+  result_note_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config_record public.deck_configs;
+  new_cards_today INTEGER := 0;
+  remaining_new_cards INTEGER;
+  backlog_mode BOOLEAN := FALSE;
+  backlog_remaining INTEGER := 0;
+  bury_new BOOLEAN;
+  bury_review BOOLEAN;
+  bury_learning BOOLEAN;
+  day_start TIMESTAMPTZ := public.study_day_start(auth.uid());
+  day_end TIMESTAMPTZ := public.study_day_start(auth.uid(), public.study_date(auth.uid()) + 1);
+BEGIN
+  SELECT * INTO config_record FROM public.get_deck_config(p_deck_id);
+  SELECT COALESCE(COUNT(*),0) INTO new_cards_today
+  FROM public.reviews r JOIN public.cards c ON r.card_id=c.id
+  WHERE c.deck_id=p_deck_id AND r.reviewed_at>=day_start AND c.review_count=0;
+  remaining_new_cards := GREATEST(0, config_record.new_cards_per_day - new_cards_today);
+  bury_new := COALESCE(config_record.bury_new_siblings, TRUE);
+  bury_review := COALESCE(config_record.bury_review_siblings, TRUE);
+  bury_learning := COALESCE(config_record.bury_learning_siblings, FALSE);
+
+  SELECT b.in_backlog, b.intake_remaining INTO backlog_mode, backlog_remaining
+  FROM public.get_backlog_status(p_deck_id) b;
+
+  RETURN QUERY WITH prioritized_cards AS (
+    SELECT c.id AS pc_card_id,
+           COALESCE(c.type,'basic') AS pc_card_type,
+           COALESCE(c.front,'') AS pc_front,
+           COALESCE(c.back,'') AS pc_back,
+           COALESCE(c.card_state,'new') AS pc_card_state,
+           COALESCE(c.learning_step,0) AS pc_learning_step,
+           COALESCE(c.lapse_count,0) AS pc_lapse_count,
+           COALESCE(c.is_leech,false) AS pc_is_leech,
+           COALESCE(c.next_due,NOW()) AS pc_next_due,
+           COALESCE(c.ease_factor,2.5) AS pc_ease_factor,
+           COALESCE(c.interval,1)::numeric AS pc_interval_days,
+           CASE WHEN COALESCE(c.card_state,'new')='relearning' THEN 1
+                WHEN COALESCE(c.card_state,'new')='learning' THEN 2
+                WHEN COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<day_end THEN 3
+                WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN 4
+                ELSE 5 END AS pc_priority,
+           COALESCE(c.review_count,0) AS pc_review_count,
+           c.last_studied AS pc_last_studied,
+           c.stability AS pc_stability,
+           c.fsrs_difficulty AS pc_fsrs_difficulty,
+           CASE WHEN COALESCE(c.card_state,'new')='review'
+                THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW()))
+           END AS pc_recall,
+           c.note_id AS pc_note_id,
+           -- Whether this card's state has sibling burying switched on
+           CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN bury_new
+                WHEN COALESCE(c.card_state,'new')='review' THEN bury_review
+                ELSE bury_learning END AS pc_buries,
+           -- First card of each note in study order; later siblings wait for another day
+           ROW_NUMBER() OVER (PARTITION BY c.note_id ORDER BY
+                CASE WHEN COALESCE(c.card_state,'new')='relearning' THEN 1
+                     WHEN COALESCE(c.card_state,'new')='learning' THEN 2
+                     WHEN COALESCE(c.card_state,'new')='review' THEN 3
+                     ELSE 4 END,
+                COALESCE(c.next_due,NOW()), c.id) AS pc_sibling_rank,
+           ROW_NUMBER() OVER (PARTITION BY COALESCE(c.card_state,'new') ORDER BY 
+                CASE WHEN COALESCE(c.card_state,'new') IN('learning','relearning') THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                -- Backlog mode: most at-risk reviews first
+                CASE WHEN backlog_mode AND COALESCE(c.card_state,'new')='review'
+                     THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW())) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='review' THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN c.created_at END ASC NULLS LAST) AS pc_state_rank
+    FROM public.cards c JOIN public.decks d ON c.deck_id=d.id
+    WHERE c.deck_id=p_deck_id AND d.owner_id=auth.uid() AND NOT COALESCE(c.is_suspended,false) AND (
+      COALESCE(c.card_state,'new') IN('learning','relearning') OR
+      (COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<day_end) OR
+      (COALESCE(c.card_state,'new')='new' AND remaining_new_cards>0) OR
+      (c.review_count=0 AND remaining_new_cards>0))
+    -- Buried: a sibling was already reviewed today
+    AND NOT (
+      CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN bury_new
+           WHEN COALESCE(c.card_state,'new')='review' THEN bury_review
+           ELSE bury_learning END
+      AND public.sibling_reviewed_today(c.id, c.note_id, day_start))
+  )
+  SELECT pc_card_id,
+         pc_card_type::text,
+         pc_front,
+         pc_back,
+         pc_card_state::text,
+         pc_learning_step,
+         pc_lapse_count,
+         pc_is_leech,
+         pc_next_due,
+         pc_ease_factor::numeric,
+         pc_interval_days::int,
+         pc_priority,
+         pc_review_count::int,
+         pc_last_studied::timestamptz,
+         pc_stability::double precision,
+         pc_fsrs_difficulty::double precision,
+         pc_recall::double precision,
+         pc_note_id
+  FROM prioritized_cards
+  WHERE ((pc_card_state<>'new' AND pc_priority<>4) OR (pc_state_rank<=remaining_new_cards))
+    -- Backlog mode caps today's overdue reviews at the intake left
+    AND NOT (backlog_mode AND pc_priority=3 AND pc_state_rank>backlog_remaining)
+    -- One card per note in a session so siblings don't give each other away
+    AND NOT (pc_buries AND pc_sibling_rank>1)
+  ORDER BY pc_priority,
+           CASE WHEN backlog_mode AND pc_priority=3 THEN pc_state_rank END ASC NULLS LAST,
+           pc_next_due NULLS LAST
+  LIMIT p_total_limit;
+END;
+$$;
+
+-- ========================================
+-- WORKLOAD LOG
+-- ========================================
+
+CREATE OR REPLACE FUNCTION update_daily_workload()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.daily_workload (
+    user_id,
+    date,
+    cards_studied,
+    study_time_seconds,
+    session_count,
+    avg_fatigue_score
+  )
+  VALUES (
+    NEW.user_id,
+    public.study_date(NEW.user_id, COALESCE(NEW.session_date, NOW())),
+    NEW.cards_studied,
+    NEW.time_spent_seconds,
+    1,
+    NEW.fatigue_score
+  )
+  ON CONFLICT (user_id, date) DO UPDATE SET
+    cards_studied = daily_workload.cards_studied + NEW.cards_studied,
+    study_time_seconds = daily_workload.study_time_seconds + NEW.time_spent_seconds,
+    session_count = daily_workload.session_count + 1,
+    avg_fatigue_score = CASE
+      WHEN NEW.fatigue_score IS NOT NULL THEN
+        (COALESCE(daily_workload.avg_fatigue_score, 0) * daily_workload.session_count + NEW.fatigue_score) / (daily_workload.session_count + 1)
+      ELSE daily_workload.avg_fatigue_score
+    END,
+    overload_warning = (daily_workload.cards_studied + NEW.cards_studied) > 200,
+    updated_at = NOW();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ========================================
+-- STREAKS AND CALENDAR
+-- ========================================
+
+-- Vacation days bridge a streak: they neither add to it nor break it
+CREATE OR REPLACE FUNCTION get_streak_info(p_user_id UUID)
+RETURNS TABLE (
+  current_streak INTEGER,
+  longest_streak INTEGER,
+  total_study_days INTEGER,
+  last_study_date DATE
+) AS $$
+DECLARE
+  settings RECORD;
+  today DATE;
+  study_dates DATE[];
+  vacation_dates DATE[];
+  check_date DATE;
+  run INTEGER;
+BEGIN
+  SELECT * INTO settings FROM public.study_day_settings(p_user_id);
+  today := public.study_date_at(NOW(), settings.time_zone, settings.day_start_hour);
+
+  SELECT ARRAY_AGG(DISTINCT public.study_date_at(reviewed_at, settings.time_zone, settings.day_start_hour))
+  INTO study_dates
+  FROM reviews r
+  JOIN cards c ON r.card_id = c.id
+  JOIN decks d ON c.deck_id = d.id
+  WHERE d.owner_id = p_user_id
+    AND reviewed_at >= NOW() - INTERVAL '1 year';
+
+  SELECT ARRAY_AGG(date)
+  INTO vacation_dates
+  FROM daily_workload
+  WHERE user_id = p_user_id AND is_vacation;
+
+  vacation_dates := COALESCE(vacation_dates, ARRAY[]::DATE[]);
+  current_streak := 0;
+  longest_streak := 0;
+  total_study_days := COALESCE(array_length(study_dates, 1), 0);
+
+  IF total_study_days = 0 THEN
+    RETURN QUERY SELECT 0, 0, 0, NULL::DATE;
+    RETURN;
+  END IF;
+
+  SELECT MAX(date_val) INTO last_study_date FROM unnest(study_dates) AS date_val;
+
+  -- Current streak: walk back from today; not having studied yet today is fine
+  check_date := today;
+  WHILE check_date > today - 366 LOOP
+    IF check_date = ANY(study_dates) THEN
+      current_streak := current_streak + 1;
+    ELSIF NOT (check_date = ANY(vacation_dates) OR check_date = today) THEN
+      EXIT;
+    END IF;
+    check_date := check_date - 1;
+  END LOOP;
+
+  -- Longest streak: longest run of study days, stepping over vacation days
+  run := 0;
+  FOR check_date IN
+    SELECT generate_series(MIN(date_val), MAX(date_val), INTERVAL '1 day')::DATE
+    FROM unnest(study_dates) AS date_val
+  LOOP
+    IF check_date = ANY(study_dates) THEN
+      run := run + 1;
+      longest_streak := GREATEST(longest_streak, run);
+    ELSIF NOT check_date = ANY(vacation_dates) THEN
+      run := 0;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT current_streak, longest_streak, total_study_days, last_study_date;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_study_calendar_data(p_user_id UUID)
+RETURNS TABLE (
+  study_date DATE,
+  cards_studied INTEGER,
+  sessions_count INTEGER,
+  total_time_minutes INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    public.study_date_at(sl.session_date, s.time_zone, s.day_start_hour) AS study_date,
+    SUM(sl.cards_studied)::INTEGER AS cards_studied,
+    COUNT(sl.id)::INTEGER AS sessions_count,
+    SUM(sl.time_spent_seconds / 60)::INTEGER AS total_time_minutes
+  FROM study_logs sl
+  CROSS JOIN public.study_day_settings(p_user_id) s
+  WHERE sl.user_id = p_user_id
+    AND sl.session_date >= NOW() - INTERVAL '1 year'
+  GROUP BY 1
+  ORDER BY 1 DESC;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,694 @@
+-- Bulk Rescheduling
+-- Scheduling changes for a selection of cards in one call: forget (back to
+-- new), set due date (a day or a random day in a range), reposition new
+-- cards, and shift due dates. All go through bulk_reschedule so card_state,
+-- interval and learning_step stay consistent, and each changed card gets a
+-- 'manual' entry in the review log holding its previous state.
+
+-- ========================================
+-- REVIEW LOG: MANUAL ENTRIES
+-- ========================================
+
+ALTER TABLE public.reviews ADD COLUMN IF NOT EXISTS review_kind TEXT NOT NULL DEFAULT 'review'
+  CHECK (review_kind IN ('review', 'manual'));
+ALTER TABLE public.reviews ADD COLUMN IF NOT EXISTS manual_action TEXT
+  CHECK (manual_action IN ('forget', 'set_due', 'reposition', 'shift'));
+
+-- Manual entries have no answer
+ALTER TABLE public.reviews ALTER COLUMN rating DROP NOT NULL;
+ALTER TABLE public.reviews ADD CONSTRAINT reviews_rating_matches_kind
+  CHECK ((review_kind = 'manual') = (rating IS NULL));
+
+-- Rescheduling is not studying
+DROP TRIGGER IF EXISTS tr_update_user_streak ON reviews;
+CREATE TRIGGER tr_update_user_streak
+  AFTER INSERT ON reviews
+  FOR EACH ROW
+  WHEN (NEW.review_kind = 'review')
+  EXECUTE FUNCTION trigger_update_user_streak();
+
+-- ========================================
+-- NEW CARD ORDER
+-- ========================================
+
+ALTER TABLE public.cards ADD COLUMN IF NOT EXISTS new_position INTEGER;
+
+UPDATE public.cards c SET new_position = ranked.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY deck_id ORDER BY created_at, id)::INTEGER AS position
+  FROM public.cards
+) ranked
+WHERE ranked.id = c.id AND c.new_position IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_cards_deck_new_position ON public.cards (deck_id, new_position);
+
+-- New cards join the end of their deck's new queue
+CREATE OR REPLACE FUNCTION public.set_card_new_position()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.new_position IS NULL THEN
+    SELECT COALESCE(MAX(new_position), 0) + 1 INTO NEW.new_position
+    FROM public.cards
+    WHERE deck_id = NEW.deck_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tr_cards_new_position ON public.cards;
+CREATE TRIGGER tr_cards_new_position
+BEFORE INSERT ON public.cards
+FOR EACH ROW
+EXECUTE FUNCTION public.set_card_new_position();
+
+-- ========================================
+-- BULK RESCHEDULE
+-- ========================================
+
+-- Writes a manual review log entry with the current state of each of the
+-- caller's cards. Internal to bulk_reschedule, so not callable directly.
+CREATE OR REPLACE FUNCTION public.log_manual_reschedule(p_card_ids UUID[], p_action TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.reviews (card_id, rating, time_taken, review_kind, manual_action, card_snapshot)
+  SELECT c.id, NULL, 0, 'manual', p_action,
+         jsonb_build_object(
+           'card_state', c.card_state,
+           'learning_step', c.learning_step,
+           'lapse_count', c.lapse_count,
+           'ease_factor', c.ease_factor,
+           'interval', c.interval,
+           'review_count', c.review_count,
+           'last_studied', c.last_studied,
+           'next_due', c.next_due,
+           'is_leech', c.is_leech,
+           'stability', c.stability,
+           'fsrs_difficulty', c.fsrs_difficulty,
+           'tags', c.tags,
+           'is_suspended', c.is_suspended,
+           'new_position', c.new_position)
+  FROM public.cards c
+  JOIN public.decks d ON d.id = c.deck_id
+  WHERE c.id = ANY(p_card_ids)
+    AND d.owner_id = auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_manual_reschedule(UUID[], TEXT) FROM PUBLIC, anon, authenticated;
+
+-- p_action / p_options:
+--   forget      { reset_counts }                    back to new, at the end of the new queue
+--   set_due     { min_days, max_days, set_interval } due on a random study day in [min, max] from today
+--   reposition  { start, step, randomize, shift_existing }  new cards only
+--   shift       { days }                            move due dates of cards already studied
+-- Returns the number of cards changed.
+CREATE OR REPLACE FUNCTION public.bulk_reschedule(
+  p_card_ids UUID[],
+  p_action TEXT,
+  p_options JSONB DEFAULT '{}'::JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  card_ids UUID[];
+  settings RECORD;
+  today DATE;
+  min_days INTEGER;
+  max_days INTEGER;
+  start_position INTEGER;
+  step INTEGER;
+  changed INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_action NOT IN ('forget', 'set_due', 'reposition', 'shift') THEN
+    RAISE EXCEPTION 'Unknown bulk action %', p_action;
+  END IF;
+
+  -- Only the caller's cards, and for reposition / shift only the cards they apply to
+  SELECT ARRAY_AGG(c.id) INTO card_ids
+  FROM public.cards c
+  JOIN public.decks d ON d.id = c.deck_id
+  WHERE c.id = ANY(p_card_ids)
+    AND d.owner_id = auth.uid()
+    AND CASE p_action
+          WHEN 'reposition' THEN COALESCE(c.card_state, 'new') = 'new'
+          WHEN 'shift' THEN COALESCE(c.card_state, 'new') <> 'new'
+          ELSE TRUE
+        END;
+
+  IF card_ids IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM public.log_manual_reschedule(card_ids, p_action);
+
+  IF p_action = 'forget' THEN
+    UPDATE public.cards c SET
+      card_state = 'new',
+      learning_step = 0,
+      interval = DEFAULT,
+      ease_factor = DEFAULT,
+      stability = NULL,
+      fsrs_difficulty = NULL,
+      next_due = NOW(),
+      new_position = queue_end.position + ranked.rank,
+      review_count = CASE WHEN COALESCE((p_options->>'reset_counts')::BOOLEAN, FALSE) THEN 0 ELSE c.review_count END,
+      lapse_count = CASE WHEN COALESCE((p_options->>'reset_counts')::BOOLEAN, FALSE) THEN 0 ELSE c.lapse_count END,
+      is_leech = CASE WHEN COALESCE((p_options->>'reset_counts')::BOOLEAN, FALSE) THEN FALSE ELSE c.is_leech END
+    FROM (
+      SELECT id, deck_id, ROW_NUMBER() OVER (PARTITION BY deck_id ORDER BY next_due, id)::INTEGER AS rank
+      FROM public.cards
+      WHERE id = ANY(card_ids)
+    ) ranked
+    JOIN (
+      SELECT deck_id, COALESCE(MAX(new_position), 0) AS position
+      FROM public.cards
+      GROUP BY deck_id
+    ) queue_end ON queue_end.deck_id = ranked.deck_id
+    WHERE c.id = ranked.id;
+
+  ELSIF p_action = 'set_due' THEN
+    min_days := GREATEST(0, COALESCE((p_options->>'min_days')::INTEGER, 0));
+    max_days := GREATEST(min_days, COALESCE((p_options->>'max_days')::INTEGER, min_days));
+    SELECT * INTO settings FROM public.study_day_settings(auth.uid());
+    today := public.study_date_at(NOW(), settings.time_zone, settings.day_start_hour);
+
+    -- Cards that were not in review get the new gap as their interval
+    UPDATE public.cards c SET
+      card_state = 'review',
+      learning_step = 0,
+      interval = CASE
+        WHEN COALESCE((p_options->>'set_interval')::BOOLEAN, FALSE) OR COALESCE(c.card_state, 'new') <> 'review'
+        THEN GREATEST(picked.days, 1)
+        ELSE c.interval
+      END,
+      next_due = ((today + picked.days) + make_interval(hours => settings.day_start_hour)) AT TIME ZONE settings.time_zone
+    FROM (
+      SELECT id, min_days + FLOOR(random() * (max_days - min_days + 1))::INTEGER AS days
+      FROM unnest(card_ids) AS id
+    ) picked
+    WHERE c.id = picked.id;
+
+  ELSIF p_action = 'reposition' THEN
+    start_position := COALESCE((p_options->>'start')::INTEGER, 1);
+    step := GREATEST(1, COALESCE((p_options->>'step')::INTEGER, 1));
+
+    -- Make room: later new cards of the same decks move back by the block's length
+    IF COALESCE((p_options->>'shift_existing')::BOOLEAN, FALSE) THEN
+      UPDATE public.cards c SET new_position = c.new_position + array_length(card_ids, 1) * step
+      WHERE c.deck_id IN (SELECT deck_id FROM public.cards WHERE id = ANY(card_ids))
+        AND NOT c.id = ANY(card_ids)
+        AND COALESCE(c.card_state, 'new') = 'new'
+        AND c.new_position >= start_position;
+    END IF;
+
+    UPDATE public.cards c SET new_position = start_position + (ranked.rank - 1) * step
+    FROM (
+      SELECT id, ROW_NUMBER() OVER (ORDER BY
+               CASE WHEN COALESCE((p_options->>'randomize')::BOOLEAN, FALSE) THEN random() END,
+               new_position, created_at, id)::INTEGER AS rank
+      FROM public.cards
+      WHERE id = ANY(card_ids)
+    ) ranked
+    WHERE c.id = ranked.id;
+
+  ELSE
+    UPDATE public.cards c SET
+      next_due = COALESCE(c.next_due, NOW()) + make_interval(days => COALESCE((p_options->>'days')::INTEGER, 0))
+    WHERE c.id = ANY(card_ids);
+  END IF;
+
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  RETURN changed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bulk_reschedule(UUID[], TEXT, JSONB) TO authenticated;
+
+-- ========================================
+-- READERS OF THE REVIEW LOG SKIP MANUAL ENTRIES
+-- ========================================
+
+CREATE OR REPLACE FUNCTION public.get_advanced_study_queue(
+  p_deck_id UUID,
+  p_new_limit INTEGER DEFAULT 20,
+  p_total_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  result_card_id UUID,
+  result_card_type TEXT,
+  result_front TEXT,
+  result_back TEXT,
+  result_card_state TEXT,
+  result_learning_step INTEGER,
+  result_lapse_count INTEGER,
+  result_is_leech BOOLEAN,
+  result_next_due TIMESTAMPTZ,
+  result_ease_factor NUMERIC,
+  result_interval_days INTEGER,
+  result_priority INTEGER,
+  result_review_count INTEGER,
+  result_last_studied TIMESTAMPTZ,
+  result_stability DOUBLE PRECISION,
+  result_fsrs_difficulty DOUBLE PRECISION,
+  result_recall_probability DOUBLE PRECISION,
+  result_note_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config_record public.deck_configs;
+  new_cards_today INTEGER := 0;
+  remaining_new_cards INTEGER;
+  backlog_mode BOOLEAN := FALSE;
+  backlog_remaining INTEGER := 0;
+  bury_new BOOLEAN;
+  bury_review BOOLEAN;
+  bury_learning BOOLEAN;
+  day_start TIMESTAMPTZ := public.study_day_start(auth.uid());
+  day_end TIMESTAMPTZ := public.study_day_start(auth.uid(), public.study_date(auth.uid()) + 1);
+BEGIN
+  SELECT * INTO config_record FROM public.get_deck_config(p_deck_id);
+  SELECT COALESCE(COUNT(*),0) INTO new_cards_today
+  FROM public.reviews r JOIN public.cards c ON r.card_id=c.id
+  WHERE c.deck_id=p_deck_id AND r.reviewed_at>=day_start AND r.review_kind='review' AND c.review_count=0;
+  remaining_new_cards := GREATEST(0, config_record.new_cards_per_day - new_cards_today);
+  bury_new := COALESCE(config_record.bury_new_siblings, TRUE);
+  bury_review := COALESCE(config_record.bury_review_siblings, TRUE);
+  bury_learning := COALESCE(config_record.bury_learning_siblings, FALSE);
+
+  SELECT b.in_backlog, b.intake_remaining INTO backlog_mode, backlog_remaining
+  FROM public.get_backlog_status(p_deck_id) b;
+
+  RETURN QUERY WITH prioritized_cards AS (
+    SELECT c.id AS pc_card_id,
+           COALESCE(c.type,'basic') AS pc_card_type,
+           COALESCE(c.front,'') AS pc_front,
+           COALESCE(c.back,'') AS pc_back,
+           COALESCE(c.card_state,'new') AS pc_card_state,
+           COALESCE(c.learning_step,0) AS pc_learning_step,
+           COALESCE(c.lapse_count,0) AS pc_lapse_count,
+           COALESCE(c.is_leech,false) AS pc_is_leech,
+           COALESCE(c.next_due,NOW()) AS pc_next_due,
+           COALESCE(c.ease_factor,2.5) AS pc_ease_factor,
+           COALESCE(c.interval,1)::numeric AS pc_interval_days,
+           CASE WHEN COALESCE(c.card_state,'new')='relearning' THEN 1
+                WHEN COALESCE(c.card_state,'new')='learning' THEN 2
+                WHEN COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<day_end THEN 3
+                WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN 4
+                ELSE 5 END AS pc_priority,
+           COALESCE(c.review_count,0) AS pc_review_count,
+           c.last_studied AS pc_last_studied,
+           c.stability AS pc_stability,
+           c.fsrs_difficulty AS pc_fsrs_difficulty,
+           CASE WHEN COALESCE(c.card_state,'new')='review'
+                THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW()))
+           END AS pc_recall,
+           c.note_id AS pc_note_id,
+           -- Whether this card's state has sibling burying switched on
+           CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN bury_new
+                WHEN COALESCE(c.card_state,'new')='review' THEN bury_review
+                ELSE bury_learning END AS pc_buries,
+           -- First card of each note in study order; later siblings wait for another day
+           ROW_NUMBER() OVER (PARTITION BY c.note_id ORDER BY
+                CASE WHEN COALESCE(c.card_state,'new')='relearning' THEN 1
+                     WHEN COALESCE(c.card_state,'new')='learning' THEN 2
+                     WHEN COALESCE(c.card_state,'new')='review' THEN 3
+                     ELSE 4 END,
+                COALESCE(c.next_due,NOW()), c.id) AS pc_sibling_rank,
+           ROW_NUMBER() OVER (PARTITION BY COALESCE(c.card_state,'new') ORDER BY 
+                CASE WHEN COALESCE(c.card_state,'new') IN('learning','relearning') THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                -- Backlog mode: most at-risk reviews first
+                CASE WHEN backlog_mode AND COALESCE(c.card_state,'new')='review'
+                     THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW())) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='review' THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN c.new_position END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN c.created_at END ASC NULLS LAST) AS pc_state_rank
+    FROM public.cards c JOIN public.decks d ON c.deck_id=d.id
+    WHERE c.deck_id=p_deck_id AND d.owner_id=auth.uid() AND NOT COALESCE(c.is_suspended,false) AND (
+      COALESCE(c.card_state,'new') IN('learning','relearning') OR
+      (COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<day_end) OR
+      (COALESCE(c.card_state,'new')='new' AND remaining_new_cards>0) OR
+      (c.review_count=0 AND remaining_new_cards>0))
+    -- Buried: a sibling was already reviewed today
+    AND NOT (
+      CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN bury_new
+           WHEN COALESCE(c.card_state,'new')='review' THEN bury_review
+           ELSE bury_learning END
+      AND public.sibling_reviewed_today(c.id, c.note_id, day_start))
+  )
+  SELECT pc_card_id,
+         pc_card_type::text,
+         pc_front,
+         pc_back,
+         pc_card_state::text,
+         pc_learning_step,
+         pc_lapse_count,
+         pc_is_leech,
+         pc_next_due,
+         pc_ease_factor::numeric,
+         pc_interval_days::int,
+         pc_priority,
+         pc_review_count::int,
+         pc_last_studied::timestamptz,
+         pc_stability::double precision,
+         pc_fsrs_difficulty::double precision,
+         pc_recall::double precision,
+         pc_note_id
+  FROM prioritized_cards
+  WHERE ((pc_card_state<>'new' AND pc_priority<>4) OR (pc_state_rank<=remaining_new_cards))
+    -- Backlog mode caps today's overdue reviews at the intake left
+    AND NOT (backlog_mode AND pc_priority=3 AND pc_state_rank>backlog_remaining)
+    -- One card per note in a session so siblings don't give each other away
+    AND NOT (pc_buries AND pc_sibling_rank>1)
+  ORDER BY pc_priority,
+           CASE WHEN backlog_mode AND pc_priority=3 THEN pc_state_rank END ASC NULLS LAST,
+           pc_next_due NULLS LAST
+  LIMIT p_total_limit;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sibling_reviewed_today(p_card_id UUID, p_note_id UUID, p_since TIMESTAMPTZ)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.cards s
+    JOIN public.reviews r ON r.card_id = s.id
+    WHERE s.note_id = p_note_id
+      AND s.id <> p_card_id
+      AND r.reviewed_at >= p_since
+      AND r.review_kind = 'review'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_filtered_cards(
+  p_query JSONB,
+  p_order_by TEXT DEFAULT 'due',
+  p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (card_id UUID, sort_position INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT matched.id, matched.sort_position
+  FROM (
+    SELECT c.id,
+           ROW_NUMBER() OVER (ORDER BY
+             CASE WHEN p_order_by = 'random' THEN random() END,
+             CASE WHEN p_order_by = 'lapses' THEN COALESCE(c.lapse_count, 0) END DESC NULLS LAST,
+             CASE WHEN p_order_by = 'ease' THEN COALESCE(c.ease_factor, 2.5) END ASC NULLS LAST,
+             -- Lowest recall first; cards that are not in review have no estimate
+             CASE WHEN p_order_by = 'recall' AND COALESCE(c.card_state, 'new') = 'review'
+                  THEN public.estimate_recall(COALESCE(c.interval, 1), COALESCE(c.ease_factor, 2.5), COALESCE(c.next_due, NOW())) END ASC NULLS LAST,
+             CASE WHEN p_order_by = 'added' THEN c.created_at END DESC NULLS LAST,
+             COALESCE(c.next_due, NOW()) ASC,
+             c.id)::INTEGER AS sort_position
+    FROM public.cards c
+    JOIN public.decks d ON d.id = c.deck_id
+    LEFT JOIN LATERAL (
+      SELECT r.rating FROM public.reviews r
+      WHERE r.card_id = c.id AND r.review_kind = 'review'
+      ORDER BY r.reviewed_at DESC
+      LIMIT 1
+    ) last_review ON TRUE
+    WHERE d.owner_id = auth.uid()
+      AND NOT COALESCE(c.is_suspended, false)
+      AND (COALESCE(jsonb_array_length(p_query->'deck_ids'), 0) = 0
+           OR c.deck_id::TEXT IN (SELECT jsonb_array_elements_text(p_query->'deck_ids')))
+      AND (COALESCE(jsonb_array_length(p_query->'tags'), 0) = 0
+           OR COALESCE(c.tags, '{}') && ARRAY(SELECT jsonb_array_elements_text(p_query->'tags')))
+      AND (COALESCE(jsonb_array_length(p_query->'card_states'), 0) = 0
+           OR COALESCE(c.card_state, 'new') IN (SELECT jsonb_array_elements_text(p_query->'card_states')))
+      AND (p_query->>'min_lapses' IS NULL
+           OR COALESCE(c.lapse_count, 0) >= (p_query->>'min_lapses')::INTEGER)
+      AND (p_query->>'max_ease' IS NULL
+           OR COALESCE(c.ease_factor, 2.5) <= (p_query->>'max_ease')::NUMERIC)
+      AND (p_query->>'min_days_overdue' IS NULL
+           OR (COALESCE(c.card_state, 'new') <> 'new'
+               AND COALESCE(c.next_due, NOW()) <= NOW() - (p_query->>'min_days_overdue')::NUMERIC * INTERVAL '1 day'))
+      AND (COALESCE(jsonb_array_length(p_query->'last_ratings'), 0) = 0
+           OR last_review.rating IN (SELECT jsonb_array_elements_text(p_query->'last_ratings')::SMALLINT))
+  ) matched
+  ORDER BY matched.sort_position
+  LIMIT GREATEST(p_limit, 0);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_leeches(p_deck_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  card_id UUID,
+  deck_id UUID,
+  deck_name TEXT,
+  card_type TEXT,
+  front TEXT,
+  back TEXT,
+  tags TEXT[],
+  lapse_count INTEGER,
+  ease_factor NUMERIC,
+  interval_days INTEGER,
+  is_suspended BOOLEAN,
+  review_history JSONB)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id,
+         c.deck_id,
+         d.name,
+         COALESCE(c.type, 'basic')::TEXT,
+         c.front,
+         c.back,
+         COALESCE(c.tags, '{}'),
+         COALESCE(c.lapse_count, 0),
+         COALESCE(c.ease_factor, 2.5)::NUMERIC,
+         COALESCE(c.interval, 1)::INTEGER,
+         COALESCE(c.is_suspended, false),
+         COALESCE((
+           SELECT jsonb_agg(jsonb_build_object(
+                    'rating', r.rating,
+                    'reviewed_at', r.reviewed_at,
+                    'time_taken', r.time_taken,
+                    'interval_before', r.interval_before)
+                  ORDER BY r.reviewed_at)
+           FROM public.reviews r
+           WHERE r.card_id = c.id AND r.review_kind = 'review'
+         ), '[]'::JSONB)
+  FROM public.cards c
+  JOIN public.decks d ON d.id = c.deck_id
+  WHERE d.owner_id = auth.uid()
+    AND COALESCE(c.is_leech, false)
+    AND (p_deck_id IS NULL OR c.deck_id = p_deck_id)
+  ORDER BY COALESCE(c.lapse_count, 0) DESC, c.created_at;
+$$;
+
+CREATE OR REPLACE FUNCTION get_streak_info(p_user_id UUID)
+RETURNS TABLE (
+  current_streak INTEGER,
+  longest_streak INTEGER,
+  total_study_days INTEGER,
+  last_study_date DATE
+) AS $$
+DECLARE
+  settings RECORD;
+  today DATE;
+  study_dates DATE[];
+  vacation_dates DATE[];
+  check_date DATE;
+  run INTEGER;
+BEGIN
+  SELECT * INTO settings FROM public.study_day_settings(p_user_id);
+  today := public.study_date_at(NOW(), settings.time_zone, settings.day_start_hour);
+
+  SELECT ARRAY_AGG(DISTINCT public.study_date_at(reviewed_at, settings.time_zone, settings.day_start_hour))
+  INTO study_dates
+  FROM reviews r
+  JOIN cards c ON r.card_id = c.id
+  JOIN decks d ON c.deck_id = d.id
+  WHERE d.owner_id = p_user_id
+    AND r.review_kind = 'review'
+    AND reviewed_at >= NOW() - INTERVAL '1 year';
+
+  SELECT ARRAY_AGG(date)
+  INTO vacation_dates
+  FROM daily_workload
+  WHERE user_id = p_user_id AND is_vacation;
+
+  vacation_dates := COALESCE(vacation_dates, ARRAY[]::DATE[]);
+  current_streak := 0;
+  longest_streak := 0;
+  total_study_days := COALESCE(array_length(study_dates, 1), 0);
+
+  IF total_study_days = 0 THEN
+    RETURN QUERY SELECT 0, 0, 0, NULL::DATE;
+    RETURN;
+  END IF;
+
+  SELECT MAX(date_val) INTO last_study_date FROM unnest(study_dates) AS date_val;
+
+  -- Current streak: walk back from today; not having studied yet today is fine
+  check_date := today;
+  WHILE check_date > today - 366 LOOP
+    IF check_date = ANY(study_dates) THEN
+      current_streak := current_streak + 1;
+    ELSIF NOT (check_date = ANY(vacation_dates) OR check_date = today) THEN
+      EXIT;
+    END IF;
+    check_date := check_date - 1;
+  END LOOP;
+
+  -- Longest streak: longest run of study days, stepping over vacation days
+  run := 0;
+  FOR check_date IN
+    SELECT generate_series(MIN(date_val), MAX(date_val), INTERVAL '1 day')::DATE
+    FROM unnest(study_dates) AS date_val
+  LOOP
+    IF check_date = ANY(study_dates) THEN
+      run := run + 1;
+      longest_streak := GREATEST(longest_streak, run);
+    ELSIF NOT check_date = ANY(vacation_dates) THEN
+      run := 0;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT current_streak, longest_streak, total_study_days, last_study_date;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Retention and insights count answers only: a manual entry has no rating
+CREATE OR REPLACE VIEW public.deck_retention_buckets AS
+SELECT
+  r.deck_id,
+  CASE
+    WHEN interval_before <= 1 THEN '1'
+    WHEN interval_before <= 3 THEN '3'
+    WHEN interval_before <= 7 THEN '7'
+    WHEN interval_before <= 15 THEN '15'
+    ELSE '30+'
+  END AS interval_bucket,
+  count(*)                                   AS reviews,
+  sum(CASE WHEN r.rating = 0 THEN 1 ELSE 0 END) AS lapses,
+  round( (1 - sum(CASE WHEN r.rating = 0 THEN 1 ELSE 0 END)::numeric / count(*)) * 100, 2) AS retention
+FROM public.reviews r
+WHERE interval_before IS NOT NULL
+  AND r.review_kind = 'review'
+GROUP BY r.deck_id, interval_bucket;
+
+CREATE OR REPLACE FUNCTION public.deck_learning_insights(p_deck_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  WITH hourly AS (
+    SELECT to_char(r.reviewed_at, 'HH24') AS hr,
+           avg(CASE WHEN r.rating >= 2 THEN 1 ELSE 0 END) AS positivity
+    FROM public.reviews r
+    JOIN public.cards c ON c.id = r.card_id
+    WHERE c.deck_id = p_deck_id
+      AND r.review_kind = 'review'
+      AND r.reviewed_at > now() - interval '60 days'
+    GROUP BY hr
+  ), best AS (
+    SELECT hr FROM hourly ORDER BY positivity DESC NULLS LAST LIMIT 1
+  ), recent AS (
+    SELECT unnest(coalesce(c.tags, ARRAY['(untagged)'])) AS tag,
+           r.reviewed_at::date AS day,
+           CASE WHEN r.rating >= 2 THEN 1 ELSE 0 END AS positive
+    FROM public.reviews r
+    JOIN public.cards c ON c.id = r.card_id
+    WHERE c.deck_id = p_deck_id
+      AND r.review_kind = 'review'
+      AND r.reviewed_at > now() - interval '30 days'
+  ), tag_daily AS (
+    SELECT tag, day, avg(positive) AS pos FROM recent GROUP BY tag, day
+  ), tag_stats AS (
+    SELECT tag,
+           max(pos) - min(pos) AS delta,
+           avg(pos) AS avg_pos
+    FROM tag_daily GROUP BY tag
+  ), fastest AS (
+    SELECT tag FROM tag_stats ORDER BY delta DESC NULLS LAST LIMIT 1
+  ), hardest AS (
+    SELECT tag FROM tag_stats ORDER BY avg_pos ASC NULLS LAST LIMIT 1
+  ), optimal_cards AS (
+    SELECT round(percentile_cont(0.5) WITHIN GROUP (ORDER BY cards_studied))::int AS cards
+    FROM public.study_logs
+    WHERE fatigue_score IS NOT NULL AND fatigue_score < 70
+  ), overall AS (
+    SELECT round(avg(CASE WHEN r.rating >= 2 THEN 1 ELSE 0 END)*100,0) AS positivity
+    FROM public.reviews r JOIN public.cards c ON c.id = r.card_id
+    WHERE c.deck_id = p_deck_id AND r.review_kind = 'review'
+  )
+  SELECT jsonb_build_object(
+    'best_hour',(SELECT hr FROM best),
+    'positivity',(SELECT positivity FROM overall),
+    'fastest_topic',(SELECT tag FROM fastest),
+    'hardest_topic',(SELECT tag FROM hardest),
+    'optimal_cards',(SELECT cards FROM optimal_cards)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.user_learning_insights(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  WITH hourly AS (
+    SELECT to_char(r.reviewed_at, 'HH24') AS hr,
+           avg(CASE WHEN r.rating >= 2 THEN 1 ELSE 0 END) AS positivity
+    FROM public.reviews r
+    WHERE r.owner_id = p_user_id
+      AND r.review_kind = 'review'
+      AND r.reviewed_at > now() - interval '60 days'
+    GROUP BY hr
+  ), best AS (
+    SELECT hr FROM hourly ORDER BY positivity DESC NULLS LAST LIMIT 1
+  ), recent AS (
+    SELECT unnest(coalesce(c.tags, ARRAY['(untagged)'])) AS tag,
+           r.reviewed_at::date AS day,
+           CASE WHEN r.rating >= 2 THEN 1 ELSE 0 END AS positive
+    FROM public.reviews r
+    JOIN public.cards c ON c.id = r.card_id
+    WHERE r.owner_id = p_user_id
+      AND r.review_kind = 'review'
+      AND r.reviewed_at > now() - interval '30 days'
+  ), tag_daily AS (
+    SELECT tag, day, avg(positive) AS pos FROM recent GROUP BY tag, day
+  ), tag_stats AS (
+    SELECT tag,
+           max(pos) - min(pos) AS delta,
+           avg(pos) AS avg_pos
+    FROM tag_daily GROUP BY tag
+  ), fastest AS (
+    SELECT tag FROM tag_stats ORDER BY delta DESC NULLS LAST LIMIT 1
+  ), hardest AS (
+    SELECT tag FROM tag_stats ORDER BY avg_pos ASC NULLS LAST LIMIT 1
+  ), optimal_cards AS (
+    SELECT round(percentile_cont(0.5) WITHIN GROUP (ORDER BY cards_studied))::int AS cards
+    FROM public.study_logs
+    WHERE user_id = p_user_id AND fatigue_score IS NOT NULL AND fatigue_score < 70
+  ), overall AS (
+    SELECT round(avg(CASE WHEN r.rating >= 2 THEN 1 ELSE 0 END)*100,0) AS positivity
+    FROM public.reviews r
+    WHERE r.owner_id = p_user_id AND r.review_kind = 'review'
+  )
+  SELECT jsonb_build_object(
+    'best_hour',(SELECT hr FROM best),
+    'positivity',(SELECT positivity FROM overall),
+    'fastest_topic',(SELECT tag FROM fastest),
+    'hardest_topic',(SELECT tag FROM hardest),
+    'optimal_cards',(SELECT cards FROM optimal_cards)
+  );
+$$;
@@ -0,0 +1,346 @@
+-- Deck Hierarchy and Option Groups
+-- Decks nest under a parent deck, as Anki's "Parent::Child" names do.
+-- Studying a parent includes the cards of every deck below it. Deck options
+-- become named option groups: many decks point at one deck_configs row
+-- through decks.config_id, and changing the group changes all of them.
+
+-- ========================================
+-- DECK TREE
+-- ========================================
+
+ALTER TABLE public.decks ADD COLUMN IF NOT EXISTS parent_id UUID
+  REFERENCES public.decks(id) ON DELETE CASCADE;
+ALTER TABLE public.decks ADD CONSTRAINT decks_not_own_parent
+  CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_decks_parent_id ON public.decks (parent_id);
+
+-- A deck and every deck below it
+CREATE OR REPLACE FUNCTION public.deck_subtree(p_deck_id UUID)
+RETURNS TABLE (deck_id UUID)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE tree AS (
+    SELECT d.id FROM public.decks d WHERE d.id = p_deck_id
+    UNION
+    SELECT child.id FROM public.decks child JOIN tree ON child.parent_id = tree.id
+  )
+  SELECT id FROM tree;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.deck_subtree(UUID) TO authenticated;
+
+-- ========================================
+-- OPTION GROUPS
+-- ========================================
+
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS owner_id UUID
+  DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS name TEXT NOT NULL DEFAULT 'Default';
+
+ALTER TABLE public.decks ADD COLUMN IF NOT EXISTS config_id UUID
+  REFERENCES public.deck_configs(id) ON DELETE SET NULL;
+
+-- Every existing config becomes a group named after the deck it belonged to
+UPDATE public.deck_configs dc SET owner_id = d.owner_id, name = d.name
+FROM public.decks d
+WHERE d.id = dc.deck_id;
+
+UPDATE public.decks d SET config_id = dc.id
+FROM public.deck_configs dc
+WHERE dc.deck_id = d.id AND d.config_id IS NULL;
+
+-- Groups belong to a user now, not to one deck
+DROP POLICY IF EXISTS "deck_configs_owner_access" ON public.deck_configs;
+DROP INDEX IF EXISTS public.idx_deck_configs_deck_id;
+ALTER TABLE public.deck_configs DROP COLUMN IF EXISTS deck_id;
+ALTER TABLE public.deck_configs ALTER COLUMN owner_id SET NOT NULL;
+
+CREATE POLICY "deck_configs_owner_access" ON public.deck_configs
+  FOR ALL USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_deck_configs_owner ON public.deck_configs (owner_id);
+CREATE INDEX IF NOT EXISTS idx_decks_config_id ON public.decks (config_id);
+
+COMMENT ON TABLE public.deck_configs IS 'Named option groups of advanced SRS settings, shared by the decks pointing at them';
+
+-- A deck's parent and option group must belong to the deck's owner, and a
+-- deck cannot move below one of its own subdecks
+CREATE OR REPLACE FUNCTION public.check_deck_links()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.decks WHERE id = NEW.parent_id AND owner_id = NEW.owner_id) THEN
+      RAISE EXCEPTION 'Parent deck % not found', NEW.parent_id;
+    END IF;
+    IF TG_OP = 'UPDATE' AND EXISTS (SELECT 1 FROM public.deck_subtree(NEW.id) WHERE deck_id = NEW.parent_id) THEN
+      RAISE EXCEPTION 'A deck cannot be moved below its own subdeck';
+    END IF;
+  END IF;
+
+  IF NEW.config_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.deck_configs WHERE id = NEW.config_id AND owner_id = NEW.owner_id) THEN
+    RAISE EXCEPTION 'Option group % not found', NEW.config_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tr_check_deck_links ON public.decks;
+CREATE TRIGGER tr_check_deck_links
+  BEFORE INSERT OR UPDATE OF parent_id, config_id ON public.decks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_deck_links();
+
+-- The caller's deck's option group. Decks without one join the owner's
+-- "Default" group, which is created on first use.
+CREATE OR REPLACE FUNCTION public.get_deck_config(p_deck_id UUID)
+RETURNS public.deck_configs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config_record public.deck_configs;
+  deck_owner UUID;
+BEGIN
+  SELECT owner_id INTO deck_owner
+  FROM public.decks
+  WHERE id = p_deck_id AND owner_id = auth.uid();
+
+  IF deck_owner IS NULL THEN
+    RAISE EXCEPTION 'Deck % not found', p_deck_id;
+  END IF;
+
+  SELECT dc.* INTO config_record
+  FROM public.decks d JOIN public.deck_configs dc ON dc.id = d.config_id
+  WHERE d.id = p_deck_id;
+
+  IF NOT FOUND THEN
+
+    SELECT * INTO config_record
+    FROM public.deck_configs
+    WHERE owner_id = deck_owner AND name = 'Default'
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.deck_configs (owner_id, name)
+      VALUES (deck_owner, 'Default')
+      RETURNING * INTO config_record;
+    END IF;
+
+    UPDATE public.decks SET config_id = config_record.id WHERE id = p_deck_id;
+  END IF;
+
+  RETURN config_record;
+END;
+$$;
+
+-- ========================================
+-- PARENT DECKS STUDY THEIR SUBDECKS
+-- ========================================
+
+CREATE OR REPLACE FUNCTION public.get_backlog_status(p_deck_id UUID)
+RETURNS TABLE (
+  overdue_count INTEGER,
+  daily_intake INTEGER,
+  intake_remaining INTEGER,
+  in_backlog BOOLEAN,
+  days_to_clear INTEGER,
+  mean_recall DOUBLE PRECISION)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config_record public.deck_configs;
+  reviewed_today INTEGER;
+  day_start TIMESTAMPTZ := public.study_day_start(auth.uid());
+  day_end TIMESTAMPTZ := public.study_day_start(auth.uid(), public.study_date(auth.uid()) + 1);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.decks WHERE id = p_deck_id AND owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Deck % not found', p_deck_id;
+  END IF;
+
+  SELECT * INTO config_record FROM public.get_deck_config(p_deck_id);
+  daily_intake := COALESCE(config_record.backlog_daily_intake, 100);
+
+  SELECT COUNT(*)::INTEGER, AVG(public.estimate_recall(c.interval, c.ease_factor, c.next_due))
+  INTO overdue_count, mean_recall
+  FROM public.cards c
+  WHERE c.deck_id IN (SELECT deck_id FROM public.deck_subtree(p_deck_id))
+    AND c.card_state = 'review'
+    AND NOT COALESCE(c.is_suspended, false)
+    AND c.next_due < day_end;
+
+  SELECT COUNT(*)::INTEGER INTO reviewed_today
+  FROM public.reviews r JOIN public.cards c ON r.card_id = c.id
+  WHERE c.deck_id IN (SELECT deck_id FROM public.deck_subtree(p_deck_id)) AND r.reviewed_at >= day_start AND r.interval_before >= 1;
+
+  intake_remaining := GREATEST(0, daily_intake - reviewed_today);
+  in_backlog := overdue_count > daily_intake;
+  days_to_clear := CASE
+    WHEN overdue_count = 0 THEN 0
+    WHEN overdue_count <= intake_remaining THEN 1
+    -- Whatever today still takes, then full days after that
+    ELSE CASE WHEN intake_remaining > 0 THEN 1 ELSE 0 END
+      + CEIL((overdue_count - intake_remaining)::NUMERIC / daily_intake)::INTEGER
+  END;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Cards now come from the whole subtree, each with the deck it belongs to
+DROP FUNCTION IF EXISTS public.get_advanced_study_queue(UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_advanced_study_queue(
+  p_deck_id UUID,
+  p_new_limit INTEGER DEFAULT 20,
+  p_total_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  result_card_id UUID,
+  result_card_type TEXT,
+  result_front TEXT,
+  result_back TEXT,
+  result_card_state TEXT,
+  result_learning_step INTEGER,
+  result_lapse_count INTEGER,
+  result_is_leech BOOLEAN,
+  result_next_due TIMESTAMPTZ,
+  result_ease_factor NUMERIC,
+  result_interval_days INTEGER,
+  result_priority INTEGER,
+  result_review_count INTEGER,
+  result_last_studied TIMESTAMPTZ,
+  result_stability DOUBLE PRECISION,
+  result_fsrs_difficulty DOUBLE PRECISION,
+  result_recall_probability DOUBLE PRECISION,
+  result_note_id UUID,
+  result_deck_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config_record public.deck_configs;
+  new_cards_today INTEGER := 0;
+  remaining_new_cards INTEGER;
+  backlog_mode BOOLEAN := FALSE;
+  backlog_remaining INTEGER := 0;
+  bury_new BOOLEAN;
+  bury_review BOOLEAN;
+  bury_learning BOOLEAN;
+  day_start TIMESTAMPTZ := public.study_day_start(auth.uid());
+  day_end TIMESTAMPTZ := public.study_day_start(auth.uid(), public.study_date(auth.uid()) + 1);
+BEGIN
+  SELECT * INTO config_record FROM public.get_deck_config(p_deck_id);
+  SELECT COALESCE(COUNT(*),0) INTO new_cards_today
+  FROM public.reviews r JOIN public.cards c ON r.card_id=c.id
+  WHERE c.deck_id IN (SELECT deck_id FROM public.deck_subtree(p_deck_id)) AND r.reviewed_at>=day_start AND r.review_kind='review' AND c.review_count=0;
+  remaining_new_cards := GREATEST(0, config_record.new_cards_per_day - new_cards_today);
+  bury_new := COALESCE(config_record.bury_new_siblings, TRUE);
+  bury_review := COALESCE(config_record.bury_review_siblings, TRUE);
+  bury_learning := COALESCE(config_record.bury_learning_siblings, FALSE);
+
+  SELECT b.in_backlog, b.intake_remaining INTO backlog_mode, backlog_remaining
+  FROM public.get_backlog_status(p_deck_id) b;
+
+  RETURN QUERY WITH prioritized_cards AS (
+    SELECT c.id AS pc_card_id,
+           COALESCE(c.type,'basic') AS pc_card_type,
+           COALESCE(c.front,'') AS pc_front,
+           COALESCE(c.back,'') AS pc_back,
+           COALESCE(c.card_state,'new') AS pc_card_state,
+           COALESCE(c.learning_step,0) AS pc_learning_step,
+           COALESCE(c.lapse_count,0) AS pc_lapse_count,
+           COALESCE(c.is_leech,false) AS pc_is_leech,
+           COALESCE(c.next_due,NOW()) AS pc_next_due,
+           COALESCE(c.ease_factor,2.5) AS pc_ease_factor,
+           COALESCE(c.interval,1)::numeric AS pc_interval_days,
+           CASE WHEN COALESCE(c.card_state,'new')='relearning' THEN 1
+                WHEN COALESCE(c.card_state,'new')='learning' THEN 2
+                WHEN COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<day_end THEN 3
+                WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN 4
+                ELSE 5 END AS pc_priority,
+           COALESCE(c.review_count,0) AS pc_review_count,
+           c.last_studied AS pc_last_studied,
+           c.stability AS pc_stability,
+           c.fsrs_difficulty AS pc_fsrs_difficulty,
+           CASE WHEN COALESCE(c.card_state,'new')='review'
+                THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW()))
+           END AS pc_recall,
+           c.note_id AS pc_note_id,
+           c.deck_id AS pc_deck_id,
+           -- Whether this card's state has sibling burying switched on
+           CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN bury_new
+                WHEN COALESCE(c.card_state,'new')='review' THEN bury_review
+                ELSE bury_learning END AS pc_buries,
+           -- First card of each note in study order; later siblings wait for another day
+           ROW_NUMBER() OVER (PARTITION BY c.note_id ORDER BY
+                CASE WHEN COALESCE(c.card_state,'new')='relearning' THEN 1
+                     WHEN COALESCE(c.card_state,'new')='learning' THEN 2
+                     WHEN COALESCE(c.card_state,'new')='review' THEN 3
+                     ELSE 4 END,
+                COALESCE(c.next_due,NOW()), c.id) AS pc_sibling_rank,
+           ROW_NUMBER() OVER (PARTITION BY COALESCE(c.card_state,'new') ORDER BY 
+                CASE WHEN COALESCE(c.card_state,'new') IN('learning','relearning') THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                -- Backlog mode: most at-risk reviews first
+                CASE WHEN backlog_mode AND COALESCE(c.card_state,'new')='review'
+                     THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW())) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='review' THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN c.new_position END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN c.created_at END ASC NULLS LAST) AS pc_state_rank
+    FROM public.cards c JOIN public.decks d ON c.deck_id=d.id
+    WHERE c.deck_id IN (SELECT deck_id FROM public.deck_subtree(p_deck_id)) AND d.owner_id=auth.uid() AND NOT COALESCE(c.is_suspended,false) AND (
+      COALESCE(c.card_state,'new') IN('learning','relearning') OR
+      (COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<day_end) OR
+      (COALESCE(c.card_state,'new')='new' AND remaining_new_cards>0) OR
+      (c.review_count=0 AND remaining_new_cards>0))
+    -- Buried: a sibling was already reviewed today
+    AND NOT (
+      CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN bury_new
+           WHEN COALESCE(c.card_state,'new')='review' THEN bury_review
+           ELSE bury_learning END
+      AND public.sibling_reviewed_today(c.id, c.note_id, day_start))
+  )
+  SELECT pc_card_id,
+         pc_card_type::text,
+         pc_front,
+         pc_back,
+         pc_card_state::text,
+         pc_learning_step,
+         pc_lapse_count,
+         pc_is_leech,
+         pc_next_due,
+         pc_ease_factor::numeric,
+         pc_interval_days::int,
+         pc_priority,
+         pc_review_count::int,
+         pc_last_studied::timestamptz,
+         pc_stability::double precision,
+         pc_fsrs_difficulty::double precision,
+         pc_recall::double precision,
+         pc_note_id,
+         pc_deck_id
+  FROM prioritized_cards
+  WHERE ((pc_card_state<>'new' AND pc_priority<>4) OR (pc_state_rank<=remaining_new_cards))
+    -- Backlog mode caps today's overdue reviews at the intake left
+    AND NOT (backlog_mode AND pc_priority=3 AND pc_state_rank>backlog_remaining)
+    -- One card per note in a session so siblings don't give each other away
+    AND NOT (pc_buries AND pc_sibling_rank>1)
+  ORDER BY pc_priority,
+           CASE WHEN backlog_mode AND pc_priority=3 THEN pc_state_rank END ASC NULLS LAST,
+           pc_next_due NULLS LAST
+  LIMIT p_total_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_advanced_study_queue(UUID, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,208 @@
+-- Queue Display Order
+-- Per option group choices for the order of the study queue:
+--   new_card_order     which new cards are gathered first: deck order (deck by
+--                      deck, then position), random, grouped by tag, or by
+--                      creation time
+--   review_sort_order  due date, relative overdueness (days late / interval),
+--                      ease ascending, or random
+--   new_review_mix     new cards mixed evenly into the reviews, after them or
+--                      before them
+-- Learning and relearning cards always come first. Random orders are seeded
+-- with the start of the study day, so a reloaded queue keeps its order.
+
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS new_card_order TEXT DEFAULT 'deck'
+  CHECK (new_card_order IN ('deck', 'random', 'tag', 'created'));
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS review_sort_order TEXT DEFAULT 'due'
+  CHECK (review_sort_order IN ('due', 'overdueness', 'ease', 'random'));
+ALTER TABLE public.deck_configs ADD COLUMN IF NOT EXISTS new_review_mix TEXT DEFAULT 'reviews_first'
+  CHECK (new_review_mix IN ('mix', 'reviews_first', 'new_first'));
+
+-- The subtree now also gives each deck's path below the studied deck, for
+-- gathering new cards deck by deck
+DROP FUNCTION IF EXISTS public.deck_subtree(UUID);
+CREATE OR REPLACE FUNCTION public.deck_subtree(p_deck_id UUID)
+RETURNS TABLE (deck_id UUID, deck_path TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE tree AS (
+    SELECT d.id, d.name AS path FROM public.decks d WHERE d.id = p_deck_id
+    UNION
+    SELECT child.id, tree.path || '::' || child.name
+    FROM public.decks child JOIN tree ON child.parent_id = tree.id
+  )
+  SELECT id, path FROM tree;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.deck_subtree(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_advanced_study_queue(
+  p_deck_id UUID,
+  p_new_limit INTEGER DEFAULT 20,
+  p_total_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  result_card_id UUID,
+  result_card_type TEXT,
+  result_front TEXT,
+  result_back TEXT,
+  result_card_state TEXT,
+  result_learning_step INTEGER,
+  result_lapse_count INTEGER,
+  result_is_leech BOOLEAN,
+  result_next_due TIMESTAMPTZ,
+  result_ease_factor NUMERIC,
+  result_interval_days INTEGER,
+  result_priority INTEGER,
+  result_review_count INTEGER,
+  result_last_studied TIMESTAMPTZ,
+  result_stability DOUBLE PRECISION,
+  result_fsrs_difficulty DOUBLE PRECISION,
+  result_recall_probability DOUBLE PRECISION,
+  result_note_id UUID,
+  result_deck_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config_record public.deck_configs;
+  new_cards_today INTEGER := 0;
+  remaining_new_cards INTEGER;
+  backlog_mode BOOLEAN := FALSE;
+  backlog_remaining INTEGER := 0;
+  bury_new BOOLEAN;
+  bury_review BOOLEAN;
+  bury_learning BOOLEAN;
+  new_order TEXT;
+  review_order TEXT;
+  review_mix TEXT;
+  day_start TIMESTAMPTZ := public.study_day_start(auth.uid());
+  day_end TIMESTAMPTZ := public.study_day_start(auth.uid(), public.study_date(auth.uid()) + 1);
+BEGIN
+  SELECT * INTO config_record FROM public.get_deck_config(p_deck_id);
+  SELECT COALESCE(COUNT(*),0) INTO new_cards_today
+  FROM public.reviews r JOIN public.cards c ON r.card_id=c.id
+  WHERE c.deck_id IN (SELECT deck_id FROM public.deck_subtree(p_deck_id)) AND r.reviewed_at>=day_start AND r.review_kind='review' AND c.review_count=0;
+  remaining_new_cards := GREATEST(0, config_record.new_cards_per_day - new_cards_today);
+  bury_new := COALESCE(config_record.bury_new_siblings, TRUE);
+  bury_review := COALESCE(config_record.bury_review_siblings, TRUE);
+  bury_learning := COALESCE(config_record.bury_learning_siblings, FALSE);
+  new_order := COALESCE(config_record.new_card_order, 'deck');
+  review_order := COALESCE(config_record.review_sort_order, 'due');
+  review_mix := COALESCE(config_record.new_review_mix, 'reviews_first');
+
+  SELECT b.in_backlog, b.intake_remaining INTO backlog_mode, backlog_remaining
+  FROM public.get_backlog_status(p_deck_id) b;
+
+  RETURN QUERY WITH prioritized_cards AS (
+    SELECT c.id AS pc_card_id,
+           COALESCE(c.type,'basic') AS pc_card_type,
+           COALESCE(c.front,'') AS pc_front,
+           COALESCE(c.back,'') AS pc_back,
+           COALESCE(c.card_state,'new') AS pc_card_state,
+           COALESCE(c.learning_step,0) AS pc_learning_step,
+           COALESCE(c.lapse_count,0) AS pc_lapse_count,
+           COALESCE(c.is_leech,false) AS pc_is_leech,
+           COALESCE(c.next_due,NOW()) AS pc_next_due,
+           COALESCE(c.ease_factor,2.5) AS pc_ease_factor,
+           COALESCE(c.interval,1)::numeric AS pc_interval_days,
+           CASE WHEN COALESCE(c.card_state,'new')='relearning' THEN 1
+                WHEN COALESCE(c.card_state,'new')='learning' THEN 2
+                WHEN COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<day_end THEN 3
+                WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN 4
+                ELSE 5 END AS pc_priority,
+           COALESCE(c.review_count,0) AS pc_review_count,
+           c.last_studied AS pc_last_studied,
+           c.stability AS pc_stability,
+           c.fsrs_difficulty AS pc_fsrs_difficulty,
+           CASE WHEN COALESCE(c.card_state,'new')='review'
+                THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW()))
+           END AS pc_recall,
+           c.note_id AS pc_note_id,
+           c.deck_id AS pc_deck_id,
+           -- Whether this card's state has sibling burying switched on
+           CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN bury_new
+                WHEN COALESCE(c.card_state,'new')='review' THEN bury_review
+                ELSE bury_learning END AS pc_buries,
+           -- First card of each note in study order; later siblings wait for another day
+           ROW_NUMBER() OVER (PARTITION BY c.note_id ORDER BY
+                CASE WHEN COALESCE(c.card_state,'new')='relearning' THEN 1
+                     WHEN COALESCE(c.card_state,'new')='learning' THEN 2
+                     WHEN COALESCE(c.card_state,'new')='review' THEN 3
+                     ELSE 4 END,
+                COALESCE(c.next_due,NOW()), c.id) AS pc_sibling_rank,
+           ROW_NUMBER() OVER (PARTITION BY COALESCE(c.card_state,'new') ORDER BY 
+                CASE WHEN COALESCE(c.card_state,'new') IN('learning','relearning') THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                -- Backlog mode: most at-risk reviews first
+                CASE WHEN backlog_mode AND COALESCE(c.card_state,'new')='review'
+                     THEN public.estimate_recall(COALESCE(c.interval,1), COALESCE(c.ease_factor,2.5), COALESCE(c.next_due,NOW())) END ASC NULLS LAST,
+                -- Review sort order: most overdue relative to the interval, hardest, or shuffled
+                CASE WHEN COALESCE(c.card_state,'new')='review' AND review_order='overdueness'
+                     THEN -EXTRACT(EPOCH FROM (NOW()-COALESCE(c.next_due,NOW()))) / 86400.0 / GREATEST(COALESCE(c.interval,1),1) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='review' AND review_order='ease' THEN COALESCE(c.ease_factor,2.5) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='review' AND review_order='random' THEN md5(c.id::text || day_start::text) END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='review' THEN COALESCE(c.next_due,NOW()) END ASC NULLS LAST,
+                -- New card gather order: deck by deck, grouped by tag, shuffled, or oldest first
+                CASE WHEN (COALESCE(c.card_state,'new')='new' OR c.review_count=0) AND new_order='deck' THEN st.deck_path END ASC NULLS LAST,
+                CASE WHEN (COALESCE(c.card_state,'new')='new' OR c.review_count=0) AND new_order='tag'
+                     THEN (SELECT MIN(t) FROM unnest(c.tags) t) END ASC NULLS LAST,
+                CASE WHEN (COALESCE(c.card_state,'new')='new' OR c.review_count=0) AND new_order='random' THEN md5(c.id::text || day_start::text) END ASC NULLS LAST,
+                CASE WHEN (COALESCE(c.card_state,'new')='new' OR c.review_count=0) AND new_order IN ('deck','tag') THEN c.new_position END ASC NULLS LAST,
+                CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN c.created_at END ASC NULLS LAST,
+                c.id) AS pc_state_rank
+    FROM public.cards c JOIN public.decks d ON c.deck_id=d.id
+    JOIN public.deck_subtree(p_deck_id) st ON st.deck_id=c.deck_id
+    WHERE d.owner_id=auth.uid() AND NOT COALESCE(c.is_suspended,false) AND (
+      COALESCE(c.card_state,'new') IN('learning','relearning') OR
+      (COALESCE(c.card_state,'new')='review' AND COALESCE(c.next_due,NOW())<day_end) OR
+      (COALESCE(c.card_state,'new')='new' AND remaining_new_cards>0) OR
+      (c.review_count=0 AND remaining_new_cards>0))
+    -- Buried: a sibling was already reviewed today
+    AND NOT (
+      CASE WHEN COALESCE(c.card_state,'new')='new' OR c.review_count=0 THEN bury_new
+           WHEN COALESCE(c.card_state,'new')='review' THEN bury_review
+           ELSE bury_learning END
+      AND public.sibling_reviewed_today(c.id, c.note_id, day_start))
+  ),
+  selected_cards AS (
+    SELECT p.*,
+           ROW_NUMBER() OVER (PARTITION BY pc_priority ORDER BY pc_state_rank, pc_next_due) AS pc_order,
+           COUNT(*) OVER (PARTITION BY pc_priority) AS pc_group_size
+    FROM prioritized_cards p
+    WHERE ((pc_card_state<>'new' AND pc_priority<>4) OR (pc_state_rank<=remaining_new_cards))
+      -- Backlog mode caps today's overdue reviews at the intake left
+      AND NOT (backlog_mode AND pc_priority=3 AND pc_state_rank>backlog_remaining)
+      -- One card per note in a session so siblings don't give each other away
+      AND NOT (pc_buries AND pc_sibling_rank>1)
+  )
+  SELECT pc_card_id,
+         pc_card_type::text,
+         pc_front,
+         pc_back,
+         pc_card_state::text,
+         pc_learning_step,
+         pc_lapse_count,
+         pc_is_leech,
+         pc_next_due,
+         pc_ease_factor::numeric,
+         pc_interval_days::int,
+         pc_priority,
+         pc_review_count::int,
+         pc_last_studied::timestamptz,
+         pc_stability::double precision,
+         pc_fsrs_difficulty::double precision,
+         pc_recall::double precision,
+         pc_note_id,
+         pc_deck_id
+  FROM selected_cards
+  -- Learning steps first, then reviews and new cards as the deck mixes them
+  ORDER BY CASE WHEN pc_priority<=2 THEN pc_priority ELSE 3 END,
+           -- Mix: new cards spread evenly through the reviews
+           CASE WHEN pc_priority>2 AND review_mix='mix' THEN pc_order::DOUBLE PRECISION / (pc_group_size + 1) END ASC NULLS LAST,
+           CASE WHEN pc_priority>2 AND review_mix='new_first' THEN -pc_priority END ASC NULLS LAST,
+           pc_priority,
+           pc_order
+  LIMIT p_total_limit;
+END;
+$$;
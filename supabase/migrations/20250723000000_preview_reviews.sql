@@ -0,0 +1,206 @@
+-- Preview Reviews and Study Ahead
+-- Cramming before an exam or browsing a deck should not touch card schedules.
+-- Answers given in those sessions are logged as 'preview' entries. They keep
+-- their rating, but the readers of the review log count only review_kind =
+-- 'review': retention buckets, learning insights, streaks, daily limits and
+-- sibling burying have done so since manual entries were added, and the
+-- backlog's intake count does below. On the client, the FSRS optimizer,
+-- workload forecast and stats filter the same way. A preview entry stores the
+-- card as it was, so undo_review can drop it like any other review.
+--
+-- get_study_ahead_queue serves the cards for these sessions: everything due
+-- within the next N study days, or the whole deck.
+
+-- ========================================
+-- REVIEW LOG: PREVIEW ENTRIES
+-- ========================================
+
+ALTER TABLE public.reviews DROP CONSTRAINT IF EXISTS reviews_review_kind_check;
+ALTER TABLE public.reviews ADD CONSTRAINT reviews_review_kind_check
+  CHECK (review_kind IN ('review', 'manual', 'preview'));
+
+-- Logs an answer without rescheduling the card; returns the review id for undo
+CREATE OR REPLACE FUNCTION public.log_preview_review(
+  p_card_id UUID,
+  p_rating INTEGER,
+  p_time_taken INTEGER DEFAULT 0,
+  p_response_time_ms INTEGER DEFAULT NULL)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  review_id BIGINT;
+BEGIN
+  IF p_rating NOT BETWEEN 0 AND 3 THEN
+    RAISE EXCEPTION 'Rating must be between 0 and 3, got %', p_rating;
+  END IF;
+
+  INSERT INTO public.reviews (card_id, rating, time_taken, response_time_ms, review_kind, card_snapshot)
+  SELECT c.id, p_rating, COALESCE(p_time_taken, 0), p_response_time_ms, 'preview',
+         jsonb_build_object(
+           'card_state', c.card_state,
+           'learning_step', c.learning_step,
+           'lapse_count', c.lapse_count,
+           'ease_factor', c.ease_factor,
+           'interval', c.interval,
+           'review_count', c.review_count,
+           'last_studied', c.last_studied,
+           'next_due', c.next_due,
+           'is_leech', c.is_leech,
+           'stability', c.stability,
+           'fsrs_difficulty', c.fsrs_difficulty,
+           'tags', c.tags,
+           'is_suspended', c.is_suspended,
+           'new_position', c.new_position)
+  FROM public.cards c
+  JOIN public.decks d ON d.id = c.deck_id
+  WHERE c.id = p_card_id AND d.owner_id = auth.uid()
+  RETURNING id INTO review_id;
+
+  IF review_id IS NULL THEN
+    RAISE EXCEPTION 'Card % not found', p_card_id;
+  END IF;
+
+  RETURN review_id;
+END;
+$$;
+
+-- ========================================
+-- BACKLOG INTAKE COUNTS REVIEWS ONLY
+-- ========================================
+
+CREATE OR REPLACE FUNCTION public.get_backlog_status(p_deck_id UUID)
+RETURNS TABLE (
+  overdue_count INTEGER,
+  daily_intake INTEGER,
+  intake_remaining INTEGER,
+  in_backlog BOOLEAN,
+  days_to_clear INTEGER,
+  mean_recall DOUBLE PRECISION)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  config_record public.deck_configs;
+  reviewed_today INTEGER;
+  day_start TIMESTAMPTZ := public.study_day_start(auth.uid());
+  day_end TIMESTAMPTZ := public.study_day_start(auth.uid(), public.study_date(auth.uid()) + 1);
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.decks WHERE id = p_deck_id AND owner_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Deck % not found', p_deck_id;
+  END IF;
+
+  SELECT * INTO config_record FROM public.get_deck_config(p_deck_id);
+  daily_intake := COALESCE(config_record.backlog_daily_intake, 100);
+
+  SELECT COUNT(*)::INTEGER, AVG(public.estimate_recall(c.interval, c.ease_factor, c.next_due))
+  INTO overdue_count, mean_recall
+  FROM public.cards c
+  WHERE c.deck_id IN (SELECT deck_id FROM public.deck_subtree(p_deck_id))
+    AND c.card_state = 'review'
+    AND NOT COALESCE(c.is_suspended, false)
+    AND c.next_due < day_end;
+
+  SELECT COUNT(*)::INTEGER INTO reviewed_today
+  FROM public.reviews r JOIN public.cards c ON r.card_id = c.id
+  WHERE c.deck_id IN (SELECT deck_id FROM public.deck_subtree(p_deck_id)) AND r.reviewed_at >= day_start
+    AND r.review_kind = 'review' AND r.interval_before >= 1;
+
+  intake_remaining := GREATEST(0, daily_intake - reviewed_today);
+  in_backlog := overdue_count > daily_intake;
+  days_to_clear := CASE
+    WHEN overdue_count = 0 THEN 0
+    WHEN overdue_count <= intake_remaining THEN 1
+    -- Whatever today still takes, then full days after that
+    ELSE CASE WHEN intake_remaining > 0 THEN 1 ELSE 0 END
+      + CEIL((overdue_count - intake_remaining)::NUMERIC / daily_intake)::INTEGER
+  END;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- ========================================
+-- STUDY AHEAD QUEUE
+-- ========================================
+
+-- Same result_* columns as get_advanced_study_queue. p_days = 0 is what is
+-- due today, 1 adds tomorrow and so on; NULL returns every card in the deck
+-- and its subdecks. Suspended cards are left out; nothing is buried or
+-- limited, since nothing is rescheduled.
+CREATE OR REPLACE FUNCTION public.get_study_ahead_queue(
+  p_deck_id UUID,
+  p_days INTEGER DEFAULT NULL,
+  p_limit INTEGER DEFAULT 200)
+RETURNS TABLE (
+  result_card_id UUID,
+  result_deck_id UUID,
+  result_card_type TEXT,
+  result_front TEXT,
+  result_back TEXT,
+  result_card_state TEXT,
+  result_learning_step INTEGER,
+  result_lapse_count INTEGER,
+  result_is_leech BOOLEAN,
+  result_next_due TIMESTAMPTZ,
+  result_ease_factor NUMERIC,
+  result_interval_days INTEGER,
+  result_priority INTEGER,
+  result_review_count INTEGER,
+  result_last_studied TIMESTAMPTZ,
+  result_stability DOUBLE PRECISION,
+  result_fsrs_difficulty DOUBLE PRECISION,
+  result_recall_probability DOUBLE PRECISION)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  horizon TIMESTAMPTZ;
+BEGIN
+  IF p_days IS NOT NULL THEN
+    horizon := public.study_day_start(auth.uid(), public.study_date(auth.uid()) + GREATEST(p_days, 0) + 1);
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id,
+         c.deck_id,
+         COALESCE(c.type, 'basic')::TEXT,
+         COALESCE(c.front, ''),
+         COALESCE(c.back, ''),
+         COALESCE(c.card_state, 'new')::TEXT,
+         COALESCE(c.learning_step, 0),
+         COALESCE(c.lapse_count, 0),
+         COALESCE(c.is_leech, false),
+         COALESCE(c.next_due, NOW()),
+         COALESCE(c.ease_factor, 2.5)::NUMERIC,
+         COALESCE(c.interval, 1)::INTEGER,
+         5,
+         COALESCE(c.review_count, 0)::INTEGER,
+         c.last_studied::TIMESTAMPTZ,
+         c.stability::DOUBLE PRECISION,
+         c.fsrs_difficulty::DOUBLE PRECISION,
+         CASE WHEN COALESCE(c.card_state, 'new') = 'review'
+              THEN public.estimate_recall(COALESCE(c.interval, 1), COALESCE(c.ease_factor, 2.5), COALESCE(c.next_due, NOW()))
+         END
+  FROM public.cards c
+  JOIN public.decks d ON d.id = c.deck_id
+  JOIN public.deck_subtree(p_deck_id) st ON st.deck_id = c.deck_id
+  WHERE d.owner_id = auth.uid()
+    AND NOT COALESCE(c.is_suspended, false)
+    AND (horizon IS NULL OR (COALESCE(c.card_state, 'new') <> 'new' AND COALESCE(c.next_due, NOW()) < horizon))
+  -- Studied cards by due date, then new cards in deck order
+  ORDER BY COALESCE(c.card_state, 'new') = 'new',
+           CASE WHEN COALESCE(c.card_state, 'new') <> 'new' THEN c.next_due END ASC NULLS LAST,
+           st.deck_path,
+           c.new_position ASC NULLS LAST,
+           c.id
+  LIMIT GREATEST(p_limit, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.log_preview_review(UUID, INTEGER, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_study_ahead_queue(UUID, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,12 @@
+-- Note Fields
+-- Imported Anki notes can have more fields than a card's front and back (an
+-- extra, a source, a mnemonic...). Each imported card keeps its note's fields
+-- by name so nothing is lost and they can be shown or exported later.
+
+-- ========================================
+-- SCHEMA
+-- ========================================
+
+ALTER TABLE public.cards ADD COLUMN IF NOT EXISTS note_fields JSONB;
+
+COMMENT ON COLUMN public.cards.note_fields IS 'Fields of the note the card came from, by name (e.g. from an Anki import)';
@@ -0,0 +1,39 @@
+-- Media Bucket
+-- Media imported with Anki decks is stored once per distinct file content in
+-- a private bucket, at <user id>/<sha256>.<ext>. Cards reference it as
+-- media://<path> instead of embedding base64 data URLs, and the app signs
+-- URLs for those references when cards are shown. Each user reads and writes
+-- only their own folder.
+
+-- ========================================
+-- BUCKET
+-- ========================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('media', 'media', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- ========================================
+-- POLICIES
+-- ========================================
+
+DROP POLICY IF EXISTS "Users can view their own media" ON storage.objects;
+CREATE POLICY "Users can view their own media" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'media' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can upload their own media" ON storage.objects;
+CREATE POLICY "Users can upload their own media" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'media' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Uploads use upsert, which updates an object that is already there
+DROP POLICY IF EXISTS "Users can update their own media" ON storage.objects;
+CREATE POLICY "Users can update their own media" ON storage.objects
+  FOR UPDATE TO authenticated
+  USING (bucket_id = 'media' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can delete their own media" ON storage.objects;
+CREATE POLICY "Users can delete their own media" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'media' AND (storage.foldername(name))[1] = auth.uid()::text);
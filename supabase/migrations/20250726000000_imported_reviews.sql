@@ -0,0 +1,15 @@
+-- Imported Review History
+-- Anki history comes in as ordinary 'review' entries, so every reader of the
+-- review log counts it. Those entries are marked imported so the streak
+-- trigger skips them: recomputing the streak from the whole log once per
+-- inserted row made large imports quadratic. The import recomputes the streak
+-- once with update_user_streak after all its history is in.
+
+ALTER TABLE public.reviews ADD COLUMN IF NOT EXISTS imported BOOLEAN NOT NULL DEFAULT false;
+
+DROP TRIGGER IF EXISTS tr_update_user_streak ON reviews;
+CREATE TRIGGER tr_update_user_streak
+  AFTER INSERT ON reviews
+  FOR EACH ROW
+  WHEN (NEW.review_kind = 'review' AND NOT NEW.imported)
+  EXECUTE FUNCTION trigger_update_user_streak();
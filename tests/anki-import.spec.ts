@@ -1,5 +1,6 @@
 import { test, expect } from '@playwright/test';
 import { TestHelpers, TEST_DECK_DATA } from './utils/testHelpers';
+import { buildModernPackage } from './utils/ankiFixtures';
 
 test.describe('Anki Deck Import & Processing', () => {
   let helpers: TestHelpers;
@@ -256,4 +257,53 @@ test.describe('Anki Deck Import & Processing', () => {
     // Should offer options (update, skip, rename)
     await expect(page.locator('text=Update existing deck')).toBeVisible();
   });
-});
\ No newline at end of file
+});
+
+test.describe('Modern Anki Packages', () => {
+  let helpers: TestHelpers;
+
+  test.beforeEach(async ({ page }) => {
+    helpers = new TestHelpers(page);
+    await helpers.login();
+    await page.goto('/import');
+  });
+
+  test('Test Case 2.9: .anki21b Package With zstd Collection And Protobuf Media', async ({ page }) => {
+    // Anki 2.1.50+ export: zstd collection, protobuf media manifest, zstd media
+    const buffer = await buildModernPackage({
+      notes: [
+        { deck: 'Spanish::Verbs', model: 'Basic', fields: ['hablar', 'to speak <img src="speak.png">'], tags: ['verbs'] },
+        { deck: 'Spanish', model: 'Cloze', fields: ['{{c1::Madrid}} is the capital of {{c2::Spain}}', ''], cards: 2 }
+      ],
+      media: { 'speak.png': new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]) }
+    });
+
+    const collectionRead = helpers.waitForConsoleLog('Found collection file: collection.anki21b', 30000);
+    const mediaRead = helpers.waitForConsoleLog('Extracted media file: 0 -> speak.png', 30000);
+    const parsed = helpers.waitForConsoleLog('Successfully parsed 3 cards from 3 deck(s)', 30000);
+    await page.locator('input[type="file"]').setInputFiles({ name: 'spanish.apkg', mimeType: 'application/zip', buffer });
+    await Promise.all([collectionRead, mediaRead, parsed]);
+
+    // Parent and child decks keep their hierarchy
+    await page.waitForSelector('text=Import completed', { timeout: 30000 });
+    await expect(page.locator('text=Spanish::Verbs')).toBeVisible();
+  });
+
+  test('Test Case 2.10: .colpkg Collection Backup', async ({ page }) => {
+    // A whole-collection backup includes the Default deck
+    const buffer = await buildModernPackage({
+      notes: [
+        { deck: 'Default', model: 'Basic', fields: ['Capital of France', 'Paris'] },
+        { deck: 'Geography', model: 'Basic', fields: ['Longest river', 'The Nile'], tags: ['rivers'] }
+      ]
+    });
+
+    const parsed = helpers.waitForConsoleLog('Successfully parsed 2 cards from 2 deck(s)', 30000);
+    await page.locator('input[type="file"]').setInputFiles({ name: 'collection.colpkg', mimeType: 'application/octet-stream', buffer });
+    await parsed;
+
+    await page.waitForSelector('text=Import completed', { timeout: 30000 });
+    await expect(page.locator('text=Geography')).toBeVisible();
+    await expect(page.locator('text=Default')).toBeVisible();
+  });
+});
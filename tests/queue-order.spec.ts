@@ -0,0 +1,119 @@
+import { test, expect, Page } from '@playwright/test';
+import { TestHelpers } from './utils/testHelpers';
+import type { NewCardOrder, NewReviewMix, ReviewSortOrder } from '../src/types/SRSTypes';
+
+/**
+ * Study queue display order, checked against get_advanced_study_queue itself:
+ * each test builds a throwaway deck with its own option group, reads the
+ * queue through the app's Supabase client and removes the deck again.
+ */
+
+interface QueueOptions {
+  new_card_order: NewCardOrder;
+  review_sort_order: ReviewSortOrder;
+  new_review_mix: NewReviewMix;
+}
+
+interface TestCard {
+  front: string; // Doubles as the card's label in the expected order
+  card_state: 'new' | 'learning' | 'relearning' | 'review';
+  days_ago?: number; // How long ago the card came due
+  interval?: number;
+  ease_factor?: number;
+  tags?: string[];
+  new_position?: number;
+}
+
+/** Fronts of the cards in the order the RPC serves them */
+async function studyQueueOrder(page: Page, options: QueueOptions, cards: TestCard[]): Promise<string[]> {
+  return page.evaluate(async ({ options, cards }) => {
+    const clientModule = '/src/lib/supabaseClient.ts';
+    const { supabase } = await import(/* @vite-ignore */ clientModule);
+    const { data: { session } } = await supabase.auth.getSession();
+    const ownerId = session.user.id;
+    const name = `Queue order ${Date.now()}`;
+
+    const { data: config, error: configError } = await supabase
+      .from('deck_configs').insert({ owner_id: ownerId, name, ...options }).select('id').single();
+    if (configError) throw new Error(configError.message);
+
+    const { data: deck, error: deckError } = await supabase
+      .from('decks').insert({ owner_id: ownerId, name, config_id: config.id }).select('id').single();
+    if (deckError) throw new Error(deckError.message);
+
+    try {
+      const { error: cardsError } = await supabase.from('cards').insert(cards.map(card => ({
+        deck_id: deck.id,
+        type: 'basic',
+        front: card.front,
+        back: card.front,
+        tags: card.tags ?? [],
+        card_state: card.card_state,
+        next_due: new Date(Date.now() - (card.days_ago ?? 0) * 86400000 - 60000).toISOString(),
+        interval: card.interval ?? 1,
+        ease_factor: card.ease_factor ?? 2.5,
+        review_count: card.card_state === 'new' ? 0 : 3,
+        new_position: card.new_position ?? null
+      })));
+      if (cardsError) throw new Error(cardsError.message);
+
+      const { data: queue, error: queueError } = await supabase
+        .rpc('get_advanced_study_queue', { p_deck_id: deck.id, p_new_limit: 20, p_total_limit: 50 });
+      if (queueError) throw new Error(queueError.message);
+      return (queue as { result_front: string }[]).map(row => row.result_front);
+    } finally {
+      await supabase.from('cards').delete().eq('deck_id', deck.id);
+      await supabase.from('decks').delete().eq('id', deck.id);
+      await supabase.from('deck_configs').delete().eq('id', config.id);
+    }
+  }, { options, cards });
+}
+
+const REVIEWS: TestCard[] = [
+  { front: 'short', card_state: 'review', days_ago: 2, interval: 1, ease_factor: 2.5 },
+  { front: 'long', card_state: 'review', days_ago: 5, interval: 100, ease_factor: 1.3 },
+  { front: 'today', card_state: 'review', days_ago: 0, interval: 10, ease_factor: 2.1 }
+];
+
+test.describe('Study Queue Order', () => {
+  test.beforeEach(async ({ page }) => {
+    await new TestHelpers(page).login();
+  });
+
+  test('Test Case 3.11: Review Sort Orders', async ({ page }) => {
+    const learning: TestCard = { front: 'learning', card_state: 'learning' };
+    const order = (review_sort_order: ReviewSortOrder) =>
+      studyQueueOrder(page, { new_card_order: 'deck', review_sort_order, new_review_mix: 'reviews_first' }, [...REVIEWS, learning]);
+
+    // Learning steps lead whatever the review order
+    expect(await order('due')).toEqual(['learning', 'long', 'short', 'today']);
+    // Two days late on a one-day interval beats five days late on a hundred
+    expect(await order('overdueness')).toEqual(['learning', 'short', 'long', 'today']);
+    expect(await order('ease')).toEqual(['learning', 'long', 'today', 'short']);
+
+    const shuffled = await order('random');
+    expect([...shuffled].sort()).toEqual(['learning', 'long', 'short', 'today']);
+    expect(shuffled[0]).toBe('learning');
+  });
+
+  test('Test Case 3.12: New Card Gather Order And Mixing', async ({ page }) => {
+    const newCards: TestCard[] = [
+      { front: 'a', card_state: 'new', tags: ['pharm'], new_position: 1 },
+      { front: 'b', card_state: 'new', tags: ['anatomy'], new_position: 2 },
+      { front: 'c', card_state: 'new', new_position: 3 },
+      { front: 'd', card_state: 'new', tags: ['zoo', 'anatomy'], new_position: 4 }
+    ];
+
+    // Grouped by first tag alphabetically, untagged last, position within a tag
+    expect(await studyQueueOrder(page,
+      { new_card_order: 'tag', review_sort_order: 'due', new_review_mix: 'new_first' },
+      [...newCards, ...REVIEWS]
+    )).toEqual(['b', 'd', 'a', 'c', 'long', 'short', 'today']);
+
+    // Two new cards spread evenly through three reviews
+    expect(await studyQueueOrder(page,
+      { new_card_order: 'deck', review_sort_order: 'due', new_review_mix: 'mix' },
+      [...newCards.slice(0, 2), ...REVIEWS]
+    )).toEqual(['long', 'a', 'short', 'b', 'today']);
+  });
+});
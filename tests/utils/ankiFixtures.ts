@@ -0,0 +1,154 @@
+import JSZip from 'jszip';
+import initSqlJs from 'sql.js';
+
+/**
+ * Builds Anki packages in the format Anki 2.1.50+ exports: a schema 18
+ * collection.anki21b compressed with zstd, a protobuf media manifest and
+ * zstd-compressed media files, next to the legacy collection.anki2 stub.
+ */
+
+export interface FixtureNote {
+  deck: string; // "Parent::Child"
+  model: 'Basic' | 'Cloze';
+  fields: string[];
+  tags?: string[];
+  cards?: number; // Cards generated from the note; cloze notes have one per deletion
+}
+
+export interface FixtureOptions {
+  notes: FixtureNote[];
+  media?: Record<string, Uint8Array>;
+}
+
+const CREATED = Date.UTC(2025, 0, 1) / 1000;
+
+const MODELS = {
+  Basic: { id: 1700000000101, kind: 0, fields: ['Front', 'Back'], qfmt: '{{Front}}', afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}' },
+  Cloze: { id: 1700000000102, kind: 1, fields: ['Text', 'Back Extra'], qfmt: '{{cloze:Text}}', afmt: '{{cloze:Text}}<br>\n{{Back Extra}}' }
+};
+
+// ========================================
+// ENCODING
+// ========================================
+
+/**
+ * A zstd frame of raw (stored) blocks: any zstd decoder reads it, so the
+ * fixtures need no compressor.
+ */
+export function zstdFrame(data: Uint8Array): Uint8Array {
+  const maxBlock = 128 * 1024;
+  const header = [0x28, 0xb5, 0x2f, 0xfd, 0xa0, ...uint32(data.length)]; // Single segment, 4-byte content size
+  const blocks: number[] = [];
+  let offset = 0;
+  do {
+    const size = Math.min(maxBlock, data.length - offset);
+    const last = offset + size >= data.length ? 1 : 0;
+    const blockHeader = last | (size << 3); // Block type 0 = raw
+    blocks.push(blockHeader & 0xff, (blockHeader >> 8) & 0xff, (blockHeader >> 16) & 0xff, ...data.subarray(offset, offset + size));
+    offset += size;
+  } while (offset < data.length);
+  return new Uint8Array([...header, ...blocks]);
+}
+
+function uint32(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+}
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+/** One protobuf field: numbers as varints, strings and bytes length-delimited */
+function protobufField(field: number, value: number | string | Uint8Array): number[] {
+  if (typeof value === 'number') {
+    return [...varint(field * 8), ...varint(value)];
+  }
+  const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+  return [...varint(field * 8 + 2), ...varint(bytes.length), ...bytes];
+}
+
+// ========================================
+// PACKAGES
+// ========================================
+
+/**
+ * Schema 18 collection: decks, note types, fields and templates live in
+ * their own tables and col.decks/col.models are empty
+ */
+async function buildCollection({ notes }: FixtureOptions): Promise<Uint8Array> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run(`
+    CREATE TABLE col (id INTEGER PRIMARY KEY, crt INTEGER, mod INTEGER, scm INTEGER, ver INTEGER, conf TEXT, models TEXT, decks TEXT, dconf TEXT, tags TEXT);
+    CREATE TABLE decks (id INTEGER PRIMARY KEY, name TEXT, mtime_secs INTEGER, usn INTEGER, common BLOB, kind BLOB);
+    CREATE TABLE notetypes (id INTEGER PRIMARY KEY, name TEXT, mtime_secs INTEGER, usn INTEGER, config BLOB);
+    CREATE TABLE fields (ntid INTEGER, ord INTEGER, name TEXT, config BLOB, PRIMARY KEY (ntid, ord));
+    CREATE TABLE templates (ntid INTEGER, ord INTEGER, name TEXT, mtime_secs INTEGER, usn INTEGER, config BLOB, PRIMARY KEY (ntid, ord));
+    CREATE TABLE notes (id INTEGER PRIMARY KEY, guid TEXT, mid INTEGER, mod INTEGER, usn INTEGER, tags TEXT, flds TEXT, sfld TEXT, csum INTEGER, flags INTEGER, data TEXT);
+    CREATE TABLE cards (id INTEGER PRIMARY KEY, nid INTEGER, did INTEGER, ord INTEGER, mod INTEGER, usn INTEGER, type INTEGER, queue INTEGER, due INTEGER, ivl INTEGER, factor INTEGER, reps INTEGER, lapses INTEGER, left INTEGER, odue INTEGER, odid INTEGER, flags INTEGER, data TEXT);
+    CREATE TABLE revlog (id INTEGER PRIMARY KEY, cid INTEGER, usn INTEGER, ease INTEGER, ivl INTEGER, lastIvl INTEGER, factor INTEGER, time INTEGER, type INTEGER);
+  `);
+  db.run("INSERT INTO col VALUES (1, ?, 0, 0, 18, '', '', '', '', '')", [CREATED]);
+
+  // Every level of a deck path is a deck of its own, like Anki keeps them
+  const deckIds = new Map<string, number>([['Default', 1]]);
+  notes.forEach(note => {
+    const parts = note.deck.split('::');
+    parts.forEach((_, depth) => {
+      const path = parts.slice(0, depth + 1).join('::');
+      if (!deckIds.has(path)) deckIds.set(path, 1700000000000 + deckIds.size);
+    });
+  });
+  deckIds.forEach((id, path) => {
+    db.run('INSERT INTO decks VALUES (?, ?, 0, 0, x\'\', x\'\')', [id, path.split('::').join('\u001f')]);
+  });
+
+  Object.entries(MODELS).forEach(([name, model]) => {
+    db.run('INSERT INTO notetypes VALUES (?, ?, 0, 0, ?)', [model.id, name, new Uint8Array(protobufField(1, model.kind))]);
+    model.fields.forEach((field, ord) => db.run('INSERT INTO fields VALUES (?, ?, ?, x\'\')', [model.id, ord, field]));
+    const template = [...protobufField(1, model.qfmt), ...protobufField(2, model.afmt)];
+    db.run('INSERT INTO templates VALUES (?, 0, ?, 0, 0, ?)', [model.id, name === 'Cloze' ? 'Cloze' : 'Card 1', new Uint8Array(template)]);
+  });
+
+  let cardId = 1700000001000;
+  notes.forEach((note, index) => {
+    const noteId = 1700000000500 + index;
+    const tags = note.tags?.length ? ` ${note.tags.join(' ')} ` : '';
+    db.run('INSERT INTO notes VALUES (?, ?, ?, 0, 0, ?, ?, ?, 0, 0, \'\')',
+      [noteId, `guid${index}`, MODELS[note.model].id, tags, note.fields.join('\u001f'), note.fields[0]]);
+    for (let ord = 0; ord < (note.cards ?? 1); ord++) {
+      db.run('INSERT INTO cards VALUES (?, ?, ?, ?, 0, 0, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'{}\')',
+        [cardId++, noteId, deckIds.get(note.deck) ?? 1, ord, index + 1]);
+    }
+  });
+
+  const bytes = db.export();
+  db.close();
+  return bytes;
+}
+
+/**
+ * A package as Anki 2.1.50+ writes it. `.apkg` exports and `.colpkg`
+ * collection backups share this layout.
+ */
+export async function buildModernPackage(options: FixtureOptions): Promise<Buffer> {
+  const zip = new JSZip();
+  const media = Object.entries(options.media ?? {});
+
+  zip.file('collection.anki21b', zstdFrame(await buildCollection(options)));
+  zip.file('collection.anki2', new Uint8Array(0)); // Stub for older Anki versions
+  zip.file('meta', new Uint8Array(protobufField(1, 3))); // Package version: latest
+
+  const entries = media.flatMap(([name, data]) =>
+    protobufField(1, new Uint8Array([...protobufField(1, name), ...protobufField(2, data.length)])));
+  zip.file('media', zstdFrame(new Uint8Array(entries)));
+  media.forEach(([, data], index) => zip.file(String(index), zstdFrame(data)));
+
+  return zip.generateAsync({ type: 'nodebuffer' });
+}